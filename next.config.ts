@@ -5,6 +5,8 @@ const withSerwist = withSerwistInit({
   swSrc: "src/app/sw.ts",
   swDest: "public/sw.js",
   disable: process.env.NODE_ENV !== "production",
+  // PDF/A fonts are only fetched when a PDF/A receipt is downloaded, so keep them out of the precache
+  globPublicPatterns: ["*", "!(fonts)/**/*"],
 });
 
 const nextConfig: NextConfig = {
@@ -12,6 +14,12 @@ const nextConfig: NextConfig = {
   turbopack: {},
   // Fix workspace root inference issues
   outputFileTracingRoot: __dirname,
+  experimental: {
+    serverActions: {
+      // Deal attachments (up to 5MB) are sent to a server action as base64 data URLs
+      bodySizeLimit: "8mb",
+    },
+  },
   // Security headers for production
   async headers() {
     return [
@@ -37,7 +45,8 @@ const nextConfig: NextConfig = {
           },
           {
             key: "Permissions-Policy",
-            value: "camera=(), microphone=(), geolocation=()",
+            // Camera for the document photo and selfie of ID verification
+            value: "camera=(self), microphone=(), geolocation=()",
           },
           {
             key: "Content-Security-Policy",
@@ -49,6 +58,7 @@ const nextConfig: NextConfig = {
               "img-src 'self' data: blob: https:",
               "connect-src 'self' https://*.supabase.co wss://*.supabase.co https://api.resend.com https://va.vercel-scripts.com",
               "worker-src 'self' blob:", // Allow web workers with blob URLs (e.g., confetti)
+              "frame-src 'self' https://*.supabase.co", // PDFs of document deals are viewed from storage
               "frame-ancestors 'none'",
               "base-uri 'self'",
               "form-action 'self'",
@@ -22,6 +22,7 @@ import {
   Copy as DuplicateIcon,
   ShieldCheck,
   Smartphone,
+  IdCard,
   Calendar,
 } from "lucide-react";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
@@ -57,6 +58,9 @@ import {
   getTabButtonClass,
   getGridClass,
   isStaleDeal,
+  isClosedDeal,
+  getNudgeEmails,
+  getSignerProgress,
 } from "@/lib/dashboard-ui";
 import {
   CopyableId,
@@ -102,6 +106,12 @@ const DealCard = ({
   const config = getDealStatusConfig(deal, userId);
   const Icon = config.icon;
   const isStale = isCreator && isStaleDeal(deal);
+  const signerProgress = getSignerProgress(deal);
+  const counterpartyLabel = isCreator
+    ? signerProgress
+      ? `To ${signerProgress.total} signers`
+      : `To ${deal.recipientName}`
+    : `From ${deal.creatorName}`;
 
   if (viewMode === "list") {
     return (
@@ -109,7 +119,7 @@ const DealCard = ({
         <Card
           className={cn(
             "flex items-center gap-4 p-3 rounded-xl border bg-card hover:bg-muted/40 hover:border-primary/20 transition-all duration-200 shadow-sm hover:shadow-md cursor-pointer",
-            deal.status === "voided" && "opacity-60 grayscale-[0.5]",
+            isClosedDeal(deal) && "opacity-60 grayscale-[0.5]",
             isStale && "border-amber-500/50 shadow-amber-500/10 hover:border-amber-500/75"
           )}
           onClick={() => onNavigate(deal.publicId)}
@@ -147,8 +157,13 @@ const DealCard = ({
                 ) : (
                   <Inbox className="h-3 w-3" />
                 )}
-                <span>{isCreator ? `To ${deal.recipientName}` : `From ${deal.creatorName}`}</span>
+                <span>{counterpartyLabel}</span>
               </div>
+              {signerProgress && (
+                <Badge variant="neutral" className="h-4 px-1.5 text-[9px] font-medium border">
+                  {signerProgress.signed}/{signerProgress.total} signed
+                </Badge>
+              )}
               <span className="hidden sm:inline opacity-50">•</span>
               <div className="hidden sm:flex items-center gap-1 opacity-60">
                 <Calendar className="h-3 w-3" />
@@ -262,7 +277,7 @@ const DealCard = ({
       <Card
         className={cn(
           dashboardStyles.cardBase,
-          deal.status === "voided" && "opacity-60 grayscale-[0.5]",
+          isClosedDeal(deal) && "opacity-60 grayscale-[0.5]",
           isStale && "border-amber-500/50 shadow-amber-500/10 hover:border-amber-500/75"
         )}
         onClick={() => onNavigate(deal.publicId)}
@@ -300,9 +315,12 @@ const DealCard = ({
                     ) : (
                       <Inbox className="h-3 w-3 shrink-0" />
                     )}
-                    <span className="truncate">
-                      {isCreator ? `To ${deal.recipientName}` : `From ${deal.creatorName}`}
-                    </span>
+                    <span className="truncate">{counterpartyLabel}</span>
+                    {signerProgress && (
+                      <Badge variant="neutral" className="h-4 px-1.5 text-[9px] font-medium border shrink-0">
+                        {signerProgress.signed}/{signerProgress.total} signed
+                      </Badge>
+                    )}
                   </div>
 
                   {/* Verifications */}
@@ -320,6 +338,12 @@ const DealCard = ({
                           <span className="text-[9px] font-medium uppercase tracking-wider">Phone</span>
                         </div>
                       )}
+                      {deal.verifications.some(v => v.verification_type === "id") && (
+                        <div className="flex items-center gap-1 px-1.5 py-0.5 rounded-md bg-emerald-500/10 border border-emerald-500/20 text-emerald-600 dark:text-emerald-400">
+                          <IdCard className="h-2.5 w-2.5" />
+                          <span className="text-[9px] font-medium uppercase tracking-wider">ID</span>
+                        </div>
+                      )}
                     </div>
                   )}
                 </div>
@@ -560,9 +584,9 @@ export default function AgreementsPage() {
     } else if (filterType === "completed") {
       deals = deals.filter((d) => d.status === "confirmed");
     } else if (filterType === "voided") {
-      deals = deals.filter((d) => d.status === "voided");
+      deals = deals.filter(isClosedDeal);
     } else if (filterType === "all") {
-      deals = deals.filter((d) => d.status === "confirmed" || d.status === "voided");
+      deals = deals.filter((d) => d.status === "confirmed" || isClosedDeal(d));
     }
 
     return deals.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
@@ -578,7 +602,7 @@ export default function AgreementsPage() {
       (d) => d.status === "pending" || d.status === "sealing"
     ).length;
     const completed = creatorDeals.filter((d) => d.status === "confirmed").length;
-    const voided = creatorDeals.filter((d) => d.status === "voided").length;
+    const voided = creatorDeals.filter(isClosedDeal).length;
     const totalHistory = completed + voided;
     return { active, completed, voided, totalHistory };
   }, [storeDeals, user]);
@@ -619,14 +643,18 @@ export default function AgreementsPage() {
   };
 
   const handleNudge = async (deal: Deal) => {
-    if (deal.recipientEmail && isSupabaseConfigured()) {
+    const emails = getNudgeEmails(deal);
+    if (emails.length > 0 && isSupabaseConfigured()) {
       setIsNudging(deal.id);
-      const result = await sendDealInvitationAction({ dealId: deal.id, recipientEmail: deal.recipientEmail });
+      const results = await Promise.all(
+        emails.map((recipientEmail) => sendDealInvitationAction({ dealId: deal.id, recipientEmail }))
+      );
+      const result = results.find((r) => !r.success) || results[0];
       setIsNudging(null);
 
       if (result.success) {
         setNudgeSuccess(deal.id);
-        toast.success(`Reminder sent to ${deal.recipientEmail}!`, {
+        toast.success(`Reminder sent to ${emails.join(", ")}!`, {
           icon: <Mail className="h-4 w-4 text-primary" />,
         });
         refreshDeals(false); // Refresh items in background to clear stale states
@@ -696,7 +724,7 @@ export default function AgreementsPage() {
               delay={0.1}
             />
             <StatCard
-              label="Voided"
+              label="Voided & Expired"
               value={stats.voided}
               icon={XCircle}
               colorClass="text-destructive"
@@ -36,6 +36,8 @@ import {
   getToggleButtonClass,
   getTabButtonClass,
   getGridClass,
+  isDealSigner,
+  isClosedDeal,
 } from "@/lib/dashboard-ui";
 import {
   CopyableId,
@@ -73,7 +75,7 @@ const InboxCard = ({
         <Card
           className={cn(
             "flex items-center gap-4 p-3 rounded-xl border bg-card hover:bg-muted/40 hover:border-primary/20 transition-all duration-200 shadow-sm hover:shadow-md cursor-pointer",
-            deal.status === "voided" && "opacity-60 grayscale-[0.5]",
+            isClosedDeal(deal) && "opacity-60 grayscale-[0.5]",
             isPending && "ring-1 ring-rose-500/20 border-rose-500/20 shadow-rose-500/5"
           )}
           onClick={() => onNavigate(deal.publicId)}
@@ -165,7 +167,7 @@ const InboxCard = ({
       <Card
         className={cn(
           dashboardStyles.cardBase,
-          deal.status === "voided" && "opacity-60 grayscale-[0.5]",
+          isClosedDeal(deal) && "opacity-60 grayscale-[0.5]",
           isPending && "ring-1 ring-rose-500/30 border-rose-500/30 shadow-rose-500/10 hover:border-rose-500/50"
         )}
         onClick={() => onNavigate(deal.publicId)}
@@ -335,11 +337,12 @@ export default function InboxPage() {
 
   // Data Logic
   const inboxDeals = useMemo(() => {
-    // Filter deals where the user is the recipient (by ID or email)
+    // Filter deals where the user is the recipient or a co-signer (by ID or email)
     return storeDeals.filter(
       (deal) =>
         (user?.id && deal.recipientId === user.id) ||
-        (user?.email && deal.recipientEmail?.toLowerCase() === user.email.toLowerCase())
+        (user?.email && deal.recipientEmail?.toLowerCase() === user.email.toLowerCase()) ||
+        isDealSigner(deal, user?.id, user?.email)
     );
   }, [storeDeals, user]);
 
@@ -363,9 +366,9 @@ export default function InboxPage() {
     } else if (filterType === "signed") {
       deals = deals.filter((d) => d.status === "confirmed");
     } else if (filterType === "voided") {
-      deals = deals.filter((d) => d.status === "voided");
+      deals = deals.filter(isClosedDeal);
     } else if (filterType === "all") {
-      deals = deals.filter((d) => d.status === "confirmed" || d.status === "voided");
+      deals = deals.filter((d) => d.status === "confirmed" || isClosedDeal(d));
     }
 
     return deals.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
@@ -377,7 +380,7 @@ export default function InboxPage() {
       (d) => d.status === "pending" || d.status === "sealing"
     ).length;
     const signed = inboxDeals.filter((d) => d.status === "confirmed").length;
-    const voided = inboxDeals.filter((d) => d.status === "voided").length;
+    const voided = inboxDeals.filter(isClosedDeal).length;
     const total = inboxDeals.length;
     return { pending, signed, voided, total };
   }, [inboxDeals]);
@@ -450,7 +453,7 @@ export default function InboxPage() {
               delay={0.1}
             />
             <StatCard
-              label="Voided"
+              label="Voided & Expired"
               value={stats.voided}
               icon={XCircle}
               colorClass="text-destructive"
@@ -36,7 +36,7 @@ import { getUserDealsAction, sendDealInvitationAction } from "@/app/actions/deal
 import { toast } from "sonner";
 import { OnboardingModal } from "@/components/onboarding-modal";
 import { cn } from "@/lib/utils";
-import { dashboardStyles, isStaleDeal } from "@/lib/dashboard-ui";
+import { dashboardStyles, isStaleDeal, getNudgeEmails } from "@/lib/dashboard-ui";
 import {
   CopyableId,
   getDealStatusConfig,
@@ -488,7 +488,7 @@ export default function DashboardPage() {
 
   const upcomingDeadlines = useMemo(() => {
     const dealsWithDates = storeDeals
-      .filter((d) => d.status !== "voided" && d.status !== "confirmed")
+      .filter((d) => d.status === "pending" || d.status === "sealing")
       .map((d) => {
         const dateTerm = d.terms.find(
           (t) =>
@@ -531,13 +531,17 @@ export default function DashboardPage() {
   }, [storeDeals]);
 
   const handleNudge = async (deal: Deal) => {
-    if (!deal.recipientEmail) {
+    const emails = getNudgeEmails(deal);
+    if (emails.length === 0) {
       navigator.clipboard.writeText(`${window.location.origin}/d/public/${deal.publicId}`);
       toast.success("Link copied to clipboard!");
       return;
     }
     setNudgeLoading(deal.id);
-    const result = await sendDealInvitationAction({ dealId: deal.id, recipientEmail: deal.recipientEmail });
+    const results = await Promise.all(
+      emails.map((recipientEmail) => sendDealInvitationAction({ dealId: deal.id, recipientEmail }))
+    );
+    const result = results.find((r) => !r.success) || results[0];
     setNudgeLoading(null);
 
     if (result.success) {
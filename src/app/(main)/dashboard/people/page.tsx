@@ -539,6 +539,8 @@ const ContactCard = ({
                             ? "bg-emerald-500/10 text-emerald-600 border-emerald-500/20"
                             : deal.status === "voided"
                               ? "bg-destructive/10 text-destructive border-destructive/20"
+                              : deal.status === "expired"
+                                ? "bg-muted text-muted-foreground border-border"
                               : "bg-amber-500/10 text-amber-600 border-amber-500/20"
                         )}
                       >
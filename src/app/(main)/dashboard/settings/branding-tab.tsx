@@ -0,0 +1,339 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+
+import { Building2, ImagePlus, RefreshCw, Sparkles, Trash2, Lock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { cn, getContrastTextColor } from "@/lib/utils";
+import { dashboardStyles } from "@/lib/dashboard-ui";
+import { isSupabaseConfigured } from "@/lib/supabase";
+import {
+  getBrandingProfileAction,
+  updateBrandingProfileAction,
+  uploadBrandLogoAction,
+} from "@/app/actions/deal-actions";
+import { SettingsGroupSkeleton } from "@/components/dashboard/shared-components";
+import { User as UserType } from "@/types";
+import { toast } from "sonner";
+
+// Type for settings user
+type SettingsUser = UserType | null;
+
+const DEFAULT_ACCENT = "#0f172a";
+
+export const BrandingTab = ({ user }: { user: SettingsUser }) => {
+  const isPro = user?.isPro || false;
+  const canSave = isPro && isSupabaseConfigured() && !!user && !user.id.startsWith("demo-");
+
+  const [companyName, setCompanyName] = useState("");
+  const [logoUrl, setLogoUrl] = useState("");
+  const [accentColor, setAccentColor] = useState("");
+  const [footerText, setFooterText] = useState("");
+  const [legalText, setLegalText] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isUploadingLogo, setIsUploadingLogo] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Load the saved branding profile
+  useEffect(() => {
+    const loadBranding = async () => {
+      if (isSupabaseConfigured() && user && !user.id.startsWith("demo-")) {
+        const { branding, error } = await getBrandingProfileAction();
+        if (error) {
+          toast.error("Failed to load branding");
+        } else if (branding) {
+          setCompanyName(branding.companyName || "");
+          setLogoUrl(branding.logoUrl || "");
+          setAccentColor(branding.accentColor || "");
+          setFooterText(branding.footerText || "");
+          setLegalText(branding.legalText || "");
+        }
+      }
+      setIsLoading(false);
+    };
+
+    loadBranding();
+  }, [user]);
+
+  const handleLogoUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    // PDFs can only embed PNG and JPEG
+    if (file.type !== "image/png" && file.type !== "image/jpeg") {
+      toast.error("Please select a PNG or JPEG image");
+      return;
+    }
+
+    if (file.size > 1024 * 1024) {
+      toast.error("Logo must be less than 1MB");
+      return;
+    }
+
+    setIsUploadingLogo(true);
+
+    try {
+      const reader = new FileReader();
+      reader.onload = async (event) => {
+        const base64 = event.target?.result as string;
+        const { logoUrl: newUrl, error } = await uploadBrandLogoAction(base64);
+        if (error) {
+          toast.error("Failed to upload logo", { description: error });
+        } else if (newUrl) {
+          setLogoUrl(newUrl);
+          toast.success("Logo uploaded", { description: "Save changes to apply it" });
+        }
+        setIsUploadingLogo(false);
+      };
+      reader.readAsDataURL(file);
+    } catch {
+      toast.error("Failed to process image");
+      setIsUploadingLogo(false);
+    }
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const { error } = await updateBrandingProfileAction({
+        companyName: companyName.trim(),
+        logoUrl,
+        accentColor,
+        footerText: footerText.trim(),
+        legalText: legalText.trim(),
+      });
+
+      if (error) {
+        toast.error("Failed to save branding", { description: error });
+        return;
+      }
+      toast.success("Branding saved", { description: "New PDFs and receipts will use it" });
+    } catch {
+      toast.error("An error occurred while saving");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-8">
+        <SettingsGroupSkeleton count={3} />
+      </div>
+    );
+  }
+
+  const previewAccent = accentColor || DEFAULT_ACCENT;
+
+  return (
+    <div className="space-y-6">
+      {!isPro && (
+        <Card className={cn(dashboardStyles.cardBase, "h-auto cursor-default border-primary/30 bg-primary/5")}>
+          <CardContent className="p-4 sm:p-5 flex items-start gap-4">
+            <div className="h-10 w-10 rounded-xl flex items-center justify-center shrink-0 border shadow-sm bg-primary/10 text-primary border-primary/20">
+              <Sparkles className="h-5 w-5" />
+            </div>
+            <div className="space-y-1 py-0.5">
+              <h4 className="font-semibold text-sm text-foreground">Custom branding is a Pro feature</h4>
+              <p className="text-xs text-muted-foreground">
+                Upgrade to put your logo, colours and legal text on sealed PDFs and receipt emails.
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        {/* Preview */}
+        <div className="lg:col-span-1 space-y-4">
+          <h3 className="text-sm font-semibold text-foreground flex items-center gap-2">Preview</h3>
+          <Card className={cn(dashboardStyles.cardBase, "h-auto cursor-default overflow-hidden")}>
+            <div className="h-1" style={{ backgroundColor: previewAccent }} />
+            <CardContent className="p-6 space-y-5">
+              <div className="flex items-center gap-3 min-h-10">
+                {logoUrl && (
+                  // eslint-disable-next-line @next/next/no-img-element -- user-uploaded logo from storage
+                  <img src={logoUrl} alt="Logo" className="max-h-10 max-w-[120px] object-contain" />
+                )}
+                <span className="font-bold text-lg truncate" style={{ color: previewAccent }}>
+                  {companyName || (logoUrl ? "" : "Proofo.")}
+                </span>
+              </div>
+              <div className="space-y-2">
+                <div className="h-2 w-3/4 rounded-full bg-secondary" />
+                <div className="h-2 w-1/2 rounded-full bg-secondary" />
+                <div className="h-2 w-2/3 rounded-full bg-secondary" />
+              </div>
+              <div
+                className="inline-flex rounded-lg px-4 py-2 text-xs font-semibold"
+                style={{ backgroundColor: previewAccent, color: getContrastTextColor(previewAccent) }}
+              >
+                View Sealed Deal
+              </div>
+              {(footerText || legalText) && (
+                <div className="border-t border-border/50 pt-3 space-y-1">
+                  {footerText && <p className="text-[10px] text-muted-foreground">{footerText}</p>}
+                  {legalText && (
+                    <p className="text-[10px] text-muted-foreground/70 line-clamp-3">{legalText}</p>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Form */}
+        <div className="lg:col-span-2">
+          <Card className={cn(dashboardStyles.cardBase, "h-full flex flex-col cursor-default")}>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                PDF & Receipt Branding
+                {!isPro && (
+                  <Badge variant="secondary" className="gap-1 text-[10px]">
+                    <Lock className="h-3 w-3" /> Pro
+                  </Badge>
+                )}
+              </CardTitle>
+              <CardDescription>Applied to the PDFs and receipt emails of deals you create</CardDescription>
+            </CardHeader>
+
+            <CardContent className="space-y-6 flex-1">
+              <div className="grid sm:grid-cols-2 gap-5">
+                <div className="space-y-2">
+                  <Label htmlFor="company-name">Company Name</Label>
+                  <div className="relative">
+                    <Building2 className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                    <Input
+                      id="company-name"
+                      value={companyName}
+                      onChange={(e) => setCompanyName(e.target.value)}
+                      placeholder="e.g. Acme Studio"
+                      maxLength={100}
+                      disabled={!isPro}
+                      className="pl-9 bg-background"
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="accent-color">Accent Colour</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      id="accent-color"
+                      type="color"
+                      value={previewAccent}
+                      onChange={(e) => setAccentColor(e.target.value)}
+                      disabled={!isPro}
+                      className="w-12 p-1 bg-background cursor-pointer"
+                    />
+                    <Input
+                      value={accentColor}
+                      onChange={(e) => setAccentColor(e.target.value)}
+                      placeholder={DEFAULT_ACCENT}
+                      maxLength={7}
+                      disabled={!isPro}
+                      className="font-mono bg-background"
+                    />
+                  </div>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Logo</Label>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept="image/png,image/jpeg"
+                  onChange={handleLogoUpload}
+                  className="hidden"
+                />
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="gap-2"
+                    disabled={!canSave || isUploadingLogo}
+                    onClick={() => fileInputRef.current?.click()}
+                  >
+                    {isUploadingLogo ? (
+                      <RefreshCw className="h-3.5 w-3.5 animate-spin" />
+                    ) : (
+                      <ImagePlus className="h-3.5 w-3.5" />
+                    )}
+                    {logoUrl ? "Replace Logo" : "Upload Logo"}
+                  </Button>
+                  {logoUrl && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="gap-2 text-muted-foreground"
+                      disabled={!isPro}
+                      onClick={() => setLogoUrl("")}
+                    >
+                      <Trash2 className="h-3.5 w-3.5" /> Remove
+                    </Button>
+                  )}
+                </div>
+                <p className="text-[10px] text-muted-foreground">PNG or JPEG, up to 1MB.</p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="footer-text">Footer Text</Label>
+                <Input
+                  id="footer-text"
+                  value={footerText}
+                  onChange={(e) => setFooterText(e.target.value)}
+                  placeholder="e.g. Acme Studio s.r.o. · Registered in Prague · VAT CZ12345678"
+                  maxLength={200}
+                  disabled={!isPro}
+                  className="bg-background"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="legal-text">Legal Boilerplate</Label>
+                <Textarea
+                  id="legal-text"
+                  value={legalText}
+                  onChange={(e) => setLegalText(e.target.value)}
+                  placeholder="Terms, disclaimers or governing law added to every sealed PDF"
+                  maxLength={2000}
+                  rows={5}
+                  disabled={!isPro}
+                  className="bg-background"
+                />
+                <p className="text-[10px] text-muted-foreground">{legalText.length}/2000</p>
+              </div>
+            </CardContent>
+
+            <CardFooter className="bg-muted/30 border-t p-4 flex justify-end items-center mt-auto">
+              <Button
+                onClick={handleSave}
+                disabled={!canSave || isSaving}
+                size="sm"
+                className="gap-2 min-w-[120px]"
+              >
+                {isSaving && <RefreshCw className="h-3.5 w-3.5 animate-spin" />}
+                {isSaving ? "Saving..." : "Save Changes"}
+              </Button>
+            </CardFooter>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
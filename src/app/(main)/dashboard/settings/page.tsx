@@ -41,6 +41,7 @@ import {
   AtSign,
   Send,
   Activity,
+  Stamp,
 } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
@@ -99,6 +100,8 @@ import { toast } from "sonner";
 import { useAppearance } from "@/components/providers/appearance-provider";
 import { SignatureEditor } from "@/components/signature-editor";
 import { BillingTab } from "./billing-tab";
+import { BrandingTab } from "./branding-tab";
+import { PasskeysSection } from "./passkeys-section";
 
 // Type for settings user (extends User with optional fields that may be locally modified)
 type SettingsUser = UserType | null;
@@ -110,6 +113,7 @@ const TABS = [
   { id: "account", label: "Account", icon: Shield },
   { id: "appearance", label: "Appearance", icon: Palette },
   { id: "billing", label: "Billing", icon: CreditCard },
+  { id: "branding", label: "Branding", icon: Stamp },
   { id: "notifications", label: "Notifications", icon: Bell },
 ];
 
@@ -797,6 +801,10 @@ const AccountTab = ({ user }: { user: SettingsUser }) => {
         </div>
       </SettingGroup>
 
+      <SettingGroup title="Passkeys" description="Sign sealed deals with a passkey for a stronger proof than a drawn signature">
+        <PasskeysSection user={user} />
+      </SettingGroup>
+
       <SettingGroup title="Account Information">
         <Card className={cn(dashboardStyles.cardBase, "h-auto cursor-default")}>
           <CardContent className="p-4 space-y-4">
@@ -1674,6 +1682,7 @@ export default function SettingsPage() {
             {activeTab === "account" && <AccountTab user={user} />}
             {activeTab === "appearance" && <AppearanceTab />}
             {activeTab === "billing" && <BillingTab user={user} />}
+            {activeTab === "branding" && <BrandingTab user={user} />}
             {activeTab === "notifications" && <NotificationsTab />}
           </motion.div>
         </AnimatePresence>
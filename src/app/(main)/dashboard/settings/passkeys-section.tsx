@@ -0,0 +1,212 @@
+"use client";
+
+import { useState, useEffect } from "react";
+
+import { Fingerprint, KeyRound, Loader2, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Separator } from "@/components/ui/separator";
+import { cn } from "@/lib/utils";
+import { dashboardStyles } from "@/lib/dashboard-ui";
+import { isSupabaseConfigured } from "@/lib/supabase";
+import { base64UrlToBytes, bytesToBase64Url, isPasskeySupported } from "@/lib/passkeys";
+import { formatDate, timeAgo } from "@/lib/crypto";
+import {
+  deletePasskeyAction,
+  getPasskeyRegistrationOptionsAction,
+  listPasskeysAction,
+  registerPasskeyAction,
+} from "@/app/actions/passkey-actions";
+import { Passkey, User as UserType } from "@/types";
+import { toast } from "sonner";
+
+// Type for settings user
+type SettingsUser = UserType | null;
+
+/**
+ * Passkeys bound to the account. Once a deal is sealed, a party can sign its
+ * seal with one of them for a stronger proof than a drawn signature.
+ */
+export const PasskeysSection = ({ user }: { user: SettingsUser }) => {
+  const canManage = isSupabaseConfigured() && !!user && !user.id.startsWith("demo-");
+
+  const [passkeys, setPasskeys] = useState<Passkey[]>([]);
+  const [name, setName] = useState("");
+  const [isSupported, setIsSupported] = useState(true);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isAdding, setIsAdding] = useState(false);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setIsSupported(isPasskeySupported());
+
+    const loadPasskeys = async () => {
+      if (canManage) {
+        const { passkeys, error } = await listPasskeysAction();
+        if (error) {
+          toast.error("Failed to load passkeys");
+        } else {
+          setPasskeys(passkeys);
+        }
+      }
+      setIsLoading(false);
+    };
+
+    loadPasskeys();
+  }, [canManage]);
+
+  const handleAdd = async () => {
+    setIsAdding(true);
+    try {
+      const { options, error } = await getPasskeyRegistrationOptionsAction();
+      if (error || !options) {
+        toast.error("Couldn't start passkey setup", { description: error || undefined });
+        return;
+      }
+
+      const credential = (await navigator.credentials.create({
+        publicKey: {
+          challenge: base64UrlToBytes(options.challenge),
+          rp: options.rp,
+          user: {
+            id: base64UrlToBytes(options.user.id),
+            name: options.user.name,
+            displayName: options.user.displayName,
+          },
+          pubKeyCredParams: options.algorithms.map((alg) => ({ type: "public-key", alg })),
+          excludeCredentials: options.excludeCredentialIds.map((id) => ({
+            type: "public-key",
+            id: base64UrlToBytes(id),
+          })),
+          authenticatorSelection: { residentKey: "preferred", userVerification: "required" },
+          attestation: "none",
+        },
+      })) as PublicKeyCredential | null;
+      if (!credential) return;
+
+      // The server reads the public key from the attestation object itself
+      const response = credential.response as AuthenticatorAttestationResponse;
+      const { passkey, error: registerError } = await registerPasskeyAction({
+        credentialId: credential.id,
+        attestationObject: bytesToBase64Url(new Uint8Array(response.attestationObject)),
+        clientDataJSON: bytesToBase64Url(new Uint8Array(response.clientDataJSON)),
+        transports: response.getTransports(),
+        name,
+      });
+
+      if (registerError || !passkey) {
+        toast.error("Failed to add passkey", { description: registerError || undefined });
+        return;
+      }
+
+      setPasskeys((current) => [...current, passkey]);
+      setName("");
+      toast.success("Passkey added");
+    } catch (error) {
+      // Cancelling the browser prompt rejects with NotAllowedError
+      if (error instanceof DOMException && error.name === "NotAllowedError") return;
+      if (error instanceof DOMException && error.name === "InvalidStateError") {
+        toast.error("This device already has a passkey for your account");
+        return;
+      }
+      toast.error("Failed to add passkey");
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleRemove = async (passkey: Passkey) => {
+    setRemovingId(passkey.id);
+    try {
+      const { error } = await deletePasskeyAction(passkey.id);
+      if (error) {
+        toast.error("Failed to remove passkey", { description: error });
+        return;
+      }
+      setPasskeys((current) => current.filter((p) => p.id !== passkey.id));
+      toast.success("Passkey removed", { description: "Deals it signed keep their passkey signature" });
+    } finally {
+      setRemovingId(null);
+    }
+  };
+
+  return (
+    <Card className={cn(dashboardStyles.cardBase, "h-auto cursor-default")}>
+      <CardContent className="p-4 space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : passkeys.length === 0 ? (
+          <div className="flex items-center gap-3 py-2">
+            <div className="h-10 w-10 rounded-xl bg-secondary/50 flex items-center justify-center text-muted-foreground border border-border/50">
+              <Fingerprint className="h-5 w-5" />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              No passkeys yet. Add one to sign sealed deals with your fingerprint, face or security key.
+            </p>
+          </div>
+        ) : (
+          passkeys.map((passkey, index) => (
+            <div key={passkey.id}>
+              {index > 0 && <Separator className="mb-4" />}
+              <div className="flex items-center justify-between gap-3">
+                <div className="flex items-center gap-3 min-w-0">
+                  <div className="h-10 w-10 rounded-xl bg-secondary/50 flex items-center justify-center text-muted-foreground border border-border/50 shrink-0">
+                    <KeyRound className="h-5 w-5" />
+                  </div>
+                  <div className="min-w-0">
+                    <p className="font-medium text-sm truncate">{passkey.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Added {formatDate(passkey.createdAt)}
+                      {passkey.lastUsedAt && ` · Last used ${timeAgo(passkey.lastUsedAt)}`}
+                    </p>
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-destructive hover:text-destructive shrink-0"
+                  onClick={() => handleRemove(passkey)}
+                  disabled={removingId === passkey.id}
+                >
+                  {removingId === passkey.id ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <Trash2 className="h-4 w-4" />
+                  )}
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+
+        <Separator />
+
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Input
+            placeholder="Passkey name (e.g. MacBook Touch ID)"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={64}
+            disabled={!canManage || !isSupported || isAdding}
+            className="h-9"
+          />
+          <Button
+            size="sm"
+            className="gap-2 h-9 shrink-0"
+            onClick={handleAdd}
+            disabled={!canManage || !isSupported || isAdding}
+          >
+            {isAdding ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+            Add Passkey
+          </Button>
+        </div>
+        {!isSupported && (
+          <p className="text-xs text-muted-foreground">This browser doesn&apos;t support passkeys.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -29,7 +29,7 @@ import {
 import Link from "next/link";
 import { usePersistence } from "@/hooks/usePersistence";
 import { dealTemplates, iconMap } from "@/lib/templates";
-import { DealTemplate, TemplateField, UserTemplate, TemplateTheme } from "@/types";
+import { DealTemplate, TemplateField, UserTemplate, TemplateTheme, VerificationPolicy } from "@/types";
 import { cn } from "@/lib/utils";
 import {
   dashboardStyles,
@@ -302,6 +302,7 @@ export default function TemplatesPage() {
     icon: string;
     theme: TemplateTheme;
     fields: TemplateField[];
+    verificationPolicy?: VerificationPolicy;
   } | null>(null);
 
   // Fetch user templates on mount
@@ -508,6 +509,7 @@ export default function TemplatesPage() {
                     icon: template.icon,
                     theme: template.theme || "general",
                     fields: template.fields,
+                    verificationPolicy: template.verificationPolicy,
                   });
                   setCreateModalOpen(true);
                 }}
@@ -556,6 +558,7 @@ export default function TemplatesPage() {
                       icon: template.icon,
                       theme: template.theme || "general",
                       fields: template.fields,
+                      verificationPolicy: template.verificationPolicy,
                     });
                     setCreateModalOpen(true);
                   }}
@@ -7,10 +7,10 @@ import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { useAppStore } from "@/store";
-import { calculateDealSeal, transformVerificationsForHash, timeAgo } from "@/lib/crypto";
-import { getDealByPublicIdAction, getAuditLogsAction } from "@/app/actions/deal-actions";
+import { AuditChainResult, SealSignatureStatus, calculateDealSeal, fetchSealKeySet, getDealSealInputs, isSealSignatureFailure, timeAgo, verifyAuditChain, verifySealSignature } from "@/lib/crypto";
+import { getDealByPublicIdAction, getAuditLogsAction, getDealVersionsAction, getDealBrandingAction } from "@/app/actions/deal-actions";
 import { isSupabaseConfigured } from "@/lib/supabase";
-import { Deal, AuditLogEntry } from "@/types";
+import { Deal, AuditLogEntry, DealVersion } from "@/types";
 import {
   Search,
   XCircle,
@@ -26,10 +26,13 @@ import {
   CheckCircle2
 } from "lucide-react";
 import { dashboardStyles } from "@/lib/dashboard-ui";
-import { generateDealPDF, downloadPDF, generatePDFFilename } from "@/lib/pdf";
+import { PDFFormat, generateDealPDF, fetchArchivedPDF, downloadPDF, generatePDFFilename } from "@/lib/pdf";
+import { AttachmentStatus, checkAttachmentFiles, getSealedFiles, hasModifiedAttachment } from "@/lib/attachments";
+import { hasModifiedSignatureStrokes } from "@/lib/signature-strokes";
 import { KeyboardHint, useSearchShortcut } from "@/components/dashboard/shared-components";
 import { cn } from "@/lib/utils";
 import { toast } from "sonner";
+import { createVerificationBundle, downloadVerificationBundle } from "@/lib/verification-bundle";
 import { VerificationCard, VerificationStatus } from "@/components/verification-card";
 
 // --- MAIN CONTENT ---
@@ -47,12 +50,17 @@ function DashboardVerifyContent() {
   const [hasSearched, setHasSearched] = useState(false);
   const [isSearching, setIsSearching] = useState(false);
   const [isDownloading, setIsDownloading] = useState(false);
+  const [isExportingBundle, setIsExportingBundle] = useState(false);
   const searchInputRef = useRef<HTMLInputElement>(null);
 
   // Verification state
   const [verificationStatus, setVerificationStatus] = useState<VerificationStatus>("idle");
   const [calculatedHash, setCalculatedHash] = useState<string | null>(null);
+  const [signatureStatus, setSignatureStatus] = useState<SealSignatureStatus | null>(null);
+  const [attachmentStatuses, setAttachmentStatuses] = useState<Record<string, AttachmentStatus> | null>(null);
   const [auditLogs, setAuditLogs] = useState<AuditLogEntry[]>([]);
+  const [versions, setVersions] = useState<DealVersion[]>([]);
+  const [auditChain, setAuditChain] = useState<AuditChainResult | null>(null);
 
   // Keyboard shortcuts
   useSearchShortcut(searchInputRef);
@@ -65,7 +73,10 @@ function DashboardVerifyContent() {
     setSearchedRecipientProfile(null);
     setVerificationStatus("idle");
     setCalculatedHash(null);
+    setSignatureStatus(null);
+    setAttachmentStatuses(null);
     setAuditLogs([]);
+    setVersions([]);
     router.push("/dashboard/verify");
     searchInputRef.current?.focus();
   }, [router]);
@@ -103,6 +114,8 @@ function DashboardVerifyContent() {
       setIsSearching(true);
       setVerificationStatus("verifying");
       setCalculatedHash(null);
+      setSignatureStatus(null);
+      setAttachmentStatuses(null);
       setSearchedDeal(null); // Clear for smooth transition
       setSearchedCreatorProfile(null);
       setSearchedRecipientProfile(null);
@@ -137,23 +150,44 @@ function DashboardVerifyContent() {
 
         if (dealToVerify) {
           let hash: string | null = null;
+          let signature: SealSignatureStatus | null = null;
+          let attachments: Record<string, AttachmentStatus> | null = null;
           if (dealToVerify.dealSeal) {
-            hash = await calculateDealSeal({
-              dealId: dealToVerify.id,
-              terms: JSON.stringify(dealToVerify.terms),
-              signatureUrl: dealToVerify.signatureUrl || "",
-              timestamp: dealToVerify.confirmedAt || dealToVerify.createdAt,
-              verifications: transformVerificationsForHash(dealToVerify.verifications),
-            });
+            hash = await calculateDealSeal(getDealSealInputs(dealToVerify));
             setCalculatedHash(hash);
+
+            // The seal only counts if the platform signed it
+            const sealKeySet = await fetchSealKeySet();
+            signature = await verifySealSignature({
+              seal: dealToVerify.dealSeal,
+              signature: dealToVerify.sealSignature,
+              keyId: dealToVerify.sealKeyId,
+              keys: sealKeySet.keys,
+              // Local-only deals are never signed
+              sealedAt: isSupabaseConfigured() ? dealToVerify.confirmedAt : undefined,
+              signaturesRequiredFrom: sealKeySet.signaturesRequiredFrom,
+            });
+            setSignatureStatus(signature);
+
+            // The seal covers the hash of each attachment (and a document deal's PDF), so re-hash the stored files too
+            const sealedFiles = getSealedFiles(dealToVerify);
+            if (sealedFiles.length) {
+              attachments = await checkAttachmentFiles(sealedFiles);
+              setAttachmentStatuses(attachments);
+            }
           }
 
-          // Fetch audit logs
+          // Fetch audit logs and amendment history
           if (isSupabaseConfigured()) {
-            const { logs } = await getAuditLogsAction(dealToVerify.id);
+            const [{ logs }, { versions: dealVersions }] = await Promise.all([
+              getAuditLogsAction(dealToVerify.id),
+              getDealVersionsAction(dealToVerify.publicId),
+            ]);
             setAuditLogs(logs as AuditLogEntry[]);
+            setVersions(dealVersions);
           } else {
             setAuditLogs([]);
+            setVersions([]);
           }
 
           // Ensure minimum dramatic delay
@@ -162,7 +196,13 @@ function DashboardVerifyContent() {
           setSearchedDeal(dealToVerify);
 
           if (hash) {
-            setVerificationStatus(hash === dealToVerify.dealSeal ? "valid" : "invalid");
+            const isForged = isSealSignatureFailure(signature);
+            const strokesModified = await hasModifiedSignatureStrokes(dealToVerify);
+            setVerificationStatus(
+              hash === dealToVerify.dealSeal && !isForged && !hasModifiedAttachment(attachments) && !strokesModified
+                ? "valid"
+                : "invalid"
+            );
           } else {
             setVerificationStatus("idle");
           }
@@ -183,6 +223,22 @@ function DashboardVerifyContent() {
     [getDealByPublicId, router]
   );
 
+  // Walk the audit log hash chain whenever the logs change
+  useEffect(() => {
+    let cancelled = false;
+    verifyAuditChain(auditLogs)
+      .then((result) => {
+        if (!cancelled) setAuditChain(result);
+      })
+      .catch((error) => {
+        console.error("Audit chain verification error:", error);
+        if (!cancelled) setAuditChain(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [auditLogs]);
+
   // Initial search if ID is present
   useEffect(() => {
     // Only auto-trigger if we have an ID AND we haven't searched yet
@@ -203,17 +259,25 @@ function DashboardVerifyContent() {
     performSearch(dealId, true);
   };
 
-  const handleDownloadPDF = async () => {
+  const handleDownloadPDF = async (format: PDFFormat = "standard") => {
     if (!searchedDeal) return;
     setIsDownloading(true);
     try {
-      const { pdfBlob } = await generateDealPDF({
-        deal: searchedDeal,
-        signatureDataUrl: searchedDeal.signatureUrl || "",
-        isPro: false,
-        verificationUrl: window.location.href,
-      });
-      downloadPDF(pdfBlob, generatePDFFilename(searchedDeal));
+      // Serve the PDF archived at seal time; render one for deals sealed before archiving, and for PDF/A
+      let pdfBlob = format === "pdfa" ? null : await fetchArchivedPDF(searchedDeal);
+      if (!pdfBlob) {
+        const { branding } = isSupabaseConfigured() ? await getDealBrandingAction(searchedDeal.publicId) : { branding: null };
+        ({ pdfBlob } = await generateDealPDF({
+          deal: searchedDeal,
+          signatureDataUrl: searchedDeal.signatureUrl || "",
+          isPro: false,
+          branding,
+          verificationUrl: `${window.location.origin}/verify?id=${searchedDeal.publicId}`,
+          pdfa: format === "pdfa",
+          auditLog: auditLogs,
+        }));
+      }
+      downloadPDF(pdfBlob, generatePDFFilename(searchedDeal, format));
     } catch (error) {
       console.error("Failed to generate PDF", error);
     } finally {
@@ -221,6 +285,19 @@ function DashboardVerifyContent() {
     }
   };
 
+  const handleDownloadBundle = async () => {
+    if (!searchedDeal) return;
+    setIsExportingBundle(true);
+    try {
+      downloadVerificationBundle(await createVerificationBundle(searchedDeal, auditLogs));
+    } catch (error) {
+      console.error("Failed to export verification bundle", error);
+      toast.error("Failed to export verification bundle");
+    } finally {
+      setIsExportingBundle(false);
+    }
+  };
+
   const handleCopyVerificationLink = () => {
     if (!searchedDeal) return;
     const url = `${window.location.origin}/dashboard/verify?id=${searchedDeal.publicId}`;
@@ -323,7 +400,13 @@ function DashboardVerifyContent() {
               calculatedHash={calculatedHash}
               onDownloadPDF={handleDownloadPDF}
               isDownloading={isDownloading}
+              onDownloadBundle={handleDownloadBundle}
+              isExportingBundle={isExportingBundle}
               auditLogs={auditLogs}
+              versions={versions}
+              auditChain={auditChain}
+              signatureStatus={signatureStatus}
+              attachmentStatuses={attachmentStatuses}
             />
 
             {/* Quick Actions after verification */}
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { getSealKeySet } from "@/lib/seal-signing";
+
+/**
+ * Seal Signing Keys
+ *
+ * Publishes the Ed25519 public keys that sign deal seals as a JWK Set, so
+ * anyone can check a seal signature without trusting the database. Retired
+ * keys stay listed after a rotation so older seals keep verifying.
+ * `signaturesRequiredFrom` tells verifiers from when an unsigned seal fails.
+ */
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  return NextResponse.json(
+    getSealKeySet(),
+    {
+      headers: {
+        "Cache-Control": "public, max-age=300",
+        "Access-Control-Allow-Origin": "*",
+      },
+    }
+  );
+}
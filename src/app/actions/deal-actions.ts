@@ -4,15 +4,67 @@ import { createServerClient } from "@supabase/ssr";
 import { cookies, headers } from "next/headers";
 import { nanoid } from "nanoid";
 import crypto from "crypto";
-import { Deal, DealTerm } from "@/types";
+import {
+  AuditLogEntry,
+  BrandingProfile,
+  Deal,
+  DealAttachment,
+  DealDocument,
+  DealSigner,
+  DealTerm,
+  DealVersion,
+  PasskeyAlgorithm,
+  PasskeySignature,
+  SignatureMethod,
+  SignatureStrokes,
+  SignatureVector,
+  TermAcknowledgement,
+  TermProposal,
+  TermRequirement,
+  VerificationPolicy,
+} from "@/types";
 import {
   calculateDealSeal,
+  getTokenExpiry,
+  transformAttachmentsForHash,
+  transformCreatorSignatureForHash,
+  transformDocumentForHash,
+  transformSignersForHash,
+  transformTermAcknowledgementsForHash,
   transformVerificationsForHash,
+  SignerRecord,
   VerificationRecord
 } from "@/lib/crypto";
-import { createDealSchema } from "@/lib/validations";
+import { isSealSigningAvailable, signDealSeal } from "@/lib/seal-signing";
+import { createServiceSupabaseClient } from "@/lib/supabase/server";
+import { requestSealTimestamp } from "@/lib/timestamp-authority";
+import { generateDealPDF } from "@/lib/pdf";
+import { ATTACHMENT_TYPES, MAX_ATTACHMENT_SIZE, sanitizeAttachmentName } from "@/lib/attachments";
+import { countPdfPages, isPdfFile } from "@/lib/pdf-document";
+import { getMissingTermResponses } from "@/lib/term-acknowledgements";
+import { hashSignatureStrokes, normalizeSignatureStrokes, signatureStrokesToSvg } from "@/lib/signature-strokes";
+import { getIdVerificationProvider } from "@/lib/id-verification-provider";
+import {
+  getMatchingTrustLevel,
+  getTrustLevelForPolicy,
+  getUnmetVerificationRequirements,
+  isDealPartyAccount,
+  resolveVerificationPolicy,
+} from "@/lib/verification-policy";
+import { LIMITS } from "@/lib/constants";
+import {
+  createDealSchema,
+  countersignDealSchema,
+  proposeTermSchema,
+  resolveTermProposalSchema,
+  termAcknowledgementSchema,
+  signatureMethodSchema,
+  signatureStrokesSchema,
+  extendDeadlineSchema,
+} from "@/lib/validations";
 import {
   updateProfileSchema,
+  brandingProfileSchema,
   appearancePreferencesSchema,
   doNotDisturbSchema,
   notificationPreferencesSchema,
@@ -67,6 +119,62 @@ export async function generateSecureIds(): Promise<{ publicId: string; accessTok
 }
 
 
+// Transform database signer rows to app DealSigner type
+function transformSigners(dbSigners: unknown): DealSigner[] | undefined {
+  if (!Array.isArray(dbSigners) || dbSigners.length === 0) return undefined;
+
+  return (dbSigners as Record<string, unknown>[])
+    .map((s) => ({
+      id: s.id as string,
+      name: s.name as string,
+      email: (s.email as string) || undefined,
+      recipientId: (s.recipient_id as string) || undefined,
+      position: s.position as number,
+      signatureUrl: (s.signature_url as string) || undefined,
+      signatureMethod: (s.signature_method as SignatureMethod) || undefined,
+      signatureVector: (s.signature_vector as SignatureVector) || undefined,
+      signedAt: (s.signed_at as string) || undefined,
+    }))
+    .sort((a, b) => a.position - b.position);
+}
+
+// Transform a database term proposal row to app TermProposal type
+function transformTermProposal(dbProposal: Record<string, unknown>): TermProposal {
+  return {
+    id: dbProposal.id as string,
+    dealId: dbProposal.deal_id as string,
+    signerId: (dbProposal.signer_id as string) || undefined,
+    termId: dbProposal.term_id as string,
+    termLabel: dbProposal.term_label as string,
+    previousValue: dbProposal.previous_value as string,
+    proposedValue: dbProposal.proposed_value as string,
+    note: (dbProposal.note as string) || undefined,
+    proposedByName: (dbProposal.proposed_by_name as string) || undefined,
+    status: dbProposal.status as TermProposal["status"],
+    revision: (dbProposal.revision as number) || undefined,
+    createdAt: dbProposal.created_at as string,
+    resolvedAt: (dbProposal.resolved_at as string) || undefined,
+  };
+}
+
+// Transform database passkey signature rows to app PasskeySignature type
+function transformPasskeySignatures(dbSignatures: unknown): PasskeySignature[] | undefined {
+  if (!Array.isArray(dbSignatures) || dbSignatures.length === 0) return undefined;
+
+  return (dbSignatures as Record<string, unknown>[]).map((s) => ({
+    userId: s.user_id as string,
+    signerName: s.signer_name as string,
+    credentialId: s.credential_id as string,
+    rpId: s.rp_id as string,
+    publicKey: s.public_key as string,
+    algorithm: s.algorithm as PasskeyAlgorithm,
+    authenticatorData: s.authenticator_data as string,
+    clientDataJSON: s.client_data_json as string,
+    signature: s.signature as string,
+    signedAt: s.signed_at as string,
+  }));
+}
+
 // Transform database deal to app Deal type
 function transformDeal(dbDeal: Record<string, unknown>): Deal {
   return {
@@ -83,13 +191,45 @@ function transformDeal(dbDeal: Record<string, unknown>): Deal {
     terms: dbDeal.terms as DealTerm[],
     status: dbDeal.status as Deal["status"],
     trustLevel: (dbDeal.trust_level as Deal["trustLevel"]) || "basic",
+    verificationPolicy: (dbDeal.verification_policy as VerificationPolicy | null) || undefined,
     createdAt: dbDeal.created_at as string,
     confirmedAt: dbDeal.confirmed_at as string | undefined,
     voidedAt: dbDeal.voided_at as string | undefined,
     viewedAt: dbDeal.viewed_at as string | undefined,
     signatureUrl: dbDeal.signature_url as string | undefined,
+    signatureMethod: (dbDeal.signature_method as SignatureMethod) || undefined,
+    signatureVector: (dbDeal.signature_vector as SignatureVector) || undefined,
     dealSeal: dbDeal.deal_seal as string | undefined,
     lastNudgedAt: dbDeal.last_nudged_at as string | undefined,
+    expiresAt: (dbDeal.expires_at as string) || undefined,
+    expiredAt: (dbDeal.expired_at as string) || undefined,
+    signingMode: (dbDeal.signing_mode as Deal["signingMode"]) || "unordered",
+    signers: transformSigners(dbDeal.signers),
+    creatorSignatureMode: (dbDeal.creator_signature_mode as Deal["creatorSignatureMode"]) || "none",
+    creatorSignatureUrl: dbDeal.creator_signature_url as string | undefined,
+    creatorSignatureMethod: (dbDeal.creator_signature_method as SignatureMethod) || undefined,
+    creatorSignatureVector: (dbDeal.creator_signature_vector as SignatureVector) || undefined,
+    creatorSignedAt: dbDeal.creator_signed_at as string | undefined,
+    termsRevision: (dbDeal.terms_revision as number) || 1,
+    parentDealId: (dbDeal.parent_deal_id as string) || undefined,
+    version: (dbDeal.version as number) || 1,
+    previousSeal: (dbDeal.previous_seal as string) || undefined,
+    sealSignature: (dbDeal.seal_signature as string) || undefined,
+    sealKeyId: (dbDeal.seal_key_id as string) || undefined,
+    timestampToken: (dbDeal.timestamp_token as string) || undefined,
+    timestampedAt: (dbDeal.timestamped_at as string) || undefined,
+    timestampAuthority: (dbDeal.timestamp_authority as string) || undefined,
+    pdfUrl: (dbDeal.pdf_url as string) || undefined,
+    pdfSha256: (dbDeal.pdf_sha256 as string) || undefined,
+    pdfArchivedAt: (dbDeal.pdf_archived_at as string) || undefined,
+    attachments: (dbDeal.attachments as DealAttachment[] | null)?.length
+      ? (dbDeal.attachments as DealAttachment[])
+      : undefined,
+    document: (dbDeal.document as DealDocument | null) || undefined,
+    termAcknowledgements: (dbDeal.term_acknowledgements as TermAcknowledgement[] | null)?.length
+      ? (dbDeal.term_acknowledgements as TermAcknowledgement[])
+      : undefined,
+    passkeySignatures: transformPasskeySignatures(dbDeal.passkey_signatures),
     verifications: dbDeal.verifications as Deal["verifications"],
   };
 }
@@ -219,6 +359,82 @@ export async function checkRecipientEmailForDealAction(data: {
 
 
 // Create a new deal (server action)
+// Personal signing link for one party of a multi-party deal
+export type SignerLink = {
+  signerId: string;
+  name: string;
+  email?: string;
+  position: number;
+  url: string;
+};
+
+// Insert signer rows and one access token per signer for a multi-party deal
+async function createDealSigners(
+  supabase: Awaited<ReturnType<typeof createServerSupabaseClient>>,
+  data: {
+    dealId: string;
+    publicId: string;
+    creatorEmail?: string;
+    expiresAt: Date;
+    signers: Array<{ name: string; email?: string; recipientId?: string }>;
+  }
+): Promise<{ signers: DealSigner[]; links: SignerLink[]; error: string | null }> {
+  const rows = await Promise.all(
+    data.signers.map(async (signer, index) => {
+      let recipientId = signer.recipientId || null;
+
+      // Link registered Proofo users so the deal shows up in their inbox
+      if (!recipientId && signer.email && signer.email.toLowerCase() !== data.creatorEmail?.toLowerCase()) {
+        const { data: profiles } = await supabase.rpc("lookup_profile_by_email", { p_email: signer.email });
+        recipientId = (profiles as Array<{ id: string }> | null)?.[0]?.id || null;
+      }
+
+      return {
+        deal_id: data.dealId,
+        name: signer.name,
+        email: signer.email?.toLowerCase() || null,
+        recipient_id: recipientId,
+        position: index + 1,
+      };
+    })
+  );
+
+  const { data: inserted, error: insertError } = await supabase
+    .from("deal_signers")
+    .insert(rows)
+    .select();
+
+  if (insertError || !inserted) {
+    return { signers: [], links: [], error: insertError?.message || "Failed to create signers" };
+  }
+
+  const signers = transformSigners(inserted) || [];
+  const tokens = await Promise.all(signers.map(() => generateSecureIds()));
+
+  const { error: tokenError } = await supabase.from("access_tokens").insert(
+    signers.map((signer, index) => ({
+      deal_id: data.dealId,
+      signer_id: signer.id,
+      token: tokens[index].accessToken,
+      expires_at: data.expiresAt.toISOString(),
+    }))
+  );
+
+  if (tokenError) {
+    return { signers: [], links: [], error: tokenError.message };
+  }
+
+  const links = signers.map((signer, index) => ({
+    signerId: signer.id,
+    name: signer.name,
+    email: signer.email,
+    position: signer.position,
+    url: `${APP_URL}/d/public/${data.publicId}?token=${tokens[index].accessToken}`,
+  }));
+
+  return { signers, links, error: null };
+}
+
 export async function createDealAction(data: {
   title: string;
   description?: string;
@@ -226,12 +442,22 @@ export async function createDealAction(data: {
   recipientName: string;
   recipientEmail?: string;
   recipientId?: string; // Pre-linked if email matched a registered user
-  terms: Array<{ label: string; value: string; type: string }>;
+  terms: Array<{ label: string; value: string; type: string; requirement?: TermRequirement }>;
   trustLevel?: "basic" | "verified" | "strong" | "maximum";
+  verificationPolicy?: VerificationPolicy; // Creator-composed policy; replaces the trust level's preset
+  additionalSigners?: Array<{ name: string; email?: string }>; // Extra parties for multi-party deals
+  signingMode?: "ordered" | "unordered";
+  creatorSignatureMode?: "none" | "upfront" | "after";
+  creatorSignatureBase64?: string; // Creator's signature when signing up front
+  creatorSignatureMethod?: SignatureMethod; // How that signature was made
+  creatorSignatureStrokes?: SignatureStrokes; // Its pen strokes, when drawn
+  amendsDealId?: string; // Sealed deal this one amends (creates the next version)
+  deadlineDays?: number; // Signing deadline; defaults to LIMITS.TOKEN_EXPIRY_DAYS
 }): Promise<{
   deal: Deal | null;
   shareUrl: string | null;
   accessToken: string | null;
+  signerLinks?: SignerLink[];
   error: string | null;
 }> {
   try {
@@ -246,6 +472,33 @@ export async function createDealAction(data: {
       };
     }
     const validatedData = validation.data;
+    const isMultiParty = validatedData.additionalSigners.length > 0;
+
+    if (validatedData.creatorSignatureMode === "upfront" && !validatedData.creatorSignatureBase64) {
+      return { deal: null, shareUrl: null, accessToken: null, error: "Please sign the deal before creating it" };
+    }
+    if (validatedData.creatorSignatureStrokes && (validatedData.creatorSignatureMethod || "drawn") !== "drawn") {
+      return { deal: null, shareUrl: null, accessToken: null, error: "Pen strokes are only recorded for drawn signatures" };
+    }
+
+    // A custom policy is stored with the highest trust level it fully requires, or
+    // as just that trust level when it's identical to the preset
+    const customPolicy = validatedData.verificationPolicy;
+    const presetLevel = customPolicy ? getMatchingTrustLevel(customPolicy) : null;
+    const trustLevel = customPolicy ? presetLevel || getTrustLevelForPolicy(customPolicy) : validatedData.trustLevel;
+    const verificationPolicy = customPolicy && !presetLevel ? customPolicy : null;
+
+    // Recipients couldn't complete an ID check without an ID verification provider
+    if (resolveVerificationPolicy(trustLevel, verificationPolicy).id !== "off" && !getIdVerificationProvider()) {
+      return {
+        deal: null,
+        shareUrl: null,
+        accessToken: null,
+        error: verificationPolicy
+          ? "ID verification isn't available, so it can't be part of the verification policy"
+          : "ID verification isn't available, so the Maximum trust level can't be used",
+      };
+    }
 
     // SECURITY: Validate request origin (CSRF protection)
     const { validateOrigin } = await import("@/lib/security");
@@ -274,8 +527,46 @@ export async function createDealAction(data: {
       };
     }
 
+    // Amendments: only the creator can amend a sealed deal, and only one live amendment at a time
+    let amends: { id: string; public_id: string; version: number | null; deal_seal: string } | null = null;
+    if (validatedData.amendsDealId) {
+      const { data: parentDeal } = await supabase
+        .from("deals")
+        .select("id, public_id, creator_id, status, version, deal_seal")
+        .eq("id", validatedData.amendsDealId)
+        .single();
+
+      if (!parentDeal || parentDeal.creator_id !== user.id) {
+        return { deal: null, shareUrl: null, accessToken: null, error: "Deal to amend not found" };
+      }
+      if (parentDeal.status !== "confirmed" || !parentDeal.deal_seal) {
+        return { deal: null, shareUrl: null, accessToken: null, error: "Only sealed deals can be amended" };
+      }
+
+      const { data: existingAmendment } = await supabase
+        .from("deals")
+        .select("id")
+        .eq("parent_deal_id", parentDeal.id)
+        .neq("status", "voided")
+        .limit(1)
+        .maybeSingle();
+
+      if (existingAmendment) {
+        return {
+          deal: null,
+          shareUrl: null,
+          accessToken: null,
+          error: "This deal already has an amendment. Void it before creating another.",
+        };
+      }
+
+      amends = parentDeal;
+    }
+
     // Generate secure IDs on the server
     const { publicId, accessToken } = await generateSecureIds();
+    // Signing links expire together with the deal's signing deadline
+    const expiresAt = getTokenExpiry(validatedData.deadlineDays);
 
     // Create the deal
     const { data: deal, error: dealError } = await supabase
@@ -294,9 +585,20 @@ export async function createDealAction(data: {
           label: t.label,
           value: t.value,
           type: t.type,
+          ...(t.requirement && { requirement: t.requirement }),
         })),
         status: "pending",
-        trust_level: validatedData.trustLevel || "basic",
+        trust_level: trustLevel,
+        verification_policy: verificationPolicy,
+        signing_mode: validatedData.signingMode,
+        creator_signature_mode: validatedData.creatorSignatureMode,
+        expires_at: expiresAt.toISOString(),
+        ...(amends && {
+          parent_deal_id: amends.id,
+          version: (amends.version || 1) + 1,
+          // The amendment's seal chains to the seal of the version it replaces
+          previous_seal: amends.deal_seal,
+        }),
       })
       .select()
       .single();
@@ -311,19 +613,88 @@ export async function createDealAction(data: {
       };
     }
 
-    // Create access token with 7-day expiry
-    const expiresAt = new Date();
-    expiresAt.setDate(expiresAt.getDate() + 7);
+    // Creator signs up front: store the signature so it's part of the seal when the deal completes
+    if (validatedData.creatorSignatureMode === "upfront" && validatedData.creatorSignatureBase64) {
+      const { signatureUrl, error: uploadError } = await uploadSignatureAction(
+        deal.id,
+        validatedData.creatorSignatureBase64
+      );
+
+      if (uploadError || !signatureUrl) {
+        logger.error("Creator signature upload failed", new Error(uploadError || "Unknown upload error"));
+        // Don't leave a pending deal behind that claims a creator signature it doesn't have
+        await supabase
+          .from("deals")
+          .update({ status: "voided", voided_at: new Date().toISOString() })
+          .eq("id", deal.id);
+        return { deal: null, shareUrl: null, accessToken: null, error: "Failed to upload your signature. Please try again." };
+      }
 
-    const { error: tokenError } = await supabase.from("access_tokens").insert({
-      deal_id: deal.id,
-      token: accessToken,
-      expires_at: expiresAt.toISOString(),
-    });
+      const creatorSignedAt = new Date().toISOString();
+      const creatorSignatureVector = validatedData.creatorSignatureStrokes
+        ? await storeSignatureStrokes(supabase, deal.id, validatedData.creatorSignatureStrokes)
+        : null;
+      await supabase
+        .from("deals")
+        .update({
+          creator_signature_url: signatureUrl,
+          creator_signature_method: validatedData.creatorSignatureMethod || "drawn",
+          creator_signature_vector: creatorSignatureVector,
+          creator_signed_at: creatorSignedAt,
+        })
+        .eq("id", deal.id);
+      deal.creator_signature_url = signatureUrl;
+      deal.creator_signature_method = validatedData.creatorSignatureMethod || "drawn";
+      deal.creator_signature_vector = creatorSignatureVector;
+      deal.creator_signed_at = creatorSignedAt;
+    }
 
-    if (tokenError) {
-      logger.error("Error creating access token", tokenError);
-      // Continue anyway, deal was created
+    let signerLinks: SignerLink[] | undefined;
+    let signers: DealSigner[] | undefined;
+
+    if (isMultiParty) {
+      // Multi-party deal: every signer gets their own row and personal access token
+      const { signers: createdSigners, links, error: signersError } = await createDealSigners(supabase, {
+        dealId: deal.id,
+        publicId,
+        creatorEmail: user.email,
+        expiresAt,
+        signers: [
+          {
+            name: validatedData.recipientName,
+            email: validatedData.recipientEmail || undefined,
+            recipientId: validatedData.recipientId,
+          },
+          ...validatedData.additionalSigners.map((s) => ({
+            name: s.name,
+            email: s.email || undefined,
+          })),
+        ],
+      });
+
+      if (signersError) {
+        logger.error("Error creating deal signers", new Error(signersError));
+        // Don't leave a pending deal behind that nobody can sign
+        await supabase
+          .from("deals")
+          .update({ status: "voided", voided_at: new Date().toISOString() })
+          .eq("id", deal.id);
+        return { deal: null, shareUrl: null, accessToken: null, error: "Failed to create deal signers" };
+      }
+
+      signers = createdSigners;
+      signerLinks = links;
+    } else {
+      const { error: tokenError } = await supabase.from("access_tokens").insert({
+        deal_id: deal.id,
+        token: accessToken,
+        expires_at: expiresAt.toISOString(),
+      });
+
+      if (tokenError) {
+        logger.error("Error creating access token", tokenError);
+        // Continue anyway, deal was created
+      }
     }
 
     // Add audit log entry with enhanced metadata
@@ -338,9 +709,38 @@ export async function createDealAction(data: {
         termsCount: validatedData.terms.length,
         hasEmail: !!validatedData.recipientEmail,
         hasDescription: !!validatedData.description,
+        deadlineDays: validatedData.deadlineDays,
+        ...(isMultiParty && {
+          signerCount: validatedData.additionalSigners.length + 1,
+          signingMode: validatedData.signingMode,
+        }),
+        ...(validatedData.creatorSignatureMode !== "none" && {
+          creatorSignatureMode: validatedData.creatorSignatureMode,
+        }),
+        ...(validatedData.creatorSignatureMode === "upfront" && {
+          signatureMethod: validatedData.creatorSignatureMethod || "drawn",
+        }),
+        ...(amends && {
+          amendsPublicId: amends.public_id,
+          version: (amends.version || 1) + 1,
+        }),
       },
     });
 
+    // Record the amendment on the original deal's timeline too
+    if (amends) {
+      await supabase.rpc("log_audit_event", {
+        p_deal_id: amends.id,
+        p_event_type: "deal_amended",
+        p_actor_type: "creator",
+        p_actor_id: user.id,
+        p_metadata: {
+          amendmentPublicId: publicId,
+          version: (amends.version || 1) + 1,
+        },
+      });
+    }
+
     // Get creator name
     const { data: profile } = await supabase
       .from("profiles")
@@ -354,10 +754,12 @@ export async function createDealAction(data: {
       deal: {
         ...transformDeal(deal),
         creatorName: profile?.name || "Unknown",
-        accessToken,
+        accessToken: isMultiParty ? undefined : accessToken,
+        signers,
       },
       shareUrl,
-      accessToken,
+      accessToken: isMultiParty ? null : accessToken,
+      signerLinks,
       error: null,
     };
   } catch (error) {
@@ -735,6 +1137,126 @@ export async function validateViewTokenAction(
   }
 }
 
+// Signer resolved from a personal signing token (multi-party deals)
+export type SignerTokenInfo = {
+  id: string;
+  name: string;
+  email?: string;
+  position: number;
+  signedAt?: string;
+  tokenStatus: TokenStatus;
+  expiresAt: string | null;
+  waitingOn?: string; // Name of the earlier signer who must sign first (ordered deals)
+};
+
+// Resolve which signer a signing link belongs to
+export async function getSignerForTokenAction(
+  dealId: string,
+  token: string
+): Promise<{ signer: SignerTokenInfo | null; error: string | null }> {
+  try {
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    if (!dealId || !uuidRegex.test(dealId) || !token) {
+      return { signer: null, error: "Invalid signing link" };
+    }
+
+    const supabase = await createServerSupabaseClient();
+
+    const { data, error } = await supabase.rpc("get_signer_by_token", {
+      p_deal_id: dealId,
+      p_token: token,
+    });
+
+    if (error) {
+      logger.error("Error resolving signer token", error);
+      return { signer: null, error: "Failed to resolve signing link" };
+    }
+
+    if (!data) {
+      return { signer: null, error: null };
+    }
+
+    const signer = data as Record<string, unknown>;
+    return {
+      signer: {
+        id: signer.id as string,
+        name: signer.name as string,
+        email: (signer.email as string) || undefined,
+        position: signer.position as number,
+        signedAt: (signer.signed_at as string) || undefined,
+        tokenStatus: signer.token_status as TokenStatus,
+        expiresAt: (signer.expires_at as string) || null,
+        waitingOn: (signer.waiting_on as string) || undefined,
+      },
+      error: null,
+    };
+  } catch (error) {
+    logger.error("Error resolving signer token", error);
+    return { signer: null, error: "Server error" };
+  }
+}
+
+// Get the personal signing links for every signer on a multi-party deal (creator only)
+export async function getSignerLinksAction(
+  dealId: string
+): Promise<{ links: SignerLink[]; error: string | null }> {
+  try {
+    const supabase = await createServerSupabaseClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) {
+      return { links: [], error: "Not authenticated" };
+    }
+
+    const { data: deal } = await supabase
+      .from("deals")
+      .select("public_id, creator_id")
+      .eq("id", dealId)
+      .single();
+
+    if (!deal || deal.creator_id !== user.id) {
+      return { links: [], error: "Not authorized" };
+    }
+
+    // RLS allows creators to read tokens and signers for their own deals
+    const { data: signers, error: signersError } = await supabase
+      .from("deal_signers")
+      .select("id, name, email, position")
+      .eq("deal_id", dealId)
+      .order("position", { ascending: true });
+
+    if (signersError) {
+      return { links: [], error: "Failed to load signers" };
+    }
+
+    const { data: tokens } = await supabase
+      .from("access_tokens")
+      .select("token, signer_id")
+      .eq("deal_id", dealId)
+      .not("signer_id", "is", null)
+      .order("created_at", { ascending: false });
+
+    const links = (signers || []).flatMap((signer) => {
+      const token = tokens?.find((t) => t.signer_id === signer.id)?.token;
+      if (!token) return [];
+      return [{
+        signerId: signer.id as string,
+        name: signer.name as string,
+        email: (signer.email as string) || undefined,
+        position: signer.position as number,
+        url: `${APP_URL}/d/public/${deal.public_id}?token=${token}`,
+      }];
+    });
+
+    return { links, error: null };
+  } catch (error) {
+    logger.error("Error fetching signer links", error);
+    return { links: [], error: "Server error" };
+  }
+}
+
 // Upload signature to Supabase Storage
 // SECURITY: Added input validation and file size limit
 const MAX_SIGNATURE_SIZE = 1024 * 1024; // 1MB max signature size
@@ -817,143 +1339,1179 @@ export async function uploadSignatureAction(
   }
 }
 
-// Update the input type to include publicId
-export async function confirmDealAction(data: {
-  dealId: string;
-  publicId: string;
-  token: string;
-  signatureBase64: string;
-  recipientEmail?: string;
-}): Promise<{ deal: Deal | null; error: string | null }> {
+// Record the pen strokes of a drawn signature: rounded to the stored precision and
+// hashed for the seal, with an SVG rendering stored next to the signature image.
+// The SVG is a convenience copy, so a failed upload is logged rather than failing the signature.
+async function storeSignatureStrokes(
+  supabase: Awaited<ReturnType<typeof createServerSupabaseClient>>,
+  dealId: string,
+  strokes: SignatureStrokes
+): Promise<SignatureVector> {
+  const normalized = normalizeSignatureStrokes(strokes);
+  const sha256 = await hashSignatureStrokes(normalized);
+
+  const filename = `${dealId}/${nanoid(10)}.svg`;
+  const { error: uploadError } = await supabase.storage
+    .from("signatures")
+    .upload(filename, Buffer.from(signatureStrokesToSvg(normalized), "utf8"), {
+      contentType: "image/svg+xml",
+      cacheControl: "3600",
+      upsert: false,
+    });
+
+  if (uploadError) {
+    logger.error("Error uploading signature SVG", uploadError);
+    return { strokes: normalized, sha256 };
+  }
+
+  const { data: urlData } = supabase.storage.from("signatures").getPublicUrl(filename);
+  return { strokes: normalized, sha256, svgUrl: urlData.publicUrl };
+}
+
+// Upload a file the creator attaches to their deal. Only possible before anyone
+// has signed, since the file's hash becomes part of the seal.
+export async function uploadDealAttachmentAction(
+  dealId: string,
+  file: { name: string; dataUrl: string }
+): Promise<{ attachment: DealAttachment | null; error: string | null }> {
   try {
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    if (!dealId || typeof dealId !== "string" || !uuidRegex.test(dealId)) {
+      return { attachment: null, error: "Invalid deal ID" };
+    }
+
+    if (!file?.dataUrl || typeof file.dataUrl !== "string" || typeof file.name !== "string") {
+      return { attachment: null, error: "File is required" };
+    }
+
+    // SECURITY: Strict MIME type validation
+    const mimeMatch = file.dataUrl.match(/^data:([\w.+-]+\/[\w.+-]+);base64,/);
+    const contentType = mimeMatch?.[1];
+    if (!contentType || !ATTACHMENT_TYPES[contentType]) {
+      return { attachment: null, error: "Only PNG, JPEG, WebP and PDF files can be attached" };
+    }
+
     // SECURITY: Validate request origin (CSRF protection)
     const { validateOrigin } = await import("@/lib/security");
     const originCheck = await validateOrigin();
     if (!originCheck.isValid) {
-      return { deal: null, error: originCheck.error || "Invalid request" };
+      return { attachment: null, error: originCheck.error || "Invalid request" };
     }
 
-    // SECURITY: Rate limit by IP to prevent deal confirmation abuse
+    // SECURITY: Rate limit by IP to prevent upload abuse
     const headersList = await headers();
     const ip = headersList.get("x-forwarded-for")?.split(",")[0]?.trim() || "unknown";
-    const rateLimitResult = await checkRateLimit("general", `confirm:${ip}`);
+    const rateLimitResult = await checkRateLimit("general", `upload:${ip}`);
     if (!rateLimitResult.success) {
-      return { deal: null, error: "Rate limit exceeded. Please try again later." };
+      return { attachment: null, error: "Rate limit exceeded. Please try again later." };
     }
 
     const supabase = await createServerSupabaseClient();
 
-    // Check if current user is logged in
     const {
       data: { user },
     } = await supabase.auth.getUser();
-
-    // First upload the signature
-    const { signatureUrl, error: uploadError } = await uploadSignatureAction(
-      data.dealId,
-      data.signatureBase64
-    );
-
-    if (uploadError || !signatureUrl) {
-      logger.error("Signature upload failed", new Error(uploadError || "Unknown upload error"));
-      return { deal: null, error: "Failed to upload signature. Please try again." };
+    if (!user) {
+      return { attachment: null, error: "Not authenticated" };
     }
 
-    const finalSignatureUrl = signatureUrl;
-
-    // Calculate seal on the server
-    const timestamp = new Date().toISOString();
-
-    // CRITICAL FIX: Fetch terms using RPC to bypass RLS for anonymous users
-    const { data: dealData, error: fetchError } = await supabase.rpc("get_deal_by_public_id", {
-      p_public_id: data.publicId,
-    });
-
-    if (fetchError || !dealData) {
-      logger.error("Error fetching deal terms for sealing", fetchError);
-      return { deal: null, error: "Failed to fetch deal data for sealing" };
+    const buffer = Buffer.from(file.dataUrl.slice(mimeMatch[0].length), "base64");
+    if (buffer.length === 0) {
+      return { attachment: null, error: "File is empty" };
     }
-
-    // Verify ID matches to prevent tampering - dealData is JSON type from RPC
-    const dealDataJson = dealData as { id: string; terms: unknown[] };
-    if (dealDataJson.id !== data.dealId) {
-      return { deal: null, error: "Deal ID mismatch" };
+    if (buffer.length > MAX_ATTACHMENT_SIZE) {
+      return { attachment: null, error: `File is too large (max ${LIMITS.MAX_ATTACHMENT_SIZE_MB}MB)` };
     }
 
-    const terms = dealDataJson.terms || [];
+    const id = nanoid(10);
+    const name = sanitizeAttachmentName(file.name);
+    const path = `${dealId}/${id}.${ATTACHMENT_TYPES[contentType]}`;
 
-    // Fetch verification records for this deal (if any)
-    // These are included in the seal to create a tamper-proof record of identity verification
-    // CRITICAL: Use RPC function to bypass RLS - anonymous recipients can't SELECT from deal_verifications
-    const { data: verificationRecords } = await supabase.rpc("get_deal_verifications", {
-      p_deal_id: data.dealId,
+    const { error: uploadError } = await supabase.storage.from("attachments").upload(path, buffer, {
+      contentType,
+      cacheControl: "3600",
+      upsert: false,
     });
 
-    // RPC returns JSON array or null, need to handle both
-    const verifications = transformVerificationsForHash(verificationRecords as VerificationRecord[] | null);
+    if (uploadError) {
+      logger.error("Error uploading attachment", uploadError);
+      return { attachment: null, error: "Failed to upload file. Please try again." };
+    }
 
-    const dealSeal = await calculateDealSeal({
-      dealId: data.dealId,
-      terms: JSON.stringify(terms),
-      signatureUrl: finalSignatureUrl,
-      timestamp,
-      verifications,
-    });
+    const { data: urlData } = supabase.storage.from("attachments").getPublicUrl(path);
 
-    // Use the confirm_deal_with_token function
-    const { data: confirmedDeal, error: confirmError } = await supabase.rpc(
-      "confirm_deal_with_token",
-      {
-        p_deal_id: data.dealId,
-        p_token: data.token,
-        p_signature_data: finalSignatureUrl,
-        p_deal_seal: dealSeal,
-        p_recipient_email: data.recipientEmail || null,
-        p_recipient_id: user?.id || null,
-        p_confirmed_at: timestamp,
-      }
-    );
+    const attachment: DealAttachment = {
+      id,
+      name,
+      url: urlData.publicUrl,
+      contentType,
+      size: buffer.length,
+      sha256: crypto.createHash("sha256").update(buffer).digest("hex"),
+      uploadedAt: new Date().toISOString(),
+    };
 
-    if (confirmError) {
-      logger.error("Error confirming deal", confirmError);
-      return { deal: null, error: confirmError.message };
-    }
+    // The RPC checks the caller created the deal and that nobody has signed yet
+    const { error: attachError } = await supabase.rpc("add_deal_attachment", {
+      p_deal_id: dealId,
+      p_attachment: attachment,
+    });
 
-    if (!confirmedDeal) {
-      return { deal: null, error: "Failed to confirm deal" };
+    if (attachError) {
+      logger.error("Error attaching file to deal", attachError);
+      await supabase.storage.from("attachments").remove([path]);
+      return { attachment: null, error: attachError.message || "Failed to attach file" };
     }
 
-    // Get creator name
-    const { data: creator } = await supabase
-      .from("profiles")
-      .select("name")
-      .eq("id", (confirmedDeal as Record<string, unknown>).creator_id)
-      .single();
-
-    return {
-      deal: {
-        ...transformDeal(confirmedDeal as Record<string, unknown>),
-        creatorName: creator?.name || "Unknown",
-      },
-      error: null,
-    };
+    return { attachment, error: null };
   } catch (error) {
-    logger.error("Server error confirming deal", error);
-    return { deal: null, error: "Server error" };
+    logger.error("Error in uploadDealAttachmentAction", error);
+    return { attachment: null, error: "Failed to upload file. Please try again." };
   }
 }
 
-// Void a deal
-// SECURITY: Added CSRF protection and input validation
-export async function voidDealAction(dealId: string): Promise<{ error: string | null }> {
+// Upload the PDF a "sign a document" deal is about. Like attachments, it can
+// only be set before anyone has signed, and its hash becomes part of the seal.
+export async function uploadDealDocumentAction(
+  dealId: string,
+  file: { name: string; dataUrl: string }
+): Promise<{ document: DealDocument | null; error: string | null }> {
   try {
-    // Validate input - dealId should be a valid UUID
     const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
     if (!dealId || typeof dealId !== "string" || !uuidRegex.test(dealId)) {
-      return { error: "Invalid deal ID" };
+      return { document: null, error: "Invalid deal ID" };
     }
 
-    // SECURITY: Validate request origin
+    const pdfPrefix = "data:application/pdf;base64,";
+    if (!file?.dataUrl || typeof file.dataUrl !== "string" || typeof file.name !== "string") {
+      return { document: null, error: "Document is required" };
+    }
+    if (!file.dataUrl.startsWith(pdfPrefix)) {
+      return { document: null, error: "Only PDF documents can be signed" };
+    }
+
+    // SECURITY: Validate request origin (CSRF protection)
+    const { validateOrigin } = await import("@/lib/security");
+    const originCheck = await validateOrigin();
+    if (!originCheck.isValid) {
+      return { document: null, error: originCheck.error || "Invalid request" };
+    }
+
+    // SECURITY: Rate limit by IP to prevent upload abuse
+    const headersList = await headers();
+    const ip = headersList.get("x-forwarded-for")?.split(",")[0]?.trim() || "unknown";
+    const rateLimitResult = await checkRateLimit("general", `upload:${ip}`);
+    if (!rateLimitResult.success) {
+      return { document: null, error: "Rate limit exceeded. Please try again later." };
+    }
+
+    const supabase = await createServerSupabaseClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) {
+      return { document: null, error: "Not authenticated" };
+    }
+
+    const buffer = Buffer.from(file.dataUrl.slice(pdfPrefix.length), "base64");
+    // SECURITY: Check the content really is a PDF, not just labelled as one
+    if (!isPdfFile(buffer)) {
+      return { document: null, error: "This file is not a valid PDF" };
+    }
+    if (buffer.length > LIMITS.MAX_DOCUMENT_SIZE_MB * 1024 * 1024) {
+      return { document: null, error: `Document is too large (max ${LIMITS.MAX_DOCUMENT_SIZE_MB}MB)` };
+    }
+
+    const path = `${dealId}/document-${nanoid(10)}.pdf`;
+
+    const { error: uploadError } = await supabase.storage.from("attachments").upload(path, buffer, {
+      contentType: "application/pdf",
+      cacheControl: "3600",
+      upsert: false,
+    });
+
+    if (uploadError) {
+      logger.error("Error uploading document", uploadError);
+      return { document: null, error: "Failed to upload document. Please try again." };
+    }
+
+    const { data: urlData } = supabase.storage.from("attachments").getPublicUrl(path);
+
+    const document: DealDocument = {
+      name: sanitizeAttachmentName(file.name),
+      url: urlData.publicUrl,
+      size: buffer.length,
+      sha256: crypto.createHash("sha256").update(buffer).digest("hex"),
+      pageCount: countPdfPages(buffer),
+      uploadedAt: new Date().toISOString(),
+    };
+
+    // The RPC checks the caller created the deal and that nobody has signed yet
+    const { error: documentError } = await supabase.rpc("set_deal_document", {
+      p_deal_id: dealId,
+      p_document: document,
+    });
+
+    if (documentError) {
+      logger.error("Error setting deal document", documentError);
+      await supabase.storage.from("attachments").remove([path]);
+      return { document: null, error: documentError.message || "Failed to attach document" };
+    }
+
+    return { document, error: null };
+  } catch (error) {
+    logger.error("Error in uploadDealDocumentAction", error);
+    return { document: null, error: "Failed to upload document. Please try again." };
+  }
+}
+
+// Attach an RFC 3161 timestamp to a freshly sealed deal. Best effort: the deal
+// is already sealed, so a TSA outage is logged rather than failing the signature.
+// Stored with the service role, since only the server may vouch for a token.
+async function timestampSealedDeal(
+  dealId: string,
+  dealSeal: string
+): Promise<Pick<Deal, "timestampToken" | "timestampedAt" | "timestampAuthority"> | null> {
+  try {
+    const supabase = createServiceSupabaseClient();
+    if (!supabase) {
+      logger.error("SUPABASE_SERVICE_ROLE_KEY is not configured; skipping timestamp");
+      return null;
+    }
+
+    const timestamp = await requestSealTimestamp(dealSeal);
+    if (!timestamp) return null;
+
+    const { error } = await supabase.rpc("set_deal_timestamp", {
+      p_deal_id: dealId,
+      p_token: timestamp.token,
+      p_timestamped_at: timestamp.timestampedAt,
+      p_authority: timestamp.authority,
+    });
+
+    if (error) {
+      logger.error("Error storing timestamp token", error);
+      return null;
+    }
+
+    return {
+      timestampToken: timestamp.token,
+      timestampedAt: timestamp.timestampedAt,
+      timestampAuthority: timestamp.authority,
+    };
+  } catch (error) {
+    logger.error("Timestamping failed", error);
+    return null;
+  }
+}
+
+// Object path of a public URL in one of our storage buckets, or null for any other URL
+function storagePathFromUrl(
+  supabase: Awaited<ReturnType<typeof createServerSupabaseClient>>,
+  bucket: string,
+  url: string
+): string | null {
+  const prefix = supabase.storage.from(bucket).getPublicUrl("").data.publicUrl;
+  if (!url.startsWith(prefix)) return null;
+
+  const path = url.slice(prefix.length);
+  return /^[A-Za-z0-9_-]+(\/[A-Za-z0-9_-]+)*(\.[A-Za-z0-9]+)?$/.test(path) ? path : null;
+}
+
+// Load an image stored in our own bucket as a data URL. The URLs come from rows
+// users write, so the server downloads by storage path instead of fetching them.
+async function loadStorageImage(
+  supabase: Awaited<ReturnType<typeof createServerSupabaseClient>>,
+  bucket: string,
+  url: string
+): Promise<string | null> {
+  if (url.startsWith("data:image")) return url;
+
+  const path = storagePathFromUrl(supabase, bucket, url);
+  if (!path) {
+    logger.warn("Skipping image outside storage", { bucket });
+    return null;
+  }
+
+  const { data, error } = await supabase.storage.from(bucket).download(path);
+  if (error || !data || !data.type.startsWith("image/")) return null;
+  return `data:${data.type};base64,${Buffer.from(await data.arrayBuffer()).toString("base64")}`;
+}
+
+// Render the receipt PDF of a freshly sealed deal and archive it next to its
+// signatures, so every later download serves the same bytes. Best effort, like
+// timestamping: if it fails, downloads fall back to rendering in the browser.
+// The archive is recorded with the service role, like the timestamp.
+async function archiveDealPdf(
+  supabase: Awaited<ReturnType<typeof createServerSupabaseClient>>,
+  publicId: string
+): Promise<Pick<Deal, "pdfUrl" | "pdfSha256" | "pdfArchivedAt"> | null> {
+  try {
+    const serviceSupabase = createServiceSupabaseClient();
+    if (!serviceSupabase) {
+      logger.error("SUPABASE_SERVICE_ROLE_KEY is not configured; skipping PDF archive");
+      return null;
+    }
+
+    // Load the sealed deal as every viewer sees it, timestamp included
+    const { data: dealData } = await supabase.rpc("get_deal_by_public_id", {
+      p_public_id: publicId,
+    });
+    if (!dealData) return null;
+
+    const deal = transformDeal(dealData as Record<string, unknown>);
+    if (deal.status !== "confirmed" || !deal.dealSeal) return null;
+
+    // Embed the signature images themselves rather than their URLs
+    const signatureImages: Record<string, string> = {};
+    const signatureUrls = [
+      deal.signatureUrl,
+      deal.creatorSignatureUrl,
+      ...(deal.signers || []).map((signer) => signer.signatureUrl),
+    ];
+    for (const url of signatureUrls) {
+      const dataUrl = url ? await loadStorageImage(supabase, "signatures", url) : null;
+      if (url && dataUrl) signatureImages[url] = dataUrl;
+    }
+
+    // Same for the logo, so the PDF renderer never fetches it itself
+    const branding = await getDealBranding(supabase, publicId);
+    const logoDataUrl = branding?.logoUrl ? await loadStorageImage(supabase, "avatars", branding.logoUrl) : null;
+
+    // The appendix lists the audit trail as of sealing
+    const { data: logData } = await supabase.rpc("get_deal_audit_logs", { p_deal_id: deal.id });
+    const auditLog = ((logData as Record<string, unknown>[]) || []).map((log) => ({
+      id: log.id as string,
+      dealId: log.deal_id as string,
+      eventType: log.event_type as AuditLogEntry["eventType"],
+      actorId: log.actor_id as string | null,
+      actorType: log.actor_type as AuditLogEntry["actorType"],
+      createdAt: log.created_at as string,
+      sequence: log.sequence as number | null,
+      entryHash: log.entry_hash as string | null,
+    }));
+
+    const { pdfBlob } = await generateDealPDF({
+      deal,
+      signatureImages,
+      auditLog,
+      branding: branding && { ...branding, logoUrl: logoDataUrl || undefined },
+      verificationUrl: `${APP_URL}/verify?id=${publicId}`,
+    });
+    const pdf = new Uint8Array(await pdfBlob.arrayBuffer());
+    const sha256 = crypto.createHash("sha256").update(pdf).digest("hex");
+
+    const filename = `${deal.id}/receipt-${nanoid(10)}.pdf`;
+    const { error: uploadError } = await supabase.storage.from("signatures").upload(filename, pdf, {
+      contentType: "application/pdf",
+      cacheControl: "31536000",
+      upsert: false,
+    });
+
+    if (uploadError) {
+      logger.error("Error uploading archived PDF", uploadError);
+      return null;
+    }
+
+    const { data: urlData } = supabase.storage.from("signatures").getPublicUrl(filename);
+
+    const { error } = await serviceSupabase.rpc("set_deal_pdf_archive", {
+      p_deal_id: deal.id,
+      p_pdf_url: urlData.publicUrl,
+      p_sha256: sha256,
+    });
+
+    if (error) {
+      logger.error("Error recording archived PDF", error);
+      return null;
+    }
+
+    return { pdfUrl: urlData.publicUrl, pdfSha256: sha256, pdfArchivedAt: new Date().toISOString() };
+  } catch (error) {
+    logger.error("PDF archiving failed", error);
+    return null;
+  }
+}
+
+// Update the input type to include publicId
+export async function confirmDealAction(data: {
+  dealId: string;
+  publicId: string;
+  token: string;
+  signatureBase64: string;
+  /** How the signature was made; defaults to drawn */
+  signatureMethod?: SignatureMethod;
+  /** Pen strokes of a drawn signature */
+  signatureStrokes?: SignatureStrokes;
+  recipientEmail?: string;
+  /** Initials/ticks for the terms the creator marked */
+  termAcknowledgements?: Array<{ termId: string; initials?: string; acknowledgedAt: string }>;
+}): Promise<{ deal: Deal | null; error: string | null }> {
+  try {
+    const acknowledgementsInput = termAcknowledgementSchema
+      .array()
+      .max(LIMITS.MAX_TERMS)
+      .safeParse(data.termAcknowledgements || []);
+    if (!acknowledgementsInput.success) {
+      return { deal: null, error: acknowledgementsInput.error.issues[0]?.message || "Invalid term acknowledgements" };
+    }
+
+    const signatureMethodInput = signatureMethodSchema.default("drawn").safeParse(data.signatureMethod);
+    if (!signatureMethodInput.success) {
+      return { deal: null, error: "Invalid signature method" };
+    }
+
+    const strokesInput = signatureStrokesSchema.optional().safeParse(data.signatureStrokes);
+    if (!strokesInput.success) {
+      return { deal: null, error: strokesInput.error.issues[0]?.message || "Invalid signature strokes" };
+    }
+    if (strokesInput.data && signatureMethodInput.data !== "drawn") {
+      return { deal: null, error: "Pen strokes are only recorded for drawn signatures" };
+    }
+
+    // SECURITY: Validate request origin (CSRF protection)
+    const { validateOrigin } = await import("@/lib/security");
+    const originCheck = await validateOrigin();
+    if (!originCheck.isValid) {
+      return { deal: null, error: originCheck.error || "Invalid request" };
+    }
+
+    // SECURITY: Rate limit by IP to prevent deal confirmation abuse
+    const headersList = await headers();
+    const ip = headersList.get("x-forwarded-for")?.split(",")[0]?.trim() || "unknown";
+    const rateLimitResult = await checkRateLimit("general", `confirm:${ip}`);
+    if (!rateLimitResult.success) {
+      return { deal: null, error: "Rate limit exceeded. Please try again later." };
+    }
+
+    // Refuse up front rather than after the signature is uploaded
+    if (!isSealSigningAvailable()) {
+      logger.error("SEAL_SIGNING_KEY is not configured; refusing to seal deals");
+      return { deal: null, error: "Signing is temporarily unavailable. Please try again later." };
+    }
+
+    const supabase = await createServerSupabaseClient();
+
+    // Check if current user is logged in
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    // Calculate seal on the server
+    const timestamp = new Date().toISOString();
+
+    // CRITICAL FIX: Fetch terms using RPC to bypass RLS for anonymous users
+    const { data: dealData, error: fetchError } = await supabase.rpc("get_deal_by_public_id", {
+      p_public_id: data.publicId,
+    });
+
+    if (fetchError || !dealData) {
+      logger.error("Error fetching deal terms for sealing", fetchError);
+      return { deal: null, error: "Failed to fetch deal data for sealing" };
+    }
+
+    // Verify ID matches to prevent tampering - dealData is JSON type from RPC
+    const dealDataJson = dealData as {
+      id: string;
+      terms: DealTerm[];
+      recipient_id: string | null;
+      recipient_name: string | null;
+      recipient_email: string | null;
+      signers: (SignerRecord & { id: string; recipient_id: string | null })[] | null;
+      creator_signature_mode: string | null;
+      creator_signature_url: string | null;
+      creator_signature_vector: SignatureVector | null;
+      creator_signed_at: string | null;
+      previous_seal: string | null;
+      attachments: DealAttachment[] | null;
+      document: DealDocument | null;
+      term_acknowledgements: TermAcknowledgement[] | null;
+      trust_level: Deal["trustLevel"];
+      verification_policy: VerificationPolicy | null;
+    };
+    if (dealDataJson.id !== data.dealId) {
+      return { deal: null, error: "Deal ID mismatch" };
+    }
+
+    const isMultiParty = !!dealDataJson.signers && dealDataJson.signers.length > 0;
+
+    // Multi-party deal: the token identifies which signer is signing
+    let signerId: string | undefined;
+    if (isMultiParty) {
+      const { data: signer } = await supabase.rpc("get_signer_by_token", {
+        p_deal_id: data.dealId,
+        p_token: data.token,
+      });
+
+      if (!signer) {
+        return { deal: null, error: "Invalid signing link" };
+      }
+      signerId = (signer as { id: string }).id;
+    }
+
+    // Fetch verification records for this deal (if any)
+    // These are included in the seal to create a tamper-proof record of identity verification
+    // CRITICAL: Use RPC function to bypass RLS - anonymous recipients can't SELECT from deal_verifications
+    const { data: verificationData } = await supabase.rpc("get_deal_verifications", {
+      p_deal_id: data.dealId,
+    });
+
+    // RPC returns JSON array or null; each party's records are sealed with that party
+    const verificationRecords = (verificationData as VerificationRecord[] | null) || [];
+
+    // The deal's verification policy must be met by this signer before anything is stored for
+    // the signature. confirm_deal_with_token enforces it too; this gives a readable error.
+    const signer = dealDataJson.signers?.find((s) => s.id === signerId);
+    const unmetRequirements = getUnmetVerificationRequirements(
+      resolveVerificationPolicy(dealDataJson.trust_level, dealDataJson.verification_policy),
+      {
+        verifications: (verificationRecords as NonNullable<Deal["verifications"]>).filter(
+          (record) => (record.signer_id || undefined) === signerId
+        ),
+        signedIn: !!user,
+        isPartyAccount: isDealPartyAccount(
+          user,
+          signer
+            ? { recipientId: signer.recipient_id, email: signer.email }
+            : { recipientId: dealDataJson.recipient_id, email: dealDataJson.recipient_email }
+        ),
+      }
+    );
+    if (unmetRequirements.length > 0) {
+      return { deal: null, error: `Before signing: ${unmetRequirements.join("; ")}` };
+    }
+
+    // Upload the signature
+    const { signatureUrl, error: uploadError } = await uploadSignatureAction(
+      data.dealId,
+      data.signatureBase64
+    );
+
+    if (uploadError || !signatureUrl) {
+      logger.error("Signature upload failed", new Error(uploadError || "Unknown upload error"));
+      return { deal: null, error: "Failed to upload signature. Please try again." };
+    }
+
+    const finalSignatureUrl = signatureUrl;
+    const signatureVector = strokesInput.data
+      ? await storeSignatureStrokes(supabase, data.dealId, strokesInput.data)
+      : null;
+
+    const terms = dealDataJson.terms || [];
+
+    // Terms marked "must initial"/"must acknowledge" need a response from this signer
+    const responses = Object.fromEntries(acknowledgementsInput.data.map((response) => [response.termId, response]));
+    const missingResponses = getMissingTermResponses(terms, responses);
+    if (missingResponses.length > 0) {
+      return { deal: null, error: `Please initial or acknowledge: ${missingResponses.join(", ")}` };
+    }
+
+    // This signer's responses are stored by confirm_deal_with_token along with the
+    // signature, so nothing is left behind if signing fails
+    const markedTerms = terms.filter((term) => term.requirement);
+    const acknowledgements = markedTerms.map((term) => {
+      const response = responses[term.id];
+      return {
+        termId: term.id,
+        kind: term.requirement!,
+        ...(term.requirement === "initial" && { initials: response.initials }),
+        // The recipient's clock can't put a response after the signature
+        acknowledgedAt: new Date(Math.min(Date.parse(response.acknowledgedAt), Date.parse(timestamp))).toISOString(),
+      };
+    });
+
+    // Seal as of the given deal state. The deal is only sealed by the final signature:
+    // the seal covers every party's signature, and the acknowledgements as the RPC
+    // stores them (this signer's replacing their earlier ones, if any).
+    const calculateSeal = async (
+      deal: typeof dealDataJson,
+      records: VerificationRecord[]
+    ): Promise<string | null> => {
+      // Creator signs after the recipient(s): the seal is calculated on counter-signature instead
+      if (deal.creator_signature_mode === "after" && !deal.creator_signed_at) return null;
+
+      const termAcknowledgements: TermAcknowledgement[] | null =
+        markedTerms.length > 0
+          ? [
+              ...(deal.term_acknowledgements || []).filter(
+                (acknowledgement) => (acknowledgement.signerId || undefined) !== signerId
+              ),
+              ...acknowledgements.map((acknowledgement) => ({
+                ...acknowledgement,
+                signerId,
+                signerName: (signer ? signer.name : deal.recipient_name) as string,
+              })),
+            ]
+          : deal.term_acknowledgements;
+
+      const sealInputs = {
+        dealId: data.dealId,
+        terms: JSON.stringify(terms),
+        timestamp,
+        verifications: transformVerificationsForHash(records),
+        creatorSignature: transformCreatorSignatureForHash(
+          deal.creator_signature_url,
+          deal.creator_signed_at,
+          deal.creator_signature_vector
+        ),
+        previousSeal: deal.previous_seal || undefined,
+        attachments: transformAttachmentsForHash(deal.attachments),
+        document: transformDocumentForHash(deal.document),
+        termAcknowledgements: transformTermAcknowledgementsForHash(termAcknowledgements),
+      };
+
+      if (!isMultiParty) {
+        return calculateDealSeal({
+          ...sealInputs,
+          signatureUrl: finalSignatureUrl,
+          signatureStrokesSha256: signatureVector?.sha256,
+        });
+      }
+
+      const allSigners = deal.signers || [];
+      const isLastSigner = allSigners.every((s) => s.id === signerId || !!s.signed_at);
+      if (!isLastSigner) return null;
+
+      return calculateDealSeal({
+        ...sealInputs,
+        signers: transformSignersForHash(
+          allSigners.map((s) =>
+            s.id === signerId
+              ? {
+                  ...s,
+                  email: data.recipientEmail || s.email,
+                  signature_url: finalSignatureUrl,
+                  signature_vector: signatureVector,
+                  signed_at: timestamp,
+                }
+              : s
+          ),
+          records
+        ),
+      });
+    };
+
+    const confirmWithSeal = async (seal: string | null) => {
+      // Sign the seal with the platform key so it can't be recomputed by anyone else
+      const sealSignature = seal ? signDealSeal(seal) : null;
+
+      return supabase.rpc("confirm_deal_with_token", {
+        p_deal_id: data.dealId,
+        p_token: data.token,
+        p_signature_data: finalSignatureUrl,
+        p_deal_seal: seal,
+        p_recipient_email: data.recipientEmail || null,
+        p_recipient_id: user?.id || null,
+        p_confirmed_at: timestamp,
+        p_seal_signature: sealSignature?.signature || null,
+        p_seal_key_id: sealSignature?.keyId || null,
+        p_signature_method: signatureMethodInput.data,
+        p_signature_vector: signatureVector,
+        p_term_acknowledgements: markedTerms.length > 0 ? acknowledgements : null,
+      });
+    };
+
+    let dealSeal = await calculateSeal(dealDataJson, verificationRecords);
+    let { data: confirmedDeal, error: confirmError } = await confirmWithSeal(dealSeal);
+
+    // The last two signers signed at the same time and each saw the other as unsigned:
+    // this signature now completes the deal, so seal it from the signers as committed
+    if (confirmError?.message === "Deal seal required to finalise deal" && isMultiParty && !dealSeal) {
+      const [{ data: currentDeal }, { data: currentVerifications }] = await Promise.all([
+        supabase.rpc("get_deal_by_public_id", { p_public_id: data.publicId }),
+        supabase.rpc("get_deal_verifications", { p_deal_id: data.dealId }),
+      ]);
+
+      if (currentDeal) {
+        dealSeal = await calculateSeal(
+          currentDeal as typeof dealDataJson,
+          (currentVerifications as VerificationRecord[] | null) || []
+        );
+        if (dealSeal) {
+          ({ data: confirmedDeal, error: confirmError } = await confirmWithSeal(dealSeal));
+        }
+      }
+    }
+
+    if (confirmError) {
+      logger.error("Error confirming deal", confirmError);
+      return { deal: null, error: confirmError.message };
+    }
+
+    if (!confirmedDeal) {
+      return { deal: null, error: "Failed to confirm deal" };
+    }
+
+    // This signature sealed the deal: timestamp the seal, then archive the receipt
+    const sealedWith =
+      (confirmedDeal as Record<string, unknown>).status === "confirmed" ? dealSeal : null;
+    const sealTimestamp = sealedWith
+      ? await timestampSealedDeal(data.dealId, sealedWith)
+      : null;
+    const pdfArchive = sealedWith ? await archiveDealPdf(supabase, data.publicId) : null;
+
+    // Re-fetch multi-party deals so the caller gets up-to-date signer progress
+    if (isMultiParty) {
+      const { data: refreshed } = await supabase.rpc("get_deal_by_public_id", {
+        p_public_id: data.publicId,
+      });
+
+      if (refreshed) {
+        return { deal: transformDeal(refreshed as Record<string, unknown>), error: null };
+      }
+    }
+
+    // Get creator name
+    const { data: creator } = await supabase
+      .from("profiles")
+      .select("name")
+      .eq("id", (confirmedDeal as Record<string, unknown>).creator_id)
+      .single();
+
+    return {
+      deal: {
+        ...transformDeal(confirmedDeal as Record<string, unknown>),
+        ...sealTimestamp,
+        ...pdfArchive,
+        creatorName: creator?.name || "Unknown",
+      },
+      error: null,
+    };
+  } catch (error) {
+    logger.error("Server error confirming deal", error);
+    return { deal: null, error: "Server error" };
+  }
+}
+
+// Creator counter-signs a deal after every recipient has signed, which seals it
+export async function countersignDealAction(data: {
+  dealId: string;
+  signatureBase64: string;
+  signatureMethod?: SignatureMethod;
+  signatureStrokes?: SignatureStrokes;
+}): Promise<{ deal: Deal | null; error: string | null }> {
+  try {
+    const validation = countersignDealSchema.safeParse(data);
+    if (!validation.success) {
+      return { deal: null, error: validation.error.issues[0]?.message || "Invalid input" };
+    }
+
+    // SECURITY: Validate request origin (CSRF protection)
+    const { validateOrigin } = await import("@/lib/security");
+    const originCheck = await validateOrigin();
+    if (!originCheck.isValid) {
+      return { deal: null, error: originCheck.error || "Invalid request" };
+    }
+
+    const supabase = await createServerSupabaseClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) {
+      return { deal: null, error: "Not authenticated" };
+    }
+
+    const rateLimitResult = await checkRateLimit("general", `countersign:${user.id}`);
+    if (!rateLimitResult.success) {
+      return { deal: null, error: "Rate limit exceeded. Please try again later." };
+    }
+
+    const { data: dealData, error: fetchError } = await supabase
+      .from("deals")
+      .select("*, signers:deal_signers(*)")
+      .eq("id", data.dealId)
+      .single();
+
+    if (fetchError || !dealData) {
+      return { deal: null, error: "Deal not found" };
+    }
+
+    if (dealData.creator_id !== user.id) {
+      return { deal: null, error: "Only the deal creator can counter-sign" };
+    }
+
+    const deal = transformDeal(dealData);
+    if (deal.status !== "pending" || deal.creatorSignatureMode !== "after" || deal.creatorSignedAt) {
+      return { deal: null, error: "This deal is not awaiting your signature" };
+    }
+
+    const recipientsDone = deal.signers
+      ? deal.signers.every((s) => !!s.signedAt)
+      : !!deal.signatureUrl;
+    if (!recipientsDone) {
+      return { deal: null, error: "Waiting for the recipient to sign first" };
+    }
+
+    if (!isSealSigningAvailable()) {
+      logger.error("SEAL_SIGNING_KEY is not configured; refusing to seal deals");
+      return { deal: null, error: "Signing is temporarily unavailable. Please try again later." };
+    }
+
+    // Checked before the upload, so a refused signature leaves no file behind
+    const { signatureStrokes, signatureMethod = "drawn" } = validation.data;
+    if (signatureStrokes && signatureMethod !== "drawn") {
+      return { deal: null, error: "Pen strokes are only recorded for drawn signatures" };
+    }
+
+    const { signatureUrl, error: uploadError } = await uploadSignatureAction(
+      data.dealId,
+      data.signatureBase64
+    );
+
+    if (uploadError || !signatureUrl) {
+      logger.error("Counter-signature upload failed", new Error(uploadError || "Unknown upload error"));
+      return { deal: null, error: "Failed to upload signature. Please try again." };
+    }
+
+    const timestamp = new Date().toISOString();
+
+    const signatureVector = signatureStrokes
+      ? await storeSignatureStrokes(supabase, data.dealId, signatureStrokes)
+      : null;
+
+    const { data: verificationRecords } = await supabase.rpc("get_deal_verifications", {
+      p_deal_id: data.dealId,
+    });
+
+    // The seal now covers the recipient signature(s) and the creator's counter-signature
+    const dealSeal = await calculateDealSeal({
+      dealId: deal.id,
+      terms: JSON.stringify(deal.terms),
+      signatureUrl: deal.signatureUrl,
+      timestamp,
+      verifications: transformVerificationsForHash(verificationRecords as VerificationRecord[] | null),
+      signers: transformSignersForHash(deal.signers, verificationRecords as VerificationRecord[] | null),
+      creatorSignature: transformCreatorSignatureForHash(signatureUrl, timestamp, signatureVector),
+      previousSeal: deal.previousSeal,
+      attachments: transformAttachmentsForHash(deal.attachments),
+      document: transformDocumentForHash(deal.document),
+      termAcknowledgements: transformTermAcknowledgementsForHash(deal.termAcknowledgements),
+      signatureStrokesSha256: deal.signatureVector?.sha256,
+    });
+    const sealSignature = signDealSeal(dealSeal);
+
+    const { error: countersignError } = await supabase.rpc("countersign_deal", {
+      p_deal_id: data.dealId,
+      p_signature_url: signatureUrl,
+      p_deal_seal: dealSeal,
+      p_signed_at: timestamp,
+      p_seal_signature: sealSignature?.signature || null,
+      p_seal_key_id: sealSignature?.keyId || null,
+      p_signature_method: signatureMethod,
+      p_signature_vector: signatureVector,
+    });
+
+    if (countersignError) {
+      logger.error("Error counter-signing deal", countersignError);
+      return { deal: null, error: countersignError.message };
+    }
+
+    await timestampSealedDeal(data.dealId, dealSeal);
+    await archiveDealPdf(supabase, deal.publicId);
+
+    const { data: refreshed } = await supabase.rpc("get_deal_by_public_id", {
+      p_public_id: deal.publicId,
+    });
+
+    if (!refreshed) {
+      return { deal: null, error: "Failed to load sealed deal" };
+    }
+
+    return { deal: transformDeal(refreshed as Record<string, unknown>), error: null };
+  } catch (error) {
+    logger.error("Server error counter-signing deal", error);
+    return { deal: null, error: "Server error" };
+  }
+}
+
+// Get the full version chain (original deal plus amendments) for a deal, oldest first
+export async function getDealVersionsAction(
+  publicId: string
+): Promise<{ versions: DealVersion[]; error: string | null }> {
+  try {
+    const supabase = await createServerSupabaseClient();
+
+    const { data, error } = await supabase.rpc("get_deal_versions", { p_public_id: publicId });
+
+    if (error) {
+      logger.error("Error fetching deal versions", error);
+      return { versions: [], error: "Failed to load deal versions" };
+    }
+
+    const versions = ((data as Record<string, unknown>[]) || []).map((v) => ({
+      id: v.id as string,
+      publicId: v.public_id as string,
+      version: v.version as number,
+      title: v.title as string,
+      status: v.status as DealVersion["status"],
+      dealSeal: (v.deal_seal as string) || undefined,
+      previousSeal: (v.previous_seal as string) || undefined,
+      createdAt: v.created_at as string,
+      confirmedAt: (v.confirmed_at as string) || undefined,
+      voidedAt: (v.voided_at as string) || undefined,
+    }));
+
+    return { versions, error: null };
+  } catch (error) {
+    logger.error("Error fetching deal versions", error);
+    return { versions: [], error: "Server error" };
+  }
+}
+
+// Get every term proposal on a deal, oldest first (the accepted ones form the revision history)
+export async function getTermProposalsAction(
+  dealId: string,
+  token?: string
+): Promise<{ proposals: TermProposal[]; error: string | null }> {
+  try {
+    const supabase = await createServerSupabaseClient();
+
+    const { data, error } = await supabase.rpc("get_term_proposals", {
+      p_deal_id: dealId,
+      p_token: token || null,
+    });
+
+    if (error) {
+      logger.error("Error fetching term proposals", error);
+      return { proposals: [], error: "Failed to load proposals" };
+    }
+
+    return {
+      proposals: ((data as Record<string, unknown>[]) || []).map(transformTermProposal),
+      error: null,
+    };
+  } catch (error) {
+    logger.error("Error fetching term proposals", error);
+    return { proposals: [], error: "Server error" };
+  }
+}
+
+// Recipient proposes a new value for a term before signing
+// SECURITY: Access is granted by the recipient's (unused) signing token
+export async function proposeTermChangeAction(data: {
+  dealId: string;
+  token: string;
+  termId: string;
+  proposedValue: string;
+  note?: string;
+}): Promise<{ proposal: TermProposal | null; error: string | null }> {
+  try {
+    const validation = proposeTermSchema.safeParse(data);
+    if (!validation.success) {
+      return { proposal: null, error: validation.error.issues[0]?.message || "Invalid input" };
+    }
+
+    // SECURITY: Validate request origin (CSRF protection)
+    const { validateOrigin } = await import("@/lib/security");
+    const originCheck = await validateOrigin();
+    if (!originCheck.isValid) {
+      return { proposal: null, error: originCheck.error || "Invalid request" };
+    }
+
+    const rateLimitResult = await checkRateLimit("general", `propose:${data.dealId}`);
+    if (!rateLimitResult.success) {
+      return { proposal: null, error: "Rate limit exceeded. Please try again later." };
+    }
+
+    const supabase = await createServerSupabaseClient();
+    const validatedData = validation.data;
+
+    const { data: proposal, error } = await supabase.rpc("propose_deal_term", {
+      p_deal_id: validatedData.dealId,
+      p_token: validatedData.token,
+      p_term_id: validatedData.termId,
+      p_proposed_value: validatedData.proposedValue,
+      p_note: validatedData.note || null,
+    });
+
+    if (error || !proposal) {
+      logger.error("Error proposing term change", error);
+      return { proposal: null, error: error?.message || "Failed to propose change" };
+    }
+
+    return { proposal: transformTermProposal(proposal as Record<string, unknown>), error: null };
+  } catch (error) {
+    logger.error("Server error proposing term change", error);
+    return { proposal: null, error: "Server error" };
+  }
+}
+
+// Creator accepts (applying the edit as a new terms revision) or rejects a term proposal
+export async function respondToTermProposalAction(data: {
+  proposalId: string;
+  accept: boolean;
+}): Promise<{ proposal: TermProposal | null; error: string | null }> {
+  try {
+    const validation = resolveTermProposalSchema.safeParse(data);
+    if (!validation.success) {
+      return { proposal: null, error: validation.error.issues[0]?.message || "Invalid input" };
+    }
+
+    // SECURITY: Validate request origin (CSRF protection)
+    const { validateOrigin } = await import("@/lib/security");
+    const originCheck = await validateOrigin();
+    if (!originCheck.isValid) {
+      return { proposal: null, error: originCheck.error || "Invalid request" };
+    }
+
+    const supabase = await createServerSupabaseClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) {
+      return { proposal: null, error: "Not authenticated" };
+    }
+
+    const rateLimitResult = await checkRateLimit("general", `proposal:${user.id}`);
+    if (!rateLimitResult.success) {
+      return { proposal: null, error: "Rate limit exceeded. Please try again later." };
+    }
+
+    const { data: proposal, error } = await supabase.rpc("resolve_term_proposal", {
+      p_proposal_id: data.proposalId,
+      p_accept: data.accept,
+    });
+
+    if (error || !proposal) {
+      logger.error("Error resolving term proposal", error);
+      return { proposal: null, error: error?.message || "Failed to respond to proposal" };
+    }
+
+    return { proposal: transformTermProposal(proposal as Record<string, unknown>), error: null };
+  } catch (error) {
+    logger.error("Server error resolving term proposal", error);
+    return { proposal: null, error: "Server error" };
+  }
+}
+
+// Extend a pending or expired deal's signing deadline (creator only).
+// Outstanding links are retired, so everyone who still has to sign gets a fresh one.
+export async function extendDealDeadlineAction(data: {
+  dealId: string;
+  deadlineDays: number;
+}): Promise<{
+  deal: Deal | null;
+  accessToken: string | null;
+  signerLinks?: SignerLink[];
+  error: string | null;
+}> {
+  try {
+    const validation = extendDeadlineSchema.safeParse(data);
+    if (!validation.success) {
+      return { deal: null, accessToken: null, error: validation.error.issues[0]?.message || "Invalid input" };
+    }
+
+    // SECURITY: Validate request origin (CSRF protection)
+    const { validateOrigin } = await import("@/lib/security");
+    const originCheck = await validateOrigin();
+    if (!originCheck.isValid) {
+      return { deal: null, accessToken: null, error: originCheck.error || "Invalid request" };
+    }
+
+    const supabase = await createServerSupabaseClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) {
+      return { deal: null, accessToken: null, error: "Not authenticated" };
+    }
+
+    const rateLimitResult = await checkRateLimit("general", `extend:${user.id}`);
+    if (!rateLimitResult.success) {
+      return { deal: null, accessToken: null, error: "Rate limit exceeded. Please try again later." };
+    }
+
+    const expiresAt = getTokenExpiry(validation.data.deadlineDays);
+    const { data: extended, error: extendError } = await supabase.rpc("extend_deal_deadline", {
+      p_deal_id: data.dealId,
+      p_expires_at: expiresAt.toISOString(),
+    });
+
+    if (extendError || !extended) {
+      logger.error("Error extending deal deadline", extendError);
+      return { deal: null, accessToken: null, error: extendError?.message || "Failed to extend deadline" };
+    }
+
+    const { data: refreshed } = await supabase.rpc("get_deal_by_public_id", {
+      p_public_id: (extended as Record<string, unknown>).public_id,
+    });
+
+    if (!refreshed) {
+      return { deal: null, accessToken: null, error: "Failed to load deal" };
+    }
+
+    const deal = transformDeal(refreshed as Record<string, unknown>);
+
+    // Issue fresh links for everyone who hasn't signed yet
+    if (deal.signers?.length) {
+      const unsigned = deal.signers.filter((signer) => !signer.signedAt);
+      const tokens = await Promise.all(unsigned.map(() => generateSecureIds()));
+
+      if (unsigned.length > 0) {
+        const { error: tokenError } = await supabase.from("access_tokens").insert(
+          unsigned.map((signer, index) => ({
+            deal_id: deal.id,
+            signer_id: signer.id,
+            token: tokens[index].accessToken,
+            expires_at: expiresAt.toISOString(),
+          }))
+        );
+
+        if (tokenError) {
+          logger.error("Error issuing signer tokens", tokenError);
+          return { deal, accessToken: null, error: "Deadline extended, but new signing links could not be created" };
+        }
+      }
+
+      const signerLinks = unsigned.map((signer, index) => ({
+        signerId: signer.id,
+        name: signer.name,
+        email: signer.email,
+        position: signer.position,
+        url: `${APP_URL}/d/public/${deal.publicId}?token=${tokens[index].accessToken}`,
+      }));
+
+      return { deal, accessToken: null, signerLinks, error: null };
+    }
+
+    if (deal.signatureUrl) {
+      // Recipient already signed - only the creator's counter-signature is outstanding
+      return { deal, accessToken: null, error: null };
+    }
+
+    const { accessToken } = await generateSecureIds();
+    const { error: tokenError } = await supabase.from("access_tokens").insert({
+      deal_id: deal.id,
+      token: accessToken,
+      expires_at: expiresAt.toISOString(),
+    });
+
+    if (tokenError) {
+      logger.error("Error issuing access token", tokenError);
+      return { deal, accessToken: null, error: "Deadline extended, but a new signing link could not be created" };
+    }
+
+    return { deal: { ...deal, accessToken }, accessToken, error: null };
+  } catch (error) {
+    logger.error("Server error extending deal deadline", error);
+    return { deal: null, accessToken: null, error: "Server error" };
+  }
+}
+
+// Void a deal
+// SECURITY: Added CSRF protection and input validation
+export async function voidDealAction(dealId: string): Promise<{ error: string | null }> {
+  try {
+    // Validate input - dealId should be a valid UUID
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    if (!dealId || typeof dealId !== "string" || !uuidRegex.test(dealId)) {
+      return { error: "Invalid deal ID" };
+    }
+
+    // SECURITY: Validate request origin
     const { validateOrigin } = await import("@/lib/security");
     const originCheck = await validateOrigin();
     if (!originCheck.isValid) {
@@ -1294,6 +2852,205 @@ export async function uploadAvatarAction(
   }
 }
 
+// Map a branding_profiles row (or get_deal_branding result) to a BrandingProfile
+function transformBranding(row: Record<string, unknown>): BrandingProfile {
+  return {
+    companyName: (row.company_name as string) || undefined,
+    logoUrl: (row.logo_url as string) || undefined,
+    accentColor: (row.accent_color as string) || undefined,
+    footerText: (row.footer_text as string) || undefined,
+    legalText: (row.legal_text as string) || undefined,
+  };
+}
+
+// Custom branding is a paid-plan feature
+async function isProUser(
+  supabase: Awaited<ReturnType<typeof createServerSupabaseClient>>,
+  userId: string
+): Promise<boolean> {
+  const { data } = await supabase.from("profiles").select("is_pro").eq("id", userId).single();
+  return data?.is_pro === true;
+}
+
+// Get the current user's branding profile
+export async function getBrandingProfileAction(): Promise<{
+  branding: BrandingProfile | null;
+  error: string | null;
+}> {
+  try {
+    const supabase = await createServerSupabaseClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) {
+      return { branding: null, error: "Not authenticated" };
+    }
+
+    const { data, error } = await supabase
+      .from("branding_profiles")
+      .select("*")
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    if (error) {
+      return { branding: null, error: "Failed to load branding" };
+    }
+
+    return { branding: data ? transformBranding(data) : null, error: null };
+  } catch (error) {
+    logger.error("Error fetching branding profile", error);
+    return { branding: null, error: "Server error" };
+  }
+}
+
+// Save the current user's branding profile
+export async function updateBrandingProfileAction(
+  updates: BrandingProfile
+): Promise<{ error: string | null }> {
+  try {
+    const validation = brandingProfileSchema.safeParse(updates);
+    if (!validation.success) {
+      return { error: validation.error.issues[0]?.message || "Invalid input" };
+    }
+    const branding = validation.data;
+
+    // SECURITY: Validate request origin (CSRF protection)
+    const { validateOrigin } = await import("@/lib/security");
+    const originCheck = await validateOrigin();
+    if (!originCheck.isValid) {
+      return { error: originCheck.error || "Invalid request" };
+    }
+
+    const supabase = await createServerSupabaseClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) {
+      return { error: "Not authenticated" };
+    }
+
+    if (!(await isProUser(supabase, user.id))) {
+      return { error: "Custom branding is available on paid plans" };
+    }
+
+    // The logo must be one uploaded through uploadBrandLogoAction
+    const logoPath = branding.logoUrl ? storagePathFromUrl(supabase, "avatars", branding.logoUrl) : null;
+    if (branding.logoUrl && !logoPath?.startsWith(`${user.id}/branding/`)) {
+      return { error: "Invalid logo" };
+    }
+
+    const { error } = await supabase.from("branding_profiles").upsert({
+      user_id: user.id,
+      company_name: branding.companyName || null,
+      logo_url: branding.logoUrl || null,
+      accent_color: branding.accentColor || null,
+      footer_text: branding.footerText || null,
+      legal_text: branding.legalText || null,
+    });
+
+    if (error) {
+      return { error: "Failed to save branding" };
+    }
+
+    return { error: null };
+  } catch (error) {
+    logger.error("Error updating branding profile", error);
+    return { error: "Server error" };
+  }
+}
+
+const MAX_LOGO_SIZE = 1024 * 1024; // 1MB max logo size
+
+// Upload a branding logo to Supabase Storage (saved with the branding profile)
+export async function uploadBrandLogoAction(
+  logoBase64: string
+): Promise<{ logoUrl: string | null; error: string | null }> {
+  try {
+    if (!logoBase64 || typeof logoBase64 !== "string") {
+      return { logoUrl: null, error: "Logo is required" };
+    }
+
+    // SECURITY: Strict MIME type validation (PDFs can embed PNG and JPEG)
+    const mimeMatch = logoBase64.match(/^data:image\/(png|jpeg|jpg);base64,/);
+    if (!mimeMatch) {
+      return { logoUrl: null, error: "Invalid logo format. Only PNG and JPEG allowed." };
+    }
+
+    // SECURITY: Validate request origin (CSRF protection)
+    const { validateOrigin } = await import("@/lib/security");
+    const originCheck = await validateOrigin();
+    if (!originCheck.isValid) {
+      return { logoUrl: null, error: originCheck.error || "Invalid request" };
+    }
+
+    const supabase = await createServerSupabaseClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) {
+      return { logoUrl: null, error: "Not authenticated" };
+    }
+
+    if (!(await isProUser(supabase, user.id))) {
+      return { logoUrl: null, error: "Custom branding is available on paid plans" };
+    }
+
+    const buffer = Buffer.from(logoBase64.slice(mimeMatch[0].length), "base64");
+    if (buffer.length > MAX_LOGO_SIZE) {
+      return { logoUrl: null, error: "Logo file is too large (max 1MB)" };
+    }
+
+    const isPng = mimeMatch[1] === "png";
+    const filename = `${user.id}/branding/${nanoid(10)}.${isPng ? "png" : "jpg"}`;
+
+    const { error: uploadError } = await supabase.storage.from("avatars").upload(filename, buffer, {
+      contentType: isPng ? "image/png" : "image/jpeg",
+      cacheControl: "3600",
+      upsert: true,
+    });
+
+    if (uploadError) {
+      return { logoUrl: null, error: uploadError.message };
+    }
+
+    const { data: urlData } = supabase.storage.from("avatars").getPublicUrl(filename);
+
+    return { logoUrl: urlData.publicUrl, error: null };
+  } catch (error) {
+    logger.error("Error uploading branding logo", error);
+    return { logoUrl: null, error: "Server error" };
+  }
+}
+
+// Get the branding a deal's PDF and receipt are issued under (the creator's, on paid plans)
+export async function getDealBrandingAction(publicId: string): Promise<{
+  branding: BrandingProfile | null;
+  error: string | null;
+}> {
+  try {
+    const supabase = await createServerSupabaseClient();
+    return { branding: await getDealBranding(supabase, publicId), error: null };
+  } catch (error) {
+    logger.error("Error fetching deal branding", error);
+    return { branding: null, error: "Server error" };
+  }
+}
+
+async function getDealBranding(
+  supabase: Awaited<ReturnType<typeof createServerSupabaseClient>>,
+  publicId: string
+): Promise<BrandingProfile | null> {
+  const { data, error } = await supabase.rpc("get_deal_branding", { p_public_id: publicId });
+  if (error) {
+    logger.error("Failed to load deal branding", error);
+    return null;
+  }
+  return data ? transformBranding(data as Record<string, unknown>) : null;
+}
+
 // Get user's deals from database
 export async function getUserDealsAction(): Promise<{ deals: Deal[]; error: string | null }> {
   try {
@@ -1306,15 +3063,27 @@ export async function getUserDealsAction(): Promise<{ deals: Deal[]; error: stri
       return { deals: [], error: "Not authenticated" };
     }
 
+    // Include multi-party deals where the user is one of the additional signers
+    const { data: signerRows } = await supabase
+      .from("deal_signers")
+      .select("deal_id")
+      .eq("recipient_id", user.id);
+
+    const partyFilters = [`creator_id.eq.${user.id}`, `recipient_id.eq.${user.id}`];
+    if (signerRows && signerRows.length > 0) {
+      partyFilters.push(`id.in.(${signerRows.map((r) => r.deal_id).join(",")})`);
+    }
+
     const { data, error } = await supabase
       .from("deals")
       .select(
         `
         *,
-        creator:profiles!creator_id(name)
+        creator:profiles!creator_id(name),
+        signers:deal_signers(*)
       `
       )
-      .or(`creator_id.eq.${user.id},recipient_id.eq.${user.id}`)
+      .or(partyFilters.join(","))
       .order("created_at", { ascending: false });
 
     if (error) {
@@ -1343,6 +3112,9 @@ export async function getAuditLogsAction(dealId: string, token?: string): Promis
     actorType: string;
     metadata: Record<string, unknown> | null;
     createdAt: string;
+    sequence: number | null;
+    previousHash: string | null;
+    entryHash: string | null;
   }>;
   error: string | null;
 }> {
@@ -1367,6 +3139,9 @@ export async function getAuditLogsAction(dealId: string, token?: string): Promis
       actorType: log.actor_type as string,
       metadata: log.metadata as Record<string, unknown> | null,
       createdAt: log.created_at as string,
+      sequence: log.sequence as number | null,
+      previousHash: log.previous_hash as string | null,
+      entryHash: log.entry_hash as string | null,
     }));
 
     return { logs, error: null };
@@ -1380,7 +3155,7 @@ export async function getAuditLogsAction(dealId: string, token?: string): Promis
 export async function logAuditEventAction(data: {
   dealId: string;
   publicId?: string;
-  eventType: "deal_created" | "deal_viewed" | "deal_signed" | "deal_confirmed" | "deal_voided" | "email_sent" | "pdf_generated" | "pdf_downloaded" | "deal_verified" | "deal_link_shared" | "token_validated" | "email_otp_sent" | "email_verified" | "phone_otp_sent" | "phone_verified";
+  eventType: "deal_created" | "deal_viewed" | "deal_signed" | "deal_confirmed" | "deal_voided" | "email_sent" | "pdf_generated" | "pdf_downloaded" | "deal_verified" | "deal_link_shared" | "token_validated" | "email_otp_sent" | "email_verified" | "phone_otp_sent" | "phone_verified" | "id_verified" | "deal_countersigned" | "term_proposed" | "term_accepted" | "term_rejected" | "deal_amended" | "deal_expired" | "deal_extended" | "deal_timestamped" | "pdf_archived" | "attachment_added" | "document_uploaded" | "terms_acknowledged" | "passkey_signed";
   actorType: "creator" | "recipient" | "system";
   metadata?: Record<string, unknown>;
 }): Promise<{ success: boolean; error: string | null }> {
@@ -1497,8 +3272,11 @@ export async function getPrivateDealAction(publicId: string): Promise<{
     const isRecipient =
       deal.recipientId === user.id ||
       (deal.recipientEmail && deal.recipientEmail.toLowerCase() === user.email?.toLowerCase());
+    const isSigner = !!deal.signers?.some(
+      (s) => s.recipientId === user.id || (s.email && s.email.toLowerCase() === user.email?.toLowerCase())
+    );
 
-    if (!isCreator && !isRecipient) {
+    if (!isCreator && !isRecipient && !isSigner) {
       return {
         deal: null,
         auditLogs: [],
@@ -1643,6 +3421,7 @@ export async function sendDealReceiptAction(data: {
     // Send the email
     const { success, error: emailError } = await sendDealReceiptEmail({
       deal,
+      branding: await getDealBranding(supabase, deal.publicId),
       recipientEmail: data.recipientEmail,
       pdfBase64: data.pdfBase64,
       pdfFilename: data.pdfFilename,
@@ -1725,8 +3504,32 @@ export async function sendDealInvitationAction(data: {
       return { success: false, error: "Can only send invitations for pending deals" };
     }
 
-    // Construct share URL
-    const shareUrl = `${APP_URL}/d/public/${deal.publicId}`;
+    // Construct share URL - multi-party deals send each signer their personal link
+    let shareUrl = `${APP_URL}/d/public/${deal.publicId}`;
+
+    const { data: signerRows } = await supabase
+      .from("deal_signers")
+      .select("id, email, signed_at")
+      .eq("deal_id", data.dealId);
+
+    if (signerRows && signerRows.length > 0) {
+      const signer = signerRows.find(
+        (s) => s.email && (s.email as string).toLowerCase() === data.recipientEmail.toLowerCase()
+      );
+      if (!signer) {
+        return { success: false, error: "Email does not belong to a signer on this deal" };
+      }
+      if (signer.signed_at) {
+        return { success: false, error: "This signer has already signed" };
+      }
+
+      const { links } = await getSignerLinksAction(data.dealId);
+      const link = links.find((l) => l.signerId === signer.id);
+      if (!link) {
+        return { success: false, error: "No signing link found for this signer" };
+      }
+      shareUrl = link.url;
+    }
 
     // Import email function dynamically
     const { sendDealInvitationEmail } = await import("@/lib/email");
@@ -0,0 +1,419 @@
+"use server";
+
+import { createServerClient } from "@supabase/ssr";
+import { cookies, headers } from "next/headers";
+import crypto from "crypto";
+import { checkRateLimit } from "@/lib/rate-limit";
+import { logger } from "@/lib/logger";
+import {
+  AttestedCredential,
+  PASSKEY_ALGORITHMS,
+  base64UrlToBytes,
+  bytesToBase64Url,
+  isOriginForRpId,
+  parseAttestationObject,
+  verifyPasskeySignature,
+} from "@/lib/passkeys";
+import { createServiceSupabaseClient } from "@/lib/supabase/server";
+import { Passkey, PasskeyAlgorithm, PasskeySignature } from "@/types";
+
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+
+// Registration challenges live in a short-lived cookie between the two steps
+const REGISTRATION_CHALLENGE_COOKIE = "passkey_registration_challenge";
+const REGISTRATION_CHALLENGE_TTL_SECONDS = 5 * 60;
+
+const MAX_PASSKEY_NAME_LENGTH = 64;
+
+// Helper to create Supabase server client (untyped: the passkey tables aren't in the Database type)
+async function createServerSupabaseClient() {
+  const cookieStore = await cookies();
+
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return cookieStore.get(name)?.value;
+        },
+        set(name: string, value: string, options) {
+          try {
+            cookieStore.set({ name, value, ...options });
+          } catch {
+            // Cookies can fail during static generation
+          }
+        },
+        remove(name: string, options) {
+          try {
+            cookieStore.delete({ name, ...options });
+          } catch {
+            // Cookies can fail during static generation
+          }
+        },
+      },
+    }
+  );
+}
+
+// Passkeys are scoped to the host Proofo is served from
+function getRelyingPartyId(): string {
+  return new URL(APP_URL).hostname;
+}
+
+function readClientData(clientDataJSON: string): { type?: string; challenge?: string; origin?: string } | null {
+  try {
+    return JSON.parse(new TextDecoder().decode(base64UrlToBytes(clientDataJSON)));
+  } catch {
+    return null;
+  }
+}
+
+function transformPasskey(row: Record<string, unknown>): Passkey {
+  return {
+    id: row.id as string,
+    credentialId: row.credential_id as string,
+    name: row.name as string,
+    createdAt: row.created_at as string,
+    lastUsedAt: (row.last_used_at as string) || undefined,
+  };
+}
+
+/**
+ * Options for navigator.credentials.create() to add a passkey to the
+ * signed-in user's profile
+ */
+export async function getPasskeyRegistrationOptionsAction(): Promise<{
+  options: {
+    challenge: string;
+    rp: { id: string; name: string };
+    user: { id: string; name: string; displayName: string };
+    algorithms: PasskeyAlgorithm[];
+    excludeCredentialIds: string[];
+  } | null;
+  error: string | null;
+}> {
+  try {
+    const supabase = await createServerSupabaseClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) {
+      return { options: null, error: "Not authenticated" };
+    }
+
+    const [{ data: profile }, { data: existing }] = await Promise.all([
+      supabase.from("profiles").select("name").eq("id", user.id).single(),
+      supabase.from("passkey_credentials").select("credential_id").eq("user_id", user.id),
+    ]);
+
+    const challenge = bytesToBase64Url(crypto.randomBytes(32));
+    const cookieStore = await cookies();
+    cookieStore.set({
+      name: REGISTRATION_CHALLENGE_COOKIE,
+      value: challenge,
+      httpOnly: true,
+      secure: process.env.NODE_ENV === "production",
+      sameSite: "strict",
+      maxAge: REGISTRATION_CHALLENGE_TTL_SECONDS,
+      path: "/",
+    });
+
+    const email = user.email || "";
+    return {
+      options: {
+        challenge,
+        rp: { id: getRelyingPartyId(), name: "Proofo" },
+        user: {
+          id: bytesToBase64Url(new TextEncoder().encode(user.id)),
+          name: email,
+          displayName: (profile?.name as string) || email,
+        },
+        algorithms: PASSKEY_ALGORITHMS,
+        excludeCredentialIds: (existing || []).map((row) => row.credential_id as string),
+      },
+      error: null,
+    };
+  } catch (error) {
+    logger.error("Error in getPasskeyRegistrationOptionsAction", error);
+    return { options: null, error: "Failed to start passkey setup" };
+  }
+}
+
+/**
+ * Save a passkey created with the options from getPasskeyRegistrationOptionsAction.
+ * The public key and algorithm are read from the attestation object, not
+ * taken from the client.
+ */
+export async function registerPasskeyAction(params: {
+  credentialId: string;
+  /** Base64url AuthenticatorAttestationResponse.attestationObject */
+  attestationObject: string;
+  clientDataJSON: string;
+  transports: string[];
+  name: string;
+}): Promise<{ passkey: Passkey | null; error: string | null }> {
+  try {
+    const { credentialId, attestationObject, clientDataJSON, transports } = params;
+    const name = params.name.trim().slice(0, MAX_PASSKEY_NAME_LENGTH) || "Passkey";
+
+    // SECURITY: Validate request origin (CSRF protection)
+    const { validateOrigin } = await import("@/lib/security");
+    const originCheck = await validateOrigin();
+    if (!originCheck.isValid) {
+      return { passkey: null, error: originCheck.error || "Invalid request" };
+    }
+
+    let credential: AttestedCredential;
+    try {
+      credential = parseAttestationObject(base64UrlToBytes(attestationObject));
+    } catch (parseError) {
+      logger.warn("Unreadable passkey attestation", { error: parseError });
+      return { passkey: null, error: "This passkey uses an algorithm Proofo doesn't support" };
+    }
+
+    const cookieStore = await cookies();
+    const expectedChallenge = cookieStore.get(REGISTRATION_CHALLENGE_COOKIE)?.value;
+    cookieStore.delete(REGISTRATION_CHALLENGE_COOKIE);
+
+    const rpId = getRelyingPartyId();
+    const clientData = readClientData(clientDataJSON);
+    if (
+      !expectedChallenge ||
+      clientData?.type !== "webauthn.create" ||
+      clientData.challenge !== expectedChallenge ||
+      !clientData.origin ||
+      !isOriginForRpId(clientData.origin, rpId)
+    ) {
+      return { passkey: null, error: "Passkey setup expired or didn't match. Please try again." };
+    }
+
+    // The authenticator must have made this credential for our RP ID, with the user verified
+    const rpIdHash = crypto.createHash("sha256").update(rpId).digest();
+    if (
+      !rpIdHash.equals(Buffer.from(credential.rpIdHash)) ||
+      !credential.userVerified ||
+      bytesToBase64Url(credential.credentialId) !== credentialId
+    ) {
+      return { passkey: null, error: "Passkey setup expired or didn't match. Please try again." };
+    }
+
+    const publicKey = bytesToBase64Url(
+      crypto
+        .createPublicKey({ key: credential.publicKeyJwk as crypto.JsonWebKey, format: "jwk" })
+        .export({ type: "spki", format: "der" })
+    );
+
+    const supabase = await createServerSupabaseClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) {
+      return { passkey: null, error: "Not authenticated" };
+    }
+
+    // Passkeys are only added here, with the key read from the attestation
+    const serviceSupabase = createServiceSupabaseClient();
+    if (!serviceSupabase) {
+      logger.error("SUPABASE_SERVICE_ROLE_KEY is not configured; passkeys can't be added");
+      return { passkey: null, error: "Failed to save passkey" };
+    }
+
+    const { data, error } = await serviceSupabase
+      .from("passkey_credentials")
+      .insert({
+        user_id: user.id,
+        credential_id: credentialId,
+        public_key: publicKey,
+        algorithm: credential.algorithm,
+        rp_id: rpId,
+        name,
+        transports,
+      })
+      .select("id, credential_id, name, created_at, last_used_at")
+      .single();
+
+    if (error || !data) {
+      logger.error("Error saving passkey", error);
+      return { passkey: null, error: "Failed to save passkey" };
+    }
+
+    return { passkey: transformPasskey(data), error: null };
+  } catch (error) {
+    logger.error("Error in registerPasskeyAction", error);
+    return { passkey: null, error: "Failed to save passkey" };
+  }
+}
+
+/**
+ * The signed-in user's passkeys
+ */
+export async function listPasskeysAction(): Promise<{ passkeys: Passkey[]; error: string | null }> {
+  try {
+    const supabase = await createServerSupabaseClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) {
+      return { passkeys: [], error: "Not authenticated" };
+    }
+
+    const { data, error } = await supabase
+      .from("passkey_credentials")
+      .select("id, credential_id, name, created_at, last_used_at")
+      .eq("user_id", user.id)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      logger.error("Error fetching passkeys", error);
+      return { passkeys: [], error: "Failed to load passkeys" };
+    }
+
+    return { passkeys: (data || []).map(transformPasskey), error: null };
+  } catch (error) {
+    logger.error("Error in listPasskeysAction", error);
+    return { passkeys: [], error: "Failed to load passkeys" };
+  }
+}
+
+/**
+ * Remove a passkey from the signed-in user's profile. Deals it already signed
+ * keep their signature, which carries its own copy of the public key.
+ */
+export async function deletePasskeyAction(id: string): Promise<{ success: boolean; error: string | null }> {
+  try {
+    // SECURITY: Validate request origin (CSRF protection)
+    const { validateOrigin } = await import("@/lib/security");
+    const originCheck = await validateOrigin();
+    if (!originCheck.isValid) {
+      return { success: false, error: originCheck.error || "Invalid request" };
+    }
+
+    const supabase = await createServerSupabaseClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) {
+      return { success: false, error: "Not authenticated" };
+    }
+
+    const { error } = await supabase.from("passkey_credentials").delete().eq("id", id).eq("user_id", user.id);
+
+    if (error) {
+      logger.error("Error deleting passkey", error);
+      return { success: false, error: "Failed to remove passkey" };
+    }
+
+    return { success: true, error: null };
+  } catch (error) {
+    logger.error("Error in deletePasskeyAction", error);
+    return { success: false, error: "Failed to remove passkey" };
+  }
+}
+
+/**
+ * Record a party's passkey signature over a sealed deal's seal. The assertion
+ * is checked against the seal and the stored passkey before it's saved.
+ */
+export async function signDealWithPasskeyAction(params: {
+  publicId: string;
+  credentialId: string;
+  authenticatorData: string;
+  clientDataJSON: string;
+  signature: string;
+}): Promise<{ passkeySignature: PasskeySignature | null; error: string | null }> {
+  try {
+    const { publicId, credentialId, authenticatorData, clientDataJSON, signature } = params;
+
+    // SECURITY: Validate request origin (CSRF protection)
+    const { validateOrigin } = await import("@/lib/security");
+    const originCheck = await validateOrigin();
+    if (!originCheck.isValid) {
+      return { passkeySignature: null, error: originCheck.error || "Invalid request" };
+    }
+
+    // SECURITY: Rate limit by IP
+    const headersList = await headers();
+    const ip = headersList.get("x-forwarded-for")?.split(",")[0]?.trim() || "unknown";
+    const rateLimitResult = await checkRateLimit("general", `passkey:${ip}`);
+    if (!rateLimitResult.success) {
+      return { passkeySignature: null, error: "Too many requests. Please try again later." };
+    }
+
+    const supabase = await createServerSupabaseClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) {
+      return { passkeySignature: null, error: "Not authenticated" };
+    }
+
+    const { data: deal, error: dealError } = await supabase.rpc("get_deal_by_public_id", {
+      p_public_id: publicId,
+    });
+    const dealData = deal as { id: string; status: string; deal_seal: string | null } | null;
+    if (dealError || !dealData) {
+      return { passkeySignature: null, error: "Deal not found" };
+    }
+    if (dealData.status !== "confirmed" || !dealData.deal_seal) {
+      return { passkeySignature: null, error: "Only sealed deals can be signed with a passkey" };
+    }
+
+    const { data: credential } = await supabase
+      .from("passkey_credentials")
+      .select("credential_id, public_key, algorithm, rp_id")
+      .eq("credential_id", credentialId)
+      .eq("user_id", user.id)
+      .single();
+    if (!credential) {
+      return { passkeySignature: null, error: "Passkey not found" };
+    }
+
+    const passkeySignature: PasskeySignature = {
+      userId: user.id,
+      signerName: "",
+      credentialId,
+      rpId: credential.rp_id as string,
+      publicKey: credential.public_key as string,
+      algorithm: credential.algorithm as PasskeyAlgorithm,
+      authenticatorData,
+      clientDataJSON,
+      signature,
+      signedAt: "",
+    };
+
+    const status = await verifyPasskeySignature(passkeySignature, dealData.deal_seal);
+    if (status !== "valid") {
+      logger.warn("Rejected passkey signature", { publicId, status });
+      return { passkeySignature: null, error: "The passkey signature couldn't be verified" };
+    }
+
+    // Recorded with the service role now the assertion checks out. The RPC
+    // checks the user is a party who signed and hasn't used a passkey on this deal yet
+    const serviceSupabase = createServiceSupabaseClient();
+    if (!serviceSupabase) {
+      logger.error("SUPABASE_SERVICE_ROLE_KEY is not configured; passkey signatures can't be recorded");
+      return { passkeySignature: null, error: "Failed to record passkey signature" };
+    }
+
+    const { data: recorded, error } = await serviceSupabase.rpc("record_passkey_signature", {
+      p_deal_id: dealData.id,
+      p_user_id: user.id,
+      p_credential_id: credentialId,
+      p_authenticator_data: authenticatorData,
+      p_client_data_json: clientDataJSON,
+      p_signature: signature,
+    });
+
+    if (error) {
+      logger.error("Error recording passkey signature", error);
+      return { passkeySignature: null, error: error.message || "Failed to record passkey signature" };
+    }
+
+    const { signer_name, signed_at } = recorded as { signer_name: string; signed_at: string };
+    return { passkeySignature: { ...passkeySignature, signerName: signer_name, signedAt: signed_at }, error: null };
+  } catch (error) {
+    logger.error("Error in signDealWithPasskeyAction", error);
+    return { passkeySignature: null, error: "Failed to sign with passkey" };
+  }
+}
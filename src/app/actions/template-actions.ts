@@ -3,9 +3,10 @@
 import { createServerClient } from "@supabase/ssr";
 import { cookies } from "next/headers";
 import { z } from "zod";
-import { UserTemplate, TemplateField, TemplateTheme } from "@/types";
+import { UserTemplate, TemplateField, TemplateTheme, VerificationPolicy } from "@/types";
 import { checkRateLimit } from "@/lib/rate-limit";
 import { logger } from "@/lib/logger";
+import { verificationPolicySchema } from "@/lib/validations";
 
 // Helper to create Supabase server client
 async function createServerSupabaseClient() {
@@ -55,6 +56,8 @@ const createTemplateSchema = z.object({
   theme: z.enum(["financial", "services", "personal", "general"]).optional(),
   fields: z.array(templateFieldSchema).min(1, "At least one field required").max(20, "Too many fields"),
   isPublic: z.boolean().optional(),
+  // null clears the template's policy
+  verificationPolicy: verificationPolicySchema.nullable().optional(),
 });
 
 const updateTemplateSchema = createTemplateSchema.partial();
@@ -70,6 +73,7 @@ function transformTemplate(dbTemplate: Record<string, unknown>): UserTemplate {
     fields: dbTemplate.fields as TemplateField[],
     userId: dbTemplate.user_id as string,
     isPublic: (dbTemplate.is_public as boolean) || false,
+    verificationPolicy: (dbTemplate.verification_policy as VerificationPolicy | null) || undefined,
     createdAt: dbTemplate.created_at as string,
     updatedAt: dbTemplate.updated_at as string,
   };
@@ -121,6 +125,7 @@ export async function createTemplateAction(data: {
   theme?: TemplateTheme;
   fields: TemplateField[];
   isPublic?: boolean;
+  verificationPolicy?: VerificationPolicy | null;
 }): Promise<{
   template: UserTemplate | null;
   error: string | null;
@@ -162,6 +167,7 @@ export async function createTemplateAction(data: {
         theme: validatedData.theme || "general",
         fields: validatedData.fields,
         is_public: validatedData.isPublic || false,
+        verification_policy: validatedData.verificationPolicy || null,
       })
       .select()
       .single();
@@ -191,6 +197,7 @@ export async function updateTemplateAction(
     theme: TemplateTheme;
     fields: TemplateField[];
     isPublic: boolean;
+    verificationPolicy: VerificationPolicy | null;
   }>
 ): Promise<{
   template: UserTemplate | null;
@@ -231,6 +238,7 @@ export async function updateTemplateAction(
     if (validatedData.theme !== undefined) updateObj.theme = validatedData.theme;
     if (validatedData.fields !== undefined) updateObj.fields = validatedData.fields;
     if (validatedData.isPublic !== undefined) updateObj.is_public = validatedData.isPublic;
+    if (validatedData.verificationPolicy !== undefined) updateObj.verification_policy = validatedData.verificationPolicy;
 
     if (Object.keys(updateObj).length === 0) {
       return { template: null, error: "No fields to update" };
@@ -3,32 +3,18 @@
 import { createServerClient } from "@supabase/ssr";
 import { cookies, headers } from "next/headers";
 import crypto from "crypto";
-import { Resend } from "resend";
 import { checkRateLimit } from "@/lib/rate-limit";
 import { logger } from "@/lib/logger";
+import { createServiceSupabaseClient } from "@/lib/supabase/server";
+import { ID_PHOTO_TYPES, MAX_ID_PHOTO_SIZE, isIdDocumentType } from "@/lib/id-verification";
+import { IdPhoto, getIdVerificationProvider } from "@/lib/id-verification-provider";
+import { getMailTransport } from "@/lib/mail-transport";
+import { SmsSendResult, getSmsProvider, getSmsStatusCallbackUrl } from "@/lib/sms-provider";
+import { formatEmailDomains, isEmailDomainAllowed, resolveVerificationPolicy } from "@/lib/verification-policy";
+import { TrustLevel, VerificationPolicy } from "@/types";
 
-// Initialize Resend client
-const resend = process.env.RESEND_API_KEY ? new Resend(process.env.RESEND_API_KEY) : null;
-const FROM_EMAIL = process.env.RESEND_FROM_EMAIL || "Proofo <onboarding@resend.dev>";
 const _APP_URL = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
 
-// Initialize Twilio client
-const twilioAccountSid = process.env.TWILIO_ACCOUNT_SID;
-const twilioAuthToken = process.env.TWILIO_AUTH_TOKEN;
-const twilioPhoneNumber = process.env.TWILIO_PHONE_NUMBER;
-let twilioClient: ReturnType<typeof import('twilio')> | null = null;
-
-async function getTwilioClient() {
-  if (!twilioAccountSid || !twilioAuthToken) {
-    return null;
-  }
-  if (!twilioClient) {
-    const twilio = (await import('twilio')).default;
-    twilioClient = twilio(twilioAccountSid, twilioAuthToken);
-  }
-  return twilioClient;
-}
-
 // OTP configuration
 const OTP_LENGTH = 6;
 const OTP_EXPIRY_MINUTES = 10;
@@ -82,16 +68,34 @@ function hashOTP(otp: string): string {
   return crypto.createHash("sha256").update(otp).digest("hex");
 }
 
+function hashBytes(bytes: Uint8Array): string {
+  return crypto.createHash("sha256").update(bytes).digest("hex");
+}
+
+// Fields of get_deal_by_public_id the verification actions check
+interface VerificationDeal {
+  id: string;
+  status: string;
+  trust_level: TrustLevel;
+  verification_policy: VerificationPolicy | null;
+}
+
+function getDealPolicy(deal: VerificationDeal): VerificationPolicy {
+  return resolveVerificationPolicy(deal.trust_level, deal.verification_policy);
+}
+
 /**
  * Send email verification OTP for a deal
  */
 export async function sendEmailVerificationOTP(params: {
   dealId: string;
+  /** Signing token of the party verifying */
+  token: string;
   email: string;
   publicId: string;
 }): Promise<{ success: boolean; error: string | null }> {
   try {
-    const { dealId, email, publicId } = params;
+    const { dealId, token, email, publicId } = params;
 
     // Basic validation
     const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
@@ -118,17 +122,30 @@ export async function sendEmailVerificationOTP(params: {
       return { success: false, error: "Deal not found" };
     }
 
-    const dealData = deal as { id: string; trust_level: string; status: string };
+    const dealData = deal as VerificationDeal;
+
+    if (dealData.id !== dealId) {
+      return { success: false, error: "Deal not found" };
+    }
 
     // Check deal is in valid state
     if (dealData.status !== "pending") {
       return { success: false, error: "This deal is no longer available for signing" };
     }
 
-    // Check if email verification is required
-    const trustLevel = dealData.trust_level || "basic";
-    if (trustLevel === "basic") {
-      return { success: false, error: "This deal does not require email verification" };
+    // Check the deal's policy uses email verification, and for which domains
+    const policy = getDealPolicy(dealData);
+    if (policy.email === "off") {
+      return { success: false, error: "This deal does not use email verification" };
+    }
+    if (!isEmailDomainAllowed(email, policy.emailDomains)) {
+      return { success: false, error: `Use an email address ending in ${formatEmailDomains(policy.emailDomains || [])}` };
+    }
+
+    const mail = getMailTransport();
+    if (!mail) {
+      logger.error("No mail transport configured (set MAIL_TRANSPORT)");
+      return { success: false, error: "Email verification isn't available right now" };
     }
 
     // Generate OTP
@@ -138,6 +155,7 @@ export async function sendEmailVerificationOTP(params: {
     // Store OTP in database
     const { error: createError } = await supabase.rpc("create_verification_code", {
       p_deal_id: dealId,
+      p_token: token,
       p_verification_type: "email",
       p_target: email.toLowerCase().trim(),
       p_code_hash: otpHash,
@@ -150,22 +168,15 @@ export async function sendEmailVerificationOTP(params: {
     }
 
     // Send email with OTP
-    if (!resend) {
-      // Dev mode: log OTP to console
-      logger.info(`[DEV MODE] Email OTP for ${email}: ${otp}`);
-      return { success: true, error: null };
-    }
-
-    const { error: emailError } = await resend.emails.send({
-      from: FROM_EMAIL,
-      to: [email],
-      subject: `Your Proofo verification code: ${otp}`,
-      html: generateOTPEmailHTML(otp),
-      text: generateOTPEmailText(otp),
-    });
-
-    if (emailError) {
-      logger.error("Error sending OTP email", emailError);
+    try {
+      await mail.send({
+        to: [email],
+        subject: `Your Proofo verification code: ${otp}`,
+        html: generateOTPEmailHTML(otp),
+        text: generateOTPEmailText(otp),
+      });
+    } catch (emailError) {
+      logger.error(`Error sending OTP email via ${mail.name}`, emailError);
       return { success: false, error: "Failed to send verification email" };
     }
 
@@ -174,7 +185,7 @@ export async function sendEmailVerificationOTP(params: {
       p_deal_id: dealId,
       p_event_type: "email_otp_sent",
       p_actor_type: "system",
-      p_metadata: { email: email.toLowerCase().trim() },
+      p_metadata: { email: email.toLowerCase().trim(), transport: mail.id },
     });
 
     return { success: true, error: null };
@@ -189,12 +200,13 @@ export async function sendEmailVerificationOTP(params: {
  */
 export async function verifyEmailOTP(params: {
   dealId: string;
+  token: string;
   email: string;
   otp: string;
   publicId: string;
 }): Promise<{ success: boolean; error: string | null }> {
   try {
-    const { dealId, email, otp, publicId } = params;
+    const { dealId, token, email, otp, publicId } = params;
 
     // Basic validation
     if (!otp || otp.length !== OTP_LENGTH) {
@@ -212,12 +224,28 @@ export async function verifyEmailOTP(params: {
       return { success: false, error: "Deal not found" };
     }
 
+    const dealData = deal as VerificationDeal;
+
+    if (dealData.id !== dealId) {
+      return { success: false, error: "Deal not found" };
+    }
+
+    // Check the deal's policy uses email verification, and for which domains
+    const policy = getDealPolicy(dealData);
+    if (policy.email === "off") {
+      return { success: false, error: "This deal does not use email verification" };
+    }
+    if (!isEmailDomainAllowed(email, policy.emailDomains)) {
+      return { success: false, error: `Use an email address ending in ${formatEmailDomains(policy.emailDomains || [])}` };
+    }
+
     // Hash the OTP for comparison
     const otpHash = hashOTP(otp);
 
     // Verify the code using RPC function
     const { data: isValid, error: verifyError } = await supabase.rpc("verify_code", {
       p_deal_id: dealId,
+      p_token: token,
       p_verification_type: "email",
       p_target: email.toLowerCase().trim(),
       p_code_hash: otpHash,
@@ -252,11 +280,12 @@ export async function verifyEmailOTP(params: {
  */
 export async function sendPhoneVerificationOTP(params: {
   dealId: string;
+  token: string;
   phone: string;
   publicId: string;
 }): Promise<{ success: boolean; error: string | null }> {
   try {
-    const { dealId, phone, publicId } = params;
+    const { dealId, token, phone, publicId } = params;
 
     // Basic phone validation (E.164 format)
     const phoneRegex = /^\+[1-9]\d{1,14}$/;
@@ -283,17 +312,26 @@ export async function sendPhoneVerificationOTP(params: {
       return { success: false, error: "Deal not found" };
     }
 
-    const dealData = deal as { id: string; trust_level: string; status: string };
+    const dealData = deal as VerificationDeal;
+
+    if (dealData.id !== dealId) {
+      return { success: false, error: "Deal not found" };
+    }
 
     // Check deal is in valid state
     if (dealData.status !== "pending") {
       return { success: false, error: "This deal is no longer available for signing" };
     }
 
-    // Check if phone verification is required (strong or maximum trust level)
-    const trustLevel = dealData.trust_level || "basic";
-    if (trustLevel !== "strong" && trustLevel !== "maximum") {
-      return { success: false, error: "This deal does not require phone verification" };
+    // Check the deal's policy uses phone verification
+    if (getDealPolicy(dealData).phone === "off") {
+      return { success: false, error: "This deal does not use phone verification" };
+    }
+
+    const sms = getSmsProvider();
+    if (!sms) {
+      logger.error("No SMS provider configured (set SMS_PROVIDER)");
+      return { success: false, error: "Phone verification isn't available right now" };
     }
 
     // Generate OTP
@@ -303,6 +341,7 @@ export async function sendPhoneVerificationOTP(params: {
     // Store OTP in database
     const { error: createError } = await supabase.rpc("create_verification_code", {
       p_deal_id: dealId,
+      p_token: token,
       p_verification_type: "phone",
       p_target: phone,
       p_code_hash: otpHash,
@@ -315,32 +354,42 @@ export async function sendPhoneVerificationOTP(params: {
     }
 
     // Send SMS with OTP
-    const twilio = await getTwilioClient();
-    if (!twilio) {
-      // Dev mode: log OTP to console
-      logger.info(`[DEV MODE] Phone OTP for ${phone}: ${otp}`);
-      return { success: true, error: null };
-    }
-
+    let sent: SmsSendResult;
     try {
-      await twilio.messages.create({
-        body: `Your Proofo verification code is: ${otp}. Valid for ${OTP_EXPIRY_MINUTES} minutes.`,
-        from: twilioPhoneNumber,
+      sent = await sms.send({
         to: phone,
+        body: `Your Proofo verification code is: ${otp}. Valid for ${OTP_EXPIRY_MINUTES} minutes.`,
+        statusCallbackUrl: getSmsStatusCallbackUrl(sms),
       });
     } catch (smsError) {
-      logger.error("Error sending SMS", smsError);
+      logger.error(`Error sending SMS via ${sms.name}`, smsError);
       return { success: false, error: "Failed to send verification SMS. Please check your phone number." };
     }
 
     // Log audit event
-    await supabase.rpc("log_audit_event", {
+    const { data: auditLogId } = await supabase.rpc("log_audit_event", {
       p_deal_id: dealId,
       p_event_type: "phone_otp_sent",
       p_actor_type: "system",
-      p_metadata: { phone: phone.slice(0, 4) + "****" + phone.slice(-2) }, // Mask phone for privacy
+      p_metadata: { phone: phone.slice(0, 4) + "****" + phone.slice(-2), provider: sms.id }, // Mask phone for privacy
     });
 
+    // Delivery reports from the provider are recorded against the audit event
+    const serviceSupabase = createServiceSupabaseClient();
+    if (auditLogId && !serviceSupabase) {
+      logger.error("SUPABASE_SERVICE_ROLE_KEY is not configured; SMS delivery isn't tracked");
+    } else if (auditLogId && serviceSupabase) {
+      const { error: trackError } = await serviceSupabase.rpc("track_sms_delivery", {
+        p_audit_log_id: auditLogId,
+        p_provider: sms.id,
+        p_message_id: sent.messageId,
+        p_status: sent.status,
+      });
+      if (trackError) {
+        logger.error("Error tracking SMS delivery", trackError);
+      }
+    }
+
     return { success: true, error: null };
   } catch (error) {
     logger.error("Error in sendPhoneVerificationOTP", error);
@@ -353,12 +402,13 @@ export async function sendPhoneVerificationOTP(params: {
  */
 export async function verifyPhoneOTP(params: {
   dealId: string;
+  token: string;
   phone: string;
   otp: string;
   publicId: string;
 }): Promise<{ success: boolean; error: string | null }> {
   try {
-    const { dealId, phone, otp, publicId } = params;
+    const { dealId, token, phone, otp, publicId } = params;
 
     // Basic validation
     if (!otp || otp.length !== OTP_LENGTH) {
@@ -376,12 +426,24 @@ export async function verifyPhoneOTP(params: {
       return { success: false, error: "Deal not found" };
     }
 
+    const dealData = deal as VerificationDeal;
+
+    if (dealData.id !== dealId) {
+      return { success: false, error: "Deal not found" };
+    }
+
+    // Check the deal's policy uses phone verification
+    if (getDealPolicy(dealData).phone === "off") {
+      return { success: false, error: "This deal does not use phone verification" };
+    }
+
     // Hash the OTP for comparison
     const otpHash = hashOTP(otp);
 
     // Verify the code using RPC function
     const { data: isValid, error: verifyError } = await supabase.rpc("verify_code", {
       p_deal_id: dealId,
+      p_token: token,
       p_verification_type: "phone",
       p_target: phone,
       p_code_hash: otpHash,
@@ -412,10 +474,140 @@ export async function verifyPhoneOTP(params: {
 }
 
 /**
- * Get verification status for a deal
+ * Decode a photo sent as a data URL, or null if it isn't an accepted image
+ */
+function decodeIdPhoto(dataUrl: string): IdPhoto | null {
+  const match = /^data:([\w/+.-]+);base64,([A-Za-z0-9+/=]+)$/.exec(dataUrl || "");
+  if (!match || !ID_PHOTO_TYPES.includes(match[1])) return null;
+
+  const bytes = new Uint8Array(Buffer.from(match[2], "base64"));
+  if (bytes.length === 0 || bytes.length > MAX_ID_PHOTO_SIZE) return null;
+
+  return { bytes, mimeType: match[1] };
+}
+
+/**
+ * Check an identity document photo and selfie for a deal whose policy uses ID
+ * verification (Maximum trust level or a custom policy).
+ * The photos go to the ID verification provider and are not stored; the
+ * result is recorded in deal_verifications (type "id") and sealed with the deal.
+ */
+export async function submitIdVerification(params: {
+  dealId: string;
+  token: string;
+  publicId: string;
+  documentType: string;
+  documentPhoto: string;
+  selfiePhoto: string;
+}): Promise<{ success: boolean; error: string | null }> {
+  try {
+    const { dealId, token, publicId, documentType } = params;
+
+    if (!isIdDocumentType(documentType)) {
+      return { success: false, error: "Choose the type of document" };
+    }
+
+    const document = decodeIdPhoto(params.documentPhoto);
+    const selfie = decodeIdPhoto(params.selfiePhoto);
+    if (!document || !selfie) {
+      return { success: false, error: "Photos must be PNG, JPEG or WebP images under 2.5MB" };
+    }
+
+    // Rate limit by IP
+    const headersList = await headers();
+    const ip = headersList.get("x-forwarded-for")?.split(",")[0]?.trim() || "unknown";
+    const rateLimitResult = await checkRateLimit("general", `id:${ip}`);
+    if (!rateLimitResult.success) {
+      return { success: false, error: "Too many requests. Please try again later." };
+    }
+
+    const supabase = await createServerSupabaseClient();
+
+    // Verify the deal exists and requires ID verification
+    const { data: deal, error: dealError } = await supabase.rpc("get_deal_by_public_id", {
+      p_public_id: publicId,
+    });
+
+    if (dealError || !deal) {
+      return { success: false, error: "Deal not found" };
+    }
+
+    const dealData = deal as VerificationDeal;
+
+    if (dealData.id !== dealId) {
+      return { success: false, error: "Deal not found" };
+    }
+
+    if (dealData.status !== "pending") {
+      return { success: false, error: "This deal is no longer available for signing" };
+    }
+
+    if (getDealPolicy(dealData).id === "off") {
+      return { success: false, error: "This deal does not use ID verification" };
+    }
+
+    const provider = getIdVerificationProvider();
+    // Only the server may record a passed check, once the provider approves it
+    const serviceSupabase = createServiceSupabaseClient();
+    if (!provider || !serviceSupabase) {
+      if (!serviceSupabase) logger.error("SUPABASE_SERVICE_ROLE_KEY is not configured; ID verification is unavailable");
+      return { success: false, error: "ID verification isn't available right now" };
+    }
+
+    let result;
+    try {
+      result = await provider.verify({ documentType, document, selfie, reference: dealId });
+    } catch (providerError) {
+      logger.error("ID verification provider error", providerError);
+      return { success: false, error: "Couldn't reach the ID verification service. Please try again." };
+    }
+
+    if (!result.verified) {
+      return { success: false, error: result.reason || "We couldn't verify your ID. Please try again with clearer photos." };
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+
+    const { error: recordError } = await serviceSupabase.rpc("record_id_verification", {
+      p_deal_id: dealId,
+      p_token: token,
+      p_document_type: documentType,
+      p_metadata: {
+        provider: provider.id,
+        provider_reference: result.providerReference,
+        document_sha256: hashBytes(document.bytes),
+        selfie_sha256: hashBytes(selfie.bytes),
+        ...(result.fullName && { full_name: result.fullName }),
+      },
+      p_actor_id: user?.id ?? null,
+    });
+
+    if (recordError) {
+      logger.error("Error recording ID verification", recordError);
+      return { success: false, error: "Failed to record ID verification" };
+    }
+
+    // A signed-in recipient's profile remembers that they've passed an ID check
+    if (user) {
+      await supabase
+        .from("profiles")
+        .update({ id_verified_at: new Date().toISOString(), id_verification_method: provider.id })
+        .eq("id", user.id);
+    }
+
+    return { success: true, error: null };
+  } catch (error) {
+    logger.error("Error in submitIdVerification", error);
+    return { success: false, error: "Server error" };
+  }
+}
+
+/**
+ * Get verification status for a deal, for the party the signing token belongs to
  */
 export async function getVerificationStatus(params: {
   dealId: string;
+  token: string;
   publicId: string;
 }): Promise<{
   trustLevel: string;
@@ -423,17 +615,20 @@ export async function getVerificationStatus(params: {
   emailVerified: boolean;
   phoneRequired: boolean;
   phoneVerified: boolean;
+  idRequired: boolean;
+  idVerified: boolean;
   canSign: boolean;
   error: string | null;
 }> {
   try {
-    const { dealId, publicId: _publicId } = params;
+    const { dealId, token, publicId: _publicId } = params;
 
     const supabase = await createServerSupabaseClient();
 
     // Use RPC to get verification status
     const { data, error } = await supabase.rpc("get_deal_verification_status", {
       p_deal_id: dealId,
+      p_token: token,
     });
 
     if (error) {
@@ -444,6 +639,8 @@ export async function getVerificationStatus(params: {
         emailVerified: false,
         phoneRequired: false,
         phoneVerified: false,
+        idRequired: false,
+        idVerified: false,
         canSign: true,
         error: "Failed to get verification status",
       };
@@ -455,6 +652,8 @@ export async function getVerificationStatus(params: {
       email_verified: boolean;
       phone_required: boolean;
       phone_verified: boolean;
+      id_required: boolean;
+      id_verified: boolean;
       can_sign: boolean;
     };
 
@@ -464,6 +663,8 @@ export async function getVerificationStatus(params: {
       emailVerified: status.email_verified,
       phoneRequired: status.phone_required,
       phoneVerified: status.phone_verified,
+      idRequired: status.id_required,
+      idVerified: status.id_verified,
       canSign: status.can_sign,
       error: null,
     };
@@ -475,6 +676,8 @@ export async function getVerificationStatus(params: {
       emailVerified: false,
       phoneRequired: false,
       phoneVerified: false,
+      idRequired: false,
+      idVerified: false,
       canSign: true,
       error: "Server error",
     };
@@ -542,7 +745,7 @@ export async function checkProofoUserVerification(params: {
         verified_value: email.toLowerCase(),
         metadata: { verified_via: "proofo_account" },
       }, {
-        onConflict: "deal_id,verification_type",
+        onConflict: "deal_id,signer_id,verification_type",
       });
 
       // If phone is verified on profile, also record that
@@ -553,7 +756,7 @@ export async function checkProofoUserVerification(params: {
           verified_value: "proofo_verified",
           metadata: { verified_via: "proofo_account" },
         }, {
-          onConflict: "deal_id,verification_type",
+          onConflict: "deal_id,signer_id,verification_type",
         });
       }
     }
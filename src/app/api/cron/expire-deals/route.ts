@@ -0,0 +1,53 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { getOptionalEnv, isSupabaseConfigured } from "@/lib/env";
+import { logger } from "@/lib/logger";
+import { createServiceSupabaseClient } from "@/lib/supabase/server";
+
+/**
+ * Deal Expiry Job
+ *
+ * Moves pending deals past their signing deadline to `expired` and records a
+ * `deal_expired` audit event for each. Call it on a schedule (Vercel Cron,
+ * GitHub Actions, pg_cron, ...) or by hand while developing:
+ *
+ *   curl -H "Authorization: Bearer $CRON_SECRET" http://localhost:3000/api/cron/expire-deals
+ *
+ * When CRON_SECRET is not set the job only runs outside production. The RPC is
+ * only granted to the service role, so SUPABASE_SERVICE_ROLE_KEY must be set.
+ */
+export async function GET(request: NextRequest) {
+  const secret = getOptionalEnv("CRON_SECRET");
+
+  if (secret) {
+    if (request.headers.get("authorization") !== `Bearer ${secret}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+  } else if (process.env.NODE_ENV === "production") {
+    return NextResponse.json({ error: "CRON_SECRET is not configured" }, { status: 500 });
+  }
+
+  if (!isSupabaseConfigured()) {
+    // Demo mode keeps deals in the browser - nothing to expire on the server
+    return NextResponse.json({ expired: 0 });
+  }
+
+  const supabase = createServiceSupabaseClient();
+  if (!supabase) {
+    logger.error("Deal expiry job needs SUPABASE_SERVICE_ROLE_KEY");
+    return NextResponse.json({ error: "SUPABASE_SERVICE_ROLE_KEY is not configured" }, { status: 500 });
+  }
+
+  const { data, error } = await supabase.rpc("expire_overdue_deals");
+
+  if (error) {
+    logger.error("Deal expiry job failed", error);
+    return NextResponse.json({ error: "Failed to expire deals" }, { status: 500 });
+  }
+
+  const expired = (data as number) || 0;
+  if (expired > 0) {
+    logger.info(`Expired ${expired} overdue deal${expired !== 1 ? "s" : ""}`);
+  }
+
+  return NextResponse.json({ expired });
+}
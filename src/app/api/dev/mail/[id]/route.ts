@@ -0,0 +1,19 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { getCapturedMail, isMailCaptureEnabled } from "@/lib/mail-transport";
+
+/**
+ * A single captured message, with its HTML, text and attachments (development only)
+ */
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  if (!isMailCaptureEnabled()) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const { id } = await params;
+  const message = await getCapturedMail(id);
+  if (!message) {
+    return NextResponse.json({ error: "Message not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ message });
+}
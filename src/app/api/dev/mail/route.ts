@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { clearCapturedMail, isMailCaptureEnabled, listCapturedMail } from "@/lib/mail-transport";
+
+/**
+ * Captured Mail (development only)
+ *
+ * Lists the messages kept by the capture mail transport, newest first, for
+ * the inbox at /dev/mail. DELETE empties the inbox.
+ */
+export async function GET() {
+  if (!isMailCaptureEnabled()) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ messages: await listCapturedMail() });
+}
+
+export async function DELETE() {
+  if (!isMailCaptureEnabled()) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  await clearCapturedMail();
+  return NextResponse.json({ cleared: true });
+}
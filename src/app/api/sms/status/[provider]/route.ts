@@ -0,0 +1,68 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { isSupabaseConfigured } from "@/lib/env";
+import { logger } from "@/lib/logger";
+import { getSmsProviderById, isValidSmsCallbackToken } from "@/lib/sms-provider";
+import { createServiceSupabaseClient } from "@/lib/supabase/server";
+
+/**
+ * SMS Delivery Reports
+ *
+ * Providers report the delivery of phone verification codes here (Twilio
+ * posts a form, Vonage sends query parameters or JSON). The callback URL
+ * carries SMS_STATUS_CALLBACK_SECRET as `token`; each report updates the
+ * message's row in `sms_deliveries`, linked to its `phone_otp_sent` audit event.
+ */
+async function handleStatusCallback(request: NextRequest, { params }: { params: Promise<{ provider: string }> }) {
+  if (!isValidSmsCallbackToken(request.nextUrl.searchParams.get("token"))) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { provider: providerId } = await params;
+  const provider = getSmsProviderById(providerId);
+  if (!provider?.parseStatusCallback) {
+    return NextResponse.json({ error: "Unknown provider" }, { status: 404 });
+  }
+
+  let update;
+  try {
+    update = await provider.parseStatusCallback(request);
+  } catch (error) {
+    logger.warn(`Unreadable ${provider.name} delivery report`, { error });
+    update = null;
+  }
+  if (!update) {
+    return NextResponse.json({ error: "Not a delivery report" }, { status: 400 });
+  }
+
+  if (!isSupabaseConfigured()) {
+    return NextResponse.json({ recorded: false });
+  }
+
+  const supabase = createServiceSupabaseClient();
+  if (!supabase) {
+    logger.error("SMS delivery reports need SUPABASE_SERVICE_ROLE_KEY");
+    return NextResponse.json({ error: "SUPABASE_SERVICE_ROLE_KEY is not configured" }, { status: 500 });
+  }
+
+  const { data: recorded, error } = await supabase.rpc("record_sms_delivery_status", {
+    p_provider: provider.id,
+    p_message_id: update.messageId,
+    p_status: update.status,
+    p_error_code: update.errorCode ?? null,
+  });
+
+  if (error) {
+    logger.error("Failed to record SMS delivery status", error);
+    return NextResponse.json({ error: "Failed to record status" }, { status: 500 });
+  }
+
+  if (!recorded) {
+    // The report beat the send being tracked, or isn't ours; providers retry on errors
+    return NextResponse.json({ error: "Unknown message" }, { status: 404 });
+  }
+
+  return NextResponse.json({ recorded: true });
+}
+
+export const GET = handleStatusCallback;
+export const POST = handleStatusCallback;
@@ -12,14 +12,19 @@ import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/comp
 import { DealHeader } from "@/components/deal-header";
 import { AuditTimeline } from "@/components/audit-timeline";
 import { SealedDealView } from "@/components/sealed-deal-view";
+import { SignaturePad } from "@/components/signature-pad";
+import { TermProposalList } from "@/components/term-proposal-list";
+import { DeadlinePicker } from "@/components/deadline-picker";
+import { DealVersionHistory } from "@/components/deal-version-history";
 import { CopyableId, getDealStatusConfig, KeyboardHint } from "@/components/dashboard/shared-components";
 import { iconMap, templateIconNames } from "@/lib/templates";
-import { Deal, AuditLogEntry, DealStatus } from "@/types";
-import { formatDateTime, timeAgo } from "@/lib/crypto";
+import { Deal, AuditLogEntry, DealStatus, DealVersion, SignatureMethod, SignatureStrokes, TermProposal } from "@/types";
+import { formatDateTime, timeAgo, timeUntil } from "@/lib/crypto";
+import { LIMITS } from "@/lib/constants";
 import { cn } from "@/lib/utils";
-import { isStaleDeal } from "@/lib/dashboard-ui";
-import { generateDealPDF, downloadPDF, generatePDFFilename } from "@/lib/pdf";
-import { getPrivateDealAction, voidDealAction, sendDealInvitationAction, getViewAccessTokenAction, logAuditEventAction, markDealViewedAction } from "@/app/actions/deal-actions";
+import { isStaleDeal, getAwaitingSigners, getNudgeEmails, isAwaitingCountersign, isPastDeadline } from "@/lib/dashboard-ui";
+import { PDFFormat, generateDealPDF, fetchArchivedPDF, downloadPDF, generatePDFFilename } from "@/lib/pdf";
+import { getPrivateDealAction, voidDealAction, sendDealInvitationAction, getViewAccessTokenAction, getSignerLinksAction, countersignDealAction, getTermProposalsAction, respondToTermProposalAction, getDealVersionsAction, extendDealDeadlineAction, logAuditEventAction, markDealViewedAction, getDealBrandingAction } from "@/app/actions/deal-actions";
 import { useAppStore } from "@/store";
 import { useCopyToClipboard } from "@/hooks/useCopyToClipboard";
 import { toast } from "sonner";
@@ -52,6 +57,10 @@ import {
   Trash2,
   FileSignature,
   Smartphone,
+  IdCard,
+  GitBranch,
+  CalendarClock,
+  TimerOff,
 } from "lucide-react";
 import {
   DropdownMenu,
@@ -127,7 +136,20 @@ export default function PrivateDealPage({ params }: PrivateDealPageProps) {
   const [showAuditTrail, setShowAuditTrail] = useState(false);
   const [showQRDialog, setShowQRDialog] = useState(false);
   const [isSendingNudge, setIsSendingNudge] = useState(false);
+  const [showCountersignDialog, setShowCountersignDialog] = useState(false);
+  const [countersignature, setCountersignature] = useState<string | null>(null);
+  const [countersignatureMethod, setCountersignatureMethod] = useState<SignatureMethod>("drawn");
+  const [countersignatureStrokes, setCountersignatureStrokes] = useState<SignatureStrokes | undefined>();
+  const [isCountersigning, setIsCountersigning] = useState(false);
+  const [termProposals, setTermProposals] = useState<TermProposal[]>([]);
+  const [respondingProposalId, setRespondingProposalId] = useState<string | null>(null);
+  const [versions, setVersions] = useState<DealVersion[]>([]);
+  const [showExtendDialog, setShowExtendDialog] = useState(false);
+  const [extendDays, setExtendDays] = useState<number>(LIMITS.TOKEN_EXPIRY_DAYS);
+  const [isExtending, setIsExtending] = useState(false);
   const [accessToken, setAccessToken] = useState<string | null>(null);
+  // Personal signing links for multi-party deals (creator only)
+  const [signerLinks, setSignerLinks] = useState<Record<string, string> | undefined>(undefined);
   const hasShownConfetti = useRef(false);
 
   // Resolve params
@@ -155,6 +177,17 @@ export default function PrivateDealPage({ params }: PrivateDealPageProps) {
         // Fetch access token for the deal (for sharing/copying)
         const { token } = await getViewAccessTokenAction(result.deal.id);
         setAccessToken(token);
+
+        const { proposals } = await getTermProposalsAction(result.deal.id);
+        setTermProposals(proposals);
+
+        const { versions: dealVersions } = await getDealVersionsAction(result.deal.publicId);
+        setVersions(dealVersions);
+
+        if (result.isCreator && result.deal.signers?.length) {
+          const { links } = await getSignerLinksAction(result.deal.id);
+          setSignerLinks(Object.fromEntries(links.map((link) => [link.signerId, link.url])));
+        }
       }
       setIsLoading(false);
     };
@@ -241,18 +274,26 @@ export default function PrivateDealPage({ params }: PrivateDealPageProps) {
   }, [deal, signingLink, handleCopyLink]);
 
   // Download PDF
-  const handleDownloadPDF = useCallback(async () => {
+  const handleDownloadPDF = useCallback(async (format: PDFFormat = "standard") => {
     if (!deal) return;
     setIsGeneratingPDF(true);
     try {
       const verificationUrl = `${window.location.origin}/verify?id=${deal.publicId}`;
-      const { pdfBlob } = await generateDealPDF({
-        deal,
-        signatureDataUrl: deal.signatureUrl,
-        isPro: user?.isPro || false,
-        verificationUrl,
-      });
-      const filename = generatePDFFilename(deal);
+      // Serve the PDF archived at seal time; render one for deals sealed before archiving, and for PDF/A
+      let pdfBlob = format === "pdfa" ? null : await fetchArchivedPDF(deal);
+      if (!pdfBlob) {
+        const { branding } = await getDealBrandingAction(deal.publicId);
+        ({ pdfBlob } = await generateDealPDF({
+          deal,
+          signatureDataUrl: deal.signatureUrl,
+          isPro: user?.isPro || false,
+          branding,
+          verificationUrl,
+          pdfa: format === "pdfa",
+          auditLog: auditLogs,
+        }));
+      }
+      const filename = generatePDFFilename(deal, format);
       downloadPDF(pdfBlob, filename);
       toast.success("PDF downloaded!", {
         icon: <Download className="h-4 w-4 text-primary" />,
@@ -261,7 +302,7 @@ export default function PrivateDealPage({ params }: PrivateDealPageProps) {
       // Log PDF download event
       const auditEvent = prepareAuditEvent({
         eventType: "pdf_downloaded",
-        metadata: { filename, context: "private_page" },
+        metadata: { filename, format, context: "private_page" },
         includeClientMetadata: true,
       });
       await logAuditEventAction({
@@ -276,7 +317,7 @@ export default function PrivateDealPage({ params }: PrivateDealPageProps) {
     } finally {
       setIsGeneratingPDF(false);
     }
-  }, [deal, user?.isPro, isCreator]);
+  }, [deal, user?.isPro, isCreator, auditLogs]);
 
   // Print page
   const handlePrint = useCallback(() => {
@@ -285,14 +326,19 @@ export default function PrivateDealPage({ params }: PrivateDealPageProps) {
 
   // Send nudge/reminder
   const handleSendNudge = useCallback(async () => {
-    if (!deal || !deal.recipientEmail || !isCreator) return;
+    if (!deal || !isCreator) return;
+    const emails = getNudgeEmails(deal);
+    if (emails.length === 0) return;
     setIsSendingNudge(true);
     try {
-      const result = await sendDealInvitationAction({ dealId: deal.id, recipientEmail: deal.recipientEmail });
-      if (result.error) {
-        toast.error(result.error);
+      const results = await Promise.all(
+        emails.map((recipientEmail) => sendDealInvitationAction({ dealId: deal.id, recipientEmail }))
+      );
+      const failed = results.find((result) => result.error);
+      if (failed) {
+        toast.error(failed.error);
       } else {
-        toast.success(`Reminder sent to ${deal.recipientEmail}!`, {
+        toast.success(`Reminder sent to ${emails.join(", ")}!`, {
           icon: <Mail className="h-4 w-4 text-primary" />,
         });
         // Refresh page after a short delay to clear stale state
@@ -305,6 +351,83 @@ export default function PrivateDealPage({ params }: PrivateDealPageProps) {
     }
   }, [deal, isCreator]);
 
+  // Counter-sign and seal the deal (creator signs after the recipient)
+  const handleCountersign = async () => {
+    if (!deal || !isCreator || !countersignature) return;
+    setIsCountersigning(true);
+    const { deal: sealedDeal, error } = await countersignDealAction({
+      dealId: deal.id,
+      signatureBase64: countersignature,
+      signatureMethod: countersignatureMethod,
+      signatureStrokes: countersignatureStrokes,
+    });
+    setIsCountersigning(false);
+    if (error || !sealedDeal) {
+      toast.error(error || "Failed to counter-sign deal");
+      return;
+    }
+    setDeal(sealedDeal);
+    setShowCountersignDialog(false);
+    toast.success("Deal counter-signed and sealed");
+  };
+
+  // Accept or reject a recipient's proposed term change
+  const handleRespondToProposal = async (proposal: TermProposal, accept: boolean) => {
+    if (!deal || !isCreator) return;
+    setRespondingProposalId(proposal.id);
+    const { proposal: resolved, error } = await respondToTermProposalAction({
+      proposalId: proposal.id,
+      accept,
+    });
+    setRespondingProposalId(null);
+    if (error || !resolved) {
+      toast.error(error || "Failed to respond to proposal");
+      return;
+    }
+    setTermProposals((prev) => prev.map((p) => (p.id === resolved.id ? resolved : p)));
+    if (accept) {
+      setDeal({
+        ...deal,
+        terms: deal.terms.map((t) => (t.id === resolved.termId ? { ...t, value: resolved.proposedValue } : t)),
+        termsRevision: resolved.revision ?? deal.termsRevision,
+      });
+      toast.success(`${resolved.termLabel} updated`);
+    } else {
+      toast.success("Proposal rejected");
+    }
+  };
+
+  // Extend the signing deadline - old links stop working, so fresh ones replace them
+  const handleExtendDeadline = async () => {
+    if (!deal || !isCreator) return;
+    setIsExtending(true);
+    const { deal: extendedDeal, accessToken: newToken, signerLinks: newLinks, error } = await extendDealDeadlineAction({
+      dealId: deal.id,
+      deadlineDays: extendDays,
+    });
+    setIsExtending(false);
+    if (!extendedDeal) {
+      toast.error(error || "Failed to extend deadline");
+      return;
+    }
+    setDeal(extendedDeal);
+    if (newToken) setAccessToken(newToken);
+    if (newLinks?.length) {
+      setSignerLinks((prev) => ({
+        ...prev,
+        ...Object.fromEntries(newLinks.map((link) => [link.signerId, link.url])),
+      }));
+    }
+    setShowExtendDialog(false);
+    if (error) {
+      toast.error(error);
+    } else {
+      toast.success("Deadline extended", {
+        description: "Previous signing links no longer work. Share the new link with anyone who still has to sign.",
+      });
+    }
+  };
+
   // Void deal
   const handleVoidDeal = async () => {
     if (!deal || !isCreator) return;
@@ -485,6 +608,11 @@ export default function PrivateDealPage({ params }: PrivateDealPageProps) {
 
   const config = getDealStatusConfig(deal, user?.id, user?.email);
   const StatusIcon = config.icon;
+  const awaitingSigners = getAwaitingSigners(deal);
+  const pendingProposalCount = termProposals.filter((p) => p.status === "pending").length;
+  // A newer, non-voided version means this one has been (or is being) amended
+  const newerVersion = versions.find((v) => v.version > (deal.version || 1) && v.status !== "voided");
+  const canAmend = isCreator && deal.status === "confirmed" && !newerVersion;
 
   return (
     <TooltipProvider delayDuration={300}>
@@ -549,6 +677,12 @@ export default function PrivateDealPage({ params }: PrivateDealPageProps) {
                         <StatusIcon className="h-3 w-3" />
                         {config.label}
                       </Badge>
+                      {(deal.version || 1) > 1 && (
+                        <Badge variant="outline" className="gap-1 border-indigo-500/30 bg-indigo-500/5 text-indigo-600 dark:text-indigo-400">
+                          <GitBranch className="h-3 w-3" />
+                          v{deal.version}
+                        </Badge>
+                      )}
                       {deal.verifications && deal.verifications.length > 0 && (
                         <div className="flex items-center gap-1.5">
                           {deal.verifications.some(v => v.verification_type === "email") && (
@@ -563,6 +697,12 @@ export default function PrivateDealPage({ params }: PrivateDealPageProps) {
                               <span className="text-[10px]">Phone</span>
                             </Badge>
                           )}
+                          {deal.verifications.some(v => v.verification_type === "id") && (
+                            <Badge variant="outline" className="gap-1 border-emerald-500/30 bg-emerald-500/5 text-emerald-600 dark:text-emerald-400 py-0 h-5 px-1.5">
+                              <IdCard className="h-3 w-3" />
+                              <span className="text-[10px]">ID</span>
+                            </Badge>
+                          )}
                         </div>
                       )}
                       <CopyableId id={deal.publicId} />
@@ -595,7 +735,7 @@ export default function PrivateDealPage({ params }: PrivateDealPageProps) {
                       <Button
                         variant="outline"
                         size="sm"
-                        onClick={handleDownloadPDF}
+                        onClick={() => handleDownloadPDF()}
                         disabled={isGeneratingPDF}
                         className="gap-2"
                       >
@@ -651,9 +791,22 @@ export default function PrivateDealPage({ params }: PrivateDealPageProps) {
                           </DropdownMenuItem>
                         </>
                       )}
-                      {isCreator && deal.status === "pending" && (
+                      {canAmend && (
+                        <>
+                          <DropdownMenuSeparator />
+                          <DropdownMenuItem onClick={() => router.push(`/deal/new?amend=${deal.id}`)}>
+                            <GitBranch className="h-4 w-4 mr-2" />
+                            Amend Deal
+                          </DropdownMenuItem>
+                        </>
+                      )}
+                      {isCreator && (deal.status === "pending" || deal.status === "expired") && (
                         <>
                           <DropdownMenuSeparator />
+                          <DropdownMenuItem onClick={() => setShowExtendDialog(true)}>
+                            <CalendarClock className="h-4 w-4 mr-2" />
+                            Extend Deadline
+                          </DropdownMenuItem>
                           <DropdownMenuItem
                             onClick={() => setShowVoidDialog(true)}
                             className="text-destructive focus:text-destructive"
@@ -719,17 +872,49 @@ export default function PrivateDealPage({ params }: PrivateDealPageProps) {
                             </div>
                             <div>
                               <p className="font-medium text-sm">
-                                {config.badgeVariant === "action"
+                                {isAwaitingCountersign(deal)
+                                  ? isCreator ? "Counter-sign to Seal" : "Awaiting Counter-signature"
+                                  : config.badgeVariant === "action"
                                   ? "Sign Your Deal"
-                                  : "Awaiting Recipient Signature"}
+                                  : deal.signers?.length
+                                    ? "Awaiting Signatures"
+                                    : "Awaiting Recipient Signature"}
                               </p>
                               <p className="text-xs text-muted-foreground">
-                                {deal.recipientEmail ? `Waiting for ${deal.recipientEmail}` : "Share the link with your recipient"}
+                                {isCreator && pendingProposalCount > 0
+                                  ? `${pendingProposalCount} proposed change${pendingProposalCount !== 1 ? "s" : ""} awaiting your response`
+                                  : isAwaitingCountersign(deal)
+                                  ? `All parties have signed. Waiting for ${isCreator ? "your" : `${deal.creatorName}'s`} counter-signature`
+                                  : awaitingSigners.length > 0
+                                  ? `Waiting for ${awaitingSigners.map((s) => s.name).join(", ")}`
+                                  : deal.recipientEmail
+                                    ? `Waiting for ${deal.recipientEmail}`
+                                    : "Share the link with your recipient"}
                               </p>
+                              {deal.expiresAt && (
+                                <p className={cn(
+                                  "text-[11px] flex items-center gap-1 mt-0.5",
+                                  isPastDeadline(deal) ? "text-destructive" : "text-muted-foreground"
+                                )}>
+                                  <CalendarClock className="h-3 w-3" />
+                                  {isPastDeadline(deal)
+                                    ? "Signing deadline has passed"
+                                    : `Expires ${timeUntil(deal.expiresAt)}`}
+                                </p>
+                              )}
                             </div>
                           </div>
                           <div className="flex items-center gap-2">
-                            {config.badgeVariant === "action" ? (
+                            {isCreator && isAwaitingCountersign(deal) ? (
+                              <Button
+                                size="sm"
+                                onClick={() => setShowCountersignDialog(true)}
+                                className="gap-2 bg-rose-500/50 text-white dark:text-rose-300 hover:bg-rose-500/75"
+                              >
+                                <FileSignature className="h-4 w-4" />
+                                <span className="hidden sm:inline">Countersign</span>
+                              </Button>
+                            ) : config.badgeVariant === "action" ? (
                               <Button
                                 size="sm"
                                 onClick={() => router.push(`/d/public/${deal.publicId}`)}
@@ -740,7 +925,7 @@ export default function PrivateDealPage({ params }: PrivateDealPageProps) {
                               </Button>
                             ) : (
                               <>
-                                {deal.recipientEmail && (
+                                {getNudgeEmails(deal).length > 0 && (
                                   <Tooltip>
                                     <TooltipTrigger asChild>
                                       <Button
@@ -772,14 +957,17 @@ export default function PrivateDealPage({ params }: PrivateDealPageProps) {
                                     </TooltipContent>
                                   </Tooltip>
                                 )}
-                                <Button
-                                  size="sm"
-                                  onClick={handleCopyLink}
-                                  className="gap-2 bg-amber-500/50 text-amber-600 dark:text-amber-300 hover:bg-amber-500/75"
-                                >
-                                  <Mail className="h-4 w-4" />
-                                  <span className="hidden sm:inline">Send Link</span>
-                                </Button>
+                                {/* Multi-party deals share personal links from the signer list */}
+                                {!deal.signers?.length && (
+                                  <Button
+                                    size="sm"
+                                    onClick={handleCopyLink}
+                                    className="gap-2 bg-amber-500/50 text-amber-600 dark:text-amber-300 hover:bg-amber-500/75"
+                                  >
+                                    <Mail className="h-4 w-4" />
+                                    <span className="hidden sm:inline">Send Link</span>
+                                  </Button>
+                                )}
                               </>
                             )}
                           </div>
@@ -826,7 +1014,17 @@ export default function PrivateDealPage({ params }: PrivateDealPageProps) {
                                 {isRecipient ? "Agreement Signed" : "Agreement Sealed"}
                                 <CheckCircle2 className="h-4 w-4" />
                               </p>
-                              <p className="text-xs text-muted-foreground">Signed on {formatDateTime(deal.confirmedAt)}</p>
+                              <p className="text-xs text-muted-foreground">
+                                Signed on {formatDateTime(deal.confirmedAt)}
+                                {newerVersion && (
+                                  <>
+                                    {" • "}
+                                    <Link href={`/d/${newerVersion.publicId}`} className="underline underline-offset-2 hover:text-foreground">
+                                      {newerVersion.status === "confirmed" ? "Superseded" : "Being amended"} by v{newerVersion.version}
+                                    </Link>
+                                  </>
+                                )}
+                              </p>
                             </div>
                           </div>
                           <Link href={`/dashboard/verify?id=${deal.publicId}`}>
@@ -875,8 +1073,74 @@ export default function PrivateDealPage({ params }: PrivateDealPageProps) {
                     </Card>
                   </motion.div>
                 )}
+
+                {deal.status === "expired" && (
+                  <motion.div variants={slideUp}>
+                    <Card className="border border-border shadow-sm bg-card rounded-xl overflow-hidden">
+                      <motion.div
+                        className="h-1.5 w-full bg-muted-foreground/30"
+                        initial={{ scaleX: 0 }}
+                        animate={{ scaleX: 1 }}
+                        transition={{ duration: 0.5, ease: "easeOut" }}
+                        style={{ transformOrigin: "left" }}
+                      />
+                      <CardContent className="p-5">
+                        <div className="flex items-center justify-between flex-wrap gap-4">
+                          <div className="flex items-center gap-3">
+                            <div className="h-10 w-10 rounded-lg bg-muted flex items-center justify-center">
+                              <TimerOff className="h-5 w-5 text-muted-foreground" />
+                            </div>
+                            <div>
+                              <p className="font-medium text-sm">Deal Expired</p>
+                              <p className="text-xs text-muted-foreground">
+                                Not signed before the deadline
+                                {deal.expiresAt ? ` (${formatDateTime(deal.expiresAt)})` : ""}
+                              </p>
+                            </div>
+                          </div>
+                          {isCreator && (
+                            <Button size="sm" variant="outline" onClick={() => setShowExtendDialog(true)} className="gap-2">
+                              <CalendarClock className="h-4 w-4" />
+                              Extend Deadline
+                            </Button>
+                          )}
+                        </div>
+                      </CardContent>
+                    </Card>
+                  </motion.div>
+                )}
               </AnimatePresence>
 
+              {/* Term negotiation (recipient-proposed edits) */}
+              {termProposals.length > 0 && (
+                <Card className="border border-border shadow-sm bg-card rounded-xl overflow-hidden">
+                  <CardContent className="p-5">
+                    <TermProposalList
+                      proposals={termProposals}
+                      onRespond={isCreator && deal.status === "pending" ? handleRespondToProposal : undefined}
+                      respondingId={respondingProposalId}
+                    />
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Amendment history (original and every amendment, seal-chained) */}
+              {versions.length > 1 && (
+                <Card className="border border-border shadow-sm bg-card rounded-xl overflow-hidden">
+                  <CardContent className="p-5">
+                    <span className="text-[10px] font-bold uppercase tracking-wider text-muted-foreground flex items-center gap-1.5 mb-3">
+                      <GitBranch className="h-3 w-3" />
+                      Amendment History
+                    </span>
+                    <DealVersionHistory
+                      versions={versions}
+                      currentPublicId={deal.publicId}
+                      getHref={(version) => `/d/${version.publicId}`}
+                    />
+                  </CardContent>
+                </Card>
+              )}
+
               {/* Shared Deal View - Parties, Terms, Signature & Seal */}
               <SealedDealView
                 deal={deal}
@@ -884,6 +1148,9 @@ export default function PrivateDealPage({ params }: PrivateDealPageProps) {
                 recipientProfile={recipientProfile}
                 isCreator={isCreator}
                 isRecipient={isRecipient}
+                signerLinks={signerLinks}
+                onDownloadPDF={handleDownloadPDF}
+                isDownloadingPDF={isGeneratingPDF}
               />
 
               {/* Audit Timeline */}
@@ -941,6 +1208,61 @@ export default function PrivateDealPage({ params }: PrivateDealPageProps) {
           </AlertDialogContent>
         </AlertDialog>
 
+        <Dialog open={showCountersignDialog} onOpenChange={setShowCountersignDialog}>
+          <DialogContent className="sm:max-w-lg">
+            <DialogHeader>
+              <DialogTitle>Counter-sign Agreement</DialogTitle>
+              <DialogDescription>
+                Add your signature to seal this agreement. The seal covers every signature, including yours.
+              </DialogDescription>
+            </DialogHeader>
+            <SignaturePad
+              onSignatureChange={(signatureData, method, strokes) => {
+                setCountersignature(signatureData);
+                setCountersignatureMethod(method);
+                setCountersignatureStrokes(strokes);
+              }}
+              savedSignatureUrl={user?.signatureUrl}
+              defaultTypedName={user?.name}
+            />
+            <Button
+              className="w-full gap-2"
+              onClick={handleCountersign}
+              disabled={!countersignature || isCountersigning}
+            >
+              {isCountersigning ? (
+                <RefreshCw className="h-4 w-4 animate-spin" />
+              ) : (
+                <Lock className="h-4 w-4" />
+              )}
+              {isCountersigning ? "Sealing..." : "Countersign & Seal"}
+            </Button>
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={showExtendDialog} onOpenChange={setShowExtendDialog}>
+          <DialogContent className="sm:max-w-lg">
+            <DialogHeader>
+              <DialogTitle>Extend Signing Deadline</DialogTitle>
+              <DialogDescription>
+                {deal.status === "expired"
+                  ? "Reopen this deal for signing. "
+                  : "Give signers more time. "}
+                Existing signing links will stop working and new ones are issued for everyone who hasn&apos;t signed yet.
+              </DialogDescription>
+            </DialogHeader>
+            <DeadlinePicker value={extendDays} onChange={setExtendDays} disabled={isExtending} />
+            <Button className="w-full gap-2" onClick={handleExtendDeadline} disabled={isExtending}>
+              {isExtending ? (
+                <RefreshCw className="h-4 w-4 animate-spin" />
+              ) : (
+                <CalendarClock className="h-4 w-4" />
+              )}
+              {isExtending ? "Extending..." : "Extend Deadline"}
+            </Button>
+          </DialogContent>
+        </Dialog>
+
         <Dialog open={showQRDialog} onOpenChange={setShowQRDialog}>
           <DialogContent className="sm:max-w-xs">
             <DialogHeader>
@@ -45,10 +45,11 @@ import {
   Inbox,
   Loader2,
   Check,
+  GitPullRequestArrow,
 } from "lucide-react";
 import Link from "next/link";
 import { useAppStore } from "@/store";
-import { Deal, AuditLogEntry, DealStatus, TrustLevel } from "@/types";
+import { Deal, AuditLogEntry, DealStatus, DealTerm, PasskeySignature, SignatureMethod, SignatureStrokes, TermAcknowledgement, TermProposal } from "@/types";
 import { formatDateTime } from "@/lib/crypto";
 import {
   getDealByPublicIdAction,
@@ -61,16 +62,40 @@ import {
   getAuditLogsAction,
   logAuditEventAction,
   checkRecipientEmailForDealAction,
+  getSignerForTokenAction,
+  getTermProposalsAction,
+  proposeTermChangeAction,
+  getDealBrandingAction,
   TokenStatus,
+  SignerTokenInfo,
 } from "@/app/actions/deal-actions";
 import { isSupabaseConfigured } from "@/lib/supabase";
-import { generateDealPDF, downloadPDF, generatePDFFilename, pdfBlobToBase64 } from "@/lib/pdf";
+import { PDFFormat, generateDealPDF, fetchArchivedPDF, downloadPDF, generatePDFFilename, pdfBlobToBase64 } from "@/lib/pdf";
 import { cn } from "@/lib/utils";
+import { isAwaitingCountersign, isPastDeadline } from "@/lib/dashboard-ui";
 import { useCopyToClipboard } from "@/hooks/useCopyToClipboard";
 import { SealedDealView } from "@/components/sealed-deal-view";
+import { PasskeySealSignature } from "@/components/passkey-seal-signature";
+import { SignerList } from "@/components/signer-list";
+import { AttachmentList } from "@/components/attachment-list";
+import { DocumentViewer } from "@/components/document-viewer";
+import { TermSignOffField } from "@/components/term-sign-off";
+import { TermResponse, getMissingTermResponses, suggestInitials } from "@/lib/term-acknowledgements";
+import { TermProposalList } from "@/components/term-proposal-list";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
 import { toast } from "sonner";
 import { prepareAuditEvent } from "@/lib/audit-utils";
 import { VerificationStep } from "@/components/verification-step";
+import { VerificationPolicySummary } from "@/components/verification-policy";
+import { isDealPartyAccount, policyHasVerificationStep, resolveVerificationPolicy } from "@/lib/verification-policy";
 import { getVerificationStatus as _getVerificationStatus, checkProofoUserVerification as _checkProofoUserVerification } from "@/app/actions/verification-actions";
 
 interface DealPageProps {
@@ -141,18 +166,35 @@ type Step =
   | "voided"
   | "not_found"
   | "expired"
-  | "creator_view";
+  | "creator_view"
+  | "awaiting_signers"
+  | "signer_link_required";
 
 // Helper function to determine initial step
-function getInitialStep(deal: Deal | null, tokenStatus?: TokenStatus, hasAuthorizedAccess?: boolean, isCreator?: boolean): Step {
+function getInitialStep(
+  deal: Deal | null,
+  tokenStatus?: TokenStatus,
+  hasAuthorizedAccess?: boolean,
+  isCreator?: boolean,
+  signer?: SignerTokenInfo | null
+): Step {
   if (!deal) return "not_found";
   // For confirmed deals, check if user has authorized access (token or authenticated party)
   if (deal.status === "confirmed") {
     return hasAuthorizedAccess ? "already_signed" : "sealed_no_access";
   }
   if (deal.status === "voided") return "voided";
+  // Past the signing deadline (the expiry job may not have run yet)
+  if (deal.status === "expired" || isPastDeadline(deal)) return "expired";
   // Check token status for pending deals
   if (deal.status === "pending" && tokenStatus === "expired") return "expired";
+  // Multi-party deals can only be signed through a personal signing link
+  if (deal.status === "pending" && deal.signers?.length && !isCreator) {
+    if (!signer) return "signer_link_required";
+    if (signer.signedAt || signer.waitingOn) return "awaiting_signers";
+  }
+  // Recipient has signed; the creator still has to counter-sign
+  if (isAwaitingCountersign(deal) && !isCreator) return "awaiting_signers";
   if (deal.status === "pending" && tokenStatus === "used") return "sealed_no_access"; // Was already signed, no access
   if (deal.status === "sealing") return "sign";
   // If the logged-in user is the creator, show a special view instead of letting them sign
@@ -178,6 +220,8 @@ export default function DealConfirmPage({ params }: DealPageProps) {
   const [sealError, setSealError] = useState<string | null>(null);
   const [tokenStatus, setTokenStatus] = useState<TokenStatus>("valid");
   const [tokenExpiresAt, setTokenExpiresAt] = useState<string | null>(null);
+  // Signer resolved from a personal signing link (multi-party deals)
+  const [currentSigner, setCurrentSigner] = useState<SignerTokenInfo | null>(null);
   // Track if user has authorized access to view sealed deal details (via URL token or just signed)
   const [hasAuthorizedAccess, setHasAuthorizedAccess] = useState(false);
   // State for manual token entry
@@ -187,6 +231,12 @@ export default function DealConfirmPage({ params }: DealPageProps) {
   // Audit trail state
   const [auditLogs, setAuditLogs] = useState<AuditLogEntry[]>([]);
   const [showAuditTrail, setShowAuditTrail] = useState(false);
+  // Term negotiation state
+  const [termProposals, setTermProposals] = useState<TermProposal[]>([]);
+  const [proposingTerm, setProposingTerm] = useState<DealTerm | null>(null);
+  const [proposedValue, setProposedValue] = useState("");
+  const [proposalNote, setProposalNote] = useState("");
+  const [isProposing, setIsProposing] = useState(false);
 
   // Fetch deal from database on mount
   useEffect(() => {
@@ -224,16 +274,31 @@ export default function DealConfirmPage({ params }: DealPageProps) {
 
           setDbDeal(fetchedDeal);
 
-          // Get token status for this deal (includes expiration check)
-          const { status, expiresAt } = await getTokenStatusAction(fetchedDeal.id);
-          setTokenStatus(status);
-          setTokenExpiresAt(expiresAt);
-
-          // Only get access token if status is valid
-          if (status === "valid") {
-            const { token } = await getAccessTokenAction(fetchedDeal.id, fetchedDeal.publicId);
-            if (token) {
-              setAccessToken(token);
+          if (fetchedDeal.signers?.length) {
+            // Multi-party deals: each signer has their own token in the URL
+            if (urlToken && fetchedDeal.status === "pending") {
+              const { signer } = await getSignerForTokenAction(fetchedDeal.id, urlToken);
+              if (signer) {
+                setCurrentSigner(signer);
+                setTokenStatus(signer.tokenStatus);
+                setTokenExpiresAt(signer.expiresAt);
+                if (signer.tokenStatus === "valid") {
+                  setAccessToken(urlToken);
+                }
+              }
+            }
+          } else {
+            // Get token status for this deal (includes expiration check)
+            const { status, expiresAt } = await getTokenStatusAction(fetchedDeal.id);
+            setTokenStatus(status);
+            setTokenExpiresAt(expiresAt);
+
+            // Only get access token if status is valid
+            if (status === "valid") {
+              const { token } = await getAccessTokenAction(fetchedDeal.id, fetchedDeal.publicId);
+              if (token) {
+                setAccessToken(token);
+              }
             }
           }
 
@@ -274,10 +339,22 @@ export default function DealConfirmPage({ params }: DealPageProps) {
 
   // Get the deal to display
   const deal = dbDeal;
+  // What the recipient has to verify before signing
+  const verificationPolicy = resolveVerificationPolicy(deal?.trustLevel, deal?.verificationPolicy);
+
+  // Load term proposals (negotiation history) for pending deals
+  const dealId = deal?.id;
+  const dealStatus = deal?.status;
+  useEffect(() => {
+    if (!dealId || dealStatus !== "pending" || !accessToken || !isSupabaseConfigured()) return;
+    getTermProposalsAction(dealId, accessToken).then(({ proposals }) => setTermProposals(proposals));
+  }, [dealId, dealStatus, accessToken]);
 
   // Track the step state - initial value depends on whether deal is loaded
   const [stepOverride, setStepOverride] = useState<Step | null>(null);
   const [signature, setSignature] = useState<string | null>(null);
+  const [signatureMethod, setSignatureMethod] = useState<SignatureMethod>("drawn");
+  const [signatureStrokes, setSignatureStrokes] = useState<SignatureStrokes | undefined>();
   // Pre-fill email from deal's recipient email, then from signed-in user if available
   const [email, setEmail] = useState("");
   const [isSealing, setIsSealing] = useState(false);
@@ -300,6 +377,11 @@ export default function DealConfirmPage({ params }: DealPageProps) {
   const hasPrefilledEmailRef = useRef(false);
   // Verification state
   const [verificationComplete, setVerificationComplete] = useState(false);
+  // Document deals: the recipient pages through the whole PDF before signing
+  const [documentReviewed, setDocumentReviewed] = useState(false);
+  // Initials/ticks for the terms the creator marked, keyed by term ID
+  const [termResponses, setTermResponses] = useState<Record<string, TermResponse>>({});
+  const handleDocumentReviewed = useCallback(() => setDocumentReviewed(true), []);
 
   // Calculate current step based on deal state and any user navigation
   const currentStep = useMemo(() => {
@@ -312,8 +394,8 @@ export default function DealConfirmPage({ params }: DealPageProps) {
     // Check if current user is the creator
     const isCreatorUser = !!(user && deal.creatorId === user.id);
     // Otherwise determine from deal status (including token status and access authorization)
-    return getInitialStep(deal, tokenStatus, hasAuthorizedAccess, isCreatorUser);
-  }, [stepOverride, isLoadingDeal, deal, tokenStatus, hasAuthorizedAccess, user]);
+    return getInitialStep(deal, tokenStatus, hasAuthorizedAccess, isCreatorUser, currentSigner);
+  }, [stepOverride, isLoadingDeal, deal, tokenStatus, hasAuthorizedAccess, user, currentSigner]);
 
   // Helper to navigate to a step
   const setCurrentStep = (step: Step) => {
@@ -325,6 +407,23 @@ export default function DealConfirmPage({ params }: DealPageProps) {
 
   // Current deal data to display
   const displayDeal = confirmedDeal || deal || demoDeal;
+  // Name of the party signing on this page (a specific signer on multi-party deals)
+  const signerName = currentSigner?.name || displayDeal.recipientName;
+  const signerEmail = currentSigner ? currentSigner.email : displayDeal.recipientEmail;
+  // Whether the party on this page has already added their signature to a still-pending deal
+  const hasSignedPending = currentSigner ? !!currentSigner.signedAt : !!displayDeal.signatureUrl;
+  // The deal itself ran out of time, as opposed to just this signing link
+  const isDealExpired = displayDeal.status === "expired" || isPastDeadline(displayDeal);
+  // Terms can be negotiated until anyone (recipient, co-signer or creator) has signed
+  const canProposeChanges =
+    isSupabaseConfigured() &&
+    !!accessToken &&
+    displayDeal.status === "pending" &&
+    !displayDeal.signatureUrl &&
+    !displayDeal.creatorSignedAt &&
+    !displayDeal.signers?.some((s) => !!s.signedAt);
+  const pendingProposals = termProposals.filter((p) => p.status === "pending");
+  const missingTermResponses = getMissingTermResponses(displayDeal.terms, termResponses);
 
 
   // Calculate status config
@@ -381,19 +480,20 @@ export default function DealConfirmPage({ params }: DealPageProps) {
   }, [user, isCreator]);
 
   // Pre-fill email when deal or user becomes available (only once)
-  // Priority: 1) deal.recipientEmail 2) logged-in user's email
+  // Priority: 1) signer's email 2) deal.recipientEmail 3) logged-in user's email
   useEffect(() => {
     // Only pre-fill once - after that, user controls the value
     if (hasPrefilledEmailRef.current) return;
 
-    if (deal?.recipientEmail) {
-      setEmail(deal.recipientEmail);
+    const prefillEmail = currentSigner?.email || deal?.recipientEmail;
+    if (prefillEmail) {
+      setEmail(prefillEmail);
       hasPrefilledEmailRef.current = true;
     } else if (user?.email) {
       setEmail(user.email);
       hasPrefilledEmailRef.current = true;
     }
-  }, [deal?.recipientEmail, user?.email]);
+  }, [currentSigner?.email, deal?.recipientEmail, user?.email]);
 
   // Debounced email lookup for registered Proofo users
   // SECURITY: Uses deal-scoped action that returns minimal info for anonymous users
@@ -514,14 +614,39 @@ export default function DealConfirmPage({ params }: DealPageProps) {
 
   const handleProceedToSign = () => {
     // Check if deal requires verification and verification is not complete
-    const trustLevel = deal?.trustLevel || "basic";
-    if (trustLevel !== "basic" && !verificationComplete) {
+    if (policyHasVerificationStep(verificationPolicy) && !verificationComplete) {
       setCurrentStep("verify");
     } else {
       setCurrentStep("sign");
     }
   };
 
+  const openProposalDialog = (term: DealTerm) => {
+    setProposingTerm(term);
+    setProposedValue(term.value);
+    setProposalNote("");
+  };
+
+  const handleProposeTermChange = async () => {
+    if (!deal || !proposingTerm || !accessToken) return;
+    setIsProposing(true);
+    const { proposal, error } = await proposeTermChangeAction({
+      dealId: deal.id,
+      token: accessToken,
+      termId: proposingTerm.id,
+      proposedValue,
+      note: proposalNote || undefined,
+    });
+    setIsProposing(false);
+    if (error || !proposal) {
+      toast.error(error || "Failed to propose change");
+      return;
+    }
+    setTermProposals((prev) => [...prev, proposal]);
+    setProposingTerm(null);
+    toast.success(`Change to ${proposal.termLabel} sent to ${deal.creatorName}`);
+  };
+
   // Auto-send receipt email for logged-in users (fire-and-forget)
   const sendReceiptForLoggedInUser = useCallback(async (deal: Deal, recipientEmail: string) => {
     try {
@@ -530,12 +655,18 @@ export default function DealConfirmPage({ params }: DealPageProps) {
           ? `${window.location.origin}/verify?id=${deal.publicId}`
           : `https://proofo.app/verify?id=${deal.publicId}`;
 
-      const { pdfBlob } = await generateDealPDF({
-        deal: deal,
-        signatureDataUrl: signature || deal.signatureUrl,
-        isPro: user?.isPro || false,
-        verificationUrl,
-      });
+      // Attach the PDF archived at seal time when there is one
+      let pdfBlob = await fetchArchivedPDF(deal);
+      if (!pdfBlob) {
+        const { branding } = isSupabaseConfigured() ? await getDealBrandingAction(deal.publicId) : { branding: null };
+        ({ pdfBlob } = await generateDealPDF({
+          deal: deal,
+          signatureDataUrl: signature || deal.signatureUrl,
+          isPro: user?.isPro || false,
+          branding,
+          verificationUrl,
+        }));
+      }
 
       const pdfBase64 = await pdfBlobToBase64(pdfBlob);
       const pdfFilename = generatePDFFilename(deal);
@@ -568,7 +699,10 @@ export default function DealConfirmPage({ params }: DealPageProps) {
     if (deal.id !== "demo123" && isSupabaseConfigured()) {
       const auditEvent = prepareAuditEvent({
         eventType: "deal_signed",
-        metadata: { signatureMethod: "drawn" },
+        metadata: {
+          signatureMethod,
+          ...(currentSigner && { signerId: currentSigner.id, signerName: currentSigner.name }),
+        },
         includeClientMetadata: true,
       });
       await logAuditEventAction({
@@ -599,7 +733,10 @@ export default function DealConfirmPage({ params }: DealPageProps) {
         publicId: deal.publicId,
         token: accessToken,
         signatureBase64: signature,
+        signatureMethod,
+        signatureStrokes,
         recipientEmail: recipientEmailToUse,
+        termAcknowledgements: Object.entries(termResponses).map(([termId, response]) => ({ termId, ...response })),
       });
 
       if (error || !confirmedResult) {
@@ -608,6 +745,15 @@ export default function DealConfirmPage({ params }: DealPageProps) {
         return;
       }
 
+      // Still waiting on other signers or the creator's counter-signature - not sealed yet
+      if (confirmedResult.status === "pending") {
+        setDbDeal(confirmedResult);
+        setCurrentSigner((prev) => prev && { ...prev, signedAt: new Date().toISOString() });
+        setIsSealing(false);
+        setCurrentStep("awaiting_signers");
+        return;
+      }
+
       setSealedDeal(confirmedResult);
       setHasAuthorizedAccess(true); // User just signed, they have access to view details
 
@@ -625,7 +771,20 @@ export default function DealConfirmPage({ params }: DealPageProps) {
       return;
     } else {
       // Use local store (demo mode)
-      const result = await storeConfirmDeal(deal.id, signature, recipientEmailToUse);
+      const termAcknowledgements = deal.terms.flatMap((term): TermAcknowledgement[] => {
+        const response = termResponses[term.id];
+        return term.requirement && response
+          ? [{ termId: term.id, kind: term.requirement, ...response, signerName: signerName || "Recipient" }]
+          : [];
+      });
+      const result = await storeConfirmDeal(
+        deal.id,
+        signature,
+        recipientEmailToUse,
+        termAcknowledgements,
+        signatureMethod,
+        signatureStrokes
+      );
       if (result) {
         setSealedDeal(result);
         setHasAuthorizedAccess(true); // User just signed, they have access
@@ -636,8 +795,16 @@ export default function DealConfirmPage({ params }: DealPageProps) {
     setCurrentStep("complete");
   };
 
+  // Show a passkey signature as soon as it's recorded
+  const handlePasskeySigned = (passkeySignature: PasskeySignature) => {
+    const addSignature = (current: Deal | null) =>
+      current && { ...current, passkeySignatures: [...(current.passkeySignatures || []), passkeySignature] };
+    setDbDeal(addSignature);
+    setSealedDeal(addSignature);
+  };
+
   // PDF Download Handler
-  const handleDownloadPDF = useCallback(async () => {
+  const handleDownloadPDF = useCallback(async (format: PDFFormat = "standard") => {
     const targetDeal = confirmedDeal || deal;
     if (!targetDeal) return;
 
@@ -648,21 +815,29 @@ export default function DealConfirmPage({ params }: DealPageProps) {
           ? `${window.location.origin}/verify?id=${targetDeal.publicId}`
           : `https://proofo.app/verify?id=${targetDeal.publicId}`;
 
-      const { pdfBlob } = await generateDealPDF({
-        deal: targetDeal,
-        signatureDataUrl: signature || targetDeal.signatureUrl,
-        isPro: user?.isPro || false,
-        verificationUrl,
-      });
+      // Serve the PDF archived at seal time; render one for deals sealed before archiving, and for PDF/A
+      let pdfBlob = format === "pdfa" ? null : await fetchArchivedPDF(targetDeal);
+      if (!pdfBlob) {
+        const { branding } = isSupabaseConfigured() ? await getDealBrandingAction(targetDeal.publicId) : { branding: null };
+        ({ pdfBlob } = await generateDealPDF({
+          deal: targetDeal,
+          signatureDataUrl: signature || targetDeal.signatureUrl,
+          isPro: user?.isPro || false,
+          branding,
+          verificationUrl,
+          pdfa: format === "pdfa",
+          auditLog: auditLogs,
+        }));
+      }
 
-      const filename = generatePDFFilename(targetDeal);
+      const filename = generatePDFFilename(targetDeal, format);
       downloadPDF(pdfBlob, filename);
 
       // Log PDF download event
       if (targetDeal.id !== "demo123" && isSupabaseConfigured()) {
         const auditEvent = prepareAuditEvent({
           eventType: "pdf_downloaded",
-          metadata: { filename },
+          metadata: { filename, format },
           includeClientMetadata: true,
         });
         await logAuditEventAction({
@@ -678,7 +853,7 @@ export default function DealConfirmPage({ params }: DealPageProps) {
     } finally {
       setIsGeneratingPDF(false);
     }
-  }, [confirmedDeal, deal, signature, user?.isPro]);
+  }, [confirmedDeal, deal, signature, user?.isPro, auditLogs]);
 
   // Keyboard shortcuts
   useEffect(() => {
@@ -818,10 +993,11 @@ export default function DealConfirmPage({ params }: DealPageProps) {
               <div className="h-20 w-20 rounded-full bg-amber-500/10 flex items-center justify-center mx-auto mb-6">
                 <TimerOff className="h-10 w-10 text-amber-600" />
               </div>
-              <h1 className="text-2xl font-bold mb-3">Link Expired</h1>
+              <h1 className="text-2xl font-bold mb-3">{isDealExpired ? "Deal Expired" : "Link Expired"}</h1>
               <p className="text-muted-foreground mb-4 max-w-md mx-auto">
-                This signing link has expired
-                {tokenExpiresAt ? ` on ${formatDateTime(tokenExpiresAt)}` : ""}.
+                {isDealExpired
+                  ? `This deal wasn't signed before its deadline${displayDeal.expiresAt ? ` on ${formatDateTime(displayDeal.expiresAt)}` : ""}.`
+                  : `This signing link has expired${tokenExpiresAt ? ` on ${formatDateTime(tokenExpiresAt)}` : ""}.`}
               </p>
               <Card className="mb-6 max-w-md mx-auto">
                 <CardContent className="p-4">
@@ -830,8 +1006,8 @@ export default function DealConfirmPage({ params }: DealPageProps) {
                     <div className="text-left text-sm">
                       <p className="font-medium mb-1">What happened?</p>
                       <p className="text-muted-foreground">
-                        For security reasons, signing links expire after 7 days. Please contact{" "}
-                        {displayDeal.creatorName} to request a new signing link.
+                        Signing links stop working when the deal&apos;s deadline passes or a new link is issued.
+                        Please contact {displayDeal.creatorName} to extend the deadline and send you a new link.
                       </p>
                     </div>
                   </div>
@@ -848,6 +1024,70 @@ export default function DealConfirmPage({ params }: DealPageProps) {
             </motion.div>
           )}
 
+          {/* Awaiting Signers State - Multi-party deal not yet signed by everyone */}
+          {currentStep === "awaiting_signers" && displayDeal && (
+            <motion.div
+              key="awaiting_signers"
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="text-center py-12"
+            >
+              <div className="h-20 w-20 rounded-full bg-primary/10 flex items-center justify-center mx-auto mb-6">
+                {hasSignedPending ? (
+                  <CheckCircle2 className="h-10 w-10 text-primary" />
+                ) : (
+                  <Users className="h-10 w-10 text-primary" />
+                )}
+              </div>
+              <h1 className="text-2xl font-bold mb-3">
+                {hasSignedPending ? "Signature Recorded" : "Waiting for Your Turn"}
+              </h1>
+              <p className="text-muted-foreground mb-6 max-w-md mx-auto">
+                {hasSignedPending
+                  ? isAwaitingCountersign(displayDeal)
+                    ? `Thanks for signing. The agreement will be sealed once ${displayDeal.creatorName} counter-signs.`
+                    : "Thanks for signing. The agreement will be sealed once every signer has signed."
+                  : `This agreement is signed in order. ${currentSigner?.waitingOn || "An earlier signer"} needs to sign before you can.`}
+              </p>
+              {displayDeal.signers && (
+                <Card className="mb-6 max-w-md mx-auto text-left">
+                  <CardContent className="p-4">
+                    <SignerList
+                      signers={displayDeal.signers}
+                      signingMode={displayDeal.signingMode}
+                      currentSignerId={currentSigner?.id}
+                    />
+                  </CardContent>
+                </Card>
+              )}
+              <Link href="/">
+                <Button variant="outline">Go to Proofo</Button>
+              </Link>
+            </motion.div>
+          )}
+
+          {/* Signer Link Required State - Multi-party deals need a personal link */}
+          {currentStep === "signer_link_required" && displayDeal && (
+            <motion.div
+              key="signer_link_required"
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="text-center py-12"
+            >
+              <div className="h-20 w-20 rounded-full bg-amber-500/10 flex items-center justify-center mx-auto mb-6">
+                <Key className="h-10 w-10 text-amber-600" />
+              </div>
+              <h1 className="text-2xl font-bold mb-3">Personal Link Required</h1>
+              <p className="text-muted-foreground mb-6 max-w-md mx-auto">
+                This agreement has multiple signers and each one signs through their own link.
+                Please use the signing link {displayDeal.creatorName} sent you.
+              </p>
+              <Link href="/">
+                <Button variant="outline">Go to Proofo</Button>
+              </Link>
+            </motion.div>
+          )}
+
           {/* Creator View State - When logged-in user is the deal creator */}
           {currentStep === "creator_view" && displayDeal && (
             <motion.div
@@ -917,9 +1157,13 @@ export default function DealConfirmPage({ params }: DealPageProps) {
                       <div className="flex items-center justify-between text-sm">
                         <div className="flex items-center gap-2">
                           <User className="h-4 w-4 text-muted-foreground" />
-                          <span className="text-muted-foreground">Recipient</span>
+                          <span className="text-muted-foreground">{displayDeal.signers?.length ? "Signers" : "Recipient"}</span>
                         </div>
-                        <span className="font-medium">{displayDeal.recipientName || "Pending"}</span>
+                        <span className="font-medium">
+                          {displayDeal.signers?.length
+                            ? `${displayDeal.signers.filter((s) => s.signedAt).length}/${displayDeal.signers.length} signed`
+                            : displayDeal.recipientName || "Pending"}
+                        </span>
                       </div>
                       <Separator />
                       <div className="flex items-center justify-between text-sm">
@@ -1184,7 +1428,7 @@ export default function DealConfirmPage({ params }: DealPageProps) {
                         <Button
                           variant="outline"
                           size="sm"
-                          onClick={handleDownloadPDF}
+                          onClick={() => handleDownloadPDF()}
                           disabled={isGeneratingPDF}
                           className="gap-2"
                         >
@@ -1332,8 +1576,12 @@ export default function DealConfirmPage({ params }: DealPageProps) {
                 }
                 recipientStatusLabel="Signed"
                 showSignatureSeal={true}
+                onDownloadPDF={handleDownloadPDF}
+                isDownloadingPDF={isGeneratingPDF}
               />
 
+              <PasskeySealSignature deal={displayDeal} userId={user?.id} onSigned={handlePasskeySigned} />
+
               {/* Audit Trail - only shown when user has authorized access and there are logs */}
               {auditLogs.length > 0 && (
                 <Card className="border border-border shadow-sm bg-card rounded-xl overflow-hidden">
@@ -1408,7 +1656,7 @@ export default function DealConfirmPage({ params }: DealPageProps) {
                         Signing as <span className={cn(
                           "font-semibold",
                           user?.id ? "text-sky-600" : registeredRecipient ? "text-emerald-600" : "text-foreground"
-                        )}>{registeredRecipient?.name || user?.name || displayDeal.recipientName || "Recipient"}</span>
+                        )}>{registeredRecipient?.name || user?.name || signerName || "Recipient"}</span>
                         {user?.id && (
                           <Badge variant="secondary" className="text-[9px] h-4 px-1.5 bg-sky-500/10 text-sky-600 border-sky-500/20">
                             Logged In
@@ -1482,7 +1730,7 @@ export default function DealConfirmPage({ params }: DealPageProps) {
                         )}>
                           <AvatarImage
                             src={user?.avatarUrl || registeredRecipient?.avatarUrl || recipientProfile?.avatarUrl}
-                            alt={user?.name || registeredRecipient?.name || displayDeal.recipientName || "Recipient"}
+                            alt={user?.name || registeredRecipient?.name || signerName || "Recipient"}
                           />
                           <AvatarFallback className={cn(
                             "font-medium text-sm",
@@ -1492,7 +1740,7 @@ export default function DealConfirmPage({ params }: DealPageProps) {
                                 ? "bg-emerald-500/20 text-emerald-600"
                                 : "bg-muted text-muted-foreground"
                           )}>
-                            {(user?.name || registeredRecipient?.name || displayDeal.recipientName || "You")
+                            {(user?.name || registeredRecipient?.name || signerName || "You")
                               .split(" ")
                               .map((n: string) => n[0])
                               .join("")
@@ -1506,7 +1754,7 @@ export default function DealConfirmPage({ params }: DealPageProps) {
                               "font-medium text-sm truncate",
                               user?.id ? "text-sky-600" : registeredRecipient && "text-emerald-700"
                             )}>
-                              {user?.name || registeredRecipient?.name || displayDeal.recipientName || "You"}
+                              {user?.name || registeredRecipient?.name || signerName || "You"}
                             </p>
                             {user?.id ? (
                               <Badge variant="secondary" className="text-[10px] h-4 shrink-0 bg-sky-500/10 text-sky-600 border-sky-500/20">
@@ -1528,9 +1776,33 @@ export default function DealConfirmPage({ params }: DealPageProps) {
                         </div>
                       </motion.div>
                     </div>
+                    {displayDeal.signers && displayDeal.signers.length > 0 && (
+                      <SignerList
+                        signers={displayDeal.signers}
+                        signingMode={displayDeal.signingMode}
+                        currentSignerId={currentSigner?.id}
+                        className="mt-4"
+                      />
+                    )}
                   </CardContent>
                 </Card>
 
+                {/* Verification Requirements Card - what the creator asks for before signing */}
+                {policyHasVerificationStep(verificationPolicy) && (
+                  <Card className="border border-border shadow-sm bg-card rounded-xl overflow-hidden">
+                    <CardContent className="p-5 md:p-6">
+                      <div className="flex items-center gap-2 font-semibold text-sm uppercase tracking-wider text-muted-foreground mb-1">
+                        <ShieldCheck className="h-4 w-4" />
+                        Before You Sign
+                      </div>
+                      <p className="text-xs text-muted-foreground mb-4">
+                        {displayDeal.creatorName} asks you to complete these steps before signing
+                      </p>
+                      <VerificationPolicySummary policy={verificationPolicy} />
+                    </CardContent>
+                  </Card>
+                )}
+
                 {/* Deal Info Card */}
                 <Card className="border border-border shadow-sm rounded-xl overflow-hidden">
                   <CardContent className="p-5 md:p-6">
@@ -1580,40 +1852,88 @@ export default function DealConfirmPage({ params }: DealPageProps) {
                   </CardContent>
                 </Card>
 
-                {/* Terms Card */}
+                {/* Terms Card (the PDF on document deals) */}
                 <Card className="border border-border shadow-sm bg-card rounded-xl overflow-hidden">
                   <CardContent className="p-5 md:p-6">
-                    <div className="flex items-center justify-between mb-4">
-                      <div className="flex items-center gap-2 font-semibold text-sm uppercase tracking-wider text-muted-foreground">
-                        <FileText className="h-4 w-4" />
-                        Terms
-                      </div>
-                      <Badge variant="secondary" className="text-[10px]">
-                        {displayDeal.terms.length} {displayDeal.terms.length === 1 ? "term" : "terms"}
-                      </Badge>
-                    </div>
-                    <div className="space-y-2">
-                      {displayDeal.terms.map((term, index) => (
-                        <motion.div
-                          key={term.id}
-                          initial={{ opacity: 0, x: -10 }}
-                          animate={{ opacity: 1, x: 0 }}
-                          transition={{ delay: index * 0.05 }}
-                          whileHover={{ scale: 1.01 }}
-                          className="flex items-center justify-between py-3 px-4 rounded-lg bg-secondary/20 hover:bg-secondary/40 transition-colors cursor-pointer group/term"
-                          onClick={() => {
-                            copyToClipboard(`${term.label}: ${term.value}`);
-                            toast.success(`Copied: ${term.label}`);
-                          }}
-                        >
-                          <span className="text-sm text-muted-foreground">{term.label}</span>
-                          <span className="font-medium text-sm flex items-center gap-2">
-                            {term.value}
-                            <Copy className="h-3 w-3 text-muted-foreground opacity-0 group-hover/term:opacity-100 transition-opacity" />
-                          </span>
-                        </motion.div>
-                      ))}
-                    </div>
+                    {displayDeal.document ? (
+                      <DocumentViewer document={displayDeal.document} onReviewed={handleDocumentReviewed} />
+                    ) : (
+                      <>
+                        <div className="flex items-center justify-between mb-4">
+                          <div className="flex items-center gap-2 font-semibold text-sm uppercase tracking-wider text-muted-foreground">
+                            <FileText className="h-4 w-4" />
+                            Terms
+                          </div>
+                          <Badge variant="secondary" className="text-[10px]">
+                            {displayDeal.terms.length} {displayDeal.terms.length === 1 ? "term" : "terms"}
+                          </Badge>
+                        </div>
+                        <div className="space-y-2">
+                          {displayDeal.terms.map((term, index) => (
+                            <div key={term.id}>
+                              <motion.div
+                                initial={{ opacity: 0, x: -10 }}
+                                animate={{ opacity: 1, x: 0 }}
+                                transition={{ delay: index * 0.05 }}
+                                whileHover={{ scale: 1.01 }}
+                                className="flex items-center justify-between py-3 px-4 rounded-lg bg-secondary/20 hover:bg-secondary/40 transition-colors cursor-pointer group/term"
+                                onClick={() => {
+                                  copyToClipboard(`${term.label}: ${term.value}`);
+                                  toast.success(`Copied: ${term.label}`);
+                                }}
+                              >
+                                <span className="text-sm text-muted-foreground">{term.label}</span>
+                                <span className="font-medium text-sm flex items-center gap-2">
+                                  {term.value}
+                                  <Copy className="h-3 w-3 text-muted-foreground opacity-0 group-hover/term:opacity-100 transition-opacity" />
+                                  {canProposeChanges && (
+                                    pendingProposals.some((p) => p.termId === term.id) ? (
+                                      <Badge variant="outline" className="text-[10px] h-5 bg-amber-500/10 text-amber-700 border-amber-500/20">
+                                        Change proposed
+                                      </Badge>
+                                    ) : (
+                                      <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        title="Propose a change"
+                                        aria-label={`Propose a change to ${term.label}`}
+                                        className="h-6 w-6 text-muted-foreground hover:text-foreground"
+                                        onClick={(e) => {
+                                          e.stopPropagation();
+                                          openProposalDialog(term);
+                                        }}
+                                      >
+                                        <GitPullRequestArrow className="h-3 w-3" />
+                                      </Button>
+                                    )
+                                  )}
+                                </span>
+                              </motion.div>
+                              {term.requirement && (
+                                <TermSignOffField
+                                  term={term}
+                                  response={termResponses[term.id]}
+                                  onChange={(response) =>
+                                    setTermResponses((prev) => {
+                                      const { [term.id]: _previous, ...rest } = prev;
+                                      return response ? { ...rest, [term.id]: response } : rest;
+                                    })
+                                  }
+                                  suggestedInitials={suggestInitials(signerName)}
+                                  className="mt-1.5 px-4 py-2 rounded-lg border border-dashed border-border/60"
+                                />
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      </>
+                    )}
+                    {displayDeal.attachments && displayDeal.attachments.length > 0 && (
+                      <AttachmentList attachments={displayDeal.attachments} className="mt-5" />
+                    )}
+                    {termProposals.length > 0 && (
+                      <TermProposalList proposals={termProposals} className="mt-4 pt-4 border-t border-border/50" />
+                    )}
                   </CardContent>
                 </Card>
               </div>
@@ -1640,10 +1960,30 @@ export default function DealConfirmPage({ params }: DealPageProps) {
                 </div>
               </div>
 
+              {pendingProposals.length > 0 && (
+                <p className="text-sm text-muted-foreground text-center mb-4">
+                  Waiting for {displayDeal.creatorName} to respond to your proposed changes before you can sign.
+                </p>
+              )}
+              {missingTermResponses.length > 0 && (
+                <p className="text-sm text-muted-foreground text-center mb-4">
+                  Initial or acknowledge the marked terms before signing.
+                </p>
+              )}
+              {displayDeal.document && !documentReviewed && (
+                <p className="text-sm text-muted-foreground text-center mb-4">
+                  Page through to the end of the document before signing.
+                </p>
+              )}
               <Button
                 className="w-full"
                 size="xl"
                 onClick={handleProceedToSign}
+                disabled={
+                  pendingProposals.length > 0 ||
+                  missingTermResponses.length > 0 ||
+                  (!!displayDeal.document && !documentReviewed)
+                }
               >
                 Review Complete — Sign to Accept
                 <ArrowRight className="ml-2 h-5 w-5" />
@@ -1664,8 +2004,19 @@ export default function DealConfirmPage({ params }: DealPageProps) {
               <VerificationStep
                 dealId={deal.id}
                 publicId={deal.publicId}
-                trustLevel={(deal as Deal & { trustLevel?: TrustLevel })?.trustLevel || "basic"}
-                verifications={deal.verifications}
+                accessToken={accessToken || ""}
+                policy={verificationPolicy}
+                isSignedIn={!!user?.id}
+                isPartyAccount={isDealPartyAccount(
+                  user,
+                  currentSigner
+                    ? {
+                        recipientId: deal.signers?.find((s) => s.id === currentSigner.id)?.recipientId,
+                        email: currentSigner.email,
+                      }
+                    : { recipientId: deal.recipientId, email: deal.recipientEmail }
+                )}
+                verifications={deal.verifications?.filter((v) => (v.signer_id || undefined) === currentSigner?.id)}
                 onVerificationComplete={() => {
                   setVerificationComplete(true);
                   setCurrentStep("sign");
@@ -1702,7 +2053,7 @@ export default function DealConfirmPage({ params }: DealPageProps) {
                         Signing as <span className={cn(
                           "font-semibold",
                           user?.id ? "text-sky-600" : registeredRecipient ? "text-emerald-600" : "text-foreground"
-                        )}>{registeredRecipient?.name || user?.name || user?.email || displayDeal.recipientName}</span>
+                        )}>{registeredRecipient?.name || user?.name || user?.email || signerName}</span>
                         {user?.id && (
                           <Badge variant="secondary" className="text-[9px] h-4 px-1.5 bg-sky-500/10 text-sky-600 border-sky-500/20">
                             Logged In
@@ -1772,7 +2123,7 @@ export default function DealConfirmPage({ params }: DealPageProps) {
                             <span className="text-xs font-bold uppercase tracking-widest text-muted-foreground">
                               Your Email
                             </span>
-                            {!displayDeal.recipientEmail && (
+                            {!signerEmail && (
                               <Badge variant="secondary" className="text-[9px] h-4 px-1.5 bg-rose-500/10 text-rose-600 border-rose-500/20">
                                 Required
                               </Badge>
@@ -1835,9 +2186,9 @@ export default function DealConfirmPage({ params }: DealPageProps) {
                             <span>You cannot sign a deal you created. Use a different email.</span>
                           </div>
                         )}
-                        {displayDeal.recipientEmail && displayDeal.recipientEmail !== email && (
+                        {signerEmail && signerEmail !== email && (
                           <p className="text-[10px] text-muted-foreground">
-                            Original email from creator: {displayDeal.recipientEmail}
+                            Original email from creator: {signerEmail}
                           </p>
                         )}
                       </div>
@@ -1868,8 +2219,13 @@ export default function DealConfirmPage({ params }: DealPageProps) {
                     </div>
                     <CardContent className="p-4 sm:p-10">
                       <SignaturePad
-                        onSignatureChange={setSignature}
+                        onSignatureChange={(signatureData, method, strokes) => {
+                          setSignature(signatureData);
+                          setSignatureMethod(method);
+                          setSignatureStrokes(strokes);
+                        }}
                         savedSignatureUrl={user?.signatureUrl}
+                        defaultTypedName={user?.name || signerName}
                       />
                     </CardContent>
                   </Card>
@@ -2031,7 +2387,7 @@ export default function DealConfirmPage({ params }: DealPageProps) {
                     <Button
                       variant="outline"
                       size="sm"
-                      onClick={handleDownloadPDF}
+                      onClick={() => handleDownloadPDF()}
                       disabled={isGeneratingPDF}
                       className="gap-2"
                     >
@@ -2145,7 +2501,12 @@ export default function DealConfirmPage({ params }: DealPageProps) {
                   }
                   recipientStatusLabel="Signed"
                   showSignatureSeal={true}
+                  currentSignerId={currentSigner?.id}
+                  onDownloadPDF={handleDownloadPDF}
+                  isDownloadingPDF={isGeneratingPDF}
                 />
+
+                <PasskeySealSignature deal={displayDeal} userId={user?.id} onSigned={handlePasskeySigned} />
               </div>
 
               {/* Footer */}
@@ -2167,6 +2528,53 @@ export default function DealConfirmPage({ params }: DealPageProps) {
         </AnimatePresence>
         </div>
       </main>
+
+      {/* Propose Term Change Dialog */}
+      <Dialog open={!!proposingTerm} onOpenChange={(open) => !open && setProposingTerm(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Propose a Change</DialogTitle>
+            <DialogDescription>
+              Suggest a new value for {proposingTerm?.label}. {displayDeal.creatorName} can accept or reject it before anyone signs.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="proposedValue">New value</Label>
+              <Input
+                id="proposedValue"
+                value={proposedValue}
+                onChange={(e) => setProposedValue(e.target.value)}
+              />
+              {proposingTerm && (
+                <p className="text-xs text-muted-foreground">Currently: {proposingTerm.value}</p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="proposalNote">Note (optional)</Label>
+              <Textarea
+                id="proposalNote"
+                value={proposalNote}
+                onChange={(e) => setProposalNote(e.target.value)}
+                placeholder="Explain why you're suggesting this change"
+                rows={3}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setProposingTerm(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleProposeTermChange}
+              disabled={isProposing || !proposedValue.trim() || proposedValue === proposingTerm?.value}
+            >
+              {isProposing && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Send Proposal
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
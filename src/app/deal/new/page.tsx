@@ -10,6 +10,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
 import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
 import {
   Check,
   Copy,
@@ -39,16 +40,33 @@ import {
   QrCode,
   SquarePen,
   Fingerprint,
+  Plus,
+  X,
+  ListOrdered,
+  PenLine,
+  GitBranch,
+  CalendarClock,
+  Paperclip,
 } from "lucide-react";
 import Link from "next/link";
 import { QRCodeSVG } from "qrcode.react";
-import { dealTemplates } from "@/lib/templates";
-import { DealTemplate, TemplateField, Deal, TrustLevel, UserTemplate } from "@/types";
+import { dealTemplates, documentDealTemplate } from "@/lib/templates";
+import { DealTemplate, TemplateField, Deal, DealAttachment, TrustLevel, UserTemplate, SigningMode, CreatorSignatureMode, SignatureMethod, SignatureStrokes, TermRequirement, VerificationPolicy } from "@/types";
 import { useAppStore, createNewDeal } from "@/store";
-import { createDealAction, getDealByIdAction, lookupUserByEmailAction } from "@/app/actions/deal-actions";
+import {
+  createDealAction,
+  getDealByIdAction,
+  getDealBrandingAction,
+  lookupUserByEmailAction,
+  uploadDealAttachmentAction,
+  uploadDealDocumentAction,
+  voidDealAction,
+} from "@/app/actions/deal-actions";
 import { getUserTemplatesAction, getTemplateByIdAction } from "@/app/actions/template-actions";
 import { isSupabaseConfigured } from "@/lib/supabase";
 import { LoginModal } from "@/components/login-modal";
+import { SignaturePad } from "@/components/signature-pad";
+import { DeadlinePicker } from "@/components/deadline-picker";
 import { cn, getUserInitials } from "@/lib/utils";
 import { DealHeader } from "@/components/deal-header";
 import { SidebarLogo } from "@/components/sidebar-logo";
@@ -74,6 +92,15 @@ import { generateDealPDF, downloadPDF, generatePDFFilename } from "@/lib/pdf";
 import { SealedDealView } from "@/components/sealed-deal-view";
 import { formatDateTime } from "@/lib/crypto";
 import { TrustLevelSelector, trustLevelConfig } from "@/components/trust-level-selector";
+import { VerificationPolicyEditor } from "@/components/verification-policy";
+import { TRUST_LEVEL_POLICIES, getTrustLevelForPolicy } from "@/lib/verification-policy";
+import { SignerList } from "@/components/signer-list";
+import { AttachmentList, AttachmentListItem } from "@/components/attachment-list";
+import { TermRequirementPicker } from "@/components/term-sign-off";
+import { TERM_REQUIREMENT_LABELS } from "@/lib/term-acknowledgements";
+import { ATTACHMENT_ACCEPT, formatFileSize, validateAttachmentFile } from "@/lib/attachments";
+import { LIMITS } from "@/lib/constants";
+import type { DealSignerInput } from "@/lib/validations";
 
 
 // --- CONFIGURATION ---
@@ -129,6 +156,23 @@ const formatCurrency = (val: string) => {
 
 const STEPS: Step[] = ["template", "details", "review", "share"];
 
+// A file picked in the form, uploaded once the deal exists
+type DraftAttachment = AttachmentListItem & { dataUrl: string };
+
+const readFileAsDataUrl = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(file);
+  });
+
+const CREATOR_SIGNATURE_OPTIONS: { value: CreatorSignatureMode; label: string; description: string }[] = [
+  { value: "none", label: "Don't sign", description: "Only signers sign" },
+  { value: "upfront", label: "Sign now", description: "Sign before sending" },
+  { value: "after", label: "Sign after", description: "Counter-sign to seal" },
+];
+
 function NewDealContent() {
   const { user, addDeal, addAuditLog, getDealById, isSidebarCollapsed, setIsSidebarCollapsed } = useAppStore();
 
@@ -137,12 +181,17 @@ function NewDealContent() {
   };
   const searchParams = useSearchParams();
   const sourceId = searchParams.get("source");
+  // Amending a sealed deal prefills like duplicating, but links the new deal as its next version
+  const amendId = searchParams.get("amend");
+  const prefillDealId = amendId || sourceId;
 
   const [currentStep, setCurrentStep] = useState<Step>("template");
   const [selectedTemplate, setSelectedTemplate] = useState<DealTemplate | null>(null);
   const [recipientName, setRecipientName] = useState("");
   const [recipientEmail, setRecipientEmail] = useState("");
   const [formData, setFormData] = useState<Record<string, string>>({});
+  // Terms each recipient must initial or tick, keyed by field ID
+  const [termRequirements, setTermRequirements] = useState<Record<string, TermRequirement>>({});
   const [copied, setCopied] = useState(false);
   const [createdDeal, setCreatedDeal] = useState<Deal | null>(null);
   const [isCreating, setIsCreating] = useState(false);
@@ -162,12 +211,31 @@ function NewDealContent() {
   } | null>(null);
   const [isLookingUpEmail, setIsLookingUpEmail] = useState(false);
   const [trustLevel, setTrustLevel] = useState<TrustLevel>("basic");
+  // Creator-composed policy; null uses the trust level's preset
+  const [verificationPolicy, setVerificationPolicy] = useState<VerificationPolicy | null>(null);
+  // Multi-party deals: signers beyond the primary recipient
+  const [additionalSigners, setAdditionalSigners] = useState<DealSignerInput[]>([]);
+  const [signingMode, setSigningMode] = useState<SigningMode>("unordered");
+  const [signerLinks, setSignerLinks] = useState<Record<string, string> | undefined>(undefined);
+  const [creatorSignatureMode, setCreatorSignatureMode] = useState<CreatorSignatureMode>("none");
+  const [creatorSignature, setCreatorSignature] = useState<string | null>(null);
+  const [creatorSignatureMethod, setCreatorSignatureMethod] = useState<SignatureMethod>("drawn");
+  const [creatorSignatureStrokes, setCreatorSignatureStrokes] = useState<SignatureStrokes | undefined>();
+  const [deadlineDays, setDeadlineDays] = useState<number>(LIMITS.TOKEN_EXPIRY_DAYS);
+  const [attachments, setAttachments] = useState<DraftAttachment[]>([]);
+  // "Sign a document" deals: the PDF to be signed and the deal title
+  const [documentFile, setDocumentFile] = useState<{ name: string; size: number; dataUrl: string } | null>(null);
+  const [documentTitle, setDocumentTitle] = useState("");
+  const [amendsDeal, setAmendsDeal] = useState<{ id: string; publicId: string; version: number } | null>(null);
   const [userTemplates, setUserTemplates] = useState<UserTemplate[]>([]);
   const { copyToClipboard } = useCopyToClipboard();
 
   const dealCreationInProgressRef = useRef(false);
   const topRef = useRef<HTMLDivElement>(null);
   const firstInputRef = useRef<HTMLInputElement>(null);
+  const attachmentInputRef = useRef<HTMLInputElement>(null);
+  const documentInputRef = useRef<HTMLInputElement>(null);
+  const isDocumentDeal = selectedTemplate?.id === documentDealTemplate.id;
 
   // Fetch user templates and handle URL template parameter
   useEffect(() => {
@@ -300,39 +368,51 @@ function NewDealContent() {
   }, [createdDeal, currentStep]);
 
   useEffect(() => {
-    if (!sourceId) return;
+    if (!prefillDealId) return;
     const prefillFromDeal = (deal: Deal) => {
       const template = dealTemplates.find((t) => t.id === deal.templateId);
       if (template) {
         setSelectedTemplate(template);
         const data: Record<string, string> = {};
+        const requirements: Record<string, TermRequirement> = {};
         deal.terms.forEach((term) => {
           const field = template.fields.find((f) => f.label === term.label);
           if (field) {
             const value = term.value.startsWith("$") ? term.value.slice(1) : term.value;
             data[field.id] = value;
+            if (term.requirement) requirements[field.id] = term.requirement;
           }
         });
         setFormData(data);
+        setTermRequirements(requirements);
         setRecipientName(deal.recipientName || "");
         setRecipientEmail(deal.recipientEmail || "");
+        // The primary recipient is signer #1; the rest are additional signers
+        setAdditionalSigners((deal.signers || []).slice(1).map((s) => ({ name: s.name, email: s.email || "" })));
+        setSigningMode(deal.signingMode || "unordered");
+        setCreatorSignatureMode(deal.creatorSignatureMode || "none");
+        setTrustLevel(deal.trustLevel || "basic");
+        setVerificationPolicy(deal.verificationPolicy || null);
+        if (amendId && deal.status === "confirmed") {
+          setAmendsDeal({ id: deal.id, publicId: deal.publicId, version: deal.version || 1 });
+        }
         setCurrentStep("details");
       }
     };
 
     const loadSourceDeal = async () => {
       if (isSupabaseConfigured()) {
-        const { deal: sourceDeal } = await getDealByIdAction(sourceId);
+        const { deal: sourceDeal } = await getDealByIdAction(prefillDealId);
         if (sourceDeal) {
           prefillFromDeal(sourceDeal);
           return;
         }
       }
-      const localDeal = getDealById(sourceId);
+      const localDeal = getDealById(prefillDealId);
       if (localDeal) prefillFromDeal(localDeal);
     };
     loadSourceDeal();
-  }, [sourceId, getDealById]);
+  }, [prefillDealId, amendId, getDealById]);
 
   const dealLink = shareUrl || (createdDeal ? typeof window !== "undefined" ? `${window.location.origin}/d/public/${createdDeal.publicId}` : `https://proofo.app/d/public/${createdDeal.publicId}` : "");
 
@@ -344,9 +424,11 @@ function NewDealContent() {
         ? `${window.location.origin}/verify?id=${createdDeal.publicId}`
         : `https://proofo.app/verify?id=${createdDeal.publicId}`;
 
+      const { branding } = isSupabaseConfigured() ? await getDealBrandingAction(createdDeal.publicId) : { branding: null };
       const { pdfBlob } = await generateDealPDF({
         deal: createdDeal,
         isPro: user?.isPro || false,
+        branding,
         verificationUrl,
       });
 
@@ -367,6 +449,63 @@ function NewDealContent() {
     toast.success("Link copied!");
   }, [copyToClipboard, dealLink]);
 
+  const handleAttachFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = "";
+
+    const added: DraftAttachment[] = [];
+    for (const file of files) {
+      if (attachments.length + added.length >= LIMITS.MAX_ATTACHMENTS) {
+        toast.error(`You can attach up to ${LIMITS.MAX_ATTACHMENTS} files`);
+        break;
+      }
+      const invalid = validateAttachmentFile(file);
+      if (invalid) {
+        toast.error(`Can't attach ${file.name}`, { description: invalid });
+        continue;
+      }
+      try {
+        added.push({
+          id: `${Date.now()}-${added.length}`,
+          name: file.name,
+          contentType: file.type,
+          size: file.size,
+          dataUrl: await readFileAsDataUrl(file),
+        });
+      } catch {
+        toast.error(`Failed to read ${file.name}`);
+      }
+    }
+
+    if (added.length > 0) {
+      setAttachments((prev) => [...prev, ...added]);
+    }
+  };
+
+  const handleDocumentSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    if (file.type !== "application/pdf") {
+      toast.error("Please select a PDF document");
+      return;
+    }
+    if (file.size > LIMITS.MAX_DOCUMENT_SIZE_MB * 1024 * 1024) {
+      toast.error(`Documents must be ${LIMITS.MAX_DOCUMENT_SIZE_MB}MB or smaller`);
+      return;
+    }
+
+    try {
+      setDocumentFile({ name: file.name, size: file.size, dataUrl: await readFileAsDataUrl(file) });
+      if (!documentTitle.trim()) {
+        setDocumentTitle(file.name.replace(/\.pdf$/i, ""));
+      }
+    } catch {
+      toast.error("Failed to read the document");
+    }
+  };
+
   const handleCreateDeal = useCallback(async () => {
     if (!selectedTemplate) return;
     setIsCreating(true);
@@ -389,7 +528,8 @@ function NewDealContent() {
         return {
           label: field.label,
           value,
-          type: field.type === "textarea" || field.type === "checkbox" ? "text" : field.type,
+          type: field.type === "textarea" ? "text" : field.type,
+          ...(termRequirements[field.id] && { requirement: termRequirements[field.id] }),
         };
       });
 
@@ -401,16 +541,36 @@ function NewDealContent() {
 
     const isRealUser = isSupabaseConfigured() && user?.id && !user.id.startsWith("demo-");
 
+    // Documents are stored in Supabase, so document deals need an account
+    if (isDocumentDeal && (!isRealUser || !documentFile)) {
+      setCreateError(documentFile ? "Sign in with an account to send a document for signature" : "Please upload the PDF to be signed");
+      setIsCreating(false);
+      return;
+    }
+
+    const dealTitle = isDocumentDeal ? documentTitle.trim() || documentFile!.name : selectedTemplate.name;
+
     if (isRealUser) {
-      const { deal, shareUrl: serverShareUrl, error } = await createDealAction({
-        title: selectedTemplate.name,
-        description: `${selectedTemplate.name} agreement with ${recipientName}`,
+      const { deal, shareUrl: serverShareUrl, signerLinks: serverSignerLinks, error } = await createDealAction({
+        title: dealTitle,
+        description: isDocumentDeal
+          ? `Document for signature with ${recipientName}`
+          : `${selectedTemplate.name} agreement with ${recipientName}`,
         templateId: selectedTemplate.id,
         recipientName,
         recipientEmail: recipientEmail || undefined,
         recipientId: registeredRecipient?.id,
         terms,
         trustLevel,
+        verificationPolicy: verificationPolicy || undefined,
+        additionalSigners,
+        signingMode,
+        creatorSignatureMode,
+        creatorSignatureBase64: creatorSignatureMode === "upfront" ? creatorSignature || undefined : undefined,
+        creatorSignatureMethod: creatorSignatureMode === "upfront" ? creatorSignatureMethod : undefined,
+        creatorSignatureStrokes: creatorSignatureMode === "upfront" ? creatorSignatureStrokes : undefined,
+        amendsDealId: amendsDeal?.id,
+        deadlineDays,
       });
 
       if (error || !deal) {
@@ -420,9 +580,54 @@ function NewDealContent() {
         setTimeout(() => setShake(false), 500);
         return;
       }
+
+      // Don't leave a deal behind that is missing files the creator meant to include
+      const abandonDeal = async (message: string) => {
+        await voidDealAction(deal.id);
+        setCreateError(message);
+        setIsCreating(false);
+        setShake(true);
+        setTimeout(() => setShake(false), 500);
+      };
+
+      if (isDocumentDeal && documentFile) {
+        const { document: uploadedDocument, error: documentError } = await uploadDealDocumentAction(deal.id, {
+          name: documentFile.name,
+          dataUrl: documentFile.dataUrl,
+        });
+        if (documentError || !uploadedDocument) {
+          await abandonDeal(`Failed to upload ${documentFile.name}: ${documentError || "upload failed"}`);
+          return;
+        }
+        deal.document = uploadedDocument;
+      }
+
+      // Files go up one per request once the deal exists; each is hashed into the seal
+      const uploadedAttachments: DealAttachment[] = [];
+      for (const file of attachments) {
+        const { attachment, error: attachmentError } = await uploadDealAttachmentAction(deal.id, {
+          name: file.name,
+          dataUrl: file.dataUrl,
+        });
+        if (attachmentError || !attachment) {
+          await abandonDeal(`Failed to attach ${file.name}: ${attachmentError || "upload failed"}`);
+          return;
+        }
+        uploadedAttachments.push(attachment);
+      }
+      if (uploadedAttachments.length > 0) {
+        deal.attachments = uploadedAttachments;
+      }
+
       addDeal(deal);
       setCreatedDeal(deal);
-      setShareUrl(serverShareUrl || "");
+      if (serverSignerLinks?.length) {
+        // Primary recipient's personal link doubles as the main share link
+        setShareUrl(serverSignerLinks[0].url);
+        setSignerLinks(Object.fromEntries(serverSignerLinks.map((link) => [link.signerId, link.url])));
+      } else {
+        setShareUrl(serverShareUrl || "");
+      }
     } else {
       const newDeal = createNewDeal(user, {
         templateId: selectedTemplate.id,
@@ -454,7 +659,7 @@ function NewDealContent() {
       drift: 0,
       ticks: 300
     });
-  }, [user, selectedTemplate, recipientName, recipientEmail, formData, addDeal, addAuditLog, registeredRecipient, trustLevel]);
+  }, [user, selectedTemplate, recipientName, recipientEmail, formData, addDeal, addAuditLog, registeredRecipient, trustLevel, verificationPolicy, additionalSigners, signingMode, creatorSignatureMode, creatorSignature, creatorSignatureMethod, creatorSignatureStrokes, amendsDeal, deadlineDays, attachments, isDocumentDeal, documentFile, documentTitle, termRequirements]);
 
   const handleNext = useCallback(() => {
     if (currentStep === "details") {
@@ -464,6 +669,24 @@ function NewDealContent() {
          toast.error("Please enter a recipient name.");
          return;
        }
+       if (additionalSigners.some((signer) => !signer.name.trim())) {
+         setShake(true);
+         setTimeout(() => setShake(false), 500);
+         toast.error("Please enter a name for every signer.");
+         return;
+       }
+       if (isDocumentDeal && !documentFile) {
+         setShake(true);
+         setTimeout(() => setShake(false), 500);
+         toast.error("Please upload the PDF to be signed.");
+         return;
+       }
+       if (creatorSignatureMode === "upfront" && !creatorSignature) {
+         setShake(true);
+         setTimeout(() => setShake(false), 500);
+         toast.error("Please add your signature or choose another signing option.");
+         return;
+       }
        // Validate required fields
        if (selectedTemplate) {
          const missingRequiredFields = selectedTemplate.fields
@@ -493,7 +716,7 @@ function NewDealContent() {
         handleCreateDeal();
       }
     }
-  }, [currentStep, user, handleCreateDeal, recipientName, selectedTemplate, formData]);
+  }, [currentStep, user, handleCreateDeal, recipientName, additionalSigners, creatorSignatureMode, creatorSignature, selectedTemplate, formData, isDocumentDeal, documentFile]);
 
   const handleBack = useCallback(() => {
     if (currentStep === "details") {
@@ -506,6 +729,7 @@ function NewDealContent() {
        setSelectedTemplate(null);
        setRecipientName("");
        setFormData({});
+       setTermRequirements({});
        setCreatedDeal(null);
     }
   }, [currentStep]);
@@ -563,6 +787,13 @@ function NewDealContent() {
       initialData[field.id] = field.defaultValue || "";
     });
     setFormData(initialData);
+    setTermRequirements({});
+    // Saved templates can carry their own verification policy
+    const templatePolicy = (template as Partial<UserTemplate>).verificationPolicy;
+    if (templatePolicy) {
+      setTrustLevel(getTrustLevelForPolicy(templatePolicy));
+      setVerificationPolicy(templatePolicy);
+    }
     setCurrentStep("details");
   };
 
@@ -959,6 +1190,31 @@ function NewDealContent() {
                         </>
                       )}
 
+                      {/* Sign a Document (PDFs are stored in Supabase, so not available in local mode) */}
+                      {isSupabaseConfigured() && (
+                        <motion.div variants={slideUp} layout>
+                          <div
+                            className="group flex items-center gap-4 p-5 bg-card border hover:border-primary/30 rounded-2xl shadow-sm hover:shadow-md transition-all duration-300 cursor-pointer"
+                            onClick={() => handleTemplateSelect(documentDealTemplate)}
+                            tabIndex={0}
+                            role="button"
+                            aria-label="Sign a document"
+                            onKeyDown={(e) => e.key === "Enter" && handleTemplateSelect(documentDealTemplate)}
+                          >
+                            <div className="h-10 w-10 rounded-lg flex items-center justify-center transition-colors border shadow-sm bg-background border-border/50 text-muted-foreground group-hover:text-foreground group-hover:border-primary/20 shrink-0">
+                              <FileText className="h-5 w-5" />
+                            </div>
+                            <div className="flex-1 min-w-0">
+                              <h3 className="font-semibold text-base group-hover:text-primary transition-colors">
+                                {documentDealTemplate.name}
+                              </h3>
+                              <p className="text-sm text-muted-foreground">{documentDealTemplate.description}</p>
+                            </div>
+                            <ArrowRight className="h-4 w-4 text-muted-foreground/50 group-hover:text-primary group-hover:translate-x-0.5 transition-all shrink-0" />
+                          </div>
+                        </motion.div>
+                      )}
+
                       <div className="flex items-center gap-2 mb-4">
                         <LayoutTemplate className="h-4 w-4 text-muted-foreground" />
                         <h2 className="text-sm font-semibold text-muted-foreground uppercase tracking-wider">
@@ -1064,6 +1320,20 @@ function NewDealContent() {
                       initial="hidden" animate="show" exit="exit"
                       className="space-y-6"
                     >
+                      {amendsDeal && (
+                        <div className="flex items-start gap-3 p-4 rounded-xl bg-indigo-500/5 border border-indigo-500/20">
+                          <GitBranch className="h-4 w-4 text-indigo-600 mt-0.5 shrink-0" />
+                          <div className="text-sm">
+                            <p className="font-medium">
+                              Amending {amendsDeal.publicId} (v{amendsDeal.version} → v{amendsDeal.version + 1})
+                            </p>
+                            <p className="text-xs text-muted-foreground mt-0.5">
+                              Every party must sign the new version. Its seal is chained to the original&apos;s, which stays on record.
+                            </p>
+                          </div>
+                        </div>
+                      )}
+
                       {/* Parties Card */}
                       <Card className="border border-border shadow-sm bg-card rounded-xl overflow-hidden">
                         <div className="p-5 md:p-6">
@@ -1198,50 +1468,192 @@ function NewDealContent() {
                               </div>
                             </div>
                           </div>
+
+                          {/* Additional Signers */}
+                          <div className="mt-4 space-y-2">
+                            {additionalSigners.map((signer, index) => (
+                              <motion.div
+                                key={index}
+                                initial={{ opacity: 0, y: -5 }}
+                                animate={{ opacity: 1, y: 0 }}
+                                className="flex items-center gap-2 p-3 rounded-xl bg-secondary/20 border border-border/50"
+                              >
+                                <div className="h-8 w-8 rounded-full bg-muted text-muted-foreground flex items-center justify-center font-medium text-xs shrink-0">
+                                  {signingMode === "ordered" ? index + 2 : getUserInitials(signer.name) || <User className="h-4 w-4" />}
+                                </div>
+                                <Input
+                                  aria-label={`Signer ${index + 2} name`}
+                                  placeholder="Name"
+                                  value={signer.name}
+                                  onChange={(e) =>
+                                    setAdditionalSigners((prev) =>
+                                      prev.map((s, i) => (i === index ? { ...s, name: e.target.value } : s))
+                                    )
+                                  }
+                                  className={cn(
+                                    "h-9 text-sm rounded-lg bg-muted/30 border-border focus:ring-1 transition-all",
+                                    shake && !signer.name.trim() && "border-destructive animate-pulse"
+                                  )}
+                                />
+                                <Input
+                                  aria-label={`Signer ${index + 2} email`}
+                                  type="email"
+                                  placeholder="email@example.com"
+                                  value={signer.email || ""}
+                                  onChange={(e) =>
+                                    setAdditionalSigners((prev) =>
+                                      prev.map((s, i) => (i === index ? { ...s, email: e.target.value } : s))
+                                    )
+                                  }
+                                  className="h-9 text-sm rounded-lg bg-muted/30 border-border focus:ring-1 transition-all"
+                                />
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  aria-label="Remove signer"
+                                  className="h-8 w-8 shrink-0 text-muted-foreground hover:text-destructive"
+                                  onClick={() => setAdditionalSigners((prev) => prev.filter((_, i) => i !== index))}
+                                >
+                                  <X className="h-4 w-4" />
+                                </Button>
+                              </motion.div>
+                            ))}
+
+                            <div className="flex items-center justify-between flex-wrap gap-3 pt-1">
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                className="gap-2 h-8 text-xs"
+                                disabled={additionalSigners.length >= LIMITS.MAX_SIGNERS - 1}
+                                onClick={() => setAdditionalSigners((prev) => [...prev, { name: "", email: "" }])}
+                              >
+                                <Plus className="h-3.5 w-3.5" /> Add Signer
+                              </Button>
+                              {additionalSigners.length > 0 && (
+                                <div className="flex items-center gap-2">
+                                  <ListOrdered className="h-3.5 w-3.5 text-muted-foreground" />
+                                  <Label htmlFor="signingMode" className="text-xs text-muted-foreground cursor-pointer">
+                                    Sign in order
+                                  </Label>
+                                  <Switch
+                                    id="signingMode"
+                                    checked={signingMode === "ordered"}
+                                    onCheckedChange={(checked) => setSigningMode(checked ? "ordered" : "unordered")}
+                                  />
+                                </div>
+                              )}
+                            </div>
+                          </div>
                         </div>
                       </Card>
 
-                      {/* Terms Card */}
-                      <Card className="border border-border shadow-sm bg-card rounded-xl overflow-hidden">
-                        <div className="p-5 md:p-6">
-                          <div className="flex items-center gap-2 font-semibold text-sm uppercase tracking-wider text-muted-foreground mb-4">
-                            <FileText className="h-4 w-4" /> Agreement Terms
+                      {/* Document Card ("sign a document" deals replace the terms with a PDF) */}
+                      {isDocumentDeal ? (
+                        <Card className="border border-border shadow-sm bg-card rounded-xl overflow-hidden">
+                          <div className="p-5 md:p-6">
+                            <div className="flex items-center gap-2 font-semibold text-sm uppercase tracking-wider text-muted-foreground mb-4">
+                              <FileText className="h-4 w-4" /> Document to Sign
+                            </div>
+                            <p className="text-xs text-muted-foreground mb-4">
+                              Signers read the PDF page by page before signing. Its SHA-256 is sealed with their signatures.
+                            </p>
+                            <input
+                              ref={documentInputRef}
+                              type="file"
+                              accept="application/pdf"
+                              onChange={handleDocumentSelect}
+                              className="hidden"
+                            />
+                            {documentFile ? (
+                              <div className="flex items-center gap-3 p-3 rounded-xl border bg-secondary/30 border-border/50">
+                                <div className="h-8 w-8 rounded-lg bg-muted text-muted-foreground flex items-center justify-center shrink-0">
+                                  <FileText className="h-4 w-4" />
+                                </div>
+                                <div className="min-w-0 flex-1">
+                                  <p className="font-medium text-sm truncate">{documentFile.name}</p>
+                                  <p className="text-xs text-muted-foreground">{formatFileSize(documentFile.size)}</p>
+                                </div>
+                                <Button variant="ghost" size="sm" className="h-7 px-2 text-[10px] shrink-0" onClick={() => documentInputRef.current?.click()}>
+                                  Replace
+                                </Button>
+                              </div>
+                            ) : (
+                              <button
+                                type="button"
+                                onClick={() => documentInputRef.current?.click()}
+                                className="w-full p-6 rounded-xl border border-dashed border-border hover:border-primary/40 hover:bg-secondary/20 transition-colors flex flex-col items-center gap-2 text-muted-foreground"
+                              >
+                                <Plus className="h-5 w-5" />
+                                <span className="text-sm font-medium">Choose PDF</span>
+                                <span className="text-[10px]">Up to {LIMITS.MAX_DOCUMENT_SIZE_MB}MB</span>
+                              </button>
+                            )}
+                            <div className="space-y-2 mt-4">
+                              <Label htmlFor="document-title">Deal Title</Label>
+                              <Input
+                                id="document-title"
+                                value={documentTitle}
+                                onChange={(e) => setDocumentTitle(e.target.value)}
+                                placeholder="e.g. Apartment lease 2026"
+                                maxLength={LIMITS.MAX_TITLE_LENGTH}
+                                className="bg-background"
+                              />
+                            </div>
                           </div>
+                        </Card>
+                      ) : (
+                        /* Terms Card */
+                        <Card className="border border-border shadow-sm bg-card rounded-xl overflow-hidden">
+                          <div className="p-5 md:p-6">
+                            <div className="flex items-center gap-2 font-semibold text-sm uppercase tracking-wider text-muted-foreground mb-4">
+                              <FileText className="h-4 w-4" /> Agreement Terms
+                            </div>
 
-                          <div className="space-y-1.5 sm:space-y-2">
-                            {selectedTemplate.fields.map((field) => (
-                              <div key={field.id} className="group relative">
-                                <div className="grid sm:grid-cols-2 gap-4 p-3 rounded-xl bg-secondary/20 transition-colors hover:bg-secondary/40 items-center">
-                                  <div className="flex items-start gap-3">
-                                    <div className="mt-1 h-5 w-5 rounded bg-background border border-border/50 flex items-center justify-center shrink-0">
-                                      {formData[field.id] && (
-                                        <motion.div
-                                          initial={{ scale: 0 }}
-                                          animate={{ scale: 1 }}
-                                          className="h-1.5 w-1.5 rounded-full bg-primary"
-                                        />
-                                      )}
+                            <div className="space-y-1.5 sm:space-y-2">
+                              {selectedTemplate.fields.map((field) => (
+                                <div key={field.id} className="group relative">
+                                  <div className="grid sm:grid-cols-2 gap-4 p-3 rounded-xl bg-secondary/20 transition-colors hover:bg-secondary/40 items-center">
+                                    <div className="flex items-start gap-3">
+                                      <div className="mt-1 h-5 w-5 rounded bg-background border border-border/50 flex items-center justify-center shrink-0">
+                                        {formData[field.id] && (
+                                          <motion.div
+                                            initial={{ scale: 0 }}
+                                            animate={{ scale: 1 }}
+                                            className="h-1.5 w-1.5 rounded-full bg-primary"
+                                          />
+                                        )}
+                                      </div>
+                                      <Label htmlFor={field.id} className="text-sm font-medium pt-1 cursor-pointer flex items-center gap-2">
+                                        {field.label} {field.required && (
+                                          <span className={cn(
+                                            "text-[9px] px-1.5 py-0.5 rounded-sm font-bold uppercase tracking-tight select-none border transition-colors duration-200",
+                                            formData[field.id]
+                                              ? "bg-emerald-500/10 text-emerald-600 border-emerald-500/20"
+                                              : "bg-red-500/10 text-red-600 border-red-500/20"
+                                          )}>REQ</span>
+                                        )}
+                                      </Label>
                                     </div>
-                                    <Label htmlFor={field.id} className="text-sm font-medium pt-1 cursor-pointer flex items-center gap-2">
-                                      {field.label} {field.required && (
-                                        <span className={cn(
-                                          "text-[9px] px-1.5 py-0.5 rounded-sm font-bold uppercase tracking-tight select-none border transition-colors duration-200",
-                                          formData[field.id]
-                                            ? "bg-emerald-500/10 text-emerald-600 border-emerald-500/20"
-                                            : "bg-red-500/10 text-red-600 border-red-500/20"
-                                        )}>REQ</span>
-                                      )}
-                                    </Label>
-                                  </div>
-                                  <div className="w-full">
-                                    {renderField(field)}
+                                    <div className="w-full">
+                                      {renderField(field)}
+                                    </div>
+                                    <TermRequirementPicker
+                                      value={termRequirements[field.id]}
+                                      onChange={(requirement) =>
+                                        setTermRequirements((prev) => {
+                                          const { [field.id]: _previous, ...rest } = prev;
+                                          return requirement ? { ...rest, [field.id]: requirement } : rest;
+                                        })
+                                      }
+                                      className="sm:col-span-2 pl-8"
+                                    />
                                   </div>
                                 </div>
-                              </div>
-                            ))}
+                              ))}
+                            </div>
                           </div>
-                        </div>
-                      </Card>
+                        </Card>
+                      )}
 
                       {/* Trust Level Card */}
                       <Card className="border border-border shadow-sm bg-card rounded-xl overflow-hidden">
@@ -1256,11 +1668,138 @@ function NewDealContent() {
                             value={trustLevel}
                             onChange={(level) => {
                               setTrustLevel(level);
+                              setVerificationPolicy(null);
                             }}
                           />
+                          <Separator className="my-4" />
+                          <div className="flex items-center justify-between gap-3">
+                            <div>
+                              <Label htmlFor="customVerification" className="text-sm font-medium cursor-pointer">
+                                Customize requirements
+                              </Label>
+                              <p className="text-[10px] text-muted-foreground">
+                                Make checks optional, limit email domains or require a Proofo account
+                              </p>
+                            </div>
+                            <Switch
+                              id="customVerification"
+                              checked={!!verificationPolicy}
+                              onCheckedChange={(checked) =>
+                                setVerificationPolicy(checked ? { ...TRUST_LEVEL_POLICIES[trustLevel] } : null)
+                              }
+                            />
+                          </div>
+                          {verificationPolicy && (
+                            <VerificationPolicyEditor
+                              value={verificationPolicy}
+                              onChange={(policy) => {
+                                setVerificationPolicy(policy);
+                                setTrustLevel(getTrustLevelForPolicy(policy));
+                              }}
+                              className="mt-4"
+                            />
+                          )}
+                        </div>
+                      </Card>
+
+                      {/* Creator Signature Card */}
+                      <Card className="border border-border shadow-sm bg-card rounded-xl overflow-hidden">
+                        <div className="p-5 md:p-6">
+                          <div className="flex items-center gap-2 font-semibold text-sm uppercase tracking-wider text-muted-foreground mb-4">
+                            <PenLine className="h-4 w-4" /> Your Signature
+                          </div>
+                          <p className="text-xs text-muted-foreground mb-4">
+                            Optionally sign the agreement yourself so both signatures are sealed together
+                          </p>
+                          <div className="grid grid-cols-3 gap-2">
+                            {CREATOR_SIGNATURE_OPTIONS.map((option) => (
+                              <button
+                                key={option.value}
+                                type="button"
+                                onClick={() => setCreatorSignatureMode(option.value)}
+                                className={cn(
+                                  "p-3 rounded-xl border text-left transition-colors",
+                                  creatorSignatureMode === option.value
+                                    ? "border-primary bg-primary/5"
+                                    : "border-border/50 bg-secondary/20 hover:bg-secondary/40"
+                                )}
+                              >
+                                <p className="text-sm font-medium">{option.label}</p>
+                                <p className="text-[11px] text-muted-foreground mt-0.5">{option.description}</p>
+                              </button>
+                            ))}
+                          </div>
+                          {creatorSignatureMode === "upfront" && (
+                            <div className="mt-4">
+                              <SignaturePad
+                                onSignatureChange={(signatureData, method, strokes) => {
+                                  setCreatorSignature(signatureData);
+                                  setCreatorSignatureMethod(method);
+                                  setCreatorSignatureStrokes(strokes);
+                                }}
+                                savedSignatureUrl={user?.signatureUrl}
+                                defaultTypedName={user?.name}
+                              />
+                            </div>
+                          )}
                         </div>
                       </Card>
 
+                      {/* Signing Deadline Card */}
+                      <Card className="border border-border shadow-sm bg-card rounded-xl overflow-hidden">
+                        <div className="p-5 md:p-6">
+                          <div className="flex items-center gap-2 font-semibold text-sm uppercase tracking-wider text-muted-foreground mb-4">
+                            <CalendarClock className="h-4 w-4" /> Signing Deadline
+                          </div>
+                          <p className="text-xs text-muted-foreground mb-4">
+                            The deal expires if it isn&apos;t signed in time. You can extend it later.
+                          </p>
+                          <DeadlinePicker value={deadlineDays} onChange={setDeadlineDays} />
+                        </div>
+                      </Card>
+
+                      {/* Attachments Card (stored in Supabase, so not available in local mode) */}
+                      {isSupabaseConfigured() && (
+                        <Card className="border border-border shadow-sm bg-card rounded-xl overflow-hidden">
+                          <div className="p-5 md:p-6">
+                            <div className="flex items-center gap-2 font-semibold text-sm uppercase tracking-wider text-muted-foreground mb-4">
+                              <Paperclip className="h-4 w-4" /> Attachments
+                            </div>
+                            <p className="text-xs text-muted-foreground mb-4">
+                              Add photos or documents such as condition photos or invoices. They&apos;re sealed with the deal,
+                              so any change to a file shows up on verification.
+                            </p>
+                            <input
+                              ref={attachmentInputRef}
+                              type="file"
+                              accept={ATTACHMENT_ACCEPT}
+                              multiple
+                              onChange={handleAttachFiles}
+                              className="hidden"
+                            />
+                            {attachments.length > 0 && (
+                              <AttachmentList
+                                attachments={attachments}
+                                onRemove={(id) => setAttachments((prev) => prev.filter((a) => a.id !== id))}
+                                className="mb-4"
+                              />
+                            )}
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="gap-2"
+                              disabled={attachments.length >= LIMITS.MAX_ATTACHMENTS}
+                              onClick={() => attachmentInputRef.current?.click()}
+                            >
+                              <Plus className="h-3.5 w-3.5" /> Add Files
+                            </Button>
+                            <p className="text-[10px] text-muted-foreground mt-2">
+                              PNG, JPEG, WebP or PDF, up to {LIMITS.MAX_ATTACHMENT_SIZE_MB}MB each ({attachments.length}/{LIMITS.MAX_ATTACHMENTS})
+                            </p>
+                          </div>
+                        </Card>
+                      )}
+
                       {/* Action Buttons (Outside) */}
                       <div className="flex justify-between items-center pt-2">
                         <Button variant="ghost" onClick={handleBack} className="hover:bg-muted">
@@ -1294,7 +1833,9 @@ function NewDealContent() {
                               <ShieldCheck className="h-6 w-6 text-foreground" />
                             </div>
                             <div>
-                              <div className="text-[10px] font-mono uppercase tracking-widest text-muted-foreground mb-1">Draft Agreement</div>
+                              <div className="text-[10px] font-mono uppercase tracking-widest text-muted-foreground mb-1">
+                                {amendsDeal ? `Draft Amendment • v${amendsDeal.version + 1}` : "Draft Agreement"}
+                              </div>
                               <h1 className="text-xl sm:text-3xl font-bold tracking-tight mb-1">{selectedTemplate?.name}</h1>
                               <div className="flex items-center gap-2 flex-wrap">
                                 <Badge
@@ -1306,7 +1847,7 @@ function NewDealContent() {
                                     trustLevelConfig[trustLevel].borderColor
                                   )}
                                 >
-                                  {trustLevelConfig[trustLevel].label} Level
+                                  {verificationPolicy ? "Custom Verification" : `${trustLevelConfig[trustLevel].label} Level`}
                                 </Badge>
                                 <span className="text-xs text-muted-foreground flex items-center gap-1.5">
                                   <Clock className="h-3 w-3" />
@@ -1402,6 +1943,39 @@ function NewDealContent() {
                               </div>
                             </motion.div>
                           </div>
+                          {additionalSigners.length > 0 && (
+                            <div className="mt-4 space-y-2">
+                              <div className="text-[10px] font-bold uppercase tracking-wider text-muted-foreground flex items-center gap-1.5">
+                                {signingMode === "ordered" && <ListOrdered className="h-3 w-3" />}
+                                {signingMode === "ordered" ? "Additional Signers (in order)" : "Additional Signers"}
+                              </div>
+                              {additionalSigners.map((signer, index) => (
+                                <div key={index} className="flex items-center gap-3 p-3 rounded-xl bg-secondary/30 border border-border/50">
+                                  <div className="h-8 w-8 rounded-full bg-muted text-muted-foreground flex items-center justify-center font-medium text-xs shrink-0">
+                                    {signingMode === "ordered" ? index + 2 : getUserInitials(signer.name)}
+                                  </div>
+                                  <div className="min-w-0 flex-1">
+                                    <p className="font-medium text-sm truncate">{signer.name}</p>
+                                    {signer.email && <p className="text-xs text-muted-foreground truncate">{signer.email}</p>}
+                                  </div>
+                                </div>
+                              ))}
+                            </div>
+                          )}
+                          {creatorSignatureMode !== "none" && (
+                            <div className="mt-4 flex items-center justify-between gap-3 p-3 rounded-xl bg-secondary/30 border border-border/50">
+                              <div className="text-[10px] font-bold uppercase tracking-wider text-muted-foreground flex items-center gap-1.5">
+                                <PenLine className="h-3 w-3" />
+                                Your Signature
+                              </div>
+                              {creatorSignatureMode === "upfront" && creatorSignature ? (
+                                // eslint-disable-next-line @next/next/no-img-element
+                                <img src={creatorSignature} alt="Your signature" className="max-h-10 object-contain" />
+                              ) : (
+                                <span className="text-xs text-muted-foreground">Counter-sign after signers</span>
+                              )}
+                            </div>
+                          )}
                         </CardContent>
                       </Card>
 
@@ -1411,13 +1985,27 @@ function NewDealContent() {
                            <div className="flex items-center justify-between mb-4">
                             <div className="flex items-center gap-2 font-semibold text-sm uppercase tracking-wider text-muted-foreground">
                               <FileText className="h-4 w-4" />
-                              Terms
+                              {isDocumentDeal ? "Document" : "Terms"}
                             </div>
-                            <Badge variant="secondary" className="text-[10px]">
-                              {selectedTemplate?.fields.length} {selectedTemplate?.fields.length === 1 ? "term" : "terms"}
-                            </Badge>
+                            {!isDocumentDeal && (
+                              <Badge variant="secondary" className="text-[10px]">
+                                {selectedTemplate?.fields.length} {selectedTemplate?.fields.length === 1 ? "term" : "terms"}
+                              </Badge>
+                            )}
                           </div>
 
+                          {isDocumentDeal && documentFile && (
+                            <div className="flex items-center gap-3 py-3 px-4 rounded-lg bg-secondary/20">
+                              <FileText className="h-4 w-4 text-muted-foreground shrink-0" />
+                              <div className="min-w-0 flex-1">
+                                <p className="text-sm font-medium truncate">{documentTitle.trim() || documentFile.name}</p>
+                                <p className="text-xs text-muted-foreground truncate">
+                                  {documentFile.name} • {formatFileSize(documentFile.size)}
+                                </p>
+                              </div>
+                            </div>
+                          )}
+
                           <div className="space-y-2">
                             {selectedTemplate?.fields.map((field, index) => {
                               const value = formData[field.id];
@@ -1444,10 +2032,15 @@ function NewDealContent() {
                                   }}
                                 >
                                   <span className={cn(
-                                    "text-sm font-medium transition-all",
+                                    "text-sm font-medium transition-all flex items-center gap-2",
                                     isFilled ? "text-muted-foreground" : "text-muted-foreground/50 line-through decoration-muted-foreground/30"
                                   )}>
                                     {field.label}
+                                    {isFilled && termRequirements[field.id] && (
+                                      <Badge variant="outline" className="text-[9px] h-4 px-1.5 no-underline">
+                                        {TERM_REQUIREMENT_LABELS[termRequirements[field.id]]}
+                                      </Badge>
+                                    )}
                                   </span>
                                   <span className="font-medium text-sm text-foreground flex items-center gap-2">
                                     {isFilled ? (
@@ -1464,6 +2057,10 @@ function NewDealContent() {
                             })}
                           </div>
 
+                          {attachments.length > 0 && (
+                            <AttachmentList attachments={attachments} className="mt-5" />
+                          )}
+
                           {createError && (
                             <div className="mt-4 bg-destructive/10 border border-destructive/20 text-destructive text-sm p-4 rounded-lg flex items-center gap-3 animate-in fade-in slide-in-from-top-1">
                               <AlertCircle className="h-5 w-5 shrink-0" />
@@ -1637,6 +2234,22 @@ function NewDealContent() {
                             </motion.div>
                           )}
 
+                          {/* Personal signing links - Only for multi-party deals */}
+                          {createdDeal.signers && signerLinks && (
+                            <Card className="border border-border shadow-sm bg-card rounded-2xl overflow-hidden">
+                              <CardContent className="p-5">
+                                <SignerList
+                                  signers={createdDeal.signers}
+                                  signingMode={createdDeal.signingMode}
+                                  signerLinks={signerLinks}
+                                />
+                                <p className="text-[11px] text-muted-foreground mt-3">
+                                  Each signer has a personal link. Share the right link with each person.
+                                </p>
+                              </CardContent>
+                            </Card>
+                          )}
+
                           <div className="grid grid-cols-2 gap-3">
                             <Button
                               variant="outline"
@@ -0,0 +1,11 @@
+import { notFound } from "next/navigation";
+
+/**
+ * Development tools (/dev/*) don't exist in production builds
+ */
+export default function DevLayout({ children }: { children: React.ReactNode }) {
+  if (process.env.NODE_ENV === "production") {
+    notFound();
+  }
+  return children;
+}
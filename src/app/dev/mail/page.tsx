@@ -0,0 +1,203 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { AnimatedLogo } from "@/components/animated-logo";
+import type { CapturedMail, CapturedMailSummary } from "@/lib/mail-transport";
+import { formatDateTime, timeAgo } from "@/lib/crypto";
+import { cn } from "@/lib/utils";
+import { Inbox, Loader2, Mail, Paperclip, RefreshCw, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+// New mail (an OTP, an invitation) shows up without reloading
+const POLL_INTERVAL_MS = 5000;
+
+/**
+ * Captured Mail
+ *
+ * Inbox for the capture mail transport: every email the app would have sent
+ * while developing, rendered as the recipient would see it.
+ */
+export default function CapturedMailPage() {
+  const [messages, setMessages] = useState<CapturedMailSummary[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [selected, setSelected] = useState<CapturedMail | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadMessages = useCallback(async () => {
+    try {
+      const response = await fetch("/api/dev/mail", { cache: "no-store" });
+      if (response.ok) {
+        const { messages } = (await response.json()) as { messages: CapturedMailSummary[] };
+        setMessages(messages);
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadMessages();
+    const interval = setInterval(loadMessages, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [loadMessages]);
+
+  useEffect(() => {
+    if (!selectedId) {
+      setSelected(null);
+      return;
+    }
+
+    let cancelled = false;
+    fetch(`/api/dev/mail/${selectedId}`, { cache: "no-store" })
+      .then((response) => (response.ok ? response.json() : { message: null }))
+      .then(({ message }: { message: CapturedMail | null }) => {
+        if (!cancelled) setSelected(message);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedId]);
+
+  const handleClear = async () => {
+    const response = await fetch("/api/dev/mail", { method: "DELETE" });
+    if (!response.ok) {
+      toast.error("Couldn't clear captured mail");
+      return;
+    }
+    setMessages([]);
+    setSelectedId(null);
+    toast.success("Captured mail cleared");
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border/40 bg-background/95 backdrop-blur-sm sticky top-0 z-50">
+        <div className="container max-w-6xl mx-auto px-4 h-16 flex items-center justify-between">
+          <Link href="/" className="flex items-center gap-2">
+            <AnimatedLogo size={32} className="text-foreground" />
+            <span className="font-bold text-xl">Proofo</span>
+            <Badge variant="outline" className="ml-1 text-[10px]">
+              Captured Mail
+            </Badge>
+          </Link>
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="sm" className="gap-2" onClick={() => loadMessages()}>
+              <RefreshCw className="h-4 w-4" />
+              Refresh
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="gap-2 text-destructive hover:text-destructive"
+              onClick={handleClear}
+              disabled={messages.length === 0}
+            >
+              <Trash2 className="h-4 w-4" />
+              Clear
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container max-w-6xl mx-auto px-4 py-6 grid gap-4 md:grid-cols-[320px_1fr]">
+        <section className="rounded-xl border border-border/60 overflow-hidden h-fit">
+          {isLoading ? (
+            <div className="p-8 flex justify-center">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : messages.length === 0 ? (
+            <div className="p-8 text-center space-y-2">
+              <Inbox className="h-8 w-8 mx-auto text-muted-foreground/50" />
+              <p className="text-sm text-muted-foreground">No mail captured yet</p>
+              <p className="text-xs text-muted-foreground">
+                Invitations, receipts and verification codes sent while MAIL_TRANSPORT is &quot;capture&quot; appear here.
+              </p>
+            </div>
+          ) : (
+            <ul className="divide-y divide-border/60">
+              {messages.map((message) => (
+                <li key={message.id}>
+                  <button
+                    type="button"
+                    onClick={() => setSelectedId(message.id)}
+                    className={cn(
+                      "w-full text-left px-4 py-3 space-y-1 transition-colors hover:bg-muted/50",
+                      selectedId === message.id && "bg-muted"
+                    )}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-xs text-muted-foreground truncate">{message.to.join(", ")}</span>
+                      <span className="text-[10px] text-muted-foreground shrink-0">{timeAgo(message.capturedAt)}</span>
+                    </div>
+                    <p className="text-sm font-medium line-clamp-2">{message.subject}</p>
+                    {message.attachmentCount > 0 && (
+                      <span className="text-[10px] text-muted-foreground flex items-center gap-1">
+                        <Paperclip className="h-3 w-3" />
+                        {message.attachmentCount} attachment{message.attachmentCount === 1 ? "" : "s"}
+                      </span>
+                    )}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        <section className="rounded-xl border border-border/60 min-h-[60vh]">
+          {selected ? (
+            <div className="flex flex-col h-full">
+              <div className="p-4 border-b border-border/60 space-y-1">
+                <h1 className="font-semibold">{selected.subject}</h1>
+                <p className="text-xs text-muted-foreground">
+                  From {selected.from} to {selected.to.join(", ")} · {formatDateTime(selected.capturedAt)}
+                </p>
+                {selected.attachments && selected.attachments.length > 0 && (
+                  <div className="flex flex-wrap gap-2 pt-2">
+                    {selected.attachments.map((attachment) => (
+                      <a
+                        key={attachment.filename}
+                        href={`data:application/octet-stream;base64,${attachment.content}`}
+                        download={attachment.filename}
+                        className="inline-flex items-center gap-1.5 rounded-md border border-border/60 px-2 py-1 text-xs hover:bg-muted/50"
+                      >
+                        <Paperclip className="h-3 w-3" />
+                        {attachment.filename}
+                      </a>
+                    ))}
+                  </div>
+                )}
+              </div>
+              <Tabs defaultValue="html" className="flex-1 flex flex-col p-4 gap-3">
+                <TabsList className="w-fit">
+                  <TabsTrigger value="html">HTML</TabsTrigger>
+                  <TabsTrigger value="text">Text</TabsTrigger>
+                </TabsList>
+                <TabsContent value="html" className="flex-1 mt-0">
+                  {/* Sandboxed: the message can't run scripts or reach the app */}
+                  <iframe
+                    title={selected.subject}
+                    srcDoc={selected.html}
+                    sandbox="allow-popups"
+                    className="w-full min-h-[70vh] rounded-lg border border-border/60 bg-white"
+                  />
+                </TabsContent>
+                <TabsContent value="text" className="mt-0">
+                  <pre className="whitespace-pre-wrap text-xs font-mono rounded-lg bg-muted/30 p-4">{selected.text}</pre>
+                </TabsContent>
+              </Tabs>
+            </div>
+          ) : (
+            <div className="h-full min-h-[60vh] flex flex-col items-center justify-center gap-2 text-muted-foreground">
+              <Mail className="h-8 w-8 opacity-50" />
+              <p className="text-sm">Select a message to read it</p>
+            </div>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+}
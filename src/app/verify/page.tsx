@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect, useCallback, Suspense } from "react";
+import { useState, useEffect, useCallback, useRef, Suspense } from "react";
 import { useSearchParams, useRouter } from "next/navigation";
 import { motion, AnimatePresence } from "framer-motion";
 import { Button } from "@/components/ui/button";
@@ -10,12 +10,22 @@ import { Input } from "@/components/ui/input";
 
 import { PublicHeader } from "@/components/public-header";
 import { useAppStore } from "@/store";
-import { calculateDealSeal, transformVerificationsForHash } from "@/lib/crypto";
-import { getDealByPublicIdAction, getAuditLogsAction, logAuditEventAction } from "@/app/actions/deal-actions";
+import { AuditChainResult, SealKeySet, SealSignatureStatus, calculateDealSeal, fetchSealKeySet, getDealSealInputs, isSealSignatureFailure, verifyAuditChain, verifySealSignature } from "@/lib/crypto";
+import { getDealByPublicIdAction, getAuditLogsAction, getDealVersionsAction, getDealBrandingAction, logAuditEventAction } from "@/app/actions/deal-actions";
 import { isSupabaseConfigured } from "@/lib/supabase";
-import { Deal, AuditLogEntry } from "@/types";
-import { generateDealPDF, downloadPDF, generatePDFFilename } from "@/lib/pdf";
+import { Deal, AuditLogEntry, DealVersion } from "@/types";
+import { PDFFormat, generateDealPDF, fetchArchivedPDF, downloadPDF, generatePDFFilename } from "@/lib/pdf";
 import { prepareAuditEvent } from "@/lib/audit-utils";
+import {
+  VerificationBundle,
+  createVerificationBundle,
+  downloadVerificationBundle,
+  parseVerificationBundle,
+} from "@/lib/verification-bundle";
+import { extractPdfSealData } from "@/lib/pdf-seal-data";
+import { AttachmentStatus, checkAttachmentFiles, getSealedFiles, hasModifiedAttachment } from "@/lib/attachments";
+import { hasModifiedSignatureStrokes } from "@/lib/signature-strokes";
+import { toast } from "sonner";
 import {
   Shield,
   Search,
@@ -31,6 +41,9 @@ import {
   Fingerprint,
   Zap,
   PlayCircle,
+  FileUp,
+  FileCheck2,
+  FileX2,
 } from "lucide-react";
 import Link from "next/link";
 import { VerificationCard, VerificationStatus } from "@/components/verification-card";
@@ -39,6 +52,22 @@ import { KeyboardHint } from "@/components/dashboard/shared-components";
 import { cn } from "@/lib/utils";
 import { DEMO_DEAL_ID, isDemoDeal } from "@/lib/demo-deal-data";
 
+/**
+ * Outcome of checking a dropped PDF's embedded seal data against the record:
+ * - `match`: the PDF's seal is the seal on record
+ * - `mismatch`: the deal exists but was sealed differently
+ * - `altered`: the embedded deal or seal inputs don't reproduce the PDF's own seal
+ * - `not_found`: no deal on record with this ID
+ */
+type PdfCheckStatus = "match" | "mismatch" | "altered" | "not_found";
+
+const pdfCheckConfig: Record<PdfCheckStatus, { title: string; description: string; valid: boolean }> = {
+  match: { title: "Document matches the record", description: "This PDF carries the same seal as the deal on record.", valid: true },
+  mismatch: { title: "Document does not match the record", description: "This PDF was sealed differently from the deal on record.", valid: false },
+  altered: { title: "Document data has been altered", description: "The deal data embedded in this PDF no longer produces its seal.", valid: false },
+  not_found: { title: "Deal not on record", description: "No deal on record matches the ID embedded in this PDF.", valid: false },
+};
+
 function VerifyContent() {
   const router = useRouter();
   const searchParams = useSearchParams();
@@ -52,20 +81,36 @@ function VerifyContent() {
   const [hasSearched, setHasSearched] = useState(false);
   const [isSearching, setIsSearching] = useState(false);
   const [isDownloading, setIsDownloading] = useState(false);
+  const [isExportingBundle, setIsExportingBundle] = useState(false);
+
+  // Set when verifying an uploaded bundle instead of looking the deal up
+  const [bundle, setBundle] = useState<VerificationBundle | null>(null);
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+  const bundleInputRef = useRef<HTMLInputElement>(null);
+
+  // Set when a dropped PDF was checked against the record
+  const [pdfCheck, setPdfCheck] = useState<{ filename: string; status: PdfCheckStatus } | null>(null);
 
   // Hash verification state
   const [verificationStatus, setVerificationStatus] =
     useState<VerificationStatus>("idle");
   const [calculatedHash, setCalculatedHash] = useState<string | null>(null);
+  const [signatureStatus, setSignatureStatus] = useState<SealSignatureStatus | null>(null);
+  const [sealKeysSelfAsserted, setSealKeysSelfAsserted] = useState(false);
+  const [attachmentStatuses, setAttachmentStatuses] = useState<Record<string, AttachmentStatus> | null>(null);
   const [auditLogs, setAuditLogs] = useState<AuditLogEntry[]>([]);
+  const [versions, setVersions] = useState<DealVersion[]>([]);
+  const [auditChain, setAuditChain] = useState<AuditChainResult | null>(null);
 
   const performSearch = useCallback(
-    async (searchId: string, updateUrl: boolean = false) => {
-      if (!searchId) return;
+    async (searchId: string, updateUrl: boolean = false): Promise<Deal | null> => {
+      if (!searchId) return null;
 
       setIsSearching(true);
       setVerificationStatus("idle");
       setCalculatedHash(null);
+      setSignatureStatus(null);
+    setAttachmentStatuses(null);
       setSearchedCreatorProfile(null);
       setSearchedRecipientProfile(null);
 
@@ -101,21 +146,27 @@ function VerifyContent() {
 
       // Fetch audit logs for the deal if found
       if (dealData && isSupabaseConfigured()) {
-        const { logs } = await getAuditLogsAction(dealData.id);
+        const [{ logs }, { versions: dealVersions }] = await Promise.all([
+          getAuditLogsAction(dealData.id),
+          getDealVersionsAction(dealData.publicId),
+        ]);
         setAuditLogs(logs as AuditLogEntry[]);
+        setVersions(dealVersions);
       } else {
         setAuditLogs([]);
+        setVersions([]);
       }
 
       setHasSearched(true);
       setIsSearching(false);
+      return dealData;
     },
     [getDealByPublicId, router]
   );
 
   // Handle URL changes and initial load
   useEffect(() => {
-    if (!initialDealId) {
+    if (!initialDealId && !bundle) {
       setHasSearched(false);
       setSearchedDeal(null);
       setDealId("");
@@ -124,7 +175,7 @@ function VerifyContent() {
       setDealId(initialDealId);
       performSearch(initialDealId);
     }
-  }, [initialDealId, hasSearched, performSearch]);
+  }, [initialDealId, hasSearched, performSearch, bundle]);
 
   // Verify hash when deal is found
   useEffect(() => {
@@ -136,17 +187,48 @@ function VerifyContent() {
         await new Promise((resolve) => setTimeout(resolve, 1500));
 
         try {
-          const hash = await calculateDealSeal({
-            dealId: searchedDeal.id,
-            terms: JSON.stringify(searchedDeal.terms),
-            signatureUrl: searchedDeal.signatureUrl || "",
-            timestamp: searchedDeal.confirmedAt || searchedDeal.createdAt,
-            verifications: transformVerificationsForHash(searchedDeal.verifications),
-          });
+          const hash = await calculateDealSeal(getDealSealInputs(searchedDeal));
           setCalculatedHash(hash);
 
+          // The seal only counts if the platform signed it. Check against the
+          // published keys: a bundle's own keys only vouch for themselves, so
+          // they're used (and labelled as such) only when offline
+          let sealKeySet: SealKeySet = { keys: [] };
+          let keysSelfAsserted = false;
+          if (searchedDeal.dealSeal) {
+            try {
+              sealKeySet = await fetchSealKeySet();
+            } catch (error) {
+              if (!bundle) throw error;
+              sealKeySet = { keys: bundle.sealPublicKeys, signaturesRequiredFrom: bundle.sealSignaturesRequiredFrom };
+              keysSelfAsserted = !!searchedDeal.sealSignature;
+            }
+          }
+          setSealKeysSelfAsserted(keysSelfAsserted);
+
+          const signature = searchedDeal.dealSeal
+            ? await verifySealSignature({
+                seal: searchedDeal.dealSeal,
+                signature: searchedDeal.sealSignature,
+                keyId: searchedDeal.sealKeyId,
+                keys: sealKeySet.keys,
+                // Local-only deals are never signed
+                sealedAt: isSupabaseConfigured() ? searchedDeal.confirmedAt : undefined,
+                signaturesRequiredFrom: sealKeySet.signaturesRequiredFrom,
+              })
+            : null;
+          setSignatureStatus(signature);
+          const isForged = isSealSignatureFailure(signature);
+
+          // The seal covers the hash of each attachment (and a document deal's PDF), so re-hash the stored files too
+          const sealedFiles = getSealedFiles(searchedDeal);
+          const attachments = sealedFiles.length ? await checkAttachmentFiles(sealedFiles) : null;
+          setAttachmentStatuses(attachments);
+          // Likewise the hash of each drawn signature's stroke record
+          const strokesModified = await hasModifiedSignatureStrokes(searchedDeal);
+
           let result: "valid" | "invalid" | "idle" = "idle";
-          if (searchedDeal.dealSeal && hash === searchedDeal.dealSeal) {
+          if (searchedDeal.dealSeal && hash === searchedDeal.dealSeal && !isForged && !hasModifiedAttachment(attachments) && !strokesModified) {
             setVerificationStatus("valid");
             result = "valid";
           } else if (searchedDeal.dealSeal) {
@@ -157,10 +239,15 @@ function VerifyContent() {
           }
 
           // Log verification event (only for non-idle, non-demo deals)
-          if (result !== "idle" && isSupabaseConfigured() && !isDemoDeal(searchedDeal.publicId)) {
+          if (result !== "idle" && !bundle && isSupabaseConfigured() && !isDemoDeal(searchedDeal.publicId)) {
             const auditEvent = prepareAuditEvent({
               eventType: "deal_verified",
-              metadata: { result, hasMatchingSeal: result === "valid" },
+              metadata: {
+                result,
+                hasMatchingSeal: hash === searchedDeal.dealSeal,
+                signatureStatus: signature,
+                ...(attachments && { attachmentStatuses: attachments }),
+              },
               includeClientMetadata: true,
             });
             await logAuditEventAction({
@@ -178,36 +265,154 @@ function VerifyContent() {
 
       verifyHash();
     }
-  }, [searchedDeal]);
+  }, [searchedDeal, bundle]);
+
+  // Walk the audit log hash chain whenever the logs change
+  useEffect(() => {
+    let cancelled = false;
+    verifyAuditChain(auditLogs)
+      .then((result) => {
+        if (!cancelled) setAuditChain(result);
+      })
+      .catch((error) => {
+        console.error("Audit chain verification error:", error);
+        if (!cancelled) setAuditChain(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [auditLogs]);
 
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
+    setPdfCheck(null);
     performSearch(dealId, true);
   };
 
   const handleReset = () => {
     setAuditLogs([]);
+    setVersions([]);
+    setBundle(null);
+    setPdfCheck(null);
     router.push("/verify");
   };
 
-  const handleDownloadPDF = async () => {
+  // Verify an uploaded bundle entirely in the browser - nothing is looked up
+  const handleBundleFile = async (file: File) => {
+    let loaded: VerificationBundle;
+    try {
+      loaded = parseVerificationBundle(await file.text());
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Could not read this file");
+      return;
+    }
+
+    setVerificationStatus("idle");
+    setCalculatedHash(null);
+    setSignatureStatus(null);
+    setSealKeysSelfAsserted(false);
+    setAttachmentStatuses(null);
+    setPdfCheck(null);
+    setDealId(loaded.deal.publicId);
+    setBundle(loaded);
+    setSearchedDeal(loaded.deal);
+    setSearchedCreatorProfile(null);
+    setSearchedRecipientProfile(null);
+    setAuditLogs(loaded.auditLog);
+    setVersions([]);
+    setHasSearched(true);
+  };
+
+  // Check a Proofo PDF's embedded seal data, then verify the deal on record
+  const handlePdfFile = async (file: File) => {
+    const data = extractPdfSealData(new Uint8Array(await file.arrayBuffer()));
+    if (!data) {
+      toast.error("This PDF has no Proofo seal data", {
+        description: "Only certificates downloaded from Proofo can be verified this way.",
+      });
+      return;
+    }
+
+    setBundle(null);
+    setPdfCheck(null);
+    setDealId(data.deal.publicId);
+
+    // The embedded deal is what gets looked up, so it has to produce the seal
+    // too, not just the seal inputs next to it
+    const [recalculated, recalculatedFromDeal, record] = await Promise.all([
+      calculateDealSeal(data.sealInputs),
+      calculateDealSeal(getDealSealInputs(data.deal)),
+      performSearch(data.deal.publicId, true),
+    ]);
+
+    let status: PdfCheckStatus = "match";
+    if (recalculated !== data.dealSeal || recalculatedFromDeal !== data.dealSeal) {
+      status = "altered";
+    } else if (!record) {
+      status = "not_found";
+    } else if (record.id !== data.deal.id || record.dealSeal !== data.dealSeal) {
+      status = "mismatch";
+    }
+    setPdfCheck({ filename: file.name, status });
+  };
+
+  const handleFile = (file: File | undefined) => {
+    if (!file) return;
+    if (file.type === "application/pdf" || file.name.toLowerCase().endsWith(".pdf")) {
+      handlePdfFile(file);
+    } else {
+      handleBundleFile(file);
+    }
+  };
+
+  const handleFileDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDraggingFile(false);
+    handleFile(e.dataTransfer.files[0]);
+  };
+
+  const handleDownloadBundle = async () => {
+    if (!searchedDeal) return;
+    setIsExportingBundle(true);
+    try {
+      downloadVerificationBundle(await createVerificationBundle(searchedDeal, auditLogs));
+    } catch (error) {
+      console.error("Failed to export verification bundle", error);
+      toast.error("Failed to export verification bundle");
+    } finally {
+      setIsExportingBundle(false);
+    }
+  };
+
+  const handleDownloadPDF = async (format: PDFFormat = "standard") => {
     if (!searchedDeal) return;
     setIsDownloading(true);
     try {
-      const { pdfBlob } = await generateDealPDF({
-        deal: searchedDeal,
-        signatureDataUrl: searchedDeal.signatureUrl || "",
-        isPro: false,
-        verificationUrl: window.location.href,
-      });
-      const filename = generatePDFFilename(searchedDeal);
+      // Serve the PDF archived at seal time; render one for deals sealed before
+      // archiving, for PDF/A, and for bundles, which are verified offline (and printed unbranded)
+      let pdfBlob = bundle || format === "pdfa" ? null : await fetchArchivedPDF(searchedDeal);
+      if (!pdfBlob) {
+        const { branding } =
+          isSupabaseConfigured() && !bundle ? await getDealBrandingAction(searchedDeal.publicId) : { branding: null };
+        ({ pdfBlob } = await generateDealPDF({
+          deal: searchedDeal,
+          signatureDataUrl: searchedDeal.signatureUrl || "",
+          signatureImages: bundle?.signatureImages,
+          isPro: false,
+          branding,
+          verificationUrl: `${window.location.origin}/verify?id=${searchedDeal.publicId}`,
+          pdfa: format === "pdfa",
+          auditLog: auditLogs,
+        }));
+      }
+      const filename = generatePDFFilename(searchedDeal, format);
       downloadPDF(pdfBlob, filename);
 
       // Log PDF download event
-      if (isSupabaseConfigured()) {
+      if (isSupabaseConfigured() && !bundle) {
         const auditEvent = prepareAuditEvent({
           eventType: "pdf_downloaded",
-          metadata: { filename, context: "verify_page" },
+          metadata: { filename, format, context: "verify_page" },
           includeClientMetadata: true,
         });
         await logAuditEventAction({
@@ -323,6 +528,38 @@ function VerifyContent() {
             transition={{ duration: 0.4 }}
             className="relative"
           >
+            {/* Dropped PDF vs. the record */}
+            {pdfCheck && hasSearched && !isSearching && (
+              <Card
+                className={cn(
+                  "mb-6 p-4 flex items-start gap-3 rounded-2xl border",
+                  pdfCheckConfig[pdfCheck.status].valid
+                    ? "bg-emerald-soft border-emerald-border/50"
+                    : "bg-destructive/10 border-destructive/20"
+                )}
+              >
+                {pdfCheckConfig[pdfCheck.status].valid ? (
+                  <FileCheck2 className="h-5 w-5 shrink-0 text-emerald-muted" />
+                ) : (
+                  <FileX2 className="h-5 w-5 shrink-0 text-destructive" />
+                )}
+                <div className="space-y-0.5 min-w-0">
+                  <p
+                    className={cn(
+                      "text-sm font-semibold",
+                      pdfCheckConfig[pdfCheck.status].valid ? "text-emerald-muted" : "text-destructive"
+                    )}
+                  >
+                    {pdfCheckConfig[pdfCheck.status].title}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {pdfCheckConfig[pdfCheck.status].description}{" "}
+                    <span className="font-mono break-all">{pdfCheck.filename}</span>
+                  </p>
+                </div>
+              </Card>
+            )}
+
             <AnimatePresence mode="wait">
               {isSearching ? (
                 // Loading State
@@ -438,6 +675,45 @@ function VerifyContent() {
                           </Button>
                         </div>
                       </div>
+
+                      {/* Verify a File Section */}
+                      <div
+                        onDragOver={(e) => {
+                          e.preventDefault();
+                          setIsDraggingFile(true);
+                        }}
+                        onDragLeave={() => setIsDraggingFile(false)}
+                        onDrop={handleFileDrop}
+                        className={cn(
+                          "mt-4 p-3 rounded-xl border border-dashed transition-colors",
+                          isDraggingFile ? "border-primary bg-primary/5" : "border-border/60"
+                        )}
+                      >
+                        <div className="flex flex-col sm:flex-row items-center justify-between gap-3 sm:gap-4">
+                          <div className="text-sm text-muted-foreground text-center sm:text-left">
+                            <span>Have a Proofo PDF or verification bundle? Drop it here.</span>
+                          </div>
+                          <input
+                            ref={bundleInputRef}
+                            type="file"
+                            accept="application/pdf,.pdf,application/json,.json"
+                            className="hidden"
+                            onChange={(e) => {
+                              handleFile(e.target.files?.[0]);
+                              e.target.value = "";
+                            }}
+                          />
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => bundleInputRef.current?.click()}
+                            className="h-9 px-4 text-xs gap-2 rounded-lg w-full sm:w-auto"
+                          >
+                            <FileUp className="h-3.5 w-3.5" />
+                            Verify a File
+                          </Button>
+                        </div>
+                      </div>
                     </div>
 
                     <div className="px-5 py-3 border-t border-border/40 bg-muted/10 flex items-center justify-between">
@@ -468,10 +744,18 @@ function VerifyContent() {
                     calculatedHash={calculatedHash}
                     onDownloadPDF={handleDownloadPDF}
                     isDownloading={isDownloading}
-                    onViewDeal={() => window.open(`/d/public/${searchedDeal.publicId}`, "_blank")}
+                    onDownloadBundle={bundle ? undefined : handleDownloadBundle}
+                    isExportingBundle={isExportingBundle}
+                    offlineBundle={bundle}
+                    onViewDeal={bundle ? undefined : () => window.open(`/d/public/${searchedDeal.publicId}`, "_blank")}
                     creatorProfile={searchedCreatorProfile}
                     recipientProfile={searchedRecipientProfile}
                     auditLogs={auditLogs}
+                    versions={versions}
+                    auditChain={auditChain}
+                    signatureStatus={signatureStatus}
+                    sealKeysSelfAsserted={sealKeysSelfAsserted}
+                    attachmentStatuses={attachmentStatuses}
                   />
 
                   <div className="flex justify-center pt-4">
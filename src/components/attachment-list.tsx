@@ -0,0 +1,108 @@
+"use client";
+
+import { motion } from "framer-motion";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { DealAttachment } from "@/types";
+import { AttachmentStatus, formatFileSize } from "@/lib/attachments";
+import { cn } from "@/lib/utils";
+import { AlertTriangle, CheckCircle2, ExternalLink, FileText, ImageIcon, Paperclip, X, XCircle } from "lucide-react";
+
+/** An uploaded attachment, or one picked in the deal form but not uploaded yet */
+export type AttachmentListItem = Pick<DealAttachment, "id" | "name" | "contentType" | "size"> &
+  Partial<Pick<DealAttachment, "url" | "sha256">>;
+
+export interface AttachmentListProps {
+  attachments: AttachmentListItem[];
+  /** Verification results keyed by attachment ID */
+  statuses?: Record<string, AttachmentStatus> | null;
+  /** Shows a remove button on each file (deal form only) */
+  onRemove?: (id: string) => void;
+  /** Show each file's SHA-256 */
+  showHashes?: boolean;
+  className?: string;
+}
+
+const statusConfig: Record<AttachmentStatus, { label: string; className: string; icon: typeof CheckCircle2 }> = {
+  match: { label: "Matches seal", className: "text-emerald-600", icon: CheckCircle2 },
+  modified: { label: "File was changed", className: "text-destructive", icon: XCircle },
+  unavailable: { label: "Couldn't download", className: "text-amber-600", icon: AlertTriangle },
+};
+
+/**
+ * Files attached to a deal, each opening in a new tab.
+ * On the verify page, shows whether each file still matches its sealed hash.
+ */
+export function AttachmentList({ attachments, statuses, onRemove, showHashes, className }: AttachmentListProps) {
+  return (
+    <div className={className}>
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-[10px] font-bold uppercase tracking-wider text-muted-foreground flex items-center gap-1.5">
+          <Paperclip className="h-3 w-3" />
+          Attachments
+        </span>
+        <Badge variant="secondary" className="text-[10px] h-5">
+          {attachments.length} {attachments.length === 1 ? "file" : "files"}
+        </Badge>
+      </div>
+      <div className="space-y-2">
+        {attachments.map((attachment, index) => {
+          const status = statuses?.[attachment.id];
+          const config = status ? statusConfig[status] : null;
+          const FileIcon = attachment.contentType.startsWith("image/") ? ImageIcon : FileText;
+
+          return (
+            <motion.div
+              key={attachment.id}
+              initial={{ opacity: 0, x: -10 }}
+              animate={{ opacity: 1, x: 0 }}
+              transition={{ delay: index * 0.05 }}
+              className={cn(
+                "flex items-center gap-3 p-3 rounded-xl border",
+                status === "modified" ? "bg-destructive/5 border-destructive/20" : "bg-secondary/30 border-border/50"
+              )}
+            >
+              <div className="h-8 w-8 rounded-lg bg-muted text-muted-foreground flex items-center justify-center shrink-0">
+                <FileIcon className="h-4 w-4" />
+              </div>
+              <div className="min-w-0 flex-1">
+                <p className="font-medium text-sm truncate">{attachment.name}</p>
+                <p className="text-xs text-muted-foreground flex items-center gap-1 truncate">
+                  {formatFileSize(attachment.size)}
+                  {config && (
+                    <span className={cn("flex items-center gap-1", config.className)}>
+                      {" "}• <config.icon className="h-3 w-3" />
+                      {config.label}
+                    </span>
+                  )}
+                </p>
+                {showHashes && attachment.sha256 && (
+                  <p className="text-[10px] text-muted-foreground font-mono truncate">SHA-256 {attachment.sha256}</p>
+                )}
+              </div>
+              {attachment.url && (
+                <Button variant="ghost" size="sm" className="h-7 px-2 gap-1.5 text-[10px] shrink-0" asChild>
+                  <a href={attachment.url} target="_blank" rel="noopener noreferrer">
+                    <ExternalLink className="h-3 w-3" />
+                    Open
+                  </a>
+                </Button>
+              )}
+              {onRemove && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 shrink-0 text-muted-foreground"
+                  onClick={() => onRemove(attachment.id)}
+                  aria-label={`Remove ${attachment.name}`}
+                >
+                  <X className="h-3.5 w-3.5" />
+                </Button>
+              )}
+            </motion.div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
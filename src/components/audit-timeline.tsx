@@ -1,9 +1,11 @@
 "use client";
 
 import { motion } from "framer-motion";
-import { AuditLogEntry, DealStatus } from "@/types";
+import { AuditLogEntry, DealStatus, SignatureMethod } from "@/types";
 import { formatDateTime } from "@/lib/crypto";
-import { FileCheck, Eye, PenLine, CheckCircle2, XCircle, Mail, FileText, Download, ShieldCheck, Link, Smartphone, Monitor, Tablet, Key } from "lucide-react";
+import { SIGNATURE_METHOD_LABELS } from "@/lib/signature-image";
+import { formatIdVerifiedValue } from "@/lib/id-verification";
+import { FileCheck, Eye, PenLine, CheckCircle2, XCircle, Mail, FileText, Download, ShieldCheck, Link, Smartphone, Monitor, Tablet, Key, GitPullRequestArrow, GitBranch, TimerOff, CalendarClock, Stamp, FileLock2, Paperclip, ListChecks, IdCard, Fingerprint } from "lucide-react";
 
 interface AuditTimelineProps {
   logs: AuditLogEntry[];
@@ -44,6 +46,10 @@ const eventConfig: Record<string, {
     description: "Agreement was created and shared",
     getDescription: (metadata) => {
       const termsCount = metadata?.termsCount as number;
+      const amendsPublicId = metadata?.amendsPublicId as string | undefined;
+      if (amendsPublicId) {
+        return `Amendment (v${metadata?.version ?? 2}) of deal ${amendsPublicId} created`;
+      }
       return termsCount
         ? `Agreement created with ${termsCount} term${termsCount !== 1 ? "s" : ""}`
         : "Agreement was created and shared";
@@ -83,11 +89,79 @@ const eventConfig: Record<string, {
     bgColor: "bg-amber-500/10",
     description: "Recipient drew their signature",
     getDescription: (metadata) => {
+      const methodLabel = SIGNATURE_METHOD_LABELS[metadata?.signatureMethod as SignatureMethod];
       const client = metadata?.client as Record<string, unknown> | undefined;
+      const signature = methodLabel ? `${methodLabel} signature` : "Signature";
       if (client?.deviceType) {
-        return `Signature captured on ${client.deviceType}`;
+        return `${signature} captured on ${client.deviceType}`;
       }
-      return "Recipient drew their signature";
+      return methodLabel ? `${signature} added` : "Recipient drew their signature";
+    },
+  },
+  deal_countersigned: {
+    label: "Counter-signed",
+    icon: PenLine,
+    color: "text-rose-600",
+    bgColor: "bg-rose-500/10",
+    description: "Creator added their counter-signature",
+    getDescription: (metadata) => {
+      const methodLabel = SIGNATURE_METHOD_LABELS[metadata?.signature_method as SignatureMethod];
+      return methodLabel
+        ? `Creator added their ${methodLabel.toLowerCase()} counter-signature`
+        : "Creator added their counter-signature";
+    },
+  },
+  deal_amended: {
+    label: "Deal Amended",
+    icon: GitBranch,
+    color: "text-indigo-600",
+    bgColor: "bg-indigo-500/10",
+    description: "An amended version of this deal was created",
+    getDescription: (metadata) => {
+      const amendmentPublicId = metadata?.amendmentPublicId as string | undefined;
+      const version = metadata?.version as number | undefined;
+      return amendmentPublicId
+        ? `Amended as version ${version ?? 2} (${amendmentPublicId}), pending re-signing`
+        : "An amended version of this deal was created";
+    },
+  },
+  term_proposed: {
+    label: "Change Proposed",
+    icon: GitPullRequestArrow,
+    color: "text-amber-600",
+    bgColor: "bg-amber-500/10",
+    description: "Recipient proposed a change to a term",
+    getDescription: (metadata) => {
+      const termLabel = metadata?.term_label as string | undefined;
+      const proposedValue = metadata?.proposed_value as string | undefined;
+      return termLabel && proposedValue
+        ? `Proposed ${termLabel}: ${proposedValue}`
+        : "Recipient proposed a change to a term";
+    },
+  },
+  term_accepted: {
+    label: "Change Accepted",
+    icon: GitPullRequestArrow,
+    color: "text-emerald-600",
+    bgColor: "bg-emerald-500/10",
+    description: "Creator accepted a proposed term change",
+    getDescription: (metadata) => {
+      const termLabel = metadata?.term_label as string | undefined;
+      const revision = metadata?.revision as number | undefined;
+      return termLabel
+        ? `${termLabel} updated${revision ? ` (revision ${revision})` : ""}`
+        : "Creator accepted a proposed term change";
+    },
+  },
+  term_rejected: {
+    label: "Change Rejected",
+    icon: GitPullRequestArrow,
+    color: "text-muted-foreground",
+    bgColor: "bg-muted",
+    description: "Creator rejected a proposed term change",
+    getDescription: (metadata) => {
+      const termLabel = metadata?.term_label as string | undefined;
+      return termLabel ? `Kept original ${termLabel}` : "Creator rejected a proposed term change";
     },
   },
   deal_confirmed: {
@@ -104,6 +178,111 @@ const eventConfig: Record<string, {
     bgColor: "bg-destructive/10",
     description: "Agreement was cancelled",
   },
+  deal_expired: {
+    label: "Deal Expired",
+    icon: TimerOff,
+    color: "text-muted-foreground",
+    bgColor: "bg-muted",
+    description: "Signing deadline passed before the deal was sealed",
+  },
+  deal_extended: {
+    label: "Deadline Extended",
+    icon: CalendarClock,
+    color: "text-amber-600",
+    bgColor: "bg-amber-500/10",
+    description: "Creator extended the signing deadline",
+    getDescription: (metadata) => {
+      const expiresAt = metadata?.expires_at as string | undefined;
+      return expiresAt
+        ? `Signing deadline extended to ${formatDateTime(expiresAt)}`
+        : "Creator extended the signing deadline";
+    },
+  },
+  deal_timestamped: {
+    label: "Timestamped",
+    icon: Stamp,
+    color: "text-sky-600",
+    bgColor: "bg-sky-500/10",
+    description: "Seal timestamped by a trusted timestamp authority",
+    getDescription: (metadata) => {
+      const authority = metadata?.authority as string | undefined;
+      return authority
+        ? `Seal timestamped by ${authority}`
+        : "Seal timestamped by a trusted timestamp authority";
+    },
+  },
+  pdf_archived: {
+    label: "PDF Archived",
+    icon: FileLock2,
+    color: "text-slate-600",
+    bgColor: "bg-slate-500/10",
+    description: "Receipt PDF generated and archived",
+    getDescription: (metadata) => {
+      const sha256 = metadata?.sha256 as string | undefined;
+      return sha256
+        ? `Receipt PDF archived (SHA-256 ${sha256.slice(0, 12)}…)`
+        : "Receipt PDF generated and archived";
+    },
+  },
+  attachment_added: {
+    label: "File Attached",
+    icon: Paperclip,
+    color: "text-slate-600",
+    bgColor: "bg-slate-500/10",
+    description: "Creator attached a file to the deal",
+    getDescription: (metadata) => {
+      const name = metadata?.name as string | undefined;
+      return name ? `Creator attached ${name}` : "Creator attached a file to the deal";
+    },
+  },
+  document_uploaded: {
+    label: "Document Uploaded",
+    icon: FileText,
+    color: "text-slate-600",
+    bgColor: "bg-slate-500/10",
+    description: "Creator uploaded the document to be signed",
+    getDescription: (metadata) => {
+      const name = metadata?.name as string | undefined;
+      return name ? `Creator uploaded ${name} for signature` : "Creator uploaded the document to be signed";
+    },
+  },
+  terms_acknowledged: {
+    label: "Terms Initialled",
+    icon: ListChecks,
+    color: "text-amber-600",
+    bgColor: "bg-amber-500/10",
+    description: "Recipient initialled or acknowledged the marked terms",
+    getDescription: (metadata) => {
+      const signerName = metadata?.signer_name as string | undefined;
+      return signerName
+        ? `${signerName} initialled or acknowledged the marked terms`
+        : "Recipient initialled or acknowledged the marked terms";
+    },
+  },
+  id_verified: {
+    label: "ID Verified",
+    icon: IdCard,
+    color: "text-emerald-600",
+    bgColor: "bg-emerald-500/10",
+    description: "Recipient verified their identity with a document and selfie",
+    getDescription: (metadata) => {
+      const documentType = metadata?.document_type as string | undefined;
+      return documentType
+        ? `${formatIdVerifiedValue(documentType)} and selfie checked for the recipient`
+        : "Recipient verified their identity with a document and selfie";
+    },
+  },
+  passkey_signed: {
+    label: "Signed with Passkey",
+    icon: Fingerprint,
+    color: "text-emerald-600",
+    bgColor: "bg-emerald-500/10",
+    description: "A party signed the deal seal with a passkey",
+    getDescription: (metadata) => {
+      const signerName = metadata?.signer_name as string | undefined;
+      return signerName ? `${signerName} signed the deal seal with a passkey` : "A party signed the deal seal with a passkey";
+    },
+  },
   email_sent: {
     label: "Email Sent",
     icon: Mail,
@@ -402,13 +581,17 @@ export function AuditTimeline({
                   ? "bg-emerald-500/20 ring-2 ring-emerald-500/30"
                   : dealStatus === "voided"
                     ? "bg-destructive/20 ring-2 ring-destructive/30"
-                    : "bg-amber-500/20 ring-2 ring-amber-500/30"
+                    : dealStatus === "expired"
+                      ? "bg-muted ring-2 ring-border"
+                      : "bg-amber-500/20 ring-2 ring-amber-500/30"
               }`}
             >
               {dealStatus === "confirmed" ? (
                 <CheckCircle2 className="h-5 w-5 text-emerald-600" />
               ) : dealStatus === "voided" ? (
                 <XCircle className="h-5 w-5 text-destructive" />
+              ) : dealStatus === "expired" ? (
+                <TimerOff className="h-5 w-5 text-muted-foreground" />
               ) : (
                 <div className="h-2 w-2 rounded-full bg-amber-500 animate-pulse" />
               )}
@@ -419,14 +602,18 @@ export function AuditTimeline({
                   ? "Complete"
                   : dealStatus === "voided"
                     ? "Cancelled"
-                    : "Awaiting Signature"}
+                    : dealStatus === "expired"
+                      ? "Expired"
+                      : "Awaiting Signature"}
               </p>
               <p className="text-xs text-muted-foreground">
                 {dealStatus === "confirmed"
                   ? "This deal is sealed and verified"
                   : dealStatus === "voided"
                     ? "This deal has been voided"
-                    : "Waiting for recipient to sign"}
+                    : dealStatus === "expired"
+                      ? "The signing deadline passed"
+                      : "Waiting for recipient to sign"}
               </p>
             </div>
           </div>
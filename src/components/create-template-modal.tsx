@@ -7,6 +7,8 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { VerificationPolicyEditor } from "@/components/verification-policy";
 import {
   Dialog,
   DialogContent,
@@ -61,7 +63,8 @@ import {
   CheckSquare,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
-import { TemplateField, UserTemplate, TemplateTheme } from "@/types";
+import { TemplateField, UserTemplate, TemplateTheme, VerificationPolicy } from "@/types";
+import { TRUST_LEVEL_POLICIES } from "@/lib/verification-policy";
 import { createTemplateAction, updateTemplateAction } from "@/app/actions/template-actions";
 import { toast } from "sonner";
 import { nanoid } from "nanoid";
@@ -123,6 +126,7 @@ interface CreateTemplateModalProps {
     icon: string;
     theme: TemplateTheme;
     fields: TemplateField[];
+    verificationPolicy?: VerificationPolicy;
   } | null;
 }
 
@@ -149,6 +153,10 @@ export function CreateTemplateModal({
       { id: nanoid(8), label: "", type: "text", placeholder: "", required: true },
     ]
   );
+  // Applied to deals created from the template; null leaves the choice to the deal
+  const [verificationPolicy, setVerificationPolicy] = useState<VerificationPolicy | null>(
+    sourceTemplate?.verificationPolicy || null
+  );
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [lastAddedId, setLastAddedId] = useState<string | null>(null);
@@ -168,12 +176,14 @@ export function CreateTemplateModal({
       } else {
         setFields(source.fields);
       }
+      setVerificationPolicy(source.verificationPolicy || null);
     } else {
       setName("");
       setDescription("");
       setIcon("file-text");
       setTheme("general");
       setFields([{ id: nanoid(8), label: "", type: "text", placeholder: "", required: true }]);
+      setVerificationPolicy(null);
     }
     setError(null);
   }, [editTemplate, duplicateTemplate, isDuplicating]);
@@ -262,6 +272,7 @@ export function CreateTemplateModal({
           label: f.label.trim(),
           placeholder: f.placeholder?.trim() || undefined,
         })),
+        verificationPolicy,
       };
 
       let result;
@@ -396,6 +407,33 @@ export function CreateTemplateModal({
             </div>
           </div>
 
+          {/* Verification Policy */}
+          <div className="space-y-3">
+            <div className="flex items-center justify-between gap-3">
+              <div>
+                <Label htmlFor="template-verification">Recipient Verification</Label>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Deals from this template ask recipients to verify these before signing
+                </p>
+              </div>
+              <Switch
+                id="template-verification"
+                checked={!!verificationPolicy}
+                onCheckedChange={(checked) =>
+                  setVerificationPolicy(checked ? { ...TRUST_LEVEL_POLICIES.verified } : null)
+                }
+              />
+            </div>
+            {verificationPolicy && (
+              <VerificationPolicyEditor
+                key={editTemplate?.id || duplicateTemplate?.name || "new"}
+                value={verificationPolicy}
+                onChange={setVerificationPolicy}
+                className="p-3 rounded-xl border bg-muted/30"
+              />
+            )}
+          </div>
+
           {/* Fields Section */}
           <div className="space-y-3">
             <div className="flex items-center justify-between">
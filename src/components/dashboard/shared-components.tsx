@@ -3,11 +3,11 @@
 import React, { useEffect } from "react";
 import { motion } from "framer-motion";
 import Link from "next/link";
-import { Copy, Check, Clock, RefreshCw, CheckCircle2, XCircle, FileSignature, Command, ChevronLeft, ChevronRight } from "lucide-react";
+import { Copy, Check, Clock, RefreshCw, CheckCircle2, XCircle, FileSignature, Command, ChevronLeft, ChevronRight, TimerOff } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
-import { dashboardStyles, getStatCardClass } from "@/lib/dashboard-ui";
-import { DealStatus } from "@/types";
+import { dashboardStyles, getStatCardClass, isAwaitingCountersign } from "@/lib/dashboard-ui";
+import { Deal, DealStatus } from "@/types";
 import { useCopyToClipboard } from "@/hooks/useCopyToClipboard";
 export {
   StatCardSkeleton,
@@ -70,20 +70,67 @@ export const statusConfig: Record<DealStatus, StatusStyle> = {
     icon: XCircle,
     badgeVariant: "destructive",
   },
+  expired: {
+    label: "Expired",
+    color: "text-muted-foreground",
+    bg: "bg-muted",
+    border: "border-border",
+    icon: TimerOff,
+    badgeVariant: "secondary",
+  },
 };
 
 /**
  * Gets the contextual status configuration for a deal based on the current user.
  * This differentiates between "Waiting for Others" and "Action Required".
  */
-export function getDealStatusConfig(deal: { status: string; recipientId?: string; recipientEmail?: string }, userId?: string, userEmail?: string): StatusStyle {
+export function getDealStatusConfig(
+  deal: {
+    status: string;
+    creatorId?: string;
+    recipientId?: string;
+    recipientEmail?: string;
+    signatureUrl?: string;
+    signers?: { recipientId?: string; email?: string; signedAt?: string }[];
+    creatorSignatureMode?: Deal["creatorSignatureMode"];
+    creatorSignedAt?: string;
+  },
+  userId?: string,
+  userEmail?: string
+): StatusStyle {
   const baseConfig = statusConfig[deal.status as DealStatus] || statusConfig.pending;
 
+  if (isAwaitingCountersign(deal)) {
+    // Recipients are done - only the creator's counter-signature is missing
+    if (userId && deal.creatorId === userId) {
+      return {
+        ...baseConfig,
+        label: "Countersign",
+        color: "text-rose-600 dark:text-rose-400",
+        bg: "bg-rose-500/10",
+        border: "border-rose-500/20",
+        icon: FileSignature,
+        badgeVariant: "action",
+      };
+    }
+    return {
+      ...baseConfig,
+      label: "Awaiting Countersign",
+    };
+  }
+
   if (deal.status === "pending") {
-    // If the current user is the recipient and hasn't signed yet (implied by pending)
-    const isRecipient =
-      (userId && deal.recipientId === userId) ||
-      (userEmail && deal.recipientEmail?.toLowerCase() === userEmail.toLowerCase());
+    // If the current user is the recipient and hasn't signed yet (implied by pending).
+    // Multi-party deals track signatures per signer instead.
+    const isRecipient = deal.signers?.length
+      ? deal.signers.some(
+          (s) =>
+            !s.signedAt &&
+            ((userId && s.recipientId === userId) ||
+              (userEmail && s.email?.toLowerCase() === userEmail.toLowerCase()))
+        )
+      : (userId && deal.recipientId === userId) ||
+        (userEmail && deal.recipientEmail?.toLowerCase() === userEmail.toLowerCase());
 
     if (isRecipient) {
       return {
@@ -0,0 +1,43 @@
+"use client";
+
+import { cn } from "@/lib/utils";
+import { getTokenExpiry } from "@/lib/crypto";
+
+/** Signing deadlines offered to creators, in days */
+export const DEADLINE_OPTIONS = [3, 7, 14, 30, 90] as const;
+
+interface DeadlinePickerProps {
+  value: number;
+  onChange: (days: number) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+/**
+ * Picks how many days signers have before a deal expires
+ */
+export function DeadlinePicker({ value, onChange, disabled, className }: DeadlinePickerProps) {
+  return (
+    <div className={cn("grid grid-cols-5 gap-2", className)}>
+      {DEADLINE_OPTIONS.map((days) => (
+        <button
+          key={days}
+          type="button"
+          disabled={disabled}
+          onClick={() => onChange(days)}
+          className={cn(
+            "p-3 rounded-xl border text-left transition-colors disabled:opacity-50",
+            value === days
+              ? "border-primary bg-primary/5"
+              : "border-border/50 bg-secondary/20 hover:bg-secondary/40"
+          )}
+        >
+          <p className="text-sm font-medium">{days} days</p>
+          <p className="text-[11px] text-muted-foreground mt-0.5">
+            {getTokenExpiry(days).toLocaleDateString("en-US", { month: "short", day: "numeric" })}
+          </p>
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+"use client";
+
+import Link from "next/link";
+import { motion } from "framer-motion";
+import { Badge } from "@/components/ui/badge";
+import { DealVersion } from "@/types";
+import { formatDate } from "@/lib/crypto";
+import { cn } from "@/lib/utils";
+import { CheckCircle2, Clock, Link2, TimerOff, Unlink, XCircle } from "lucide-react";
+
+export interface DealVersionHistoryProps {
+  versions: DealVersion[];
+  /** Public ID of the version being viewed (highlighted) */
+  currentPublicId?: string;
+  /** Where each version links to */
+  getHref?: (version: DealVersion) => string;
+  className?: string;
+}
+
+const statusConfig: Record<DealVersion["status"], { label: string; icon: typeof CheckCircle2; className: string }> = {
+  confirmed: { label: "Sealed", icon: CheckCircle2, className: "text-emerald-600" },
+  pending: { label: "Awaiting signatures", icon: Clock, className: "text-amber-600" },
+  sealing: { label: "Sealing", icon: Clock, className: "text-amber-600" },
+  voided: { label: "Voided", icon: XCircle, className: "text-muted-foreground" },
+  expired: { label: "Expired", icon: TimerOff, className: "text-muted-foreground" },
+};
+
+/**
+ * Amendment history of a deal: the original and every amendment, oldest first.
+ * Each amendment's seal chains to the seal of the version it amends, so a
+ * broken link (previous seal mismatch) is flagged.
+ */
+export function DealVersionHistory({
+  versions,
+  currentPublicId,
+  getHref = (version) => `/verify?id=${version.publicId}`,
+  className,
+}: DealVersionHistoryProps) {
+  // The version that currently applies is the newest sealed one
+  const latestSealed = [...versions].reverse().find((v) => v.status === "confirmed");
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      {versions.map((version, index) => {
+        const status = statusConfig[version.status];
+        const StatusIcon = status.icon;
+        const parent = version.previousSeal
+          ? versions.find((v) => v.dealSeal === version.previousSeal)
+          : undefined;
+        const isChainBroken = !!version.previousSeal && !parent;
+        const isCurrent = version.publicId === currentPublicId;
+
+        return (
+          <motion.div
+            key={version.id}
+            initial={{ opacity: 0, x: -10 }}
+            animate={{ opacity: 1, x: 0 }}
+            transition={{ delay: index * 0.05 }}
+          >
+            <Link
+              href={getHref(version)}
+              className={cn(
+                "flex items-center gap-3 p-3 rounded-xl border transition-colors hover:bg-secondary/40",
+                isCurrent ? "bg-primary/5 border-primary/20" : "bg-secondary/20 border-border/50"
+              )}
+            >
+              <div className="h-8 w-8 rounded-full bg-muted flex items-center justify-center font-mono text-xs font-medium shrink-0">
+                v{version.version}
+              </div>
+              <div className="min-w-0 flex-1">
+                <div className="flex items-center gap-2">
+                  <p className="font-medium text-sm truncate">
+                    {version.version === 1 ? "Original" : `Amendment ${version.version - 1}`}
+                  </p>
+                  {isCurrent && <Badge variant="secondary" className="text-[10px] h-4 shrink-0">Viewing</Badge>}
+                  {latestSealed?.id === version.id && versions.length > 1 && (
+                    <Badge variant="outline" className="text-[10px] h-4 shrink-0 bg-emerald-500/10 text-emerald-700 border-emerald-500/20">
+                      Current
+                    </Badge>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground flex items-center gap-1 truncate">
+                  <StatusIcon className={cn("h-3 w-3", status.className)} />
+                  {status.label} {formatDate(version.confirmedAt || version.voidedAt || version.createdAt)}
+                  {version.dealSeal && (
+                    <span className="font-mono opacity-70"> • {version.dealSeal.slice(0, 8)}…</span>
+                  )}
+                </p>
+              </div>
+              {version.previousSeal && (
+                <span
+                  className={cn(
+                    "flex items-center gap-1 text-[10px] font-medium shrink-0",
+                    isChainBroken ? "text-destructive" : "text-muted-foreground"
+                  )}
+                  title={isChainBroken ? "Previous seal not found in history" : `Chained to v${parent?.version}`}
+                >
+                  {isChainBroken ? <Unlink className="h-3 w-3" /> : <Link2 className="h-3 w-3" />}
+                  {isChainBroken ? "Broken" : `v${parent?.version}`}
+                </span>
+              )}
+            </Link>
+          </motion.div>
+        );
+      })}
+    </div>
+  );
+}
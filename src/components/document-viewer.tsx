@@ -0,0 +1,125 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { DealDocument } from "@/types";
+import { AttachmentStatus, formatFileSize } from "@/lib/attachments";
+import { cn } from "@/lib/utils";
+import { AlertTriangle, CheckCircle2, ChevronLeft, ChevronRight, ExternalLink, FileText, XCircle } from "lucide-react";
+
+export interface DocumentViewerProps {
+  document: DealDocument;
+  /** Verification result for the PDF, when shown on the verify page */
+  status?: AttachmentStatus | null;
+  /** Called once the last page has been shown (immediately if the page count is unknown) */
+  onReviewed?: () => void;
+  /** Hide the embedded pages and only show the file details */
+  compact?: boolean;
+  className?: string;
+}
+
+const statusConfig: Record<AttachmentStatus, { label: string; className: string; icon: typeof CheckCircle2 }> = {
+  match: { label: "Matches seal", className: "text-emerald-600", icon: CheckCircle2 },
+  modified: { label: "Document was changed", className: "text-destructive", icon: XCircle },
+  unavailable: { label: "Couldn't download", className: "text-amber-600", icon: AlertTriangle },
+};
+
+/**
+ * The PDF of a "sign a document" deal, shown one page at a time in the
+ * browser's built-in PDF viewer.
+ */
+export function DocumentViewer({ document, status, onReviewed, compact, className }: DocumentViewerProps) {
+  const [page, setPage] = useState(1);
+  const pageCount = document.pageCount;
+  const config = status ? statusConfig[status] : null;
+
+  useEffect(() => {
+    if (!pageCount || page >= pageCount) onReviewed?.();
+  }, [page, pageCount, onReviewed]);
+
+  return (
+    <div className={className}>
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-[10px] font-bold uppercase tracking-wider text-muted-foreground flex items-center gap-1.5">
+          <FileText className="h-3 w-3" />
+          Document
+        </span>
+        {pageCount && (
+          <Badge variant="secondary" className="text-[10px] h-5">
+            {pageCount} {pageCount === 1 ? "page" : "pages"}
+          </Badge>
+        )}
+      </div>
+
+      <div
+        className={cn(
+          "flex items-center gap-3 p-3 rounded-xl border",
+          status === "modified" ? "bg-destructive/5 border-destructive/20" : "bg-secondary/30 border-border/50"
+        )}
+      >
+        <div className="h-8 w-8 rounded-lg bg-muted text-muted-foreground flex items-center justify-center shrink-0">
+          <FileText className="h-4 w-4" />
+        </div>
+        <div className="min-w-0 flex-1">
+          <p className="font-medium text-sm truncate">{document.name}</p>
+          <p className="text-xs text-muted-foreground flex items-center gap-1 truncate">
+            {formatFileSize(document.size)}
+            {config && (
+              <span className={cn("flex items-center gap-1", config.className)}>
+                {" "}• <config.icon className="h-3 w-3" />
+                {config.label}
+              </span>
+            )}
+          </p>
+          <p className="text-[10px] text-muted-foreground font-mono truncate">SHA-256 {document.sha256}</p>
+        </div>
+        <Button variant="ghost" size="sm" className="h-7 px-2 gap-1.5 text-[10px] shrink-0" asChild>
+          <a href={document.url} target="_blank" rel="noopener noreferrer">
+            <ExternalLink className="h-3 w-3" />
+            Open
+          </a>
+        </Button>
+      </div>
+
+      {!compact && (
+        <>
+          <div className="mt-3 rounded-xl border border-border/50 overflow-hidden bg-muted/30">
+            <iframe
+              // Remount per page: viewers don't all react to a changed #page fragment
+              key={page}
+              src={`${document.url}#page=${page}&toolbar=0&navpanes=0&view=FitH`}
+              title={`${document.name}, page ${page}`}
+              className="w-full h-[60vh] min-h-[420px]"
+            />
+          </div>
+          {pageCount && pageCount > 1 && (
+            <div className="flex items-center justify-between mt-3">
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-1"
+                disabled={page <= 1}
+                onClick={() => setPage((p) => p - 1)}
+              >
+                <ChevronLeft className="h-3.5 w-3.5" /> Previous
+              </Button>
+              <span className="text-xs text-muted-foreground font-medium">
+                Page {page} of {pageCount}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-1"
+                disabled={page >= pageCount}
+                onClick={() => setPage((p) => p + 1)}
+              >
+                Next <ChevronRight className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,307 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { IdDocumentType } from "@/types";
+import { ID_DOCUMENT_LABELS, ID_PHOTO_TYPES, prepareIdPhoto } from "@/lib/id-verification";
+import { submitIdVerification } from "@/app/actions/verification-actions";
+import { cn } from "@/lib/utils";
+import { AlertCircle, Camera, IdCard, Loader2, RotateCcw, ScanFace, Upload } from "lucide-react";
+import { toast } from "sonner";
+
+interface PhotoCaptureProps {
+  label: string;
+  hint: string;
+  /** Which camera to open: the back one for documents, the front one for selfies */
+  facingMode: "environment" | "user";
+  icon: typeof Camera;
+  photo: string | null;
+  onChange: (photo: string | null) => void;
+  disabled?: boolean;
+}
+
+/**
+ * One photo slot: a live camera preview with a shutter button, or a file
+ * picker when the camera isn't available or the signer prefers to upload
+ */
+function PhotoCapture({ label, hint, facingMode, icon: Icon, photo, onChange, disabled }: PhotoCaptureProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isCameraOpen, setIsCameraOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const stopCamera = useCallback(() => {
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+    setIsCameraOpen(false);
+  }, []);
+
+  // Release the camera when the slot goes away
+  useEffect(() => stopCamera, [stopCamera]);
+
+  const openCamera = async () => {
+    setError(null);
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setError("This browser can't open the camera. Upload a photo instead.");
+      return;
+    }
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode }, audio: false });
+      streamRef.current = stream;
+      setIsCameraOpen(true);
+      // The video element renders once the camera is open
+      requestAnimationFrame(() => {
+        if (videoRef.current) {
+          videoRef.current.srcObject = stream;
+          void videoRef.current.play();
+        }
+      });
+    } catch {
+      setError("Camera access was blocked. Allow it in your browser, or upload a photo instead.");
+    }
+  };
+
+  const takePhoto = async () => {
+    if (!videoRef.current) return;
+    try {
+      onChange(await prepareIdPhoto(videoRef.current));
+      stopCamera();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Couldn't take the photo");
+    }
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    setError(null);
+    try {
+      onChange(await prepareIdPhoto(file));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Couldn't read that image");
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-medium flex items-center gap-1.5">
+          <Icon className="h-3.5 w-3.5 text-muted-foreground" />
+          {label}
+        </span>
+        {photo && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="h-6 px-2 gap-1 text-[10px]"
+            onClick={() => onChange(null)}
+            disabled={disabled}
+          >
+            <RotateCcw className="h-3 w-3" />
+            Retake
+          </Button>
+        )}
+      </div>
+
+      <div className="relative aspect-[4/3] rounded-lg border border-dashed border-border bg-muted/30 overflow-hidden flex items-center justify-center">
+        {photo ? (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img src={photo} alt={label} className="h-full w-full object-cover" />
+        ) : isCameraOpen ? (
+          <video
+            ref={videoRef}
+            playsInline
+            muted
+            className={cn("h-full w-full object-cover", facingMode === "user" && "-scale-x-100")}
+          />
+        ) : (
+          <p className="text-[10px] text-muted-foreground text-center px-4">{hint}</p>
+        )}
+      </div>
+
+      {!photo && (
+        <div className="flex gap-2">
+          {isCameraOpen ? (
+            <>
+              <Button type="button" size="sm" variant="outline" className="flex-1 h-8 text-xs" onClick={stopCamera}>
+                Cancel
+              </Button>
+              <Button type="button" size="sm" className="flex-1 h-8 gap-1.5" onClick={takePhoto}>
+                <Camera className="h-3 w-3" />
+                Take Photo
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                className="flex-1 h-8 gap-1.5 text-xs"
+                onClick={openCamera}
+                disabled={disabled}
+              >
+                <Camera className="h-3 w-3" />
+                Use Camera
+              </Button>
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                className="flex-1 h-8 gap-1.5 text-xs"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={disabled}
+              >
+                <Upload className="h-3 w-3" />
+                Upload
+              </Button>
+            </>
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={ID_PHOTO_TYPES.join(",")}
+            capture={facingMode}
+            className="hidden"
+            onChange={handleFile}
+          />
+        </div>
+      )}
+
+      {error && (
+        <p className="text-xs text-destructive flex items-center gap-1">
+          <AlertCircle className="h-3 w-3 shrink-0" /> {error}
+        </p>
+      )}
+    </div>
+  );
+}
+
+export interface IdVerificationCaptureProps {
+  dealId: string;
+  publicId: string;
+  /** Signing token of the party verifying */
+  accessToken: string;
+  onVerified: (documentType: IdDocumentType) => void;
+  disabled?: boolean;
+}
+
+/**
+ * ID verification for Maximum trust deals: pick the document type, photograph
+ * the document and take a selfie, then send both for checking
+ */
+export function IdVerificationCapture({ dealId, publicId, accessToken, onVerified, disabled }: IdVerificationCaptureProps) {
+  const [documentType, setDocumentType] = useState<IdDocumentType>("passport");
+  const [documentPhoto, setDocumentPhoto] = useState<string | null>(null);
+  const [selfiePhoto, setSelfiePhoto] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async () => {
+    if (!documentPhoto || !selfiePhoto) return;
+
+    setIsSubmitting(true);
+    setError(null);
+
+    const { success, error } = await submitIdVerification({
+      dealId,
+      token: accessToken,
+      publicId,
+      documentType,
+      documentPhoto,
+      selfiePhoto,
+    });
+
+    setIsSubmitting(false);
+
+    if (success) {
+      toast.success("ID verified!", {
+        description: "You can now proceed to sign the agreement",
+      });
+      onVerified(documentType);
+    } else {
+      setError(error || "ID verification failed");
+    }
+  };
+
+  return (
+    <div className="space-y-3 mt-2">
+      <div className="grid grid-cols-3 gap-1.5" role="radiogroup" aria-label="Document type">
+        {(Object.keys(ID_DOCUMENT_LABELS) as IdDocumentType[]).map((type) => (
+          <button
+            key={type}
+            type="button"
+            role="radio"
+            aria-checked={documentType === type}
+            onClick={() => setDocumentType(type)}
+            disabled={disabled || isSubmitting}
+            className={cn(
+              "h-8 px-2 rounded-md border text-[10px] font-medium transition-colors",
+              documentType === type
+                ? "bg-primary/10 border-primary/30 text-primary"
+                : "border-border/60 text-muted-foreground hover:border-primary/30 hover:text-foreground"
+            )}
+          >
+            {ID_DOCUMENT_LABELS[type]}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        <PhotoCapture
+          label="Document"
+          hint={`Photograph the page of your ${ID_DOCUMENT_LABELS[documentType].toLowerCase()} with your photo, flat and in good light`}
+          facingMode="environment"
+          icon={IdCard}
+          photo={documentPhoto}
+          onChange={(photo) => {
+            setDocumentPhoto(photo);
+            setError(null);
+          }}
+          disabled={disabled || isSubmitting}
+        />
+        <PhotoCapture
+          label="Selfie"
+          hint="Take a photo of your face, looking straight at the camera"
+          facingMode="user"
+          icon={ScanFace}
+          photo={selfiePhoto}
+          onChange={(photo) => {
+            setSelfiePhoto(photo);
+            setError(null);
+          }}
+          disabled={disabled || isSubmitting}
+        />
+      </div>
+
+      <p className="text-[10px] text-muted-foreground">
+        Your photos are only used for this check and aren&apos;t stored with the agreement.
+      </p>
+
+      {error && (
+        <p className="text-xs text-destructive flex items-center gap-1">
+          <AlertCircle className="h-3 w-3" /> {error}
+        </p>
+      )}
+
+      <Button
+        size="sm"
+        onClick={handleSubmit}
+        disabled={disabled || isSubmitting || !documentPhoto || !selfiePhoto}
+        className="w-full h-8"
+      >
+        {isSubmitting ? (
+          <>
+            <Loader2 className="h-3 w-3 mr-1.5 animate-spin" />
+            Verifying...
+          </>
+        ) : (
+          "Verify ID"
+        )}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { bytesToBase64Url, base64UrlToBytes, getPasskeyChallenge, isPasskeySupported } from "@/lib/passkeys";
+import { formatDateTime } from "@/lib/crypto";
+import { listPasskeysAction, signDealWithPasskeyAction } from "@/app/actions/passkey-actions";
+import { Deal, PasskeySignature } from "@/types";
+import { CheckCircle2, Fingerprint, Loader2, Settings } from "lucide-react";
+import { toast } from "sonner";
+
+export interface PasskeySealSignatureProps {
+  deal: Deal;
+  /** The signed-in user, if any */
+  userId?: string;
+  onSigned: (passkeySignature: PasskeySignature) => void;
+}
+
+/**
+ * Lets a registered party sign a sealed deal's seal with one of their
+ * passkeys. Renders nothing for anyone else.
+ */
+export function PasskeySealSignature({ deal, userId, onSigned }: PasskeySealSignatureProps) {
+  const [isSigning, setIsSigning] = useState(false);
+  const [hasNoPasskeys, setHasNoPasskeys] = useState(false);
+
+  const isParty =
+    !!userId &&
+    (deal.recipientId === userId || !!deal.signers?.some((s) => s.recipientId === userId && s.signedAt));
+  if (!isParty || deal.status !== "confirmed" || !deal.dealSeal) return null;
+
+  const ownSignature = deal.passkeySignatures?.find((s) => s.userId === userId);
+
+  const handleSign = async () => {
+    if (!deal.dealSeal) return;
+    if (!isPasskeySupported()) {
+      toast.error("This browser doesn't support passkeys");
+      return;
+    }
+
+    setIsSigning(true);
+    try {
+      const { passkeys, error } = await listPasskeysAction();
+      if (error) {
+        toast.error("Couldn't load your passkeys", { description: error });
+        return;
+      }
+      if (passkeys.length === 0) {
+        setHasNoPasskeys(true);
+        return;
+      }
+
+      const credential = (await navigator.credentials.get({
+        publicKey: {
+          challenge: getPasskeyChallenge(deal.dealSeal),
+          allowCredentials: passkeys.map((passkey) => ({
+            type: "public-key",
+            id: base64UrlToBytes(passkey.credentialId),
+          })),
+          userVerification: "required",
+        },
+      })) as PublicKeyCredential | null;
+      if (!credential) return;
+
+      const response = credential.response as AuthenticatorAssertionResponse;
+      const { passkeySignature, error: signError } = await signDealWithPasskeyAction({
+        publicId: deal.publicId,
+        credentialId: credential.id,
+        authenticatorData: bytesToBase64Url(new Uint8Array(response.authenticatorData)),
+        clientDataJSON: bytesToBase64Url(new Uint8Array(response.clientDataJSON)),
+        signature: bytesToBase64Url(new Uint8Array(response.signature)),
+      });
+
+      if (signError || !passkeySignature) {
+        toast.error("Failed to sign with passkey", { description: signError || undefined });
+        return;
+      }
+
+      onSigned(passkeySignature);
+      toast.success("Deal signed with your passkey");
+    } catch (error) {
+      // Cancelling the browser prompt rejects with NotAllowedError
+      if (!(error instanceof DOMException && error.name === "NotAllowedError")) {
+        toast.error("Failed to sign with passkey");
+      }
+    } finally {
+      setIsSigning(false);
+    }
+  };
+
+  return (
+    <Card className="border border-border shadow-sm bg-card rounded-xl overflow-hidden">
+      <CardContent className="p-5">
+        {ownSignature ? (
+          <div className="flex items-center gap-3">
+            <div className="h-10 w-10 rounded-xl bg-emerald-500/10 flex items-center justify-center text-emerald-600 shrink-0">
+              <CheckCircle2 className="h-5 w-5" />
+            </div>
+            <div>
+              <p className="font-medium text-sm">Signed with your passkey</p>
+              <p className="text-xs text-muted-foreground">
+                {formatDateTime(ownSignature.signedAt)} · Anyone can check it on the verify page
+              </p>
+            </div>
+          </div>
+        ) : (
+          <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+            <div className="flex items-center gap-3 flex-1">
+              <div className="h-10 w-10 rounded-xl bg-primary/10 flex items-center justify-center text-primary shrink-0">
+                <Fingerprint className="h-5 w-5" />
+              </div>
+              <div>
+                <p className="font-medium text-sm">Sign with a passkey</p>
+                <p className="text-xs text-muted-foreground">
+                  {hasNoPasskeys
+                    ? "You don't have a passkey yet. Add one under Settings → Account, then come back."
+                    : "Add a passkey signature over the deal seal for a stronger proof than your drawn signature."}
+                </p>
+              </div>
+            </div>
+            {hasNoPasskeys ? (
+              <Link href="/dashboard/settings">
+                <Button size="sm" variant="outline" className="gap-2">
+                  <Settings className="h-4 w-4" />
+                  Open Settings
+                </Button>
+              </Link>
+            ) : (
+              <Button size="sm" className="gap-2" onClick={handleSign} disabled={isSigning}>
+                {isSigning ? <Loader2 className="h-4 w-4 animate-spin" /> : <Fingerprint className="h-4 w-4" />}
+                Sign with Passkey
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,57 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import type { PDFFormat } from "@/lib/pdf";
+import { cn } from "@/lib/utils";
+import { Archive, ChevronDown, Download, FileText, RefreshCw } from "lucide-react";
+
+export interface PdfDownloadMenuProps {
+  onDownload: (format: PDFFormat) => void;
+  isDownloading?: boolean;
+  label?: string;
+  variant?: "default" | "outline";
+  className?: string;
+}
+
+/**
+ * Download button that lets the user pick the standard PDF or the PDF/A
+ * long-term archive version of a sealed deal.
+ */
+export function PdfDownloadMenu({
+  onDownload,
+  isDownloading,
+  label = "Download PDF",
+  variant = "default",
+  className,
+}: PdfDownloadMenuProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant={variant} size="sm" disabled={isDownloading} className={cn("gap-2 h-9", className)}>
+          {isDownloading ? <RefreshCw className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+          <span className="hidden sm:inline">{label}</span>
+          <ChevronDown className="h-3.5 w-3.5 opacity-60" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-60">
+        <DropdownMenuItem onClick={() => onDownload("standard")}>
+          <FileText className="h-4 w-4 mr-2" />
+          Standard PDF
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => onDownload("pdfa")}>
+          <Archive className="h-4 w-4 mr-2" />
+          <div className="flex flex-col">
+            <span>PDF/A</span>
+            <span className="text-[10px] text-muted-foreground">For long-term archiving</span>
+          </div>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -5,9 +5,17 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Deal } from "@/types";
 import { getUserInitials } from "@/lib/utils";
+import { SIGNATURE_METHOD_LABELS } from "@/lib/signature-image";
+import { formatIdVerifiedValue } from "@/lib/id-verification";
 import { useCopyToClipboard } from "@/hooks/useCopyToClipboard";
 import { toast } from "sonner";
 import { useEffect, useState } from "react";
+import { SignerList } from "@/components/signer-list";
+import { SignatureVector } from "@/components/signature-vector";
+import { AttachmentList } from "@/components/attachment-list";
+import { DocumentViewer } from "@/components/document-viewer";
+import { PdfDownloadMenu } from "@/components/pdf-download-menu";
+import type { PDFFormat } from "@/lib/pdf";
 import {
   FileText,
   Copy,
@@ -18,7 +26,9 @@ import {
   Users,
   Smartphone,
   Mail,
+  IdCard,
   ShieldCheck,
+  Link2,
 } from "lucide-react";
 
 // Animation variants
@@ -76,6 +86,13 @@ export interface SealedDealViewProps {
   recipientStatusLabel?: string;
   /** Whether to show signature/seal card */
   showSignatureSeal?: boolean;
+  /** Signer viewing the page (multi-party deals) */
+  currentSignerId?: string;
+  /** Personal signing links keyed by signer ID (creator view of multi-party deals) */
+  signerLinks?: Record<string, string>;
+  /** Download the receipt; shows a format picker in the signature/seal card */
+  onDownloadPDF?: (format: PDFFormat) => void;
+  isDownloadingPDF?: boolean;
   /** Custom class for the container */
   className?: string;
 }
@@ -95,6 +112,10 @@ export function SealedDealView({
   isRecipient = false,
   recipientStatusLabel,
   showSignatureSeal = true,
+  currentSignerId,
+  signerLinks,
+  onDownloadPDF,
+  isDownloadingPDF,
   className,
 }: SealedDealViewProps) {
   const { copyToClipboard } = useCopyToClipboard();
@@ -102,6 +123,7 @@ export function SealedDealView({
   const creatorName = creatorProfile?.name || deal.creatorName || "Unknown";
   const recipientName = recipientProfile?.name || deal.recipientName || "Awaiting...";
   const isSealed = deal.status === "confirmed";
+  const hasSigners = !!deal.signers && deal.signers.length > 0;
 
   return (
     <div className={className}>
@@ -135,41 +157,54 @@ export function SealedDealView({
                   </div>
                   <p className="text-xs text-muted-foreground flex items-center gap-1">
                     <Send className="h-3 w-3" />
-                    Creator
+                    {deal.creatorSignedAt ? "Creator • Signed" : "Creator"}
                   </p>
                 </div>
               </motion.div>
 
-              {/* Recipient */}
-              <motion.div
-                whileHover={{ scale: 1.02 }}
-                transition={{ type: "spring", stiffness: 400, damping: 17 }}
-                className="flex items-center gap-3 p-4 rounded-xl bg-secondary/30 border border-border/50 cursor-default"
-              >
-                <div className={`h-10 w-10 rounded-full flex items-center justify-center font-medium text-sm shadow-sm ${
-                  isSealed
-                    ? "bg-gradient-to-br from-primary to-primary/70 text-primary-foreground"
-                    : "bg-muted text-muted-foreground"
-                }`}>
-                  {recipientProfile?.avatarUrl ? (
-                    // eslint-disable-next-line @next/next/no-img-element
-                    <img src={recipientProfile.avatarUrl} alt="" className="h-10 w-10 rounded-full object-cover" />
-                  ) : (
-                    getUserInitials(recipientName)
-                  )}
-                </div>
-                <div className="min-w-0 flex-1">
-                  <div className="flex items-center gap-2">
-                    <p className="font-medium text-sm truncate">{recipientName}</p>
-                    {isRecipient && <Badge variant="secondary" className="text-[10px] h-4 shrink-0">You</Badge>}
+              {/* Recipient (single-recipient deals; multi-party deals list signers below) */}
+              {!hasSigners && (
+                <motion.div
+                  whileHover={{ scale: 1.02 }}
+                  transition={{ type: "spring", stiffness: 400, damping: 17 }}
+                  className="flex items-center gap-3 p-4 rounded-xl bg-secondary/30 border border-border/50 cursor-default"
+                >
+                  <div className={`h-10 w-10 rounded-full flex items-center justify-center font-medium text-sm shadow-sm ${
+                    isSealed
+                      ? "bg-gradient-to-br from-primary to-primary/70 text-primary-foreground"
+                      : "bg-muted text-muted-foreground"
+                  }`}>
+                    {recipientProfile?.avatarUrl ? (
+                      // eslint-disable-next-line @next/next/no-img-element
+                      <img src={recipientProfile.avatarUrl} alt="" className="h-10 w-10 rounded-full object-cover" />
+                    ) : (
+                      getUserInitials(recipientName)
+                    )}
                   </div>
-                  <p className="text-xs text-muted-foreground flex items-center gap-1">
-                    {recipientStatusLabel || (isSealed ? "Signed" : "Recipient")}
-                  </p>
-                </div>
-              </motion.div>
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2">
+                      <p className="font-medium text-sm truncate">{recipientName}</p>
+                      {isRecipient && <Badge variant="secondary" className="text-[10px] h-4 shrink-0">You</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground flex items-center gap-1">
+                      {recipientStatusLabel || (isSealed ? "Signed" : "Recipient")}
+                    </p>
+                  </div>
+                </motion.div>
+              )}
             </div>
 
+            {/* Signers (multi-party deals) */}
+            {hasSigners && (
+              <SignerList
+                signers={deal.signers!}
+                signingMode={deal.signingMode}
+                currentSignerId={currentSignerId}
+                signerLinks={signerLinks}
+                className="mt-4"
+              />
+            )}
+
             {/* Verification Badges inside Parties Card */}
             {deal.verifications && deal.verifications.length > 0 && (
               <div className="flex items-center gap-1.5 mt-4 pt-4 border-t border-border/50">
@@ -186,47 +221,69 @@ export function SealedDealView({
                     <span className="text-[9px] font-medium uppercase tracking-wider">Phone</span>
                   </div>
                 )}
+                {deal.verifications.some(v => v.verification_type === "id") && (
+                  <div className="flex items-center gap-1 px-1.5 py-0.5 rounded-md bg-emerald-soft border border-emerald-border text-emerald-muted">
+                    <IdCard className="h-2.5 w-2.5" />
+                    <span className="text-[9px] font-medium uppercase tracking-wider">ID</span>
+                  </div>
+                )}
               </div>
             )}
           </CardContent>
         </Card>
       </motion.div>
 
-      {/* Terms Card */}
+      {/* Terms Card (the PDF on document deals) */}
       <motion.div variants={slideUp} className="mt-4">
         <Card className="border border-border shadow-sm bg-card rounded-xl overflow-hidden">
           <CardContent className="p-5 md:p-6">
-            <div className="flex items-center justify-between mb-4">
-              <div className="flex items-center gap-2 font-semibold text-sm uppercase tracking-wider text-muted-foreground">
-                <FileText className="h-4 w-4" />
-                Terms
-              </div>
-              <Badge variant="secondary" className="text-[10px]">
-                {deal.terms.length} {deal.terms.length === 1 ? "term" : "terms"}
-              </Badge>
-            </div>
-            <div className="space-y-2">
-              {deal.terms.map((term, index) => (
-                <motion.div
-                  key={term.id}
-                  initial={{ opacity: 0, x: -10 }}
-                  animate={{ opacity: 1, x: 0 }}
-                  transition={{ delay: index * 0.05 }}
-                  whileHover={{ scale: 1.01 }}
-                  className="flex items-center justify-between py-3 px-4 rounded-lg bg-secondary/20 hover:bg-secondary/40 transition-colors cursor-pointer group/term"
-                  onClick={() => {
-                    copyToClipboard(`${term.label}: ${term.value}`);
-                    toast.success(`Copied: ${term.label}`);
-                  }}
-                >
-                  <span className="text-sm text-muted-foreground">{term.label}</span>
-                  <span className="font-medium text-sm flex items-center gap-2">
-                    {term.value}
-                    <Copy className="h-3 w-3 text-muted-foreground opacity-0 group-hover/term:opacity-100 transition-opacity" />
-                  </span>
-                </motion.div>
-              ))}
-            </div>
+            {deal.document ? (
+              <DocumentViewer document={deal.document} />
+            ) : (
+              <>
+                <div className="flex items-center justify-between mb-4">
+                  <div className="flex items-center gap-2 font-semibold text-sm uppercase tracking-wider text-muted-foreground">
+                    <FileText className="h-4 w-4" />
+                    Terms
+                  </div>
+                  <div className="flex items-center gap-1.5">
+                    {!!deal.termsRevision && deal.termsRevision > 1 && (
+                      <Badge variant="outline" className="text-[10px]">
+                        Revision {deal.termsRevision}
+                      </Badge>
+                    )}
+                    <Badge variant="secondary" className="text-[10px]">
+                      {deal.terms.length} {deal.terms.length === 1 ? "term" : "terms"}
+                    </Badge>
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  {deal.terms.map((term, index) => (
+                    <motion.div
+                      key={term.id}
+                      initial={{ opacity: 0, x: -10 }}
+                      animate={{ opacity: 1, x: 0 }}
+                      transition={{ delay: index * 0.05 }}
+                      whileHover={{ scale: 1.01 }}
+                      className="flex items-center justify-between py-3 px-4 rounded-lg bg-secondary/20 hover:bg-secondary/40 transition-colors cursor-pointer group/term"
+                      onClick={() => {
+                        copyToClipboard(`${term.label}: ${term.value}`);
+                        toast.success(`Copied: ${term.label}`);
+                      }}
+                    >
+                      <span className="text-sm text-muted-foreground">{term.label}</span>
+                      <span className="font-medium text-sm flex items-center gap-2">
+                        {term.value}
+                        <Copy className="h-3 w-3 text-muted-foreground opacity-0 group-hover/term:opacity-100 transition-opacity" />
+                      </span>
+                    </motion.div>
+                  ))}
+                </div>
+              </>
+            )}
+            {deal.attachments && deal.attachments.length > 0 && (
+              <AttachmentList attachments={deal.attachments} className="mt-5" />
+            )}
           </CardContent>
         </Card>
       </motion.div>
@@ -239,16 +296,78 @@ export function SealedDealView({
           }`}>
             <CardContent className="p-5 md:p-6">
               <div className="grid sm:grid-cols-2 gap-6">
+                {/* Signatures (one per signer on multi-party deals) */}
+                {hasSigners && (
+                  <div className="space-y-3">
+                    <div className="flex items-center gap-2 font-semibold text-sm uppercase tracking-wider text-muted-foreground">
+                      <PenLine className="h-4 w-4" />
+                      Signatures
+                    </div>
+                    <div className="space-y-2">
+                      {deal.signers!.filter((signer) => signer.signatureUrl).map((signer) => (
+                        <div key={signer.id} className="p-3 rounded-xl bg-secondary/30 border border-border/50 flex items-center justify-between gap-3">
+                          <span className="text-xs text-muted-foreground truncate">
+                            {signer.name}
+                            {signer.signatureMethod && ` · ${SIGNATURE_METHOD_LABELS[signer.signatureMethod]}`}
+                          </span>
+                          {signer.signatureVector ? (
+                            <SignatureVector strokes={signer.signatureVector.strokes} label={`Signature of ${signer.name}`} className="h-10 w-32" />
+                          ) : (
+                            /* eslint-disable-next-line @next/next/no-img-element */
+                            <img src={signer.signatureUrl} alt={`Signature of ${signer.name}`} className="max-h-10 object-contain" />
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 {/* Signature */}
-                {deal.signatureUrl && (
+                {!hasSigners && deal.signatureUrl && (
                   <div className="space-y-3">
                     <div className="flex items-center gap-2 font-semibold text-sm uppercase tracking-wider text-muted-foreground">
                       <PenLine className="h-4 w-4" />
                       Signature
+                      {deal.signatureMethod && (
+                        <span className="ml-auto text-[10px] font-medium normal-case tracking-normal">
+                          {SIGNATURE_METHOD_LABELS[deal.signatureMethod]}
+                        </span>
+                      )}
                     </div>
                     <div className="p-4 rounded-xl bg-secondary/30 border border-border/50 flex justify-center items-center min-h-[80px]">
-                      {/* eslint-disable-next-line @next/next/no-img-element */}
-                      <img src={deal.signatureUrl} alt="Signature" className="max-h-16 object-contain" />
+                      {deal.signatureVector ? (
+                        <SignatureVector strokes={deal.signatureVector.strokes} className="h-16 w-full max-w-xs" />
+                      ) : (
+                        /* eslint-disable-next-line @next/next/no-img-element */
+                        <img src={deal.signatureUrl} alt="Signature" className="max-h-16 object-contain" />
+                      )}
+                    </div>
+                  </div>
+                )}
+
+                {/* Creator counter-signature */}
+                {deal.creatorSignatureUrl && (
+                  <div className="space-y-3">
+                    <div className="flex items-center gap-2 font-semibold text-sm uppercase tracking-wider text-muted-foreground">
+                      <PenLine className="h-4 w-4" />
+                      Creator Signature
+                      {deal.creatorSignatureMethod && (
+                        <span className="ml-auto text-[10px] font-medium normal-case tracking-normal">
+                          {SIGNATURE_METHOD_LABELS[deal.creatorSignatureMethod]}
+                        </span>
+                      )}
+                    </div>
+                    <div className="p-4 rounded-xl bg-secondary/30 border border-border/50 flex justify-center items-center min-h-[80px]">
+                      {deal.creatorSignatureVector ? (
+                        <SignatureVector
+                          strokes={deal.creatorSignatureVector.strokes}
+                          label={`Signature of ${creatorName}`}
+                          className="h-16 w-full max-w-xs"
+                        />
+                      ) : (
+                        /* eslint-disable-next-line @next/next/no-img-element */
+                        <img src={deal.creatorSignatureUrl} alt={`Signature of ${creatorName}`} className="max-h-16 object-contain" />
+                      )}
                     </div>
                   </div>
                 )}
@@ -282,9 +401,29 @@ export function SealedDealView({
                         </span>
                       </div>
                     </div>
+                    {deal.previousSeal && (
+                      <p className="text-[11px] text-muted-foreground flex items-center gap-1.5">
+                        <Link2 className="h-3 w-3 shrink-0" />
+                        Amends v{(deal.version || 2) - 1}, chained to seal{" "}
+                        <code className="font-mono">{deal.previousSeal.slice(0, 16)}…</code>
+                      </p>
+                    )}
                   </div>
                 )}
               </div>
+
+              {/* Receipt download */}
+              {onDownloadPDF && (
+                <div className="mt-5 pt-4 border-t border-border/50 flex items-center justify-between gap-3">
+                  <p className="text-xs text-muted-foreground">Standard PDF, or PDF/A for long-term archiving</p>
+                  <PdfDownloadMenu
+                    onDownload={onDownloadPDF}
+                    isDownloading={isDownloadingPDF}
+                    label="Receipt"
+                    variant="outline"
+                  />
+                </div>
+              )}
             </CardContent>
           </Card>
         </motion.div>
@@ -306,14 +445,19 @@ export function SealedDealView({
                       <div className="h-8 w-8 rounded-full bg-emerald-soft flex items-center justify-center text-emerald-muted">
                         {v.verification_type === "email" ? (
                           <Mail className="h-4 w-4" />
+                        ) : v.verification_type === "id" ? (
+                          <IdCard className="h-4 w-4" />
                         ) : (
                           <Smartphone className="h-4 w-4" />
                         )}
                       </div>
                       <div>
-                        <p className="text-sm font-medium capitalize">{v.verification_type} Verified</p>
+                        <p className="text-sm font-medium capitalize">{v.verification_type === "id" ? "ID" : v.verification_type} Verified</p>
+                        {v.signer_id && (
+                          <p className="text-xs text-muted-foreground">{deal.signers?.find((s) => s.id === v.signer_id)?.name}</p>
+                        )}
                         <p className="text-xs text-muted-foreground font-mono">
-                          {v.verified_value ? (
+                          {v.verification_type === "id" ? formatIdVerifiedValue(v.verified_value) : v.verified_value ? (
                             v.verification_type === 'phone'
                               ? v.verified_value.replace(/(\+\d{3})\d+(\d{4})/, '$1***$2')
                               : v.verified_value.replace(/(.{3}).+(@.+)/, '$1***$2')
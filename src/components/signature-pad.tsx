@@ -3,9 +3,31 @@
 import React, { useRef, useCallback, useEffect, useState, useMemo } from "react";
 import SignatureCanvas from "react-signature-canvas";
 import { Button } from "@/components/ui/button";
-import { Eraser, Check, PenLine, Download, Maximize2, X } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Eraser, Check, PenLine, Download, Maximize2, X, Type, ImageUp, Loader2 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { AnimatePresence, motion } from "framer-motion";
+import { SignatureMethod, SignaturePoint, SignatureStrokes } from "@/types";
+import { LIMITS } from "@/lib/constants";
+import { SIGNATURE_FONTS } from "@/lib/signature-fonts";
+import {
+  SIGNATURE_UPLOAD_TYPES,
+  removeSignatureBackground,
+  renderTypedSignature,
+  validateSignatureUpload,
+} from "@/lib/signature-image";
+
+const modeTabs: { method: SignatureMethod; label: string; icon: typeof PenLine }[] = [
+  { method: "drawn", label: "Draw", icon: PenLine },
+  { method: "typed", label: "Type", icon: Type },
+  { method: "uploaded", label: "Upload", icon: ImageUp },
+];
+
+const emptyHints: Record<SignatureMethod, string> = {
+  drawn: "Draw your signature",
+  typed: "Type your name",
+  uploaded: "Upload a photo of your signature",
+};
 
 // Helper to compute fullscreen canvas dimensions
 function getFullscreenDimensions() {
@@ -18,11 +40,101 @@ function getFullscreenDimensions() {
   return { width: maxWidth, height: maxHeight };
 }
 
+// Pen strokes recorded from pointer events while the pad draws
+interface StrokeCapture {
+  strokes: SignaturePoint[][];
+  /** Event time of the first point */
+  startedAt: number | null;
+  isDrawing: boolean;
+  /** False once the canvas holds ink that isn't in the strokes (a loaded image, or too many points) */
+  isComplete: boolean;
+}
+
+function createStrokeCapture(): StrokeCapture {
+  return { strokes: [], startedAt: null, isDrawing: false, isComplete: true };
+}
+
+function captureStrokes(canvas: HTMLCanvasElement, capture: StrokeCapture): () => void {
+  const addPoint = (e: PointerEvent) => {
+    const stroke = capture.strokes[capture.strokes.length - 1];
+    if (!stroke) return;
+
+    const rect = canvas.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) * canvas.width) / (rect.width || 1);
+    const y = ((e.clientY - rect.top) * canvas.height) / (rect.height || 1);
+    const last = stroke[stroke.length - 1];
+    if (last && Math.hypot(x - last.x, y - last.y) < 1) return;
+
+    if (capture.startedAt === null) capture.startedAt = e.timeStamp;
+    // Devices without pressure sensing report a constant 0.5 (or 0) while pressed
+    const hasPressure = e.pointerType === "pen" || (e.pressure > 0 && e.pressure !== 0.5);
+    stroke.push({ x, y, t: e.timeStamp - capture.startedAt, ...(hasPressure && { p: e.pressure }) });
+  };
+
+  const handleDown = (e: PointerEvent) => {
+    if (!e.isPrimary) return;
+    capture.isDrawing = true;
+    capture.strokes.push([]);
+    addPoint(e);
+  };
+  const handleMove = (e: PointerEvent) => {
+    if (!capture.isDrawing) return;
+    const events = e.getCoalescedEvents?.() ?? [];
+    (events.length ? events : [e]).forEach(addPoint);
+  };
+  const handleUp = () => {
+    capture.isDrawing = false;
+  };
+
+  canvas.addEventListener("pointerdown", handleDown);
+  canvas.addEventListener("pointermove", handleMove);
+  canvas.addEventListener("pointerup", handleUp);
+  canvas.addEventListener("pointercancel", handleUp);
+  canvas.addEventListener("pointerleave", handleUp);
+
+  return () => {
+    canvas.removeEventListener("pointerdown", handleDown);
+    canvas.removeEventListener("pointermove", handleMove);
+    canvas.removeEventListener("pointerup", handleUp);
+    canvas.removeEventListener("pointercancel", handleUp);
+    canvas.removeEventListener("pointerleave", handleUp);
+  };
+}
+
+// The recorded strokes, unless they no longer match what's on the canvas
+function getStrokeRecord(capture: StrokeCapture, width: number, height: number): SignatureStrokes | undefined {
+  const strokes = capture.strokes.filter((stroke) => stroke.length > 0);
+  const pointCount = strokes.reduce((total, stroke) => total + stroke.length, 0);
+  if (
+    !capture.isComplete ||
+    strokes.length === 0 ||
+    strokes.length > LIMITS.MAX_SIGNATURE_STROKES ||
+    pointCount > LIMITS.MAX_SIGNATURE_POINTS
+  ) {
+    return undefined;
+  }
+  return { width, height, strokes };
+}
+
+// Copy strokes to the other canvas, with the same scaling as the transferred image
+function transferStrokes(from: StrokeCapture, to: StrokeCapture, scale: number, offsetX: number, offsetY: number) {
+  to.strokes = from.strokes.map((stroke) =>
+    stroke.map((point) => ({ ...point, x: point.x * scale + offsetX, y: point.y * scale + offsetY }))
+  );
+  to.startedAt = from.startedAt;
+  to.isComplete = from.isComplete;
+}
+
 interface SignaturePadProps {
-  onSignatureChange?: (signatureData: string | null) => void;
+  /**
+   * Called with the signature as a PNG data URL (null when cleared), how it was
+   * made, and for drawn signatures the pen strokes
+   */
+  onSignatureChange?: (signatureData: string | null, method: SignatureMethod, strokes?: SignatureStrokes) => void;
   className?: string;
   disabled?: boolean;
   savedSignatureUrl?: string; // URL of saved signature to load
+  defaultTypedName?: string; // Prefills the name in type mode
 }
 
 export function SignaturePad({
@@ -30,6 +142,7 @@ export function SignaturePad({
   className,
   disabled = false,
   savedSignatureUrl,
+  defaultTypedName,
 }: SignaturePadProps) {
   const sigCanvas = useRef<SignatureCanvas>(null);
   const fullscreenSigCanvas = useRef<SignatureCanvas>(null);
@@ -42,6 +155,19 @@ export function SignaturePad({
   const [fullscreenCanvasSize, setFullscreenCanvasSize] = useState(() => getFullscreenDimensions());
   const [isLoadingSaved, setIsLoadingSaved] = useState(false);
   const [isFullscreen, setIsFullscreen] = useState(false);
+  const [mode, setMode] = useState<SignatureMethod>("drawn");
+  const [typedName, setTypedName] = useState(defaultTypedName || "");
+  const [fontId, setFontId] = useState(SIGNATURE_FONTS[0].id);
+  const [typedSignature, setTypedSignature] = useState<string | null>(null);
+  const [uploadedSignature, setUploadedSignature] = useState<string | null>(null);
+  const [isProcessingUpload, setIsProcessingUpload] = useState(false);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const typedRenderTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const typedRenderId = useRef(0);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const strokeCapture = useRef<StrokeCapture>(createStrokeCapture());
+  const fullscreenStrokeCapture = useRef<StrokeCapture>(createStrokeCapture());
+  const selectedFont = SIGNATURE_FONTS.find((font) => font.id === fontId) || SIGNATURE_FONTS[0];
 
   // Handle responsive sizing for normal mode
   useEffect(() => {
@@ -106,10 +232,12 @@ export function SignaturePad({
 
     canvas.addEventListener('touchstart', preventScroll, { passive: false });
     canvas.addEventListener('touchmove', preventScroll, { passive: false });
+    const stopCapture = captureStrokes(canvas, strokeCapture.current);
 
     return () => {
       canvas.removeEventListener('touchstart', preventScroll);
       canvas.removeEventListener('touchmove', preventScroll);
+      stopCapture();
     };
   }, [canvasSize.width]);
 
@@ -128,19 +256,115 @@ export function SignaturePad({
 
     canvas.addEventListener('touchstart', preventScroll, { passive: false });
     canvas.addEventListener('touchmove', preventScroll, { passive: false });
+    const stopCapture = captureStrokes(canvas, fullscreenStrokeCapture.current);
 
     return () => {
       canvas.removeEventListener('touchstart', preventScroll);
       canvas.removeEventListener('touchmove', preventScroll);
+      stopCapture();
     };
   }, [isFullscreen, fullscreenCanvasSize.width]);
 
+  // Render the typed name once typing pauses; only the latest render is kept
+  const scheduleTypedRender = useCallback(
+    (name: string, fontFamily: string) => {
+      if (typedRenderTimer.current) clearTimeout(typedRenderTimer.current);
+      const renderId = ++typedRenderId.current;
+
+      if (!name.trim()) {
+        setTypedSignature(null);
+        onSignatureChange?.(null, "typed");
+        return;
+      }
+
+      typedRenderTimer.current = setTimeout(async () => {
+        try {
+          const signatureData = await renderTypedSignature(name, fontFamily);
+          if (renderId !== typedRenderId.current) return;
+          setTypedSignature(signatureData);
+          onSignatureChange?.(signatureData, "typed");
+        } catch {
+          if (renderId !== typedRenderId.current) return;
+          setTypedSignature(null);
+          onSignatureChange?.(null, "typed");
+        }
+      }, 250);
+    },
+    [onSignatureChange]
+  );
+
+  useEffect(() => {
+    return () => {
+      if (typedRenderTimer.current) clearTimeout(typedRenderTimer.current);
+    };
+  }, []);
+
   const handleClear = useCallback(() => {
     sigCanvas.current?.clear();
     fullscreenSigCanvas.current?.clear();
+    strokeCapture.current = createStrokeCapture();
+    fullscreenStrokeCapture.current = createStrokeCapture();
     setIsEmpty(true);
-    onSignatureChange?.(null);
-  }, [onSignatureChange]);
+    // Drop any pending typed render
+    if (typedRenderTimer.current) clearTimeout(typedRenderTimer.current);
+    typedRenderId.current++;
+    setTypedName("");
+    setTypedSignature(null);
+    setUploadedSignature(null);
+    setUploadError(null);
+    onSignatureChange?.(null, mode);
+  }, [mode, onSignatureChange]);
+
+  // Switching method starts over, so the signature always matches the method recorded with it
+  const handleModeChange = useCallback(
+    (nextMode: SignatureMethod) => {
+      if (nextMode === mode) return;
+      sigCanvas.current?.clear();
+      fullscreenSigCanvas.current?.clear();
+      strokeCapture.current = createStrokeCapture();
+      fullscreenStrokeCapture.current = createStrokeCapture();
+      setIsEmpty(true);
+      if (typedRenderTimer.current) clearTimeout(typedRenderTimer.current);
+      typedRenderId.current++;
+      setTypedSignature(null);
+      setUploadedSignature(null);
+      setUploadError(null);
+      setMode(nextMode);
+      onSignatureChange?.(null, nextMode);
+
+      if (nextMode === "typed" && typedName.trim()) {
+        scheduleTypedRender(typedName, selectedFont.fontFamily);
+      }
+    },
+    [mode, typedName, selectedFont, onSignatureChange, scheduleTypedRender]
+  );
+
+  const handleUpload = useCallback(
+    async (file: File | undefined) => {
+      if (!file) return;
+
+      const validationError = validateSignatureUpload(file);
+      if (validationError) {
+        setUploadError(validationError);
+        return;
+      }
+
+      setUploadError(null);
+      setIsProcessingUpload(true);
+      try {
+        const signatureData = await removeSignatureBackground(file);
+        setUploadedSignature(signatureData);
+        onSignatureChange?.(signatureData, "uploaded");
+      } catch (error) {
+        setUploadedSignature(null);
+        setUploadError(error instanceof Error ? error.message : "Couldn't read this image");
+        onSignatureChange?.(null, "uploaded");
+      } finally {
+        setIsProcessingUpload(false);
+      }
+    },
+    [onSignatureChange]
+  );
 
   const handleEnd = useCallback(() => {
     if (sigCanvas.current) {
@@ -148,12 +372,16 @@ export function SignaturePad({
       setIsEmpty(isCanvasEmpty);
       if (!isCanvasEmpty) {
         const signatureData = sigCanvas.current.toDataURL("image/png");
-        onSignatureChange?.(signatureData);
+        onSignatureChange?.(
+          signatureData,
+          "drawn",
+          getStrokeRecord(strokeCapture.current, canvasSize.width, canvasSize.height)
+        );
       } else {
-        onSignatureChange?.(null);
+        onSignatureChange?.(null, "drawn");
       }
     }
-  }, [onSignatureChange]);
+  }, [canvasSize, onSignatureChange]);
 
   const handleFullscreenEnd = useCallback(() => {
     if (fullscreenSigCanvas.current) {
@@ -161,12 +389,16 @@ export function SignaturePad({
       setIsEmpty(isCanvasEmpty);
       if (!isCanvasEmpty) {
         const signatureData = fullscreenSigCanvas.current.toDataURL("image/png");
-        onSignatureChange?.(signatureData);
+        onSignatureChange?.(
+          signatureData,
+          "drawn",
+          getStrokeRecord(fullscreenStrokeCapture.current, fullscreenCanvasSize.width, fullscreenCanvasSize.height)
+        );
       } else {
-        onSignatureChange?.(null);
+        onSignatureChange?.(null, "drawn");
       }
     }
-  }, [onSignatureChange]);
+  }, [fullscreenCanvasSize, onSignatureChange]);
 
   // Transfer signature from fullscreen to main canvas when closing
   const handleCloseFullscreen = useCallback(() => {
@@ -192,19 +424,25 @@ export function SignaturePad({
             const x = (canvasSize.width - width) / 2;
             const y = (canvasSize.height - height) / 2 - 5;
             ctx.drawImage(img, x, y, width, height);
+            transferStrokes(fullscreenStrokeCapture.current, strokeCapture.current, scale, x, y);
           }
           setIsEmpty(false);
-          onSignatureChange?.(signatureData);
+          onSignatureChange?.(
+            signatureData,
+            "drawn",
+            getStrokeRecord(fullscreenStrokeCapture.current, fullscreenCanvasSize.width, fullscreenCanvasSize.height)
+          );
         }
       };
       img.src = signatureData;
     }
     setIsFullscreen(false);
-  }, [canvasSize, onSignatureChange]);
+  }, [canvasSize, fullscreenCanvasSize, onSignatureChange]);
 
   // Open fullscreen and transfer existing signature if any
   const handleOpenFullscreen = useCallback(() => {
     setIsFullscreen(true);
+    fullscreenStrokeCapture.current = createStrokeCapture();
 
     // Transfer existing signature to fullscreen canvas after it mounts
     if (sigCanvas.current && !sigCanvas.current.isEmpty()) {
@@ -228,6 +466,7 @@ export function SignaturePad({
                 const x = (fullscreenCanvasSize.width - width) / 2;
                 const y = (fullscreenCanvasSize.height - height) / 2 - 10;
                 ctx.drawImage(img, x, y, width, height);
+                transferStrokes(strokeCapture.current, fullscreenStrokeCapture.current, scale, x, y);
               }
             }
           };
@@ -248,6 +487,8 @@ export function SignaturePad({
       img.onload = () => {
         if (sigCanvas.current) {
           sigCanvas.current.clear();
+          // A saved signature is an image only; no strokes to record
+          strokeCapture.current = { ...createStrokeCapture(), isComplete: false };
           const canvas = sigCanvas.current.getCanvas();
           const ctx = canvas.getContext("2d");
           if (ctx) {
@@ -265,7 +506,7 @@ export function SignaturePad({
 
           setIsEmpty(false);
           const signatureData = sigCanvas.current.toDataURL("image/png");
-          onSignatureChange?.(signatureData);
+          onSignatureChange?.(signatureData, "drawn");
         }
         setIsLoadingSaved(false);
       };
@@ -279,9 +520,138 @@ export function SignaturePad({
     }
   }, [savedSignatureUrl, canvasSize, onSignatureChange]);
 
+  const hasSignature =
+    mode === "drawn" ? !isEmpty : mode === "typed" ? !!typedSignature : !!uploadedSignature;
+  const padHeight = canvasSize.height > 0 ? canvasSize.height : 180;
+
   return (
     <>
       <div className={cn("space-y-4 w-full", className)} ref={containerRef}>
+        <div className="flex items-center gap-1 p-1 rounded-lg bg-muted/50 w-fit" role="tablist" aria-label="Signature method">
+          {modeTabs.map((tab) => (
+            <button
+              key={tab.method}
+              type="button"
+              role="tab"
+              aria-selected={mode === tab.method}
+              disabled={disabled}
+              onClick={() => handleModeChange(tab.method)}
+              className={cn(
+                "h-7 px-3 rounded-md text-[10px] font-bold uppercase tracking-wider flex items-center gap-1.5 transition-colors disabled:opacity-50",
+                mode === tab.method
+                  ? "bg-background text-foreground shadow-sm"
+                  : "text-muted-foreground hover:text-foreground"
+              )}
+            >
+              <tab.icon className="h-3 w-3" />
+              {tab.label}
+            </button>
+          ))}
+        </div>
+
+        {mode === "typed" && (
+          <div className="space-y-3">
+            <Input
+              value={typedName}
+              onChange={(e) => {
+                setTypedName(e.target.value);
+                scheduleTypedRender(e.target.value, selectedFont.fontFamily);
+              }}
+              placeholder={defaultTypedName || "Your full name"}
+              maxLength={60}
+              disabled={disabled}
+              aria-label="Your name"
+            />
+            <div
+              style={{ height: padHeight }}
+              className={cn(
+                "relative w-full rounded-xl border-2 border-dashed bg-white overflow-hidden flex items-center justify-center px-8 transition-all duration-200",
+                typedSignature ? "border-primary/50 shadow-sm" : "border-muted-foreground/20"
+              )}
+            >
+              <div className="absolute bottom-10 left-8 right-8 h-px bg-muted-foreground/10" />
+              <p
+                style={{ fontFamily: selectedFont.fontFamily }}
+                className="text-4xl sm:text-5xl text-[#111111] truncate max-w-full leading-normal"
+              >
+                {typedName || <span className="text-muted-foreground/30">{defaultTypedName || "Your name"}</span>}
+              </p>
+            </div>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2" role="radiogroup" aria-label="Signature style">
+              {SIGNATURE_FONTS.map((font) => (
+                <button
+                  key={font.id}
+                  type="button"
+                  role="radio"
+                  aria-checked={font.id === fontId}
+                  aria-label={font.name}
+                  disabled={disabled}
+                  onClick={() => {
+                    setFontId(font.id);
+                    scheduleTypedRender(typedName, font.fontFamily);
+                  }}
+                  style={{ fontFamily: font.fontFamily }}
+                  className={cn(
+                    "h-11 px-2 rounded-lg border text-lg truncate transition-colors",
+                    font.id === fontId
+                      ? "border-primary/50 bg-primary/5 text-foreground"
+                      : "border-border/60 text-muted-foreground hover:border-primary/30 hover:text-foreground"
+                  )}
+                >
+                  {typedName.trim() || defaultTypedName || font.name}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {mode === "uploaded" && (
+          <div
+            style={{ height: padHeight }}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={(e) => {
+              e.preventDefault();
+              if (!disabled) handleUpload(e.dataTransfer.files[0]);
+            }}
+            className={cn(
+              "relative w-full rounded-xl border-2 border-dashed bg-white overflow-hidden flex items-center justify-center transition-all duration-200",
+              uploadedSignature ? "border-primary/50 shadow-sm" : "border-muted-foreground/20 hover:border-primary/40"
+            )}
+          >
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={SIGNATURE_UPLOAD_TYPES.join(",")}
+              className="hidden"
+              onChange={(e) => {
+                handleUpload(e.target.files?.[0]);
+                e.target.value = "";
+              }}
+            />
+            {isProcessingUpload ? (
+              <Loader2 className="h-6 w-6 text-muted-foreground/50 animate-spin" />
+            ) : uploadedSignature ? (
+              // eslint-disable-next-line @next/next/no-img-element -- local data URL preview
+              <img src={uploadedSignature} alt="Your uploaded signature" className="max-h-full max-w-full object-contain" />
+            ) : (
+              <button
+                type="button"
+                disabled={disabled}
+                onClick={() => fileInputRef.current?.click()}
+                className="flex flex-col items-center gap-2 px-6 text-center"
+              >
+                <ImageUp className="h-6 w-6 text-muted-foreground/40" />
+                <span className="text-muted-foreground/60 text-xs font-bold uppercase tracking-widest">
+                  Choose or drop an image
+                </span>
+                <span className="text-[10px] text-muted-foreground/60">
+                  Sign on plain paper and take a photo. The background is removed for you.
+                </span>
+              </button>
+            )}
+          </div>
+        )}
+
         <div
           ref={canvasWrapperRef}
           style={{
@@ -292,6 +662,7 @@ export function SignaturePad({
           }}
           className={cn(
             "relative w-full rounded-xl border-2 border-dashed bg-white overflow-hidden transition-all duration-200",
+            mode !== "drawn" && "hidden",
             disabled
               ? "border-muted cursor-not-allowed opacity-50"
               : isEmpty
@@ -302,7 +673,7 @@ export function SignaturePad({
           aria-label="Signature canvas"
         >
           {/* Expand button - top right - minimal grey icon */}
-          {!disabled && (
+          {!disabled && mode === "drawn" && (
             <button
               type="button"
               onClick={handleOpenFullscreen}
@@ -355,10 +726,12 @@ export function SignaturePad({
         <div className="flex justify-between items-center px-4">
           <div className="flex items-center gap-3">
             <p className="text-xs text-muted-foreground">
-              {isEmpty ? (
+              {uploadError ? (
+                <span className="text-destructive">{uploadError}</span>
+              ) : !hasSignature ? (
                 <span className="flex items-center gap-1.5 opacity-50">
                   <PenLine className="h-3 w-3" />
-                  Draw your signature
+                  {emptyHints[mode]}
                 </span>
               ) : (
                 <span className="flex items-center gap-1.5 text-emerald-600 font-bold uppercase tracking-tighter">
@@ -367,7 +740,7 @@ export function SignaturePad({
                 </span>
               )}
             </p>
-            {savedSignatureUrl && isEmpty && (
+            {savedSignatureUrl && mode === "drawn" && isEmpty && (
               <Button
                 type="button"
                 variant="ghost"
@@ -386,7 +759,7 @@ export function SignaturePad({
             variant="ghost"
             size="sm"
             onClick={handleClear}
-            disabled={isEmpty || disabled}
+            disabled={(!hasSignature && !typedName && !uploadError) || disabled}
             className="h-8 text-[10px] font-bold uppercase tracking-wider text-muted-foreground hover:text-destructive transition-colors rounded-lg"
           >
             <Eraser className="h-3.5 w-3.5 mr-1.5" />
@@ -0,0 +1,54 @@
+"use client";
+
+import { useMemo } from "react";
+import { SignatureStrokes } from "@/types";
+import { getSegmentPath, getStrokeBounds, getStrokeSegments } from "@/lib/signature-strokes";
+import { cn } from "@/lib/utils";
+
+export interface SignatureVectorProps {
+  strokes: SignatureStrokes;
+  /** Accessible label for the drawing */
+  label?: string;
+  className?: string;
+}
+
+/**
+ * A drawn signature rendered from its stroke record, cropped to the ink.
+ * Strokes use the current text colour, so it follows the theme.
+ */
+export function SignatureVector({ strokes, label = "Signature", className }: SignatureVectorProps) {
+  const { paths, viewBox } = useMemo(() => {
+    const bounds = getStrokeBounds(strokes);
+    const segments = getStrokeSegments(strokes);
+    const padding = 8;
+    const box = bounds
+      ? [
+          bounds.minX - padding,
+          bounds.minY - padding,
+          bounds.maxX - bounds.minX + padding * 2,
+          bounds.maxY - bounds.minY + padding * 2,
+        ]
+      : [0, 0, strokes.width, strokes.height];
+
+    return {
+      paths: segments.map((segment) => ({ d: getSegmentPath(segment), width: segment.width })),
+      viewBox: box.join(" "),
+    };
+  }, [strokes]);
+
+  return (
+    <svg
+      viewBox={viewBox}
+      role="img"
+      aria-label={label}
+      preserveAspectRatio="xMidYMid meet"
+      className={cn("text-foreground", className)}
+    >
+      <g fill="none" stroke="currentColor" strokeLinecap="round" strokeLinejoin="round">
+        {paths.map((path, i) => (
+          <path key={i} d={path.d} strokeWidth={path.width} />
+        ))}
+      </g>
+    </svg>
+  );
+}
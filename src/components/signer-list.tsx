@@ -0,0 +1,124 @@
+"use client";
+
+import { motion } from "framer-motion";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { DealSigner, SigningMode } from "@/types";
+import { getUserInitials, cn } from "@/lib/utils";
+import { formatDateTime } from "@/lib/crypto";
+import { useCopyToClipboard } from "@/hooks/useCopyToClipboard";
+import { toast } from "sonner";
+import { CheckCircle2, Clock, Copy, ListOrdered, Hourglass } from "lucide-react";
+
+export interface SignerListProps {
+  signers: DealSigner[];
+  signingMode?: SigningMode;
+  /** Highlight the signer viewing the page with a "You" badge */
+  currentSignerId?: string;
+  /** Personal signing links keyed by signer ID (creator view only) */
+  signerLinks?: Record<string, string>;
+  className?: string;
+}
+
+/**
+ * Per-signer status list for multi-party deals.
+ * Shows who has signed, who is awaiting signature, and (in ordered mode)
+ * who is still waiting for their turn.
+ */
+export function SignerList({
+  signers,
+  signingMode = "unordered",
+  currentSignerId,
+  signerLinks,
+  className,
+}: SignerListProps) {
+  const { copyToClipboard } = useCopyToClipboard();
+  const isOrdered = signingMode === "ordered";
+  // In ordered mode only the first unsigned signer can sign right now
+  const nextSignerId = isOrdered ? signers.find((s) => !s.signedAt)?.id : undefined;
+  const signedCount = signers.filter((s) => !!s.signedAt).length;
+
+  return (
+    <div className={className}>
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-[10px] font-bold uppercase tracking-wider text-muted-foreground flex items-center gap-1.5">
+          {isOrdered && <ListOrdered className="h-3 w-3" />}
+          {isOrdered ? "Signers (in order)" : "Signers"}
+        </span>
+        <Badge variant="secondary" className="text-[10px] h-5">
+          {signedCount}/{signers.length} signed
+        </Badge>
+      </div>
+      <div className="space-y-2">
+        {signers.map((signer, index) => {
+          const isSigned = !!signer.signedAt;
+          const isWaitingForTurn = isOrdered && !isSigned && signer.id !== nextSignerId;
+          const link = signerLinks?.[signer.id];
+
+          return (
+            <motion.div
+              key={signer.id}
+              initial={{ opacity: 0, x: -10 }}
+              animate={{ opacity: 1, x: 0 }}
+              transition={{ delay: index * 0.05 }}
+              className={cn(
+                "flex items-center gap-3 p-3 rounded-xl border",
+                isSigned ? "bg-emerald-500/5 border-emerald-500/20" : "bg-secondary/30 border-border/50"
+              )}
+            >
+              <div
+                className={cn(
+                  "h-8 w-8 rounded-full flex items-center justify-center font-medium text-xs shrink-0",
+                  isSigned ? "bg-emerald-500/20 text-emerald-600" : "bg-muted text-muted-foreground"
+                )}
+              >
+                {isOrdered ? signer.position : getUserInitials(signer.name)}
+              </div>
+              <div className="min-w-0 flex-1">
+                <div className="flex items-center gap-2">
+                  <p className="font-medium text-sm truncate">{signer.name}</p>
+                  {currentSignerId === signer.id && (
+                    <Badge variant="secondary" className="text-[10px] h-4 shrink-0">You</Badge>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground flex items-center gap-1 truncate">
+                  {isSigned ? (
+                    <>
+                      <CheckCircle2 className="h-3 w-3 text-emerald-600" />
+                      Signed {formatDateTime(signer.signedAt!)}
+                    </>
+                  ) : isWaitingForTurn ? (
+                    <>
+                      <Hourglass className="h-3 w-3" />
+                      Waiting for earlier signers
+                    </>
+                  ) : (
+                    <>
+                      <Clock className="h-3 w-3 text-amber-600" />
+                      Awaiting signature
+                    </>
+                  )}
+                  {signer.email && <span className="truncate opacity-70"> • {signer.email}</span>}
+                </p>
+              </div>
+              {link && !isSigned && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2 gap-1.5 text-[10px] shrink-0"
+                  onClick={() => {
+                    copyToClipboard(link);
+                    toast.success(`Signing link for ${signer.name} copied!`);
+                  }}
+                >
+                  <Copy className="h-3 w-3" />
+                  Link
+                </Button>
+              )}
+            </motion.div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+"use client";
+
+import { motion } from "framer-motion";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { TermProposal } from "@/types";
+import { timeAgo } from "@/lib/crypto";
+import { cn } from "@/lib/utils";
+import { ArrowRight, Check, GitPullRequestArrow, RefreshCw, X } from "lucide-react";
+
+export interface TermProposalListProps {
+  proposals: TermProposal[];
+  /** Show accept/reject buttons on pending proposals (creator view) */
+  onRespond?: (proposal: TermProposal, accept: boolean) => void;
+  /** Proposal currently being accepted/rejected */
+  respondingId?: string | null;
+  className?: string;
+}
+
+const statusStyles: Record<TermProposal["status"], string> = {
+  pending: "bg-amber-500/10 text-amber-700 dark:text-amber-400 border-amber-500/20",
+  accepted: "bg-emerald-500/10 text-emerald-700 dark:text-emerald-400 border-emerald-500/20",
+  rejected: "bg-muted text-muted-foreground border-border",
+};
+
+/**
+ * Negotiation history for a deal: every proposed term edit as a
+ * before/after diff, with its outcome. Accepted proposals carry the
+ * terms revision they produced.
+ */
+export function TermProposalList({
+  proposals,
+  onRespond,
+  respondingId,
+  className,
+}: TermProposalListProps) {
+  const pendingCount = proposals.filter((p) => p.status === "pending").length;
+
+  return (
+    <div className={className}>
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-[10px] font-bold uppercase tracking-wider text-muted-foreground flex items-center gap-1.5">
+          <GitPullRequestArrow className="h-3 w-3" />
+          Proposed Changes
+        </span>
+        {pendingCount > 0 && (
+          <Badge variant="secondary" className="text-[10px] h-5">
+            {pendingCount} awaiting response
+          </Badge>
+        )}
+      </div>
+      <div className="space-y-2">
+        {proposals.map((proposal, index) => {
+          const isPending = proposal.status === "pending";
+          const isResponding = respondingId === proposal.id;
+
+          return (
+            <motion.div
+              key={proposal.id}
+              initial={{ opacity: 0, x: -10 }}
+              animate={{ opacity: 1, x: 0 }}
+              transition={{ delay: index * 0.05 }}
+              className={cn(
+                "p-3 rounded-xl border",
+                isPending ? "bg-amber-500/5 border-amber-500/20" : "bg-secondary/30 border-border/50"
+              )}
+            >
+              <div className="flex items-center justify-between gap-2 mb-2">
+                <p className="font-medium text-sm truncate">{proposal.termLabel}</p>
+                <Badge variant="outline" className={cn("text-[10px] h-5 shrink-0 capitalize", statusStyles[proposal.status])}>
+                  {proposal.status === "accepted" && proposal.revision
+                    ? `Accepted • Rev ${proposal.revision}`
+                    : proposal.status}
+                </Badge>
+              </div>
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="line-through text-muted-foreground decoration-red-500/60">{proposal.previousValue}</span>
+                <ArrowRight className="h-3 w-3 text-muted-foreground shrink-0" />
+                <span className={cn("font-medium", proposal.status === "rejected" && "text-muted-foreground")}>
+                  {proposal.proposedValue}
+                </span>
+              </div>
+              {proposal.note && (
+                <p className="text-xs text-muted-foreground italic mt-2">&ldquo;{proposal.note}&rdquo;</p>
+              )}
+              <div className="flex items-center justify-between gap-2 mt-2">
+                <p className="text-[11px] text-muted-foreground truncate">
+                  {proposal.proposedByName ? `${proposal.proposedByName} • ` : ""}
+                  {timeAgo(proposal.createdAt)}
+                </p>
+                {isPending && onRespond && (
+                  <div className="flex items-center gap-1.5 shrink-0">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 px-2 gap-1 text-xs text-muted-foreground"
+                      disabled={!!respondingId}
+                      onClick={() => onRespond(proposal, false)}
+                    >
+                      <X className="h-3 w-3" />
+                      Reject
+                    </Button>
+                    <Button
+                      size="sm"
+                      className="h-7 px-2 gap-1 text-xs"
+                      disabled={!!respondingId}
+                      onClick={() => onRespond(proposal, true)}
+                    >
+                      {isResponding ? <RefreshCw className="h-3 w-3 animate-spin" /> : <Check className="h-3 w-3" />}
+                      Accept
+                    </Button>
+                  </div>
+                )}
+              </div>
+            </motion.div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
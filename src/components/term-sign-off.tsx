@@ -0,0 +1,112 @@
+"use client";
+
+import { Input } from "@/components/ui/input";
+import { DealTerm, TermRequirement } from "@/types";
+import { LIMITS } from "@/lib/constants";
+import { TERM_REQUIREMENT_LABELS, TermResponse } from "@/lib/term-acknowledgements";
+import { cn } from "@/lib/utils";
+import { Check, CheckSquare, PenLine } from "lucide-react";
+
+const requirementIcons: Record<TermRequirement, typeof PenLine> = {
+  initial: PenLine,
+  acknowledge: CheckSquare,
+};
+
+export interface TermRequirementPickerProps {
+  value?: TermRequirement;
+  onChange: (value: TermRequirement | undefined) => void;
+  className?: string;
+}
+
+/**
+ * Lets the creator require initials or an acknowledgement on a term (deal form).
+ * Clicking the selected option clears it.
+ */
+export function TermRequirementPicker({ value, onChange, className }: TermRequirementPickerProps) {
+  return (
+    <div className={cn("flex items-center gap-1.5", className)}>
+      {(Object.keys(TERM_REQUIREMENT_LABELS) as TermRequirement[]).map((requirement) => {
+        const Icon = requirementIcons[requirement];
+        const isSelected = value === requirement;
+        return (
+          <button
+            key={requirement}
+            type="button"
+            aria-pressed={isSelected}
+            onClick={() => onChange(isSelected ? undefined : requirement)}
+            className={cn(
+              "h-6 px-2 rounded-md border text-[10px] font-medium flex items-center gap-1 transition-colors",
+              isSelected
+                ? "bg-primary/10 border-primary/30 text-primary"
+                : "border-border/60 text-muted-foreground hover:border-primary/30 hover:text-foreground"
+            )}
+          >
+            <Icon className="h-3 w-3" />
+            {TERM_REQUIREMENT_LABELS[requirement]}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+export interface TermSignOffFieldProps {
+  term: DealTerm;
+  response?: TermResponse;
+  onChange: (response: TermResponse | undefined) => void;
+  /** Shown as the initials placeholder */
+  suggestedInitials?: string;
+  className?: string;
+}
+
+/**
+ * The recipient's initials box or acknowledgement tick for a marked term
+ */
+export function TermSignOffField({ term, response, onChange, suggestedInitials, className }: TermSignOffFieldProps) {
+  if (term.requirement === "initial") {
+    return (
+      <div className={cn("flex items-center justify-between gap-3", className)}>
+        <span className="text-xs text-muted-foreground flex items-center gap-1.5">
+          <PenLine className="h-3 w-3" />
+          Initial to confirm you agree to {term.label}
+        </span>
+        <Input
+          value={response?.initials || ""}
+          onChange={(e) => {
+            const initials = e.target.value.toUpperCase();
+            onChange(initials.trim() ? { initials, acknowledgedAt: new Date().toISOString() } : undefined);
+          }}
+          maxLength={LIMITS.MAX_INITIALS_LENGTH}
+          placeholder={suggestedInitials || "Initials"}
+          aria-label={`Your initials for ${term.label}`}
+          className="h-8 w-20 text-center font-semibold tracking-widest uppercase"
+        />
+      </div>
+    );
+  }
+
+  const isChecked = !!response;
+  return (
+    <button
+      type="button"
+      role="checkbox"
+      aria-checked={isChecked}
+      onClick={() => onChange(isChecked ? undefined : { acknowledgedAt: new Date().toISOString() })}
+      className={cn(
+        "w-full flex items-center gap-2.5 text-left text-xs transition-colors",
+        isChecked ? "text-primary font-medium" : "text-muted-foreground hover:text-foreground",
+        className
+      )}
+    >
+      <span
+        className={cn(
+          "h-4 w-4 rounded border-2 flex items-center justify-center shrink-0 transition-all",
+          isChecked ? "bg-primary border-primary" : "border-muted-foreground/50"
+        )}
+      >
+        {isChecked && <Check className="h-3 w-3 text-primary-foreground" strokeWidth={3} />}
+      </span>
+      I have read and acknowledge {term.label}
+    </button>
+  );
+}
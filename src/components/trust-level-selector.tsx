@@ -61,9 +61,7 @@ export const trustLevelConfig: Record<TrustLevel, TrustLevelConfig> = {
     color: "text-red-600",
     bgColor: "bg-red-500/5",
     borderColor: "border-red-500/30",
-    verifications: ["Email OTP", "Phone OTP", "ID Upload"],
-    disabled: true,
-    comingSoon: true,
+    verifications: ["Email OTP", "Phone OTP", "ID document + selfie"],
   },
 };
 
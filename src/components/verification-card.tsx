@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import {
   Shield,
@@ -9,7 +9,6 @@ import {
   XCircle,
   Clock,
   Check,
-  Download,
   ExternalLink,
   AlertTriangle,
   Users,
@@ -22,15 +21,33 @@ import {
   ShieldCheck,
   Smartphone,
   Mail,
+  IdCard,
+  GitBranch,
+  Link2,
+  Unlink,
+  Stamp,
+  FileJson,
+  HardDrive,
+  KeyRound,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Deal, AuditLogEntry } from "@/types";
+import { Deal, AuditLogEntry, DealVersion, PasskeySignature } from "@/types";
 import { AuditTimeline } from "./audit-timeline";
-import { timeAgo } from "@/lib/crypto";
+import { DealVersionHistory } from "./deal-version-history";
+import { AuditChainIssue, AuditChainResult, SealSignatureStatus, formatDateTime, timeAgo } from "@/lib/crypto";
+import { TimestampStatus, verifyTimestampToken } from "@/lib/timestamp";
+import { PasskeySignatureStatus, verifyPasskeySignature } from "@/lib/passkeys";
+import type { VerificationBundle } from "@/lib/verification-bundle";
+import type { PDFFormat } from "@/lib/pdf";
 import { cn, getUserInitials } from "@/lib/utils";
 import { CopyableId } from "@/components/dashboard/shared-components";
+import { PdfDownloadMenu } from "@/components/pdf-download-menu";
+import { AttachmentList } from "@/components/attachment-list";
+import { DocumentViewer } from "@/components/document-viewer";
+import { AttachmentStatus, DOCUMENT_FILE_ID } from "@/lib/attachments";
+import { formatIdVerifiedValue } from "@/lib/id-verification";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 
 // --- TYPES ---
@@ -43,10 +60,24 @@ export interface VerificationCardProps {
   recipientProfile?: { name: string; avatarUrl?: string } | null;
   verificationStatus: VerificationStatus;
   calculatedHash?: string | null;
-  onDownloadPDF?: () => void;
+  onDownloadPDF?: (format: PDFFormat) => void;
   isDownloading?: boolean;
+  /** Export the deal as an offline verification bundle */
+  onDownloadBundle?: () => void;
+  isExportingBundle?: boolean;
+  /** Set when the deal was loaded from an uploaded bundle rather than the ledger */
+  offlineBundle?: Pick<VerificationBundle, "exportedAt" | "exportedFrom"> | null;
   onViewDeal?: () => void;
   auditLogs?: AuditLogEntry[];
+  versions?: DealVersion[];
+  /** Result of walking the audit log hash chain */
+  auditChain?: AuditChainResult | null;
+  /** Result of checking the platform's signature over the seal */
+  signatureStatus?: SealSignatureStatus | null;
+  /** Set when the seal signature was checked against a bundle's own keys, because the published ones couldn't be loaded */
+  sealKeysSelfAsserted?: boolean;
+  /** Result of re-hashing each attachment, keyed by attachment ID */
+  attachmentStatuses?: Record<string, AttachmentStatus> | null;
 }
 
 // --- HELPER COMPONENTS ---
@@ -76,6 +107,33 @@ const AnimatedHash = ({ hash, isVerifying }: { hash?: string | null; isVerifying
 
 // --- CONFIG ---
 
+const signatureStatusConfig: Record<SealSignatureStatus, { label: string; className: string; icon: typeof CheckCircle2 }> = {
+  valid: { label: "Signed by Proofo", className: "text-emerald-muted", icon: ShieldCheck },
+  invalid: { label: "Signature does not match the seal", className: "text-destructive", icon: XCircle },
+  unknown_key: { label: "Signed with an unpublished key", className: "text-destructive", icon: XCircle },
+  unsigned: { label: "Not signed (sealed while signing wasn't required)", className: "text-muted-foreground", icon: Info },
+  missing: { label: "Signature missing (seals made since signing was required are always signed)", className: "text-destructive", icon: XCircle },
+  unsupported: { label: "Your browser can't check Ed25519 signatures", className: "text-amber-600", icon: AlertTriangle },
+};
+
+const timestampStatusConfig: Record<TimestampStatus, { label: string; className: string }> = {
+  unverified: { label: "Timestamp token covers this seal (TSA signature not checked)", className: "text-foreground" },
+  invalid: { label: "Timestamp token does not match the seal", className: "text-destructive" },
+  development: { label: "Development timestamp (not from a trusted authority)", className: "text-amber-600" },
+};
+
+const passkeyStatusConfig: Record<PasskeySignatureStatus, { label: string; className: string; icon: typeof CheckCircle2 }> = {
+  valid: { label: "Passkey signature matches the seal", className: "text-emerald-muted", icon: KeyRound },
+  invalid: { label: "Passkey signature does not match the seal", className: "text-destructive", icon: XCircle },
+  unsupported: { label: "Your browser can't check this passkey's algorithm", className: "text-amber-600", icon: AlertTriangle },
+};
+
+const auditIssueLabels: Record<AuditChainIssue["type"], string> = {
+  modified: "entry was modified",
+  missing: "preceding entries are missing",
+  unlinked: "entry is not linked to the one before it",
+};
+
 const getStatusConfig = (status: VerificationStatus) => {
   switch (status) {
     case "valid":
@@ -139,12 +197,47 @@ export const VerificationCard = ({
   calculatedHash,
   onDownloadPDF,
   isDownloading,
+  onDownloadBundle,
+  isExportingBundle,
+  offlineBundle,
   onViewDeal,
   auditLogs,
+  versions,
+  auditChain,
+  signatureStatus,
+  sealKeysSelfAsserted,
+  attachmentStatuses,
 }: VerificationCardProps) => {
   const config = getStatusConfig(verificationStatus);
   const StatusIcon = config.icon;
 
+  // RFC 3161 token: check it covers this deal's seal
+  const timestamp = useMemo(
+    () => (deal.timestampToken && deal.dealSeal ? verifyTimestampToken(deal.timestampToken, deal.dealSeal) : null),
+    [deal.timestampToken, deal.dealSeal]
+  );
+
+  // WebAuthn assertions over the seal by parties who signed with a passkey,
+  // kept with the signatures they were checked for
+  const [passkeyCheck, setPasskeyCheck] = useState<{
+    signatures: PasskeySignature[];
+    statuses: PasskeySignatureStatus[];
+  } | null>(null);
+  useEffect(() => {
+    const { passkeySignatures, dealSeal } = deal;
+    if (!passkeySignatures?.length || !dealSeal) return;
+
+    let cancelled = false;
+    Promise.all(passkeySignatures.map((signature) => verifyPasskeySignature(signature, dealSeal))).then((statuses) => {
+      if (!cancelled) setPasskeyCheck({ signatures: passkeySignatures, statuses });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [deal]);
+  const passkeyStatuses = passkeyCheck?.signatures === deal.passkeySignatures ? passkeyCheck?.statuses : null;
+  const hasValidPasskey = !!passkeyStatuses?.includes("valid");
+
   return (
     <TooltipProvider delayDuration={300}>
       <motion.div layout className="space-y-6">
@@ -171,18 +264,26 @@ export const VerificationCard = ({
                     <span className="hidden sm:inline">View Terms</span>
                   </Button>
                 )}
-                {deal.status === "confirmed" && (
+                {onDownloadBundle && deal.dealSeal && (
                   <Button
-                    variant="default"
+                    variant="outline"
                     size="sm"
-                    onClick={onDownloadPDF}
-                    disabled={isDownloading}
-                    className="gap-2 h-9 shadow-sm"
+                    onClick={onDownloadBundle}
+                    disabled={isExportingBundle}
+                    className="gap-2 h-9"
                   >
-                    {isDownloading ? <RefreshCw className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
-                    <span className="hidden sm:inline">Download Certificate</span>
+                    {isExportingBundle ? <RefreshCw className="h-4 w-4 animate-spin" /> : <FileJson className="h-4 w-4" />}
+                    <span className="hidden sm:inline">Verification Bundle</span>
                   </Button>
                 )}
+                {deal.status === "confirmed" && onDownloadPDF && (
+                  <PdfDownloadMenu
+                    onDownload={onDownloadPDF}
+                    isDownloading={isDownloading}
+                    label="Download Certificate"
+                    className="shadow-sm"
+                  />
+                )}
               </div>
             </div>
           </CardContent>
@@ -210,13 +311,33 @@ export const VerificationCard = ({
                 </h3>
 
                   <p className="text-sm text-muted-foreground leading-relaxed">
-                      {config.description}
+                      {offlineBundle && verificationStatus === "valid"
+                        ? sealKeysSelfAsserted
+                          ? "Cryptographic proof matches the bundled deal, but its platform signature was only checked against keys the bundle carries itself."
+                          : "Cryptographic proof matches the bundled deal, and its platform signature matches the keys this site publishes."
+                        : config.description}
                   </p>
 
+                  {offlineBundle && (
+                    <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                        <HardDrive className="h-3.5 w-3.5 shrink-0" />
+                        <span>
+                          Verified offline from a bundle exported {formatDateTime(offlineBundle.exportedAt)} from{" "}
+                          {offlineBundle.exportedFrom.replace(/^https?:\/\//, "")}
+                        </span>
+                    </div>
+                  )}
+
                   {verificationStatus === "valid" && (
                     <div className="flex items-center gap-2 pt-2 mt-2 border-t border-emerald-border/30 text-xs text-emerald-muted">
                         <Check className="h-3.5 w-3.5" />
                         <span>Cryptographically Verified • Immutable • Signed by all parties</span>
+                        {hasValidPasskey && (
+                          <Badge variant="outline" className="ml-auto text-[9px] h-4 bg-emerald-soft text-emerald-muted border-emerald-border px-1.5 font-bold gap-1">
+                            <KeyRound className="h-2.5 w-2.5" />
+                            Passkey signed
+                          </Badge>
+                        )}
                     </div>
                   )}
               </div>
@@ -244,14 +365,19 @@ export const VerificationCard = ({
                       <div className="h-8 w-8 rounded-full bg-emerald-soft flex items-center justify-center text-emerald-muted">
                         {v.verification_type === "email" ? (
                           <Mail className="h-4 w-4" />
+                        ) : v.verification_type === "id" ? (
+                          <IdCard className="h-4 w-4" />
                         ) : (
                           <Smartphone className="h-4 w-4" />
                         )}
                       </div>
                       <div>
-                        <p className="text-sm font-medium capitalize">{v.verification_type} Verified</p>
+                        <p className="text-sm font-medium capitalize">{v.verification_type === "id" ? "ID" : v.verification_type} Verified</p>
+                        {v.signer_id && (
+                          <p className="text-xs text-muted-foreground">{deal.signers?.find((s) => s.id === v.signer_id)?.name}</p>
+                        )}
                         <p className="text-xs text-muted-foreground font-mono">
-                          {v.verified_value ? (
+                          {v.verification_type === "id" ? formatIdVerifiedValue(v.verified_value) : v.verified_value ? (
                             v.verification_type === 'phone'
                               ? v.verified_value.replace(/(\+\d{3})\d+(\d{4})/, '$1***$2')
                               : v.verified_value.replace(/(.{3}).+(@.+)/, '$1***$2')
@@ -332,6 +458,20 @@ export const VerificationCard = ({
             </CardContent>
         </Card>
 
+        {/* 3.5 Sealed Document & Attachments */}
+        {(deal.document || (deal.attachments && deal.attachments.length > 0)) && (
+          <Card className="border border-border shadow-sm bg-card rounded-xl overflow-hidden">
+            <CardContent className="p-5 md:p-6 space-y-5">
+              {deal.document && (
+                <DocumentViewer document={deal.document} status={attachmentStatuses?.[DOCUMENT_FILE_ID]} compact />
+              )}
+              {deal.attachments && deal.attachments.length > 0 && (
+                <AttachmentList attachments={deal.attachments} statuses={attachmentStatuses} showHashes />
+              )}
+            </CardContent>
+          </Card>
+        )}
+
         {/* 4. Cryptographic Proof */}
         <Card className={cn(
           "shadow-sm bg-card rounded-xl overflow-hidden border transition-all duration-500",
@@ -437,6 +577,146 @@ export const VerificationCard = ({
                       </code>
                     </div>
                   </div>
+
+                  {/* Platform Signature */}
+                  {signatureStatus && (() => {
+                    const signature = signatureStatusConfig[signatureStatus];
+                    const SignatureIcon = signature.icon;
+                    return (
+                      <div className="space-y-1.5">
+                        <div className="flex items-center gap-2 px-1">
+                          <span className="text-[10px] font-bold uppercase tracking-wider text-muted-foreground">Platform Signature</span>
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <Info className="h-2.5 w-2.5 text-muted-foreground/40 cursor-help" />
+                            </TooltipTrigger>
+                            <TooltipContent side="right">
+                              <p className="text-[10px]">Proofo signs every seal with an Ed25519 key published at /.well-known/jwks.json, so a recomputed seal can&apos;t pass as genuine.</p>
+                            </TooltipContent>
+                          </Tooltip>
+                        </div>
+                        <div className="p-3 rounded-xl bg-secondary/30 border border-border/50 flex items-center justify-between gap-2">
+                          <span className={cn("flex items-center gap-2 text-xs font-medium", signature.className)}>
+                            <SignatureIcon className="h-3.5 w-3.5 shrink-0" />
+                            {signature.label}
+                          </span>
+                          {deal.sealKeyId && (
+                            <code className="text-[10px] font-mono text-muted-foreground/70 shrink-0">key {deal.sealKeyId}</code>
+                          )}
+                        </div>
+                        {sealKeysSelfAsserted && (
+                          <p className="text-[10px] text-amber-600 px-1">
+                            Checked against keys carried in the bundle (self-asserted), as the published keys couldn&apos;t be loaded.
+                            Verify again online to check them against /.well-known/jwks.json.
+                          </p>
+                        )}
+                      </div>
+                    );
+                  })()}
+
+                  {/* Passkey Signatures */}
+                  {deal.passkeySignatures && deal.passkeySignatures.length > 0 && (
+                    <div className="space-y-1.5">
+                      <div className="flex items-center gap-2 px-1">
+                        <span className="text-[10px] font-bold uppercase tracking-wider text-muted-foreground">Passkey Signatures</span>
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <Info className="h-2.5 w-2.5 text-muted-foreground/40 cursor-help" />
+                          </TooltipTrigger>
+                          <TooltipContent side="right">
+                            <p className="text-[10px]">Parties with a Proofo account signed the seal with a passkey bound to their profile, which needs their device and fingerprint, face or PIN.</p>
+                          </TooltipContent>
+                        </Tooltip>
+                      </div>
+                      <div className="p-3 rounded-xl bg-secondary/30 border border-border/50 space-y-2">
+                        {deal.passkeySignatures.map((passkeySignature, i) => {
+                          const status = passkeyStatuses?.[i];
+                          const statusConfig = status ? passkeyStatusConfig[status] : null;
+                          const PasskeyIcon = statusConfig?.icon || RefreshCw;
+                          return (
+                            <div key={passkeySignature.credentialId} className="space-y-0.5">
+                              <span className={cn("flex items-center gap-2 text-xs font-medium", statusConfig?.className || "text-muted-foreground")}>
+                                <PasskeyIcon className={cn("h-3.5 w-3.5 shrink-0", !statusConfig && "animate-spin")} />
+                                {statusConfig?.label || "Checking passkey signature…"}
+                              </span>
+                              <p className="text-[10px] text-muted-foreground">
+                                {passkeySignature.signerName} • {formatDateTime(passkeySignature.signedAt)} • {passkeySignature.rpId}
+                              </p>
+                            </div>
+                          );
+                        })}
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Trusted Timestamp */}
+                  {timestamp && (
+                    <div className="space-y-1.5">
+                      <div className="flex items-center gap-2 px-1">
+                        <span className="text-[10px] font-bold uppercase tracking-wider text-muted-foreground">Trusted Timestamp</span>
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <Info className="h-2.5 w-2.5 text-muted-foreground/40 cursor-help" />
+                          </TooltipTrigger>
+                          <TooltipContent side="right">
+                            <p className="text-[10px]">An RFC 3161 timestamp authority&apos;s token for this seal. This page reads the token but doesn&apos;t check the authority&apos;s signature; run openssl ts -verify on the token from the PDF for that.</p>
+                          </TooltipContent>
+                        </Tooltip>
+                      </div>
+                      <div className="p-3 rounded-xl bg-secondary/30 border border-border/50 space-y-1">
+                        <span className={cn("flex items-center gap-2 text-xs font-medium", timestampStatusConfig[timestamp.status].className)}>
+                          <Stamp className="h-3.5 w-3.5 shrink-0" />
+                          {timestampStatusConfig[timestamp.status].label}
+                        </span>
+                        {timestamp.info && (
+                          <p className="text-[10px] text-muted-foreground">
+                            {formatDateTime(timestamp.info.genTime)}
+                            {(timestamp.info.authority || deal.timestampAuthority) && ` • ${timestamp.info.authority || deal.timestampAuthority}`}
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Audit Chain */}
+                  {auditChain && auditChain.status !== "unchained" && (
+                    <div className="space-y-1.5">
+                      <div className="flex items-center gap-2 px-1">
+                        <span className="text-[10px] font-bold uppercase tracking-wider text-muted-foreground">Audit Chain</span>
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <Info className="h-2.5 w-2.5 text-muted-foreground/40 cursor-help" />
+                          </TooltipTrigger>
+                          <TooltipContent side="right">
+                            <p className="text-[10px]">Each audit entry carries the hash of the one before it, so edited or removed entries break the chain.</p>
+                          </TooltipContent>
+                        </Tooltip>
+                      </div>
+                      <div className={cn(
+                        "p-3 rounded-xl border",
+                        auditChain.status === "valid" ? "bg-secondary/30 border-border/50" : "bg-destructive/5 border-destructive/30"
+                      )}>
+                        <div className={cn(
+                          "flex items-center gap-2 text-xs font-medium",
+                          auditChain.status === "valid" ? "text-emerald-muted" : "text-destructive"
+                        )}>
+                          {auditChain.status === "valid" ? <Link2 className="h-3.5 w-3.5" /> : <Unlink className="h-3.5 w-3.5" />}
+                          {auditChain.status === "valid"
+                            ? `All ${auditChain.entryCount} entries intact and linked`
+                            : `Chain broken in ${auditChain.issues.length} ${auditChain.issues.length === 1 ? "place" : "places"}`}
+                        </div>
+                        {auditChain.issues.length > 0 && (
+                          <ul className="mt-2 space-y-0.5 text-[10px] text-destructive/80 font-mono">
+                            {auditChain.issues.map((issue, index) => (
+                              <li key={`${issue.entryId}-${issue.type}-${index}`}>
+                                #{issue.sequence}: {auditIssueLabels[issue.type]}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    </div>
+                  )}
                 </div>
 
                 <div className="flex items-center justify-between pt-3 border-t border-border/10">
@@ -463,7 +743,25 @@ export const VerificationCard = ({
           </CardContent>
         </Card>
 
-        {/* 5. Audit Trail */}
+        {/* 5. Amendment History */}
+        {versions && versions.length > 1 && (
+          <Card className="border border-border shadow-sm bg-card rounded-xl overflow-hidden">
+            <CardContent className="p-5 md:p-6">
+              <div className="flex items-center justify-between mb-4">
+                <div className="flex items-center gap-2 font-semibold text-sm uppercase tracking-wider text-muted-foreground">
+                  <GitBranch className="h-4 w-4" />
+                  Amendment History
+                </div>
+                <Badge variant="outline" className="text-[10px] font-medium h-5 bg-muted/30">
+                  {versions.length} Versions
+                </Badge>
+              </div>
+              <DealVersionHistory versions={versions} currentPublicId={deal.publicId} />
+            </CardContent>
+          </Card>
+        )}
+
+        {/* 6. Audit Trail */}
         {auditLogs && auditLogs.length > 0 && (
           <Card className="border border-border shadow-sm bg-card rounded-xl overflow-hidden">
             <CardContent className="p-5 md:p-6">
@@ -0,0 +1,188 @@
+"use client";
+
+import { useState } from "react";
+import { VerificationPolicy, VerificationRequirement, VerificationType } from "@/types";
+import { cn } from "@/lib/utils";
+import {
+  VERIFICATION_REQUIREMENT_LABELS,
+  VERIFICATION_TYPE_LABELS,
+  formatEmailDomains,
+  normalizeEmailDomain,
+} from "@/lib/verification-policy";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { IdCard, Mail, Phone, UserCheck } from "lucide-react";
+
+const VERIFICATION_ICONS: Record<VerificationType, React.ComponentType<{ className?: string }>> = {
+  email: Mail,
+  phone: Phone,
+  id: IdCard,
+};
+
+const VERIFICATION_STEPS: Record<VerificationType, string> = {
+  email: "Verify your email address",
+  phone: "Verify your phone number",
+  id: "Verify an ID document with a selfie",
+};
+
+const VERIFICATION_TYPES: VerificationType[] = ["email", "phone", "id"];
+const REQUIREMENTS: VerificationRequirement[] = ["required", "optional", "off"];
+
+// Checks build on each other: ID needs email and phone, domains need a required email
+function applyRequirement(
+  policy: VerificationPolicy,
+  type: VerificationType,
+  requirement: VerificationRequirement
+): VerificationPolicy {
+  const next: VerificationPolicy = { ...policy, [type]: requirement };
+
+  if (type === "id" && requirement === "required") {
+    next.email = "required";
+    next.phone = "required";
+  }
+  if (type === "id" && requirement === "optional") {
+    if (next.email === "off") next.email = "optional";
+    if (next.phone === "off") next.phone = "optional";
+  }
+  if (type !== "id") {
+    if (requirement === "off") next.id = "off";
+    if (requirement !== "required" && next.id === "required") next.id = "optional";
+  }
+  if (next.email !== "required") delete next.emailDomains;
+
+  return next;
+}
+
+function parseDomains(text: string): string[] {
+  return text
+    .split(/[\s,]+/)
+    .map(normalizeEmailDomain)
+    .filter(Boolean);
+}
+
+interface VerificationPolicyEditorProps {
+  value: VerificationPolicy;
+  onChange: (policy: VerificationPolicy) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+/**
+ * Compose a recipient verification policy: each check required, optional or
+ * off, plus allowed email domains and whether a Proofo account is required
+ */
+export function VerificationPolicyEditor({ value, onChange, disabled = false, className }: VerificationPolicyEditorProps) {
+  const [domainsText, setDomainsText] = useState(value.emailDomains?.join(", ") || "");
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      {VERIFICATION_TYPES.map((type) => {
+        const Icon = VERIFICATION_ICONS[type];
+        return (
+          <div key={type} className="flex items-center justify-between gap-3">
+            <div className="flex items-center gap-2 min-w-0">
+              <Icon className="h-4 w-4 text-muted-foreground shrink-0" />
+              <span className="text-sm font-medium">{VERIFICATION_TYPE_LABELS[type]}</span>
+            </div>
+            <div className="flex rounded-lg border border-border p-0.5 bg-muted/30">
+              {REQUIREMENTS.map((requirement) => (
+                <button
+                  key={requirement}
+                  type="button"
+                  disabled={disabled}
+                  onClick={() => onChange(applyRequirement(value, type, requirement))}
+                  className={cn(
+                    "px-2.5 py-1 text-xs rounded-md transition-colors",
+                    "focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring",
+                    value[type] === requirement
+                      ? "bg-background text-foreground shadow-sm font-medium"
+                      : "text-muted-foreground hover:text-foreground",
+                    disabled && "opacity-50 cursor-not-allowed"
+                  )}
+                >
+                  {VERIFICATION_REQUIREMENT_LABELS[requirement]}
+                </button>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+
+      {value.email === "required" && (
+        <div className="space-y-1.5 pl-6">
+          <Input
+            placeholder="Allowed email domains, e.g. acme.com (optional)"
+            value={domainsText}
+            disabled={disabled}
+            onChange={(e) => {
+              setDomainsText(e.target.value);
+              const domains = parseDomains(e.target.value);
+              onChange({ ...value, emailDomains: domains.length > 0 ? domains : undefined });
+            }}
+            className="h-8 text-sm"
+          />
+          <p className="text-[10px] text-muted-foreground">
+            Leave empty to accept any email address. Separate domains with commas.
+          </p>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between gap-3 pt-1">
+        <div className="flex items-center gap-2 min-w-0">
+          <UserCheck className="h-4 w-4 text-muted-foreground shrink-0" />
+          <div>
+            <p className="text-sm font-medium">Proofo account</p>
+            <p className="text-[10px] text-muted-foreground">Recipient must be signed in to sign</p>
+          </div>
+        </div>
+        <Switch
+          checked={!!value.requireAccount}
+          disabled={disabled}
+          onCheckedChange={(checked) => onChange({ ...value, requireAccount: checked || undefined })}
+        />
+      </div>
+    </div>
+  );
+}
+
+/**
+ * What a recipient has to do before signing under a policy, for showing them
+ * up front. Renders nothing when there's no verification step.
+ */
+export function VerificationPolicySummary({ policy, className }: { policy: VerificationPolicy; className?: string }) {
+  const checks = VERIFICATION_TYPES.filter((type) => policy[type] !== "off");
+  if (checks.length === 0 && !policy.requireAccount) return null;
+
+  return (
+    <ul className={cn("space-y-2", className)}>
+      {policy.requireAccount && (
+        <li className="flex items-center gap-3 text-sm">
+          <UserCheck className="h-4 w-4 text-muted-foreground shrink-0" />
+          <span className="flex-1">Sign in to a Proofo account</span>
+          <Badge variant="secondary" className="h-5 text-[10px]">
+            Required
+          </Badge>
+        </li>
+      )}
+      {checks.map((type) => {
+        const Icon = VERIFICATION_ICONS[type];
+        const isRequired = policy[type] === "required";
+        return (
+          <li key={type} className="flex items-center gap-3 text-sm">
+            <Icon className="h-4 w-4 text-muted-foreground shrink-0" />
+            <span className="flex-1">
+              {VERIFICATION_STEPS[type]}
+              {type === "email" && policy.emailDomains?.length ? (
+                <span className="text-muted-foreground"> ending in {formatEmailDomains(policy.emailDomains)}</span>
+              ) : null}
+            </span>
+            <Badge variant={isRequired ? "secondary" : "outline"} className="h-5 text-[10px]">
+              {VERIFICATION_REQUIREMENT_LABELS[policy[type]]}
+            </Badge>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
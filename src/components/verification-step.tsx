@@ -10,11 +10,14 @@ import { cn } from "@/lib/utils";
 import {
   Mail,
   Phone,
+  IdCard,
   CheckCircle2,
   Loader2,
   ArrowRight,
   ShieldCheck,
   AlertCircle,
+  UserCheck,
+  LogIn,
 } from "lucide-react";
 import {
   sendEmailVerificationOTP,
@@ -23,12 +26,22 @@ import {
   verifyPhoneOTP,
 } from "@/app/actions/verification-actions";
 import { toast } from "sonner";
-import { TrustLevel } from "@/types";
+import { IdDocumentType, VerificationPolicy, VerificationType } from "@/types";
+import { formatIdVerifiedValue } from "@/lib/id-verification";
+import { formatEmailDomains, isEmailDomainAllowed } from "@/lib/verification-policy";
+import { IdVerificationCapture } from "@/components/id-verification-capture";
 
 interface VerificationStepProps {
   dealId: string;
   publicId: string;
-  trustLevel: TrustLevel;
+  /** Signing token of the party verifying; verifications are recorded for them */
+  accessToken: string;
+  /** What the recipient has to verify: the deal's own policy or its trust level's preset */
+  policy: VerificationPolicy;
+  /** Whether the recipient is signed in to Proofo (for policies that require an account) */
+  isSignedIn?: boolean;
+  /** Whether they're signed in as the party the deal was sent to (see isDealPartyAccount) */
+  isPartyAccount?: boolean;
   onVerificationComplete: () => void;
   onBack?: () => void;
   className?: string;
@@ -36,9 +49,9 @@ interface VerificationStepProps {
   isProofoUser?: boolean;
   proofUserEmailVerified?: boolean;
   proofUserPhoneVerified?: boolean;
-  // Initial verifications from deal
+  // Initial verifications of this party
   verifications?: {
-    verification_type: "email" | "phone";
+    verification_type: VerificationType;
     verified_value?: string;
     verified_at: string;
   }[];
@@ -47,7 +60,10 @@ interface VerificationStepProps {
 export function VerificationStep({
   dealId,
   publicId,
-  trustLevel,
+  accessToken,
+  policy,
+  isSignedIn = false,
+  isPartyAccount = isSignedIn,
   onVerificationComplete,
   onBack,
   className,
@@ -60,6 +76,7 @@ export function VerificationStep({
   const dealEmailVerified = verifications?.some(v => v.verification_type === "email");
   const dealPhoneVerified = verifications?.some(v => v.verification_type === "phone");
   const verifiedEmailValue = verifications?.find(v => v.verification_type === "email")?.verified_value;
+  const verifiedIdDocument = verifications?.find(v => v.verification_type === "id")?.verified_value;
 
   // Email verification state
   const [email, setEmail] = useState(verifiedEmailValue || "");
@@ -79,14 +96,31 @@ export function VerificationStep({
   const [phoneVerified, setPhoneVerified] = useState(proofUserPhoneVerified || dealPhoneVerified || false);
   const [phoneError, setPhoneError] = useState<string | null>(null);
 
-  // Determine what verifications are required
-  const emailRequired = trustLevel === "verified" || trustLevel === "strong" || trustLevel === "maximum";
-  const phoneRequired = trustLevel === "strong" || trustLevel === "maximum";
+  // ID verification state (document type once verified)
+  const [idDocument, setIdDocument] = useState<string | undefined>(verifiedIdDocument);
+  const idVerified = !!idDocument;
+
+  // Determine what verifications are offered and which are required
+  const emailShown = policy.email !== "off";
+  const phoneShown = policy.phone !== "off";
+  const idShown = policy.id !== "off";
+  const emailRequired = policy.email === "required";
+  const phoneRequired = policy.phone === "required";
+  const idRequired = policy.id === "required";
+  const allowedDomains = policy.emailDomains?.length ? formatEmailDomains(policy.emailDomains) : null;
+  // The ID check comes after email and phone, even when those are optional
+  const idUnlocked = emailVerified && phoneVerified;
+
+  // The account has to be the one the deal was sent to, not just any account
+  const accountOk = isSignedIn && isPartyAccount;
 
   // Check if all required verifications are complete
   const canProceed =
+    (!policy.requireAccount || accountOk) &&
     (!emailRequired || emailVerified) &&
-    (!phoneRequired || phoneVerified);
+    (!emailVerified || isEmailDomainAllowed(email, policy.emailDomains)) &&
+    (!phoneRequired || phoneVerified) &&
+    (!idRequired || idVerified);
 
   // Handle sending email OTP
   const handleSendEmailOTP = async () => {
@@ -95,12 +129,17 @@ export function VerificationStep({
       setEmailError("Please enter a valid email address");
       return;
     }
+    if (!isEmailDomainAllowed(email, policy.emailDomains)) {
+      setEmailError(`Use an email address ending in ${allowedDomains}`);
+      return;
+    }
 
     setIsEmailSending(true);
     setEmailError(null);
 
     const { success, error } = await sendEmailVerificationOTP({
       dealId,
+      token: accessToken,
       email,
       publicId,
     });
@@ -129,6 +168,7 @@ export function VerificationStep({
 
     const { success, error } = await verifyEmailOTP({
       dealId,
+      token: accessToken,
       email,
       otp: emailOtp,
       publicId,
@@ -163,6 +203,7 @@ export function VerificationStep({
 
     const { success, error } = await sendPhoneVerificationOTP({
       dealId,
+      token: accessToken,
       phone: normalizedPhone,
       publicId,
     });
@@ -194,6 +235,7 @@ export function VerificationStep({
 
     const { success, error } = await verifyPhoneOTP({
       dealId,
+      token: accessToken,
       phone: normalizedPhone,
       otp: phoneOtp,
       publicId,
@@ -204,13 +246,19 @@ export function VerificationStep({
     if (success) {
       setPhoneVerified(true);
       toast.success("Phone verified!", {
-        description: "You can now proceed to sign the agreement",
+        description: idShown ? "Now verify your ID" : "You can now proceed to sign the agreement",
       });
     } else {
       setPhoneError(error || "Invalid verification code");
     }
   };
 
+  // Send the recipient to sign in, then back to this deal
+  const handleSignIn = () => {
+    const returnTo = `${window.location.pathname}${window.location.search}`;
+    window.location.href = `/login?redirect=${encodeURIComponent(returnTo)}`;
+  };
+
   // Handle proceed to sign
   const handleProceed = () => {
     if (canProceed) {
@@ -228,14 +276,69 @@ export function VerificationStep({
         <h2 className="text-xl font-bold mb-2">Verify Your Identity</h2>
         <p className="text-sm text-muted-foreground max-w-md mx-auto">
           The creator of this agreement requires identity verification before signing.
+          {(!emailRequired || !phoneRequired || !idRequired) &&
+            (emailShown || phoneShown || idShown) &&
+            " Steps marked optional can be skipped."}
           {isProofoUser && " As a Proofo user, some verifications may be skipped."}
         </p>
       </div>
 
       {/* Verification Steps */}
       <div className="space-y-4 max-w-md mx-auto">
+        {/* Proofo Account */}
+        {policy.requireAccount && (
+          <Card className={cn(
+            "p-4 border-2 transition-all",
+            accountOk
+              ? "border-emerald-500/50 bg-emerald-500/5"
+              : "border-border"
+          )}>
+            <div className="flex items-start gap-3">
+              <div className={cn(
+                "h-10 w-10 rounded-xl flex items-center justify-center shrink-0",
+                accountOk ? "bg-emerald-500/20" : "bg-muted"
+              )}>
+                {accountOk ? (
+                  <CheckCircle2 className="h-5 w-5 text-emerald-600" />
+                ) : (
+                  <UserCheck className="h-5 w-5 text-muted-foreground" />
+                )}
+              </div>
+
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2 mb-1">
+                  <span className="font-medium text-sm">Proofo Account</span>
+                  {accountOk && (
+                    <Badge variant="secondary" className="h-5 text-[10px] bg-emerald-500/10 text-emerald-600 border-emerald-500/20">
+                      Signed in
+                    </Badge>
+                  )}
+                </div>
+                {accountOk ? (
+                  <p className="text-xs text-emerald-600">✓ You&apos;re signed in to Proofo</p>
+                ) : isSignedIn ? (
+                  <p className="text-xs text-muted-foreground mt-2">
+                    You&apos;re signed in with a different account from the one this deal was sent to. Sign out and
+                    sign in with that account to continue.
+                  </p>
+                ) : (
+                  <div className="space-y-2 mt-2">
+                    <p className="text-xs text-muted-foreground">
+                      Sign in or create a free account to sign this agreement
+                    </p>
+                    <Button size="sm" onClick={handleSignIn} className="w-full h-8 gap-1.5">
+                      <LogIn className="h-3 w-3" />
+                      Sign In to Proofo
+                    </Button>
+                  </div>
+                )}
+              </div>
+            </div>
+          </Card>
+        )}
+
         {/* Email Verification */}
-        {emailRequired && (
+        {emailShown && (
           <Card className={cn(
             "p-4 border-2 transition-all",
             emailVerified
@@ -257,6 +360,11 @@ export function VerificationStep({
               <div className="flex-1 min-w-0">
                 <div className="flex items-center gap-2 mb-1">
                   <span className="font-medium text-sm">Email Verification</span>
+                  {!emailRequired && !emailVerified && (
+                    <Badge variant="outline" className="h-5 text-[10px]">
+                      Optional
+                    </Badge>
+                  )}
                   {emailVerified && (
                     <Badge variant="secondary" className="h-5 text-[10px] bg-emerald-500/10 text-emerald-600 border-emerald-500/20">
                       Verified
@@ -292,6 +400,11 @@ export function VerificationStep({
                         }}
                         className="h-9 text-sm"
                       />
+                      {allowedDomains && (
+                        <p className="text-[10px] text-muted-foreground">
+                          Use an email address ending in {allowedDomains}
+                        </p>
+                      )}
                       {emailError && (
                         <p className="text-xs text-destructive flex items-center gap-1">
                           <AlertCircle className="h-3 w-3" /> {emailError}
@@ -379,7 +492,7 @@ export function VerificationStep({
         )}
 
         {/* Phone Verification */}
-        {phoneRequired && (
+        {phoneShown && (
           <Card className={cn(
             "p-4 border-2 transition-all",
             phoneVerified
@@ -403,6 +516,11 @@ export function VerificationStep({
               <div className="flex-1 min-w-0">
                 <div className="flex items-center gap-2 mb-1">
                   <span className="font-medium text-sm">Phone Verification</span>
+                  {!phoneRequired && !phoneVerified && (
+                    <Badge variant="outline" className="h-5 text-[10px]">
+                      Optional
+                    </Badge>
+                  )}
                   {phoneVerified && (
                     <Badge variant="secondary" className="h-5 text-[10px] bg-emerald-500/10 text-emerald-600 border-emerald-500/20">
                       Verified
@@ -532,6 +650,83 @@ export function VerificationStep({
             </div>
           </Card>
         )}
+
+        {/* ID Verification */}
+        {idShown && (
+          <Card className={cn(
+            "p-4 border-2 transition-all",
+            idVerified
+              ? "border-emerald-500/50 bg-emerald-500/5"
+              : !idUnlocked
+                ? "opacity-50 pointer-events-none"
+                : "border-border"
+          )}>
+            <div className="flex items-start gap-3">
+              <div className={cn(
+                "h-10 w-10 rounded-xl flex items-center justify-center shrink-0",
+                idVerified ? "bg-emerald-500/20" : "bg-muted"
+              )}>
+                {idVerified ? (
+                  <CheckCircle2 className="h-5 w-5 text-emerald-600" />
+                ) : (
+                  <IdCard className="h-5 w-5 text-muted-foreground" />
+                )}
+              </div>
+
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2 mb-1">
+                  <span className="font-medium text-sm">ID Verification</span>
+                  {!idRequired && !idVerified && (
+                    <Badge variant="outline" className="h-5 text-[10px]">
+                      Optional
+                    </Badge>
+                  )}
+                  {idVerified && (
+                    <Badge variant="secondary" className="h-5 text-[10px] bg-emerald-500/10 text-emerald-600 border-emerald-500/20">
+                      Verified
+                    </Badge>
+                  )}
+                  {!idVerified && !idUnlocked && (
+                    <Badge variant="secondary" className="h-5 text-[10px]">
+                      {emailVerified ? "Complete phone first" : "Complete email and phone first"}
+                    </Badge>
+                  )}
+                </div>
+
+                <AnimatePresence mode="wait">
+                  {idVerified ? (
+                    <motion.p
+                      key="verified"
+                      initial={{ opacity: 0 }}
+                      animate={{ opacity: 1 }}
+                      className="text-xs text-emerald-600"
+                    >
+                      ✓ {formatIdVerifiedValue(idDocument)} verified
+                    </motion.p>
+                  ) : (
+                    <motion.div
+                      key="capture"
+                      initial={{ opacity: 0 }}
+                      animate={{ opacity: 1 }}
+                      exit={{ opacity: 0 }}
+                    >
+                      <p className="text-xs text-muted-foreground">
+                        Photograph an identity document and take a selfie so we can check it&apos;s you
+                      </p>
+                      <IdVerificationCapture
+                        dealId={dealId}
+                        publicId={publicId}
+                        accessToken={accessToken}
+                        onVerified={(documentType: IdDocumentType) => setIdDocument(documentType)}
+                        disabled={!idUnlocked}
+                      />
+                    </motion.div>
+                  )}
+                </AnimatePresence>
+              </div>
+            </div>
+          </Card>
+        )}
       </div>
 
       {/* Action Buttons */}
@@ -0,0 +1,222 @@
+/**
+ * Minimal ASN.1 DER reader/writer
+ *
+ * Just enough to build RFC 3161 timestamp requests and read timestamp tokens
+ * (in the browser as well as on the server) without pulling in a full ASN.1
+ * library. Only single-byte tags are supported.
+ */
+
+export const ASN1_TAG = {
+  BOOLEAN: 0x01,
+  INTEGER: 0x02,
+  OCTET_STRING: 0x04,
+  NULL: 0x05,
+  OID: 0x06,
+  UTF8_STRING: 0x0c,
+  PRINTABLE_STRING: 0x13,
+  IA5_STRING: 0x16,
+  UTC_TIME: 0x17,
+  GENERALIZED_TIME: 0x18,
+  SEQUENCE: 0x30,
+  SET: 0x31,
+} as const;
+
+export interface Asn1Node {
+  tag: number;
+  /** Content octets */
+  value: Uint8Array;
+  /** Child elements, for constructed types */
+  children: Asn1Node[];
+}
+
+// --- READING ---
+
+function readNode(bytes: Uint8Array, offset: number): { node: Asn1Node; end: number } {
+  if (offset + 2 > bytes.length) {
+    throw new Error("Truncated DER data");
+  }
+
+  const tag = bytes[offset];
+  if ((tag & 0x1f) === 0x1f) {
+    throw new Error("Multi-byte ASN.1 tags are not supported");
+  }
+
+  let length = bytes[offset + 1];
+  let cursor = offset + 2;
+
+  if (length & 0x80) {
+    const lengthBytes = length & 0x7f;
+    if (lengthBytes === 0 || lengthBytes > 4) {
+      throw new Error("Unsupported DER length");
+    }
+    length = 0;
+    for (let i = 0; i < lengthBytes; i++) {
+      length = length * 256 + bytes[cursor++];
+    }
+  }
+
+  const end = cursor + length;
+  if (end > bytes.length) {
+    throw new Error("Truncated DER data");
+  }
+
+  const value = bytes.subarray(cursor, end);
+  const children: Asn1Node[] = [];
+
+  // Constructed (bit 6 set): parse the content as a list of elements
+  if (tag & 0x20) {
+    let childOffset = 0;
+    while (childOffset < value.length) {
+      const child = readNode(value, childOffset);
+      children.push(child.node);
+      childOffset = child.end;
+    }
+  }
+
+  return { node: { tag, value, children }, end };
+}
+
+/**
+ * Parse a single DER-encoded element
+ */
+export function parseDer(bytes: Uint8Array): Asn1Node {
+  const { node, end } = readNode(bytes, 0);
+  if (end !== bytes.length) {
+    throw new Error("Unexpected data after DER element");
+  }
+  return node;
+}
+
+/** Re-parse an element's content (e.g. an OCTET STRING wrapping DER) */
+export function parseDerContent(node: Asn1Node): Asn1Node {
+  return parseDer(node.value);
+}
+
+export function decodeOid(node: Asn1Node): string {
+  const parts: bigint[] = [];
+  let current = BigInt(0);
+
+  for (const byte of node.value) {
+    current = (current << BigInt(7)) | BigInt(byte & 0x7f);
+    if (!(byte & 0x80)) {
+      parts.push(current);
+      current = BigInt(0);
+    }
+  }
+
+  const [first, ...rest] = parts;
+  const head = first < BigInt(80) ? [first / BigInt(40), first % BigInt(40)] : [BigInt(2), first - BigInt(80)];
+  return [...head, ...rest].join(".");
+}
+
+export function decodeString(node: Asn1Node): string {
+  return new TextDecoder().decode(node.value);
+}
+
+/** GeneralizedTime ("YYYYMMDDHHMMSS[.fff]Z") as an ISO string */
+export function decodeGeneralizedTime(node: Asn1Node): string {
+  const text = decodeString(node);
+  const match = text.match(/^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})(\.\d+)?Z$/);
+  if (!match) {
+    throw new Error(`Unsupported GeneralizedTime "${text}"`);
+  }
+  const [, year, month, day, hour, minute, second, fraction = ""] = match;
+  return new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}${fraction.slice(0, 4)}Z`).toISOString();
+}
+
+export function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+export function hexToBytes(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+// --- WRITING ---
+
+function encodeLength(length: number): number[] {
+  if (length < 0x80) return [length];
+  const bytes: number[] = [];
+  while (length > 0) {
+    bytes.unshift(length & 0xff);
+    length = Math.floor(length / 256);
+  }
+  return [0x80 | bytes.length, ...bytes];
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+/**
+ * Encode a DER element from its tag and content octets
+ */
+export function derEncode(tag: number, content: Uint8Array): Uint8Array {
+  return concat([new Uint8Array([tag, ...encodeLength(content.length)]), content]);
+}
+
+export const der = {
+  sequence: (...items: Uint8Array[]) => derEncode(ASN1_TAG.SEQUENCE, concat(items)),
+  set: (...items: Uint8Array[]) => derEncode(ASN1_TAG.SET, concat(items)),
+  null: () => derEncode(ASN1_TAG.NULL, new Uint8Array()),
+  boolean: (value: boolean) => derEncode(ASN1_TAG.BOOLEAN, new Uint8Array([value ? 0xff : 0x00])),
+  octetString: (bytes: Uint8Array) => derEncode(ASN1_TAG.OCTET_STRING, bytes),
+  utf8String: (text: string) => derEncode(ASN1_TAG.UTF8_STRING, new TextEncoder().encode(text)),
+  /** Non-negative INTEGER from its big-endian magnitude */
+  integer: (magnitude: Uint8Array | number) => {
+    let bytes = typeof magnitude === "number" ? new Uint8Array([magnitude]) : magnitude;
+    let start = 0;
+    while (start < bytes.length - 1 && bytes[start] === 0) start++;
+    bytes = bytes.subarray(start);
+    // A leading 1 bit would make the value negative
+    return derEncode(ASN1_TAG.INTEGER, bytes[0] & 0x80 ? concat([new Uint8Array([0]), bytes]) : bytes);
+  },
+  oid: (oid: string) => {
+    const [first, second, ...rest] = oid.split(".").map((part) => BigInt(part));
+    const bytes: number[] = [];
+    for (const arc of [first * BigInt(40) + second, ...rest]) {
+      const chunk: number[] = [Number(arc & BigInt(0x7f))];
+      let remaining = arc >> BigInt(7);
+      while (remaining > BigInt(0)) {
+        chunk.unshift(Number(remaining & BigInt(0x7f)) | 0x80);
+        remaining >>= BigInt(7);
+      }
+      bytes.push(...chunk);
+    }
+    return derEncode(ASN1_TAG.OID, new Uint8Array(bytes));
+  },
+  generalizedTime: (date: Date) => {
+    // DER: no trailing zeros in the fraction, and no fraction at all when it's zero
+    const text = date.toISOString().replace(/[-:T]/g, "").replace(/\.?0+Z$/, "Z");
+    return derEncode(ASN1_TAG.GENERALIZED_TIME, new TextEncoder().encode(text));
+  },
+  /** [n] EXPLICIT wrapper */
+  explicit: (n: number, item: Uint8Array) => derEncode(0xa0 | n, item),
+};
@@ -0,0 +1,110 @@
+/**
+ * Deal Attachments
+ *
+ * Photos and documents a creator attaches to a deal (item condition photos,
+ * invoices, ...). Files live in Supabase storage; the deal records each file's
+ * SHA-256, and those hashes are part of the seal. Verification downloads the
+ * files again and compares the hashes, so a swapped file is caught even though
+ * its storage URL stays the same.
+ */
+import { Deal } from "@/types";
+import { LIMITS } from "./constants";
+import { sha256Hex } from "./crypto";
+
+/** Accepted file types and the extension they're stored under */
+export const ATTACHMENT_TYPES: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+  "application/pdf": "pdf",
+};
+
+export const MAX_ATTACHMENT_SIZE = LIMITS.MAX_ATTACHMENT_SIZE_MB * 1024 * 1024;
+
+/** Value for a file input's `accept` attribute */
+export const ATTACHMENT_ACCEPT = Object.keys(ATTACHMENT_TYPES).join(",");
+
+/** Result of re-hashing an attachment during verification */
+export type AttachmentStatus = "match" | "modified" | "unavailable";
+
+/** Key of a document deal's PDF in the verification results */
+export const DOCUMENT_FILE_ID = "document";
+
+/** A stored file whose hash is part of the seal */
+export interface SealedFile {
+  id: string;
+  url: string;
+  sha256: string;
+}
+
+/**
+ * Every stored file a deal's seal covers: its attachments and, on document
+ * deals, the signed PDF (under DOCUMENT_FILE_ID)
+ */
+export function getSealedFiles(deal: Deal): SealedFile[] {
+  return [
+    ...(deal.attachments || []),
+    ...(deal.document ? [{ id: DOCUMENT_FILE_ID, url: deal.document.url, sha256: deal.document.sha256 }] : []),
+  ];
+}
+
+/**
+ * File name as shown on the deal: no path components or control characters,
+ * at most 120 characters (keeping the extension).
+ */
+export function sanitizeAttachmentName(name: string): string {
+  const base = (name.split(/[\\/]/).pop() || "")
+    .replace(/[\u0000-\u001f\u007f]/g, "")
+    .trim();
+  if (base.length <= 120) return base || "attachment";
+
+  const dot = base.lastIndexOf(".");
+  const extension = dot > 0 && base.length - dot <= 10 ? base.slice(dot) : "";
+  return base.slice(0, 120 - extension.length) + extension;
+}
+
+/**
+ * Why a file can't be attached, or null if it can
+ */
+export function validateAttachmentFile(file: { type: string; size: number }): string | null {
+  if (!ATTACHMENT_TYPES[file.type]) {
+    return "Only PNG, JPEG, WebP and PDF files can be attached";
+  }
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    return `Attachments must be ${LIMITS.MAX_ATTACHMENT_SIZE_MB}MB or smaller`;
+  }
+  return null;
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Download each file and compare its SHA-256 with the one recorded on the
+ * deal (client-side). Keyed by file ID.
+ */
+export async function checkAttachmentFiles(files: SealedFile[]): Promise<Record<string, AttachmentStatus>> {
+  const entries = await Promise.all(
+    files.map(async (file): Promise<[string, AttachmentStatus]> => {
+      try {
+        const response = await fetch(file.url, { cache: "no-store" });
+        if (!response.ok) return [file.id, "unavailable"];
+
+        const hash = await sha256Hex(new Uint8Array(await response.arrayBuffer()));
+        return [file.id, hash === file.sha256.toLowerCase() ? "match" : "modified"];
+      } catch {
+        return [file.id, "unavailable"];
+      }
+    })
+  );
+
+  return Object.fromEntries(entries);
+}
+
+/** True when any file no longer matches the hash the deal was sealed with */
+export function hasModifiedAttachment(statuses: Record<string, AttachmentStatus> | null | undefined): boolean {
+  return !!statuses && Object.values(statuses).includes("modified");
+}
@@ -0,0 +1,132 @@
+/**
+ * Minimal CBOR reader
+ *
+ * Just enough to read WebAuthn attestation objects and the COSE public keys
+ * inside them (in the browser as well as on the server) without pulling in a
+ * full CBOR library. Supports integers, byte and text strings, arrays, maps
+ * and the simple values; tags, floats and indefinite lengths are not.
+ */
+
+export type CborValue =
+  | number
+  | string
+  | boolean
+  | null
+  | undefined
+  | Uint8Array
+  | CborValue[]
+  | Map<CborValue, CborValue>;
+
+const MAJOR_TYPE = {
+  UNSIGNED: 0,
+  NEGATIVE: 1,
+  BYTES: 2,
+  TEXT: 3,
+  ARRAY: 4,
+  MAP: 5,
+  SIMPLE: 7,
+} as const;
+
+const SIMPLE_VALUES: Record<number, CborValue> = {
+  20: false,
+  21: true,
+  22: null,
+  23: undefined,
+};
+
+function readArgument(bytes: Uint8Array, offset: number, info: number): { argument: number; end: number } {
+  if (info < 24) return { argument: info, end: offset };
+  if (info > 27) {
+    throw new Error("Unsupported CBOR length");
+  }
+
+  // 24-27: the argument follows in 1, 2, 4 or 8 bytes
+  const size = 1 << (info - 24);
+  if (offset + size > bytes.length) {
+    throw new Error("Truncated CBOR data");
+  }
+
+  let argument = 0;
+  for (let i = 0; i < size; i++) {
+    argument = argument * 256 + bytes[offset + i];
+  }
+  if (!Number.isSafeInteger(argument)) {
+    throw new Error("CBOR integer too large");
+  }
+  return { argument, end: offset + size };
+}
+
+/**
+ * Read one CBOR item starting at `offset`.
+ * Returns the value and the offset just past it, since WebAuthn packs a COSE
+ * key into the authenticator data with more bytes after it.
+ */
+export function readCbor(bytes: Uint8Array, offset = 0): { value: CborValue; end: number } {
+  if (offset >= bytes.length) {
+    throw new Error("Truncated CBOR data");
+  }
+
+  const majorType = bytes[offset] >> 5;
+  const info = bytes[offset] & 0x1f;
+
+  if (majorType === MAJOR_TYPE.SIMPLE) {
+    if (!(info in SIMPLE_VALUES)) {
+      throw new Error("Unsupported CBOR simple value");
+    }
+    return { value: SIMPLE_VALUES[info], end: offset + 1 };
+  }
+
+  const { argument, end } = readArgument(bytes, offset + 1, info);
+
+  switch (majorType) {
+    case MAJOR_TYPE.UNSIGNED:
+      return { value: argument, end };
+    case MAJOR_TYPE.NEGATIVE:
+      return { value: -1 - argument, end };
+    case MAJOR_TYPE.BYTES:
+    case MAJOR_TYPE.TEXT: {
+      if (end + argument > bytes.length) {
+        throw new Error("Truncated CBOR data");
+      }
+      const content = bytes.slice(end, end + argument);
+      return {
+        value: majorType === MAJOR_TYPE.BYTES ? content : new TextDecoder().decode(content),
+        end: end + argument,
+      };
+    }
+    case MAJOR_TYPE.ARRAY: {
+      const items: CborValue[] = [];
+      let position = end;
+      for (let i = 0; i < argument; i++) {
+        const item = readCbor(bytes, position);
+        items.push(item.value);
+        position = item.end;
+      }
+      return { value: items, end: position };
+    }
+    case MAJOR_TYPE.MAP: {
+      const map = new Map<CborValue, CborValue>();
+      let position = end;
+      for (let i = 0; i < argument; i++) {
+        const key = readCbor(bytes, position);
+        const value = readCbor(bytes, key.end);
+        map.set(key.value, value.value);
+        position = value.end;
+      }
+      return { value: map, end: position };
+    }
+    default:
+      throw new Error(`Unsupported CBOR major type ${majorType}`);
+  }
+}
+
+/**
+ * Decode a buffer holding exactly one CBOR item
+ */
+export function decodeCbor(bytes: Uint8Array): CborValue {
+  const { value, end } = readCbor(bytes);
+  if (end !== bytes.length) {
+    throw new Error("Trailing bytes after CBOR data");
+  }
+  return value;
+}
@@ -24,8 +24,10 @@ export const TIMING = {
  * Feature limits and constraints
  */
 export const LIMITS = {
-  /** Days until access tokens expire */
+  /** Days until access tokens expire (default signing deadline) */
   TOKEN_EXPIRY_DAYS: 7,
+  /** Longest signing deadline a creator can set, in days */
+  MAX_DEADLINE_DAYS: 90,
   /** Maximum terms allowed per deal */
   MAX_TERMS: 20,
   /** Maximum characters in deal title */
@@ -36,8 +38,22 @@ export const LIMITS = {
   MAX_TERM_LABEL_LENGTH: 100,
   /** Maximum characters in term value */
   MAX_TERM_VALUE_LENGTH: 500,
-  /** Maximum file uploads per deal (future feature) */
+  /** Maximum characters when initialling a term */
+  MAX_INITIALS_LENGTH: 5,
+  /** Maximum signing parties per deal (including the primary recipient) */
+  MAX_SIGNERS: 10,
+  /** Maximum file attachments per deal */
   MAX_ATTACHMENTS: 5,
+  /** Maximum size of a single attachment, in MB */
+  MAX_ATTACHMENT_SIZE_MB: 5,
+  /** Maximum size of the PDF on "sign a document" deals, in MB */
+  MAX_DOCUMENT_SIZE_MB: 5,
+  /** Maximum pen strokes recorded for a drawn signature */
+  MAX_SIGNATURE_STROKES: 200,
+  /** Maximum points recorded across all strokes of a drawn signature */
+  MAX_SIGNATURE_POINTS: 10000,
+  /** Maximum email domains a verification policy can limit recipients to */
+  MAX_POLICY_EMAIL_DOMAINS: 10,
 } as const;
 
 /**
@@ -1,5 +1,6 @@
 import { nanoid } from "nanoid";
 import { logger } from "./logger";
+import { AuditLogEntry, Deal, TermAcknowledgement } from "@/types";
 
 
 /**
@@ -38,6 +39,8 @@ export function generateAccessToken(): string {
 }
 
 export interface VerificationRecord {
+  /** Multi-party deals: the signer who verified (none for the single recipient) */
+  signer_id?: string | null;
   verification_type?: string;
   type?: string;
   verified_value?: string;
@@ -50,18 +53,26 @@ export interface VerificationRecord {
 export interface VerificationData {
   email?: { verified: boolean; value?: string; verifiedAt?: string };
   phone?: { verified: boolean; verifiedAt?: string };
+  /** Identity document check; `document` is the document type, e.g. "passport" */
+  id?: { verified: boolean; document?: string; verifiedAt?: string };
 }
 
 /**
  * Normalizes database verification records into a consistent structure for hashing.
+ * Only the records of one party are used: the single recipient's by default, or
+ * the given signer's on multi-party deals.
  * CRITICAL: Normalizes timestamps to ISO format to ensure consistency between
  * Supabase client (returns "2024-01-01 12:00:00+00") and JSON/RPC (returns "2024-01-01T12:00:00+00:00")
  */
-export function transformVerificationsForHash(records: VerificationRecord[] | null | undefined): VerificationData | undefined {
-  if (!records || records.length === 0) return undefined;
+export function transformVerificationsForHash(
+  records: VerificationRecord[] | null | undefined,
+  signerId?: string
+): VerificationData | undefined {
+  const partyRecords = records?.filter((record) => (record.signer_id || undefined) === signerId);
+  if (!partyRecords || partyRecords.length === 0) return undefined;
 
   const verifications: VerificationData = {};
-  for (const record of records) {
+  for (const record of partyRecords) {
     // Handle both snake_case (DB) and camelCase (already transformed) inputs
     const type = record.verification_type || record.type;
     const value = record.verified_value || record.value;
@@ -81,11 +92,166 @@ export function transformVerificationsForHash(records: VerificationRecord[] | nu
         verified: true,
         verifiedAt: at,
       };
+    } else if (type === "id") {
+      verifications.id = {
+        verified: true,
+        document: value,
+        verifiedAt: at,
+      };
     }
   }
   return Object.keys(verifications).length > 0 ? verifications : undefined;
 }
 
+export interface SignerRecord {
+  id?: string;
+  name: string;
+  email?: string | null;
+  position: number;
+  signature_url?: string | null;
+  signatureUrl?: string | null;
+  signed_at?: string | null;
+  signedAt?: string | null;
+  signature_vector?: { sha256: string } | null;
+  signatureVector?: { sha256: string } | null;
+}
+
+export interface SignerSealData {
+  name: string;
+  email?: string;
+  position: number;
+  signatureUrl: string;
+  signedAt?: string;
+  /** SHA-256 of the pen strokes, for drawn signatures */
+  strokesSha256?: string;
+  /** The identity checks this signer passed before signing */
+  verifications?: VerificationData;
+}
+
+/**
+ * Normalizes multi-party signer records into a consistent structure for hashing.
+ * Signers are ordered by position and timestamps normalized to ISO format, so the
+ * same set of signatures always produces the same seal. Each signer carries
+ * their own verification records.
+ */
+export function transformSignersForHash(
+  records: SignerRecord[] | null | undefined,
+  verifications?: VerificationRecord[] | null
+): SignerSealData[] | undefined {
+  if (!records || records.length === 0) return undefined;
+
+  return [...records]
+    .sort((a, b) => a.position - b.position)
+    .map((record) => {
+      // Handle both snake_case (DB) and camelCase (already transformed) inputs
+      const rawAt = record.signed_at || record.signedAt;
+      const vector = record.signature_vector || record.signatureVector;
+      return {
+        name: record.name,
+        email: record.email || undefined,
+        position: record.position,
+        signatureUrl: record.signature_url || record.signatureUrl || "",
+        signedAt: rawAt ? new Date(rawAt).toISOString() : undefined,
+        strokesSha256: vector?.sha256.toLowerCase() || undefined,
+        verifications: record.id ? transformVerificationsForHash(verifications, record.id) : undefined,
+      };
+    });
+}
+
+export interface CreatorSignatureSealData {
+  signatureUrl: string;
+  signedAt: string;
+  /** SHA-256 of the pen strokes, for drawn signatures */
+  strokesSha256?: string;
+}
+
+/**
+ * Normalizes the creator's counter-signature for hashing.
+ * Returns undefined when the creator has not signed, so deals without a
+ * counter-signature keep producing the same seal as before.
+ */
+export function transformCreatorSignatureForHash(
+  signatureUrl: string | null | undefined,
+  signedAt: string | null | undefined,
+  signatureVector?: { sha256: string } | null
+): CreatorSignatureSealData | undefined {
+  if (!signatureUrl || !signedAt) return undefined;
+
+  return {
+    signatureUrl,
+    signedAt: new Date(signedAt).toISOString(),
+    strokesSha256: signatureVector?.sha256.toLowerCase() || undefined,
+  };
+}
+
+export interface AttachmentSealData {
+  name: string;
+  sha256: string;
+}
+
+/**
+ * Normalizes deal attachments for hashing. Only the name and content hash are
+ * sealed (the storage URL can change without the file changing), in upload order.
+ * Returns undefined for deals without attachments so their seals are unchanged.
+ */
+export function transformAttachmentsForHash(
+  attachments: { name: string; sha256: string }[] | null | undefined
+): AttachmentSealData[] | undefined {
+  if (!attachments || attachments.length === 0) return undefined;
+
+  return attachments.map((attachment) => ({
+    name: attachment.name,
+    sha256: attachment.sha256.toLowerCase(),
+  }));
+}
+
+export interface DocumentSealData {
+  name: string;
+  sha256: string;
+}
+
+/**
+ * Normalizes the signed PDF of a "sign a document" deal for hashing.
+ * Returns undefined for term-based deals so their seals are unchanged.
+ */
+export function transformDocumentForHash(
+  document: { name: string; sha256: string } | null | undefined
+): DocumentSealData | undefined {
+  if (!document) return undefined;
+
+  return {
+    name: document.name,
+    sha256: document.sha256.toLowerCase(),
+  };
+}
+
+export interface TermAcknowledgementSealData {
+  termId: string;
+  kind: string;
+  initials?: string;
+  signerName: string;
+  acknowledgedAt: string;
+}
+
+/**
+ * Normalizes recipients' initials and acknowledgements of individual terms for
+ * hashing, in the order they were recorded. Returns undefined for deals without
+ * any, so their seals are unchanged.
+ */
+export function transformTermAcknowledgementsForHash(
+  acknowledgements: TermAcknowledgement[] | null | undefined
+): TermAcknowledgementSealData[] | undefined {
+  if (!acknowledgements || acknowledgements.length === 0) return undefined;
+
+  return acknowledgements.map((acknowledgement) => ({
+    termId: acknowledgement.termId,
+    kind: acknowledgement.kind,
+    initials: acknowledgement.initials || undefined,
+    signerName: acknowledgement.signerName,
+    acknowledgedAt: new Date(acknowledgement.acknowledgedAt).toISOString(),
+  }));
+}
+
 /**
  * Deterministically stringify an object by sorting keys.
  * This ensures {a:1, b:2} and {b:2, a:1} produce the same string.
@@ -135,6 +301,14 @@ export function deterministicStringify(obj: unknown): string {
  * @param {string} [data.signatureUrl] - Optional base64 or URL of the recipient's signature.
  * @param {string} data.timestamp - The ISO timestamp of when the deal was sealed.
  * @param {Object} [data.verifications] - Optional verification metadata included in the seal.
+ * @param {Array} [data.signers] - Optional signer records for multi-party deals. The seal is only
+ *   calculated once every signer has signed, so each entry carries its own signature and timestamp.
+ * @param {Object} [data.creatorSignature] - Optional creator counter-signature and when it was made.
+ * @param {string} [data.previousSeal] - Seal of the deal version this one amends, chaining the versions together.
+ * @param {Array} [data.attachments] - Optional name and SHA-256 of each attached file, so swapping a file breaks the seal.
+ * @param {Object} [data.document] - Optional name and SHA-256 of the signed PDF on document deals.
+ * @param {Array} [data.termAcknowledgements] - Optional initials/acknowledgements of individual terms, with who made them and when.
+ * @param {string} [data.signatureStrokesSha256] - Optional SHA-256 of the recipient's pen strokes, when they drew their signature.
  * @returns {Promise<string>} A hex-encoded SHA-256 hash string.
  * @throws {Error} If no cryptographic hashing method is available in the environment.
  */
@@ -144,6 +318,13 @@ export async function calculateDealSeal(data: {
   signatureUrl?: string;
   timestamp: string;
   verifications?: VerificationData;
+  signers?: SignerSealData[];
+  creatorSignature?: CreatorSignatureSealData;
+  previousSeal?: string;
+  attachments?: AttachmentSealData[];
+  document?: DocumentSealData;
+  termAcknowledgements?: TermAcknowledgementSealData[];
+  signatureStrokesSha256?: string;
 }): Promise<string> {
   // 1. Parse terms if it's a string, so we can re-stringify it deterministically
   let termsObj;
@@ -157,19 +338,33 @@ export async function calculateDealSeal(data: {
   // Ensure we compare "2023-01-01T00:00:00.000Z" not "2023-01-01T00:00:00+00:00"
   const normalizedTimestamp = new Date(data.timestamp).toISOString();
 
-  // 3. Construct Payload (including verifications if present)
+  // 3. Construct Payload (including verifications, signers, counter-signature, amendment chain, attachments, document, term acknowledgements and signature strokes if present)
   const payload = deterministicStringify({
     dealId: data.dealId,
     terms: termsObj,
     signatureUrl: data.signatureUrl || "",
     timestamp: normalizedTimestamp,
     ...(data.verifications && { verifications: data.verifications }),
+    ...(data.signers && { signers: data.signers }),
+    ...(data.creatorSignature && { creatorSignature: data.creatorSignature }),
+    ...(data.previousSeal && { previousSeal: data.previousSeal }),
+    ...(data.attachments && { attachments: data.attachments }),
+    ...(data.document && { document: data.document }),
+    ...(data.termAcknowledgements && { termAcknowledgements: data.termAcknowledgements }),
+    ...(data.signatureStrokesSha256 && { signatureStrokesSha256: data.signatureStrokesSha256.toLowerCase() }),
   });
 
+  return sha256Hex(payload);
+}
+
+/**
+ * Hex-encoded SHA-256 of a string or bytes, using Web Crypto in-browser or the
+ * Node.js `crypto` module on the server.
+ */
+export async function sha256Hex(payload: string | Uint8Array<ArrayBuffer>): Promise<string> {
   // Use Web Crypto API for SHA-256
   if (typeof window !== "undefined" && window.crypto?.subtle) {
-    const encoder = new TextEncoder();
-    const dataBuffer = encoder.encode(payload);
+    const dataBuffer = typeof payload === "string" ? new TextEncoder().encode(payload) : payload;
     const hashBuffer = await window.crypto.subtle.digest("SHA-256", dataBuffer);
     const hashArray = Array.from(new Uint8Array(hashBuffer));
     return hashArray.map((b) => b.toString(16).padStart(2, "0")).join("");
@@ -190,6 +385,237 @@ export async function calculateDealSeal(data: {
   throw new Error("No cryptographic hashing method available");
 }
 
+/** Everything a deal seal is calculated from */
+export type DealSealInputs = Parameters<typeof calculateDealSeal>[0];
+
+/**
+ * Collect the seal inputs from a stored deal, as verification recomputes them.
+ */
+export function getDealSealInputs(deal: Deal): DealSealInputs {
+  return {
+    dealId: deal.id,
+    terms: JSON.stringify(deal.terms),
+    signatureUrl: deal.signatureUrl || "",
+    timestamp: deal.confirmedAt || deal.createdAt,
+    verifications: transformVerificationsForHash(deal.verifications),
+    signers: transformSignersForHash(deal.signers, deal.verifications),
+    creatorSignature: transformCreatorSignatureForHash(
+      deal.creatorSignatureUrl,
+      deal.creatorSignedAt,
+      deal.creatorSignatureVector
+    ),
+    previousSeal: deal.previousSeal,
+    attachments: transformAttachmentsForHash(deal.attachments),
+    document: transformDocumentForHash(deal.document),
+    termAcknowledgements: transformTermAcknowledgementsForHash(deal.termAcknowledgements),
+    signatureStrokesSha256: deal.signatureVector?.sha256,
+  };
+}
+
+/** Where the platform publishes the public keys that sign deal seals (a JWK Set) */
+export const SEAL_KEYS_PATH = "/.well-known/jwks.json";
+
+/**
+ * A public key that signs deal seals, as published at {@link SEAL_KEYS_PATH}.
+ * Retired keys stay published so deals sealed before a rotation still verify.
+ */
+export interface SealPublicKey {
+  kid: string;
+  kty: "OKP";
+  crv: "Ed25519";
+  /** Base64url-encoded raw public key */
+  x: string;
+  use: "sig";
+  alg: "EdDSA";
+  status: "active" | "retired";
+}
+
+/**
+ * The published JWK Set. `signaturesRequiredFrom` is when the deployment
+ * enabled seal signing: deals sealed from then on always carry a signature,
+ * so an unsigned seal from then on means the signature was removed.
+ */
+export interface SealKeySet {
+  keys: SealPublicKey[];
+  signaturesRequiredFrom?: string;
+}
+
+/**
+ * - `valid`: signed by a published platform key
+ * - `invalid`: the signature doesn't match the seal
+ * - `unknown_key`: signed with a key that isn't published
+ * - `unsigned`: sealed before signing was required
+ * - `missing`: unsigned, but sealed after signing was required
+ * - `unsupported`: this browser can't verify Ed25519 signatures
+ */
+export type SealSignatureStatus = "valid" | "invalid" | "unknown_key" | "unsigned" | "missing" | "unsupported";
+
+/**
+ * Whether a seal signature status means the seal can't be trusted
+ */
+export function isSealSignatureFailure(status: SealSignatureStatus | null | undefined): boolean {
+  return status === "invalid" || status === "unknown_key" || status === "missing";
+}
+
+function base64UrlToBytes(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/").padEnd(Math.ceil(value.length / 4) * 4, "=");
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Fetch the platform's published seal signing keys (client-side)
+ */
+export async function fetchSealKeySet(): Promise<SealKeySet> {
+  const response = await fetch(SEAL_KEYS_PATH, { cache: "no-store" });
+  if (!response.ok) {
+    throw new Error(`Failed to load seal keys (${response.status})`);
+  }
+  const { keys, signaturesRequiredFrom } = (await response.json()) as Partial<SealKeySet>;
+  return { keys: keys || [], signaturesRequiredFrom };
+}
+
+/**
+ * Verify the platform's Ed25519 signature over a deal seal.
+ *
+ * The seal alone is just a hash anyone with write access could recompute;
+ * the signature proves the platform produced it. Uses Web Crypto, so it
+ * runs entirely in the verifier's browser. Pass `sealedAt` (the deal's
+ * confirmation time) and the key set's `signaturesRequiredFrom` so a removed
+ * signature is reported as `missing`.
+ */
+export async function verifySealSignature(data: {
+  seal: string;
+  signature?: string;
+  keyId?: string;
+  keys: SealPublicKey[];
+  sealedAt?: string;
+  signaturesRequiredFrom?: string;
+}): Promise<SealSignatureStatus> {
+  if (!data.signature || !data.keyId) {
+    const requiresSignature =
+      !!data.sealedAt &&
+      !!data.signaturesRequiredFrom &&
+      Date.parse(data.sealedAt) >= Date.parse(data.signaturesRequiredFrom);
+    return requiresSignature ? "missing" : "unsigned";
+  }
+
+  const key = data.keys.find((k) => k.kid === data.keyId);
+  if (!key) return "unknown_key";
+
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) return "unsupported";
+
+  let publicKey: CryptoKey;
+  try {
+    publicKey = await subtle.importKey(
+      "jwk",
+      { kty: key.kty, crv: key.crv, x: key.x },
+      { name: "Ed25519" },
+      false,
+      ["verify"]
+    );
+  } catch {
+    // Older browsers don't implement Ed25519 in Web Crypto
+    return "unsupported";
+  }
+
+  try {
+    const valid = await subtle.verify(
+      { name: "Ed25519" },
+      publicKey,
+      base64UrlToBytes(data.signature),
+      new TextEncoder().encode(data.seal)
+    );
+    return valid ? "valid" : "invalid";
+  } catch {
+    return "invalid";
+  }
+}
+
+/**
+ * Calculate the hash of an audit log entry.
+ *
+ * Entries are chained: each hash covers the previous entry's hash for the same
+ * deal, so modifying, removing or reordering any entry breaks every hash after it.
+ * The database computes the same hash when the entry is inserted
+ * (`audit_entry_hash` in supabase/schema.sql), so both sides must agree on the
+ * fields and their formatting. IP address and user agent are not covered.
+ *
+ * @returns {Promise<string>} A hex-encoded SHA-256 hash string.
+ */
+export async function calculateAuditEntryHash(entry: AuditLogEntry): Promise<string> {
+  const payload = deterministicStringify({
+    id: entry.id,
+    dealId: entry.dealId,
+    sequence: entry.sequence ?? null,
+    eventType: entry.eventType,
+    actorType: entry.actorType,
+    actorId: entry.actorId ?? null,
+    metadata: entry.metadata ?? null,
+    createdAt: new Date(entry.createdAt).toISOString(),
+    previousHash: entry.previousHash ?? null,
+  });
+
+  return sha256Hex(payload);
+}
+
+export interface AuditChainIssue {
+  /** Sequence number the problem was found at */
+  sequence: number;
+  entryId?: string;
+  /**
+   * - `modified`: the entry's content no longer matches its hash
+   * - `missing`: one or more entries before this one were removed
+   * - `unlinked`: the entry doesn't point at the hash of the entry before it
+   */
+  type: "modified" | "missing" | "unlinked";
+}
+
+export interface AuditChainResult {
+  /** `unchained` when none of the entries carry hashes (e.g. demo data) */
+  status: "valid" | "broken" | "unchained";
+  entryCount: number;
+  issues: AuditChainIssue[];
+}
+
+/**
+ * Walk a deal's audit log and check every link of the hash chain.
+ * Entries are sorted by sequence first, so the order they were fetched in doesn't matter.
+ */
+export async function verifyAuditChain(logs: AuditLogEntry[]): Promise<AuditChainResult> {
+  if (!logs.some((log) => log.entryHash)) {
+    return { status: "unchained", entryCount: logs.length, issues: [] };
+  }
+
+  const entries = [...logs].sort((a, b) => (a.sequence ?? 0) - (b.sequence ?? 0));
+  const issues: AuditChainIssue[] = [];
+  let previous: AuditLogEntry | undefined;
+
+  for (const entry of entries) {
+    const sequence = entry.sequence ?? 0;
+    const expectedSequence = (previous?.sequence ?? 0) + 1;
+
+    if (sequence !== expectedSequence) {
+      issues.push({ sequence, entryId: entry.id, type: "missing" });
+    } else if ((entry.previousHash ?? null) !== (previous?.entryHash ?? null)) {
+      issues.push({ sequence, entryId: entry.id, type: "unlinked" });
+    }
+
+    if (!entry.entryHash || (await calculateAuditEntryHash(entry)) !== entry.entryHash) {
+      issues.push({ sequence, entryId: entry.id, type: "modified" });
+    }
+
+    previous = entry;
+  }
+
+  return { status: issues.length > 0 ? "broken" : "valid", entryCount: entries.length, issues };
+}
+
 /**
  * Format a date for display
  */
@@ -231,6 +657,23 @@ export function timeAgo(date: string | Date): string {
   return formatDate(d);
 }
 
+/**
+ * Format a future date as relative time (e.g. "in 3 days")
+ */
+export function timeUntil(date: string | Date): string {
+  const d = typeof date === "string" ? new Date(date) : date;
+  const diffMs = d.getTime() - new Date().getTime();
+  const diffMins = Math.ceil(diffMs / 60000);
+  const diffHours = Math.floor(diffMs / 3600000);
+  const diffDays = Math.floor(diffMs / 86400000);
+
+  if (diffMs <= 0) return "now";
+  if (diffMins < 60) return `in ${diffMins} minute${diffMins === 1 ? "" : "s"}`;
+  if (diffHours < 24) return `in ${diffHours} hour${diffHours === 1 ? "" : "s"}`;
+  if (diffDays < 30) return `in ${diffDays} day${diffDays === 1 ? "" : "s"}`;
+  return `on ${formatDate(d)}`;
+}
+
 /**
  * Get token expiry date (7 days from now by default)
  */
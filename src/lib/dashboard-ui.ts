@@ -6,7 +6,7 @@
  */
 
 import { Variants } from "framer-motion";
-import { Deal } from "@/types";
+import { Deal, DealSigner } from "@/types";
 
 // =============================================================================
 // ANIMATION VARIANTS
@@ -307,3 +307,77 @@ export function isStaleDeal(deal: Deal): boolean {
 
   return now - startTime > STALE_THRESHOLD_MS;
 }
+
+/**
+ * Check if a deal closed without being sealed (voided, or expired past its signing deadline)
+ */
+export function isClosedDeal(deal: Pick<Deal, "status">): boolean {
+  return deal.status === "voided" || deal.status === "expired";
+}
+
+/**
+ * Check if a pending deal has passed its signing deadline but the expiry job
+ * hasn't picked it up yet - it can no longer be signed
+ */
+export function isPastDeadline(deal: Pick<Deal, "status" | "expiresAt">): boolean {
+  return deal.status === "pending" && !!deal.expiresAt && new Date(deal.expiresAt).getTime() < Date.now();
+}
+
+/**
+ * Signing progress for multi-party deals (null for single-recipient deals)
+ */
+export function getSignerProgress(deal: Deal): { signed: number; total: number } | null {
+  if (!deal.signers || deal.signers.length === 0) return null;
+
+  return {
+    signed: deal.signers.filter((s) => !!s.signedAt).length,
+    total: deal.signers.length,
+  };
+}
+
+/**
+ * Signers who can sign right now - in ordered mode only the next signer in line
+ */
+export function getAwaitingSigners(deal: Deal): DealSigner[] {
+  if (!deal.signers || deal.status !== "pending") return [];
+
+  const unsigned = deal.signers.filter((s) => !s.signedAt);
+  return deal.signingMode === "ordered" ? unsigned.slice(0, 1) : unsigned;
+}
+
+/**
+ * Email addresses a reminder should go to - the awaiting signers on
+ * multi-party deals, otherwise the single recipient
+ */
+export function getNudgeEmails(deal: Deal): string[] {
+  if (deal.signers?.length) {
+    return getAwaitingSigners(deal).flatMap((s) => (s.email ? [s.email] : []));
+  }
+  return deal.recipientEmail ? [deal.recipientEmail] : [];
+}
+
+/**
+ * Check if a user is one of the signers on a multi-party deal
+ */
+export function isDealSigner(deal: Deal, userId?: string, userEmail?: string): boolean {
+  return !!deal.signers?.some(
+    (s) =>
+      (userId && s.recipientId === userId) ||
+      (userEmail && s.email?.toLowerCase() === userEmail.toLowerCase())
+  );
+}
+
+/**
+ * Check if every recipient has signed and the deal only awaits the creator's counter-signature
+ */
+export function isAwaitingCountersign(deal: {
+  status: string;
+  signatureUrl?: string;
+  signers?: { signedAt?: string }[];
+  creatorSignatureMode?: Deal["creatorSignatureMode"];
+  creatorSignedAt?: string;
+}): boolean {
+  if (deal.status !== "pending" || deal.creatorSignatureMode !== "after" || deal.creatorSignedAt) return false;
+
+  return deal.signers?.length ? deal.signers.every((s) => !!s.signedAt) : !!deal.signatureUrl;
+}
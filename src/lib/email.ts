@@ -1,22 +1,23 @@
 "use server";
 
-import { Resend } from "resend";
-import { Deal } from "@/types";
+import { BrandingProfile, Deal } from "@/types";
 import { formatDateTime } from "./crypto";
 import { logger } from "./logger";
-
-// Initialize Resend client
-// Note: RESEND_API_KEY should be set in environment variables
-const resend = process.env.RESEND_API_KEY ? new Resend(process.env.RESEND_API_KEY) : null;
+import { getMailTransport } from "./mail-transport";
+import { getContrastTextColor } from "./utils";
 
 // Email configuration
-const FROM_EMAIL = process.env.RESEND_FROM_EMAIL || "Proofo <onboarding@resend.dev>";
 const APP_URL = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
 
 /**
- * Email template for deal receipt
+ * Email template for deal receipt.
+ * With a branding profile, the creator's logo, name, accent colour and footer
+ * replace Proofo's.
  */
-function generateReceiptEmailHTML(deal: Deal): string {
+function generateReceiptEmailHTML(deal: Deal, branding?: BrandingProfile | null): string {
+  const brandName = branding?.companyName || "Proofo";
+  const accentColor = branding?.accentColor || "#ededed";
+
   return `
 <!DOCTYPE html>
 <html lang="en">
@@ -52,14 +53,15 @@ function generateReceiptEmailHTML(deal: Deal): string {
               <table role="presentation" cellspacing="0" cellpadding="0" border="0" style="margin: 0 auto;">
                 <tr>
                   <td valign="middle" style="padding-right: 12px;">
+                    ${branding?.logoUrl ? `<img src="${escapeHtml(branding.logoUrl)}" alt="${escapeHtml(brandName)}" height="28" style="display: block; height: 28px; width: auto;" />` : `
                     <svg width="28" height="28" viewBox="0 0 5765 5765" xmlns="http://www.w3.org/2000/svg" style="display: block;">
                       <g transform="matrix(1 0 0 -1 0 5765)">
                         <path fill="#ededed" d="M664.2,4920C664.2,4125,664.2,2560,664.2,2560C664.2,2560,664.2,910,664.2,200C664.2,149.2,688.3,95.9,724.2,60C760.1,24.1,813.4,0,864.2,0C1179.2,0,1304.2,0,1534.2,0C1764.2,0,1787.7,-7.8,1914.2,0C2016,6.2,2118.3,25.1,2214.2,60C2370.6,116.9,2516.5,212.3,2634.2,330C2772.3,468.1,2780.5,466.1,2884.2,570C2956.1,642.1,3082.4,776.8,3174.2,870C3231.9,928.6,3259.1,953.2,3334.2,1030C3349.2,1045.4,3398.2,1093.7,3414.2,1110C3426.9,1123,3490.8,1186.3,3504.2,1200C3582.6,1280.3,3663,1370.5,3765.6,1476C3823.9,1535.9,4086.5,1770.4,4154.2,1840C4469.2,2115,4664.2,2315,4772,2540C4819.6,2639.3,4872.7,2739.5,4891,2848C4918.4,3010,4918.4,3224.5,4918.4,3413C4918.4,3635,4911.4,3859.1,4862,4075C4839,4175.4,4796,4272.5,4740,4359C4613.9,4553.6,4445.2,4720.5,4268,4870C4122.8,4992.6,3934.8,5086.8,3745,5097C3319.2,5120,3718,5117,2339,5120C2339,5120,1334.2,5120,864.2,5120C812,5120,760.3,5097.7,724.2,5060C691.2,5025.5,664.2,4967.7,664.2,4920ZM3644.2,4420C3886,4402.1,4084.6,4156.8,4189,3938C4265.1,3778.6,4260,3718,4260,3413C4260,3170,4248,3038,4220,2965C4114,2687,3931.2,2520,3644.2,2410C3557.2,2376,3594.2,2381,3044.2,2380C3044.2,2380,2674.2,2380,2534.2,2380C2483.4,2380,2430,2356,2394.2,2320C2358.5,2284.1,2335,2230.7,2335,2180C2335,2015,2334.3,1873.3,2335,1670C2335.6,1483,2337.6,1293.9,2304.2,1110C2291.1,1038.1,2259.4,967.4,2214.2,910C2162.9,845,2099.9,783.6,2024.2,750C1842.7,669.6,1714.2,670,1534.2,670C1483.4,670,1430.1,694.1,1394.2,730C1358.3,765.9,1334.2,819.2,1334.2,870C1334.2,1110,1334.2,556,1334.2,2560C1334.2,4308,1334.2,3980,1334.2,4250C1334.2,4302.7,1346.9,4362.7,1384.2,4400C1421.4,4437.3,1481.5,4450,1534.2,4450C1809.2,4450,2339,4450,2339,4450C2339,4450,3239.2,4450,3644.2,4420Z" />
                       </g>
-                    </svg>
+                    </svg>`}
                   </td>
                   <td valign="middle">
-                    <span style="color: #ededed; font-size: 20px; font-weight: 700; letter-spacing: -0.02em;">Proofo</span>
+                    <span style="color: #ededed; font-size: 20px; font-weight: 700; letter-spacing: -0.02em;">${escapeHtml(brandName)}</span>
                   </td>
                 </tr>
               </table>
@@ -173,7 +175,7 @@ function generateReceiptEmailHTML(deal: Deal): string {
               <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
                 <tr>
                   <td align="center" style="padding-bottom: 12px;">
-                    <a href="${APP_URL}/d/${deal.publicId}" class="button" target="_blank" style="display: block; width: 100%; padding: 14px 0; background-color: #ededed; color: #000000; text-decoration: none; font-size: 15px; font-weight: 600; border-radius: 10px; text-align: center; transition: all 0.2s;">
+                    <a href="${APP_URL}/d/${deal.publicId}" class="button" target="_blank" style="display: block; width: 100%; padding: 14px 0; background-color: ${accentColor}; color: ${getContrastTextColor(accentColor)}; text-decoration: none; font-size: 15px; font-weight: 600; border-radius: 10px; text-align: center; transition: all 0.2s;">
                       Manage Agreement &rarr;
                     </a>
                   </td>
@@ -216,6 +218,8 @@ function generateReceiptEmailHTML(deal: Deal): string {
         <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0" style="max-width: 440px; margin-top: 24px;">
           <tr>
             <td align="center" style="color: #333333; font-size: 11px; line-height: 1.5;">
+              ${branding?.footerText ? `<p style="margin: 0 0 8px 0; color: #777777;">${escapeHtml(branding.footerText)}</p>` : ""}
+              ${branding?.legalText ? `<p style="margin: 0 0 8px 0; color: #555555; font-size: 10px; white-space: pre-line;">${escapeHtml(branding.legalText)}</p>` : ""}
               <p style="margin: 0;">© ${new Date().getFullYear()} Proofo Inc. Evidence that holds up.</p>
             </td>
           </tr>
@@ -232,7 +236,7 @@ function generateReceiptEmailHTML(deal: Deal): string {
 /**
  * Generate plain text version of the email
  */
-function generateReceiptEmailText(deal: Deal): string {
+function generateReceiptEmailText(deal: Deal, branding?: BrandingProfile | null): string {
   return `
 Your agreement has been sealed!
 
@@ -266,8 +270,8 @@ ${APP_URL}/d/${deal.publicId}
 VERIFY THIS AGREEMENT:
 ${APP_URL}/verify?id=${deal.publicId}
 
----
-This is an automated message from Proofo.
+${branding?.footerText ? `${branding.footerText}\n\n` : ""}${branding?.legalText ? `${branding.legalText}\n\n` : ""}---
+This is an automated message from Proofo${branding?.companyName ? ` on behalf of ${branding.companyName}` : ""}.
 © ${new Date().getFullYear()} Proofo. Evidence that holds up.
   `.trim();
 }
@@ -289,18 +293,21 @@ function escapeHtml(unsafe: string): string {
  */
 export async function sendDealReceiptEmail(params: {
   deal: Deal;
+  /** The deal creator's branding, when they have a paid plan */
+  branding?: BrandingProfile | null;
   recipientEmail: string;
   pdfBase64?: string;
   pdfFilename?: string;
 }): Promise<{ success: boolean; error: string | null; emailId?: string }> {
-  const { deal, recipientEmail, pdfBase64, pdfFilename } = params;
+  const { deal, branding, recipientEmail, pdfBase64, pdfFilename } = params;
 
-  // Check if Resend is configured
-  if (!resend) {
-    logger.warn("Resend API key not configured. Email not sent.");
+  // Check if a mail transport is configured
+  const transport = getMailTransport();
+  if (!transport) {
+    logger.warn("No mail transport configured. Email not sent.");
     return {
       success: false,
-      error: "Email service not configured. Please set RESEND_API_KEY environment variable.",
+      error: "Email service not configured. Please set MAIL_TRANSPORT or RESEND_API_KEY.",
     };
   }
 
@@ -311,44 +318,19 @@ export async function sendDealReceiptEmail(params: {
   }
 
   try {
-    // Build email options
-    const emailOptions: {
-      from: string;
-      to: string[];
-      subject: string;
-      html: string;
-      text: string;
-      attachments?: Array<{ filename: string; content: string }>;
-    } = {
-      from: FROM_EMAIL,
+    const { messageId } = await transport.send({
       to: [recipientEmail],
-      subject: `Your Sealed Agreement: ${deal.title} - Proofo`,
-      html: generateReceiptEmailHTML(deal),
-      text: generateReceiptEmailText(deal),
-    };
-
-    // Add PDF attachment if provided
-    if (pdfBase64 && pdfFilename) {
-      emailOptions.attachments = [
-        {
-          filename: pdfFilename,
-          content: pdfBase64,
-        },
-      ];
-    }
-
-    // Send email
-    const { data, error } = await resend.emails.send(emailOptions);
-
-    if (error) {
-      logger.error("Resend error", error);
-      return { success: false, error: error.message };
-    }
+      subject: `Your Sealed Agreement: ${deal.title} - ${branding?.companyName || "Proofo"}`,
+      html: generateReceiptEmailHTML(deal, branding),
+      text: generateReceiptEmailText(deal, branding),
+      // Attach the PDF if provided
+      ...(pdfBase64 && pdfFilename && { attachments: [{ filename: pdfFilename, content: pdfBase64 }] }),
+    });
 
     return {
       success: true,
       error: null,
-      emailId: data?.id,
+      emailId: messageId,
     };
   } catch (error) {
     logger.error("Email send error", error as Error);
@@ -369,12 +351,13 @@ export async function sendDealInvitationEmail(params: {
 }): Promise<{ success: boolean; error: string | null; emailId?: string }> {
   const { deal, recipientEmail, shareUrl } = params;
 
-  // Check if Resend is configured
-  if (!resend) {
-    logger.warn("Resend API key not configured. Email not sent.");
+  // Check if a mail transport is configured
+  const transport = getMailTransport();
+  if (!transport) {
+    logger.warn("No mail transport configured. Email not sent.");
     return {
       success: false,
-      error: "Email service not configured. Please set RESEND_API_KEY environment variable.",
+      error: "Email service not configured. Please set MAIL_TRANSPORT or RESEND_API_KEY.",
     };
   }
 
@@ -580,23 +563,17 @@ export async function sendDealInvitationEmail(params: {
 </html>
       `.trim();
 
-    const { data, error } = await resend.emails.send({
-      from: FROM_EMAIL,
+    const { messageId } = await transport.send({
       to: [recipientEmail],
       subject: `Action Required: Seal your agreement with ${deal.creatorName}`,
       html,
       text: `${deal.creatorName} has invited you to review and sign a new agreement on Proofo: ${invitationLink}`,
     });
 
-    if (error) {
-      logger.error("Resend error", error);
-      return { success: false, error: error.message };
-    }
-
     return {
       success: true,
       error: null,
-      emailId: data?.id,
+      emailId: messageId,
     };
   } catch (error) {
     logger.error("Email send error", error as Error);
@@ -19,7 +19,32 @@ const OPTIONAL_VARS = [
   "UPSTASH_REDIS_TOKEN",
   "RESEND_API_KEY",
   "RESEND_FROM_EMAIL",
+  "MAIL_TRANSPORT",
+  "MAIL_FROM",
+  "MAIL_CAPTURE_DIR",
+  "SMTP_HOST",
+  "SMTP_PORT",
+  "SMTP_SECURE",
+  "SMTP_USER",
+  "SMTP_PASSWORD",
   "NEXT_PUBLIC_APP_URL",
+  "SUPABASE_SERVICE_ROLE_KEY",
+  "CRON_SECRET",
+  "SEAL_SIGNING_KEY",
+  "SEAL_SIGNING_KEY_ID",
+  "SEAL_RETIRED_PUBLIC_KEYS",
+  "SEAL_SIGNATURES_REQUIRED_FROM",
+  "TSA_URL",
+  "ID_VERIFICATION_PROVIDER",
+  "SMS_PROVIDER",
+  "SMS_STATUS_CALLBACK_SECRET",
+  "SMS_OUTBOX_FILE",
+  "TWILIO_ACCOUNT_SID",
+  "TWILIO_AUTH_TOKEN",
+  "TWILIO_PHONE_NUMBER",
+  "VONAGE_API_KEY",
+  "VONAGE_API_SECRET",
+  "VONAGE_FROM",
 ] as const;
 
 type RequiredVar = typeof REQUIRED_VARS[number];
@@ -0,0 +1,101 @@
+/**
+ * ID Verification Providers (server-only)
+ *
+ * A provider checks a photo of an identity document and a selfie: that the
+ * document looks genuine and that the selfie shows the person on it. The
+ * provider is chosen with ID_VERIFICATION_PROVIDER; to add a vendor, implement
+ * IdVerificationProvider and register it in PROVIDERS. Without the variable,
+ * development builds use the local mock and production has no ID
+ * verification (deals can't be created at the Maximum trust level). The mock
+ * is refused in production even when named explicitly.
+ *
+ * The photos are only handed to the provider. Proofo keeps their SHA-256
+ * hashes, the provider's reference and the outcome, never the images.
+ */
+import { randomUUID } from "crypto";
+import { IdDocumentType } from "@/types";
+import { getOptionalEnv } from "./env";
+import { logger } from "./logger";
+
+export interface IdPhoto {
+  bytes: Uint8Array;
+  mimeType: string;
+}
+
+export interface IdVerificationRequest {
+  documentType: IdDocumentType;
+  document: IdPhoto;
+  selfie: IdPhoto;
+  /** Our reference for the check (the deal ID), passed on to the provider */
+  reference: string;
+}
+
+export interface IdVerificationResult {
+  verified: boolean;
+  /** The provider's ID for the check, to look it up in their records */
+  providerReference: string;
+  /** Full name read from the document, when the provider extracts it */
+  fullName?: string;
+  /** Why the check failed, suitable for showing to the recipient */
+  reason?: string;
+}
+
+export interface IdVerificationProvider {
+  /** Stored as the verification method, e.g. "mock" */
+  id: string;
+  name: string;
+  verify(request: IdVerificationRequest): Promise<IdVerificationResult>;
+}
+
+// Smaller than this, a photo can't show a readable document or face
+const MIN_PHOTO_BYTES = 4 * 1024;
+
+/**
+ * Development stand-in: accepts any document photo and selfie that are
+ * separate, reasonably sized images. It doesn't look at what they show.
+ */
+const mockProvider: IdVerificationProvider = {
+  id: "mock",
+  name: "Proofo Development ID Check",
+  async verify({ document, selfie }) {
+    const providerReference = `mock_${randomUUID()}`;
+
+    if (document.bytes.length < MIN_PHOTO_BYTES || selfie.bytes.length < MIN_PHOTO_BYTES) {
+      return { verified: false, providerReference, reason: "The photo is too small to read. Try again closer up." };
+    }
+    if (Buffer.from(document.bytes).equals(Buffer.from(selfie.bytes))) {
+      return { verified: false, providerReference, reason: "The selfie must be a separate photo of you" };
+    }
+
+    logger.debug("Accepted ID verification with the mock provider (ID_VERIFICATION_PROVIDER not set)");
+    return { verified: true, providerReference };
+  },
+};
+
+const PROVIDERS: Record<string, IdVerificationProvider> = {
+  mock: mockProvider,
+};
+
+/**
+ * The configured ID verification provider, or null when ID verification isn't
+ * available
+ */
+export function getIdVerificationProvider(): IdVerificationProvider | null {
+  const isProduction = process.env.NODE_ENV === "production";
+  const id = getOptionalEnv("ID_VERIFICATION_PROVIDER");
+  if (!id) {
+    return isProduction ? null : mockProvider;
+  }
+
+  const provider = PROVIDERS[id];
+  if (!provider) {
+    logger.error(`Unknown ID_VERIFICATION_PROVIDER "${id}"`);
+    return null;
+  }
+  // The mock accepts any pair of photos, so it can't stand in for a real check
+  if (provider === mockProvider && isProduction) {
+    logger.error('ID_VERIFICATION_PROVIDER "mock" is not allowed in production');
+    return null;
+  }
+  return provider;
+}
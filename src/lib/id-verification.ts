@@ -0,0 +1,77 @@
+/**
+ * Identity Document Verification
+ *
+ * Deals at the Maximum trust level ask the recipient, after email and phone,
+ * for a photo of an identity document and a selfie. The pair is checked by
+ * an ID verification provider (see id-verification-provider.ts); the outcome
+ * is recorded in `deal_verifications` with type "id" and sealed with the
+ * other verifications.
+ *
+ * The photo helpers run in the browser (they need a canvas).
+ */
+import { IdDocumentType } from "@/types";
+
+export const ID_DOCUMENT_LABELS: Record<IdDocumentType, string> = {
+  passport: "Passport",
+  id_card: "National ID card",
+  driving_licence: "Driving licence",
+};
+
+/** Image types accepted for the document photo and selfie */
+export const ID_PHOTO_TYPES = ["image/jpeg", "image/png", "image/webp"];
+
+/** Largest photo accepted by the server, after the browser has scaled it down */
+export const MAX_ID_PHOTO_SIZE = 2.5 * 1024 * 1024;
+
+// Longest side of a photo sent for verification: enough to read a document
+const MAX_PHOTO_DIMENSION = 1600;
+
+export function isIdDocumentType(value: unknown): value is IdDocumentType {
+  return typeof value === "string" && value in ID_DOCUMENT_LABELS;
+}
+
+/**
+ * Scale a camera frame or chosen image down and encode it as a JPEG data URL,
+ * ready to send for verification
+ */
+export async function prepareIdPhoto(source: Blob | HTMLVideoElement): Promise<string> {
+  let image: CanvasImageSource;
+  let width: number;
+  let height: number;
+  let bitmap: ImageBitmap | null = null;
+
+  if (source instanceof Blob) {
+    if (!ID_PHOTO_TYPES.includes(source.type)) {
+      throw new Error("Only PNG, JPEG and WebP images can be used");
+    }
+    bitmap = await createImageBitmap(source);
+    image = bitmap;
+    width = bitmap.width;
+    height = bitmap.height;
+  } else {
+    image = source;
+    width = source.videoWidth;
+    height = source.videoHeight;
+  }
+
+  if (!width || !height) throw new Error("The camera isn't ready yet");
+
+  const scale = Math.min(1, MAX_PHOTO_DIMENSION / Math.max(width, height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not supported in this browser");
+
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  bitmap?.close();
+
+  return canvas.toDataURL("image/jpeg", 0.88);
+}
+
+/**
+ * Shown instead of the verified value: the document type, never its number
+ */
+export function formatIdVerifiedValue(value: string | undefined): string {
+  return isIdDocumentType(value) ? ID_DOCUMENT_LABELS[value] : "Identity document";
+}
@@ -0,0 +1,250 @@
+/**
+ * Mail Transports (server-only)
+ *
+ * Invitations, receipts and verification codes are all sent through the
+ * transport chosen with MAIL_TRANSPORT: "resend", "smtp" or "capture".
+ * Without MAIL_TRANSPORT, Resend is used when RESEND_API_KEY is set and SMTP
+ * when SMTP_HOST is; otherwise development captures mail locally and
+ * production has no email (sending fails with an error).
+ *
+ * The capture transport keeps each message as a JSON file in
+ * MAIL_CAPTURE_DIR (.mail-capture by default), browsable at /dev/mail in
+ * development.
+ */
+import { mkdir, readdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+import { randomUUID } from "crypto";
+import { getOptionalEnv } from "./env";
+import { logger } from "./logger";
+
+export interface MailAttachment {
+  filename: string;
+  /** Base64-encoded file contents */
+  content: string;
+}
+
+export interface MailMessage {
+  to: string[];
+  subject: string;
+  html: string;
+  text: string;
+  attachments?: MailAttachment[];
+}
+
+export interface MailSendResult {
+  /** The transport's ID for the message */
+  messageId: string;
+}
+
+export interface MailTransport {
+  id: string;
+  name: string;
+  send(message: MailMessage): Promise<MailSendResult>;
+}
+
+/**
+ * Sender address for all mail. RESEND_FROM_EMAIL is still honoured from
+ * before MAIL_FROM existed.
+ */
+export function getMailFrom(): string {
+  return getOptionalEnv("MAIL_FROM") || getOptionalEnv("RESEND_FROM_EMAIL", "Proofo <onboarding@resend.dev>");
+}
+
+// ============================================
+// Resend
+// ============================================
+
+let resendClient: import("resend").Resend | null = null;
+
+async function getResendClient() {
+  if (!resendClient) {
+    const { Resend } = await import("resend");
+    resendClient = new Resend(getOptionalEnv("RESEND_API_KEY"));
+  }
+  return resendClient;
+}
+
+const resendTransport: MailTransport = {
+  id: "resend",
+  name: "Resend",
+  async send({ to, subject, html, text, attachments }) {
+    const client = await getResendClient();
+    const { data, error } = await client.emails.send({
+      from: getMailFrom(),
+      to,
+      subject,
+      html,
+      text,
+      ...(attachments && { attachments }),
+    });
+
+    if (error || !data) {
+      throw new Error(`Resend rejected the message: ${error?.message || "no message ID returned"}`);
+    }
+    return { messageId: data.id };
+  },
+};
+
+// ============================================
+// SMTP
+// ============================================
+
+let smtpClient: import("nodemailer").Transporter | null = null;
+
+async function getSmtpClient() {
+  if (!smtpClient) {
+    const nodemailer = (await import("nodemailer")).default;
+    const port = Number(getOptionalEnv("SMTP_PORT", "587"));
+    const user = getOptionalEnv("SMTP_USER");
+    smtpClient = nodemailer.createTransport({
+      host: getOptionalEnv("SMTP_HOST", "localhost"),
+      port,
+      // Implicit TLS on 465, STARTTLS (when offered) elsewhere
+      secure: getOptionalEnv("SMTP_SECURE") ? getOptionalEnv("SMTP_SECURE") === "true" : port === 465,
+      ...(user && { auth: { user, pass: getOptionalEnv("SMTP_PASSWORD") } }),
+    });
+  }
+  return smtpClient;
+}
+
+const smtpTransport: MailTransport = {
+  id: "smtp",
+  name: "SMTP",
+  async send({ to, subject, html, text, attachments }) {
+    const client = await getSmtpClient();
+    const info = await client.sendMail({
+      from: getMailFrom(),
+      to,
+      subject,
+      html,
+      text,
+      attachments: attachments?.map(({ filename, content }) => ({
+        filename,
+        content: Buffer.from(content, "base64"),
+      })),
+    });
+    return { messageId: info.messageId };
+  },
+};
+
+// ============================================
+// Capture (local development)
+// ============================================
+
+/** A message kept by the capture transport */
+export interface CapturedMail extends MailMessage {
+  id: string;
+  from: string;
+  capturedAt: string;
+}
+
+/** What the inbox lists for each captured message */
+export type CapturedMailSummary = Pick<CapturedMail, "id" | "from" | "to" | "subject" | "capturedAt"> & {
+  attachmentCount: number;
+};
+
+// Captured message IDs are UUIDs; anything else isn't a file we wrote
+const CAPTURED_ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+function getCaptureDir(): string {
+  return path.resolve(getOptionalEnv("MAIL_CAPTURE_DIR", ".mail-capture"));
+}
+
+const captureTransport: MailTransport = {
+  id: "capture",
+  name: "Local capture",
+  async send(message) {
+    const mail: CapturedMail = {
+      id: randomUUID(),
+      from: getMailFrom(),
+      capturedAt: new Date().toISOString(),
+      ...message,
+    };
+
+    const dir = getCaptureDir();
+    await mkdir(dir, { recursive: true });
+    await writeFile(path.join(dir, `${mail.id}.json`), JSON.stringify(mail));
+
+    logger.info(`[DEV MODE] Captured email to ${mail.to.join(", ")}: "${mail.subject}" (see /dev/mail)`);
+    return { messageId: mail.id };
+  },
+};
+
+/**
+ * Captured messages, newest first
+ */
+export async function listCapturedMail(): Promise<CapturedMailSummary[]> {
+  let files: string[];
+  try {
+    files = await readdir(getCaptureDir());
+  } catch {
+    // Nothing captured yet
+    return [];
+  }
+
+  const messages = await Promise.all(
+    files
+      .filter((file) => file.endsWith(".json"))
+      .map((file) => getCapturedMail(file.slice(0, -".json".length)))
+  );
+
+  return messages
+    .filter((mail): mail is CapturedMail => mail !== null)
+    .sort((a, b) => b.capturedAt.localeCompare(a.capturedAt))
+    .map(({ id, from, to, subject, capturedAt, attachments }) => ({
+      id,
+      from,
+      to,
+      subject,
+      capturedAt,
+      attachmentCount: attachments?.length ?? 0,
+    }));
+}
+
+/**
+ * A captured message by ID, or null if there isn't one
+ */
+export async function getCapturedMail(id: string): Promise<CapturedMail | null> {
+  if (!CAPTURED_ID_PATTERN.test(id)) return null;
+  try {
+    return JSON.parse(await readFile(path.join(getCaptureDir(), `${id}.json`), "utf8")) as CapturedMail;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Delete every captured message
+ */
+export async function clearCapturedMail(): Promise<void> {
+  await rm(getCaptureDir(), { recursive: true, force: true });
+}
+
+const TRANSPORTS: Record<string, MailTransport> = {
+  resend: resendTransport,
+  smtp: smtpTransport,
+  capture: captureTransport,
+};
+
+/**
+ * The transport that sends mail, or null when email isn't configured
+ */
+export function getMailTransport(): MailTransport | null {
+  const id = getOptionalEnv("MAIL_TRANSPORT");
+  if (id) {
+    const transport = Object.hasOwn(TRANSPORTS, id) ? TRANSPORTS[id] : null;
+    if (!transport) logger.error(`Unknown MAIL_TRANSPORT "${id}"`);
+    return transport;
+  }
+
+  if (getOptionalEnv("RESEND_API_KEY")) return resendTransport;
+  if (getOptionalEnv("SMTP_HOST")) return smtpTransport;
+  return process.env.NODE_ENV === "production" ? null : captureTransport;
+}
+
+/**
+ * Whether the captured mail inbox is available (development only)
+ */
+export function isMailCaptureEnabled(): boolean {
+  return process.env.NODE_ENV !== "production";
+}
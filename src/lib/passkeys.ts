@@ -0,0 +1,284 @@
+/**
+ * Passkey Signatures
+ *
+ * Registered users can bind passkeys (WebAuthn credentials) to their profile
+ * and, once a deal they're a party to is sealed, sign the seal with one. The
+ * signature is a WebAuthn assertion whose challenge is the seal itself, so it
+ * shows that whoever holds the passkey approved exactly this seal. Assertions
+ * are stored with the passkey's public key and checked with Web Crypto: on the
+ * server when they're recorded, and in the verifier's browser on /verify.
+ */
+import { PasskeyAlgorithm, PasskeySignature } from "@/types";
+import { ASN1_TAG, parseDer } from "./asn1";
+import { CborValue, decodeCbor, readCbor } from "./cbor";
+
+/** Algorithms requested when creating a passkey, in order of preference */
+export const PASSKEY_ALGORITHMS: PasskeyAlgorithm[] = [-7, -8, -257];
+
+/**
+ * - `valid`: the passkey signed this seal on the Proofo site it belongs to
+ * - `invalid`: the assertion doesn't match the seal, the site or the key
+ * - `unsupported`: this browser can't check the passkey's algorithm
+ */
+export type PasskeySignatureStatus = "valid" | "invalid" | "unsupported";
+
+// Authenticator data flags: user present, user verified, attested credential data included
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_ATTESTED_CREDENTIAL = 0x40;
+
+/**
+ * A new passkey as its authenticator reported it at registration
+ */
+export interface AttestedCredential {
+  /** SHA-256 of the RP ID the passkey was created for */
+  rpIdHash: Uint8Array;
+  /** The user was present and verified when creating it */
+  userVerified: boolean;
+  credentialId: Uint8Array;
+  algorithm: PasskeyAlgorithm;
+  publicKeyJwk: JsonWebKey;
+}
+
+export function bytesToBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+export function base64UrlToBytes(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/").padEnd(Math.ceil(value.length / 4) * 4, "=");
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * The WebAuthn challenge for signing a seal: the seal's hash bytes
+ */
+export function getPasskeyChallenge(seal: string): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(seal.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(seal.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+/**
+ * Whether this browser can create and use passkeys
+ */
+export function isPasskeySupported(): boolean {
+  return typeof window !== "undefined" && !!window.PublicKeyCredential && !!navigator.credentials;
+}
+
+/**
+ * Whether a WebAuthn origin belongs to the passkey's relying party (the RP ID
+ * itself or one of its subdomains). Only https origins count, apart from
+ * localhost during development.
+ */
+export function isOriginForRpId(origin: string, rpId: string): boolean {
+  try {
+    const { protocol, hostname } = new URL(origin);
+    const isSecure = protocol === "https:" || (protocol === "http:" && hostname === "localhost");
+    return isSecure && (hostname === rpId || hostname.endsWith(`.${rpId}`));
+  } catch {
+    return false;
+  }
+}
+
+// COSE key parameters (RFC 9053): kty, alg, then the key type's own labels
+const COSE = {
+  KTY: 1,
+  ALG: 3,
+  CRV: -1,
+  X: -2,
+  Y: -3,
+  RSA_N: -1,
+  RSA_E: -2,
+} as const;
+
+function coseKeyToJwk(coseKey: CborValue): { algorithm: PasskeyAlgorithm; jwk: JsonWebKey } {
+  if (!(coseKey instanceof Map)) {
+    throw new Error("Malformed credential public key");
+  }
+
+  const param = (label: number): string => {
+    const value = coseKey.get(label);
+    if (!(value instanceof Uint8Array)) {
+      throw new Error("Malformed credential public key");
+    }
+    return bytesToBase64Url(value);
+  };
+
+  const kty = coseKey.get(COSE.KTY);
+  const algorithm = coseKey.get(COSE.ALG);
+
+  // EC2 on P-256, OKP on Ed25519, RSA
+  if (algorithm === -7 && kty === 2 && coseKey.get(COSE.CRV) === 1) {
+    return { algorithm, jwk: { kty: "EC", crv: "P-256", x: param(COSE.X), y: param(COSE.Y) } };
+  }
+  if (algorithm === -8 && kty === 1 && coseKey.get(COSE.CRV) === 6) {
+    return { algorithm, jwk: { kty: "OKP", crv: "Ed25519", x: param(COSE.X) } };
+  }
+  if (algorithm === -257 && kty === 3) {
+    return { algorithm, jwk: { kty: "RSA", n: param(COSE.RSA_N), e: param(COSE.RSA_E) } };
+  }
+  throw new Error("Unsupported passkey algorithm");
+}
+
+/**
+ * Read the credential out of a WebAuthn attestation object.
+ *
+ * The public key comes from the authenticator data rather than from the
+ * browser's getPublicKey(), so the key that's stored is the one the
+ * authenticator created for this RP ID. The attestation statement itself
+ * isn't checked: Proofo asks for `none` attestation.
+ */
+export function parseAttestationObject(attestationObject: Uint8Array): AttestedCredential {
+  const attestation = decodeCbor(attestationObject);
+  const authData = attestation instanceof Map ? attestation.get("authData") : undefined;
+
+  // rpIdHash (32) | flags (1) | signCount (4) | aaguid (16) | credentialIdLength (2) | credentialId | COSE key
+  if (!(authData instanceof Uint8Array) || authData.length < 55) {
+    throw new Error("Malformed attestation object");
+  }
+
+  const flags = authData[32];
+  if (!(flags & FLAG_ATTESTED_CREDENTIAL)) {
+    throw new Error("Attestation object has no credential");
+  }
+
+  const credentialIdEnd = 55 + ((authData[53] << 8) | authData[54]);
+  if (credentialIdEnd > authData.length) {
+    throw new Error("Malformed attestation object");
+  }
+
+  const { algorithm, jwk } = coseKeyToJwk(readCbor(authData, credentialIdEnd).value);
+
+  return {
+    rpIdHash: authData.slice(0, 32),
+    userVerified: !!(flags & FLAG_USER_PRESENT) && !!(flags & FLAG_USER_VERIFIED),
+    credentialId: authData.slice(55, credentialIdEnd),
+    algorithm,
+    publicKeyJwk: jwk,
+  };
+}
+
+// WebAuthn returns ES256 signatures DER-encoded; Web Crypto wants r || s
+function ecdsaDerToRaw(signature: Uint8Array): Uint8Array<ArrayBuffer> {
+  const sequence = parseDer(signature);
+  const [r, s] = sequence.children;
+  if (sequence.tag !== ASN1_TAG.SEQUENCE || r?.tag !== ASN1_TAG.INTEGER || s?.tag !== ASN1_TAG.INTEGER) {
+    throw new Error("Malformed ECDSA signature");
+  }
+
+  const raw = new Uint8Array(64);
+  [r, s].forEach((integer, index) => {
+    let value = integer.value;
+    while (value.length > 32 && value[0] === 0) value = value.subarray(1);
+    if (value.length > 32) throw new Error("Malformed ECDSA signature");
+    raw.set(value, index * 32 + (32 - value.length));
+  });
+  return raw;
+}
+
+interface AlgorithmParams {
+  importParams: EcKeyImportParams | RsaHashedImportParams | Algorithm;
+  verifyParams: EcdsaParams | Algorithm;
+}
+
+const ALGORITHM_PARAMS: Record<PasskeyAlgorithm, AlgorithmParams> = {
+  [-7]: {
+    importParams: { name: "ECDSA", namedCurve: "P-256" },
+    verifyParams: { name: "ECDSA", hash: "SHA-256" },
+  },
+  [-8]: {
+    importParams: { name: "Ed25519" },
+    verifyParams: { name: "Ed25519" },
+  },
+  [-257]: {
+    importParams: { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+    verifyParams: { name: "RSASSA-PKCS1-v1_5" },
+  },
+};
+
+/**
+ * Check a passkey signature against a deal seal.
+ *
+ * Verifies that the assertion's challenge is the seal, that it was made on
+ * the passkey's site with the user present and verified, and that the
+ * passkey's key signed it. Uses Web Crypto, so it runs in the browser as
+ * well as on the server.
+ */
+export async function verifyPasskeySignature(
+  passkeySignature: PasskeySignature,
+  seal: string
+): Promise<PasskeySignatureStatus> {
+  const subtle = globalThis.crypto?.subtle;
+  const params = ALGORITHM_PARAMS[passkeySignature.algorithm];
+  if (!subtle || !params) return "unsupported";
+
+  let publicKey: CryptoKey;
+  try {
+    publicKey = await subtle.importKey(
+      "spki",
+      base64UrlToBytes(passkeySignature.publicKey),
+      params.importParams,
+      false,
+      ["verify"]
+    );
+  } catch {
+    // Older browsers don't implement Ed25519 in Web Crypto
+    return passkeySignature.algorithm === -8 ? "unsupported" : "invalid";
+  }
+
+  try {
+    const clientDataJSON = base64UrlToBytes(passkeySignature.clientDataJSON);
+    const clientData = JSON.parse(new TextDecoder().decode(clientDataJSON)) as {
+      type?: string;
+      challenge?: string;
+      origin?: string;
+    };
+    if (
+      clientData.type !== "webauthn.get" ||
+      clientData.challenge !== bytesToBase64Url(getPasskeyChallenge(seal)) ||
+      !clientData.origin ||
+      !isOriginForRpId(clientData.origin, passkeySignature.rpId)
+    ) {
+      return "invalid";
+    }
+
+    const authenticatorData = base64UrlToBytes(passkeySignature.authenticatorData);
+    if (authenticatorData.length < 37) return "invalid";
+
+    const rpIdHash = new Uint8Array(
+      await subtle.digest("SHA-256", new TextEncoder().encode(passkeySignature.rpId))
+    );
+    if (rpIdHash.some((byte, i) => byte !== authenticatorData[i])) return "invalid";
+
+    const flags = authenticatorData[32];
+    if (!(flags & FLAG_USER_PRESENT) || !(flags & FLAG_USER_VERIFIED)) return "invalid";
+
+    // The authenticator signs its data followed by the hash of the client data
+    const clientDataHash = new Uint8Array(await subtle.digest("SHA-256", clientDataJSON));
+    const signedData = new Uint8Array(authenticatorData.length + clientDataHash.length);
+    signedData.set(authenticatorData);
+    signedData.set(clientDataHash, authenticatorData.length);
+
+    const signature = base64UrlToBytes(passkeySignature.signature);
+    const valid = await subtle.verify(
+      params.verifyParams,
+      publicKey,
+      passkeySignature.algorithm === -7 ? ecdsaDerToRaw(signature) : signature,
+      signedData
+    );
+    return valid ? "valid" : "invalid";
+  } catch {
+    return "invalid";
+  }
+}
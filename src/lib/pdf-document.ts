@@ -0,0 +1,64 @@
+/**
+ * Uploaded PDF Documents (server-only)
+ *
+ * Checks for the PDF contracts creators upload on "sign a document" deals.
+ * There's no PDF parser in the bundle, so the page count is read straight
+ * from the file's page tree: plain objects first, then any compressed object
+ * streams. It's best effort; the viewer copes without one.
+ */
+import { inflateSync } from "zlib";
+
+/** True if the bytes start with a PDF header */
+export function isPdfFile(bytes: Uint8Array): boolean {
+  return Buffer.from(bytes.subarray(0, 5)).toString("latin1") === "%PDF-";
+}
+
+// The root page tree carries the highest /Count
+function readPageCount(text: string): number | undefined {
+  let count: number | undefined;
+  const pagesDict = /<<((?:(?!<<|>>)[\s\S])*?\/Type\s*\/Pages\b(?:(?!<<|>>)[\s\S])*?)>>/g;
+
+  for (const match of text.matchAll(pagesDict)) {
+    const value = match[1].match(/\/Count\s+(\d+)/);
+    if (value) {
+      count = Math.max(count ?? 0, parseInt(value[1], 10));
+    }
+  }
+
+  return count;
+}
+
+// Decompressed contents of the file's object streams (PDF 1.5+ keeps most objects in them)
+function* objectStreams(text: string, bytes: Buffer): Generator<string> {
+  const streamStart = /\/Type\s*\/ObjStm\b[\s\S]*?stream\r?\n/g;
+
+  for (const match of text.matchAll(streamStart)) {
+    const start = match.index + match[0].length;
+    const end = text.indexOf("endstream", start);
+    if (end === -1) continue;
+
+    try {
+      yield inflateSync(bytes.subarray(start, end)).toString("latin1");
+    } catch {
+      // Not Flate-encoded (or damaged); skip it
+    }
+  }
+}
+
+/**
+ * Number of pages in a PDF, or undefined if it can't be read
+ */
+export function countPdfPages(bytes: Uint8Array): number | undefined {
+  const buffer = Buffer.from(bytes);
+  const text = buffer.toString("latin1");
+
+  const count = readPageCount(text);
+  if (count) return count;
+
+  for (const objects of objectStreams(text, buffer)) {
+    const streamCount = readPageCount(objects);
+    if (streamCount) return streamCount;
+  }
+
+  return undefined;
+}
@@ -0,0 +1,81 @@
+/**
+ * Machine-readable Seal Data in PDFs
+ *
+ * Generated PDFs carry the deal, its seal inputs and the seal itself as XMP
+ * metadata, so a PDF dropped on /verify can be checked against the record
+ * without retyping the Deal ID. The payload is base64-encoded JSON, which keeps
+ * it free of XML escaping and readable with any PDF metadata tool.
+ */
+import { z } from "zod";
+import { Deal } from "@/types";
+import { DealSealInputs, getDealSealInputs } from "./crypto";
+import { base64ToBytes, bytesToBase64 } from "./asn1";
+
+/** XMP namespace the payload is stored under */
+export const PDF_SEAL_NAMESPACE = "https://proofo.app/ns/seal/1/";
+export const PDF_SEAL_FORMAT = "proofo-pdf-seal";
+
+export interface PdfSealData {
+  format: typeof PDF_SEAL_FORMAT;
+  version: 1;
+  deal: Deal;
+  /** Exactly what the seal was calculated from */
+  sealInputs: DealSealInputs;
+  dealSeal: string;
+}
+
+const pdfSealDataSchema = z.object({
+  format: z.literal(PDF_SEAL_FORMAT),
+  version: z.literal(1),
+  deal: z.looseObject({
+    id: z.string(),
+    publicId: z.string(),
+    title: z.string(),
+    terms: z.array(z.looseObject({ label: z.string(), value: z.string() })),
+    status: z.string(),
+    createdAt: z.string(),
+  }),
+  sealInputs: z.looseObject({ dealId: z.string(), timestamp: z.string() }),
+  dealSeal: z.string(),
+});
+
+/**
+ * Seal data for a sealed deal, encoded for `jsPDF.addMetadata`
+ */
+export function encodePdfSealData(deal: Deal & { dealSeal: string }): string {
+  // The access token grants signing access; it has no place in a shareable file
+  const { accessToken: _accessToken, ...sealedDeal } = deal;
+
+  const data: PdfSealData = {
+    format: PDF_SEAL_FORMAT,
+    version: 1,
+    deal: sealedDeal,
+    sealInputs: getDealSealInputs(deal),
+    dealSeal: deal.dealSeal,
+  };
+
+  return bytesToBase64(new TextEncoder().encode(JSON.stringify(data)));
+}
+
+/**
+ * Read the seal data from a PDF's bytes.
+ * Returns null if the PDF wasn't generated by Proofo (or predates seal data).
+ */
+export function extractPdfSealData(pdf: Uint8Array): PdfSealData | null {
+  // jsPDF writes the XMP stream uncompressed, so a byte-level search finds it
+  const text = new TextDecoder("latin1").decode(pdf);
+  const marker = `xmlns:jspdf="${PDF_SEAL_NAMESPACE}"><jspdf:metadata>`;
+  const start = text.indexOf(marker);
+  if (start === -1) return null;
+
+  const end = text.indexOf("</jspdf:metadata>", start);
+  if (end === -1) return null;
+
+  try {
+    const json = new TextDecoder().decode(base64ToBytes(text.slice(start + marker.length, end)));
+    const result = pdfSealDataSchema.safeParse(JSON.parse(json));
+    return result.success ? (result.data as unknown as PdfSealData) : null;
+  } catch {
+    return null;
+  }
+}
@@ -1,22 +1,48 @@
 import { jsPDF } from "jspdf";
-import { Deal } from "@/types";
-import { formatDateTime } from "./crypto";
+import QRCode from "qrcode";
+import {
+  AuditLogEntry,
+  BrandingProfile,
+  Deal,
+  DealAttachment,
+  DealDocument,
+  DealTerm,
+  SignatureMethod,
+  SignatureVector,
+  TermAcknowledgement,
+  VerificationType,
+} from "@/types";
+import { bytesToBase64 } from "./asn1";
+import { formatFileSize } from "./attachments";
+import { formatDateTime, sha256Hex } from "./crypto";
+import { PDF_SEAL_NAMESPACE, encodePdfSealData } from "./pdf-seal-data";
+import { SIGNATURE_METHOD_LABELS } from "./signature-image";
+import { getStrokeBounds, getStrokeSegments } from "./signature-strokes";
+import { formatIdVerifiedValue } from "./id-verification";
+import { getAcknowledgementsForTerm } from "./term-acknowledgements";
+import { addPdfAMetadata, embedPdfAFonts } from "./pdfa";
 
 /**
  * PDF Generation utility for Proofo deal receipts
  * Creates professional cryptographic-grade PDF documents with:
  * - Proofo branding header
  * - Deal terms formatted nicely
- * - Signature image embedded
+ * - Signature embedded (drawn as vector strokes when they were recorded)
  * - Cryptographic seal (SHA-256 hash)
- * - Verification link with QR placeholder
+ * - RFC 3161 timestamp token, when the seal was timestamped
+ * - Verification link and a scannable QR code for it
+ * - The creator's branding (logo, accent colour, footer, legal text) on paid plans
  * - Timestamp and metadata
+ * - Verification records, an audit trail appendix and numbered pages
+ * - Optionally, PDF/A-2b output for long-term archiving (see `pdfa.ts`)
  */
 
 // --- PDF Theme Utilities ---
 
 type ThemeType = "light" | "dark";
 
+export type PDFFormat = "standard" | "pdfa";
+
 interface ThemeColors {
   background: string;
   card: string;
@@ -59,6 +85,20 @@ const PAGE = {
   contentWidth: 170, // 210 - 2 * 20
 };
 
+// Footer block on the last page, anchored to the bottom margin
+const FOOTER = {
+  height: 35,
+  qrSize: 28,
+  // Top of the footer, including the QR code that rises above the text
+  top: PAGE.height - PAGE.margin - 35 - 5,
+};
+
+// Lowest point of page content; the page number and Deal ID sit below it
+const CONTENT_BOTTOM = PAGE.height - PAGE.margin;
+
+// Label plus card, see drawSignatureCard
+const SIGNATURE_CARD_HEIGHT = 55;
+
 // Typography constants
 const FONTS = {
   header: {
@@ -90,9 +130,17 @@ const FONTS = {
 interface GeneratePDFOptions {
   deal: Deal;
   signatureDataUrl?: string;
+  /** Data URLs to draw in place of signature image URLs, e.g. from a verification bundle */
+  signatureImages?: Record<string, string>;
   isPro?: boolean;
+  /** The deal creator's branding profile (see getDealBrandingAction) */
+  branding?: BrandingProfile | null;
   verificationUrl?: string;
   theme?: ThemeType;
+  /** Render as PDF/A-2b, with embedded fonts (browser only) */
+  pdfa?: boolean;
+  /** Audit trail to append; omitted when empty */
+  auditLog?: AuditLogEntry[];
 }
 
 /**
@@ -100,20 +148,26 @@ interface GeneratePDFOptions {
  *
  * This function constructs a multi-section PDF containing Branding, Deal Overview,
  * Terms and Conditions, and the Recipient Signature. It also embeds a
- * cryptographic seal (SHA-256 hash) and a verification link.
+ * cryptographic seal (SHA-256 hash) and a verification link, plus the deal and
+ * its seal inputs as machine-readable metadata (see `pdf-seal-data.ts`).
  *
  * Supports:
  * - Light and Dark themes.
  * - Pro vs. Free branding (Free includes "PROOFO FREE" watermark).
- * - Automatic page breaks for long terms.
+ * - Automatic page breaks for long descriptions and terms, with numbered pages.
+ * - Verification records and an audit trail appendix.
  * - Base64 and Blob outputs.
  *
  * @param {GeneratePDFOptions} options - Configuration options for the PDF.
  * @param {Deal} options.deal - The deal object containing terms and metadata.
  * @param {string} [options.signatureDataUrl] - The base64 signature image.
+ * @param {Record<string, string>} [options.signatureImages] - Embedded images for signature URLs.
  * @param {boolean} [options.isPro] - Whether to remove watermarks for Pro users.
+ * @param {BrandingProfile} [options.branding] - Creator branding; branded PDFs carry no watermark.
  * @param {string} [options.verificationUrl] - Custom URL for the "Verify" link.
  * @param {ThemeType} [options.theme] - "light" or "dark" theme (default: light).
+ * @param {boolean} [options.pdfa] - Produce a PDF/A-2b file for long-term archiving.
+ * @param {AuditLogEntry[]} [options.auditLog] - Audit trail to list in an appendix.
  *
  * @returns {Promise<{ pdfBlob: Blob, pdfBase64: string }>} The generated PDF as both Blob and Base64.
  */
@@ -121,17 +175,36 @@ export async function generateDealPDF(options: GeneratePDFOptions): Promise<{
   pdfBlob: Blob;
   pdfBase64: string;
 }> {
-  const { deal, signatureDataUrl, isPro = false, verificationUrl, theme = "light" } = options;
-
-  const colors = THEMES[theme];
+  const {
+    deal,
+    signatureDataUrl,
+    signatureImages,
+    isPro = false,
+    branding,
+    verificationUrl,
+    theme = "light",
+    pdfa = false,
+    auditLog,
+  } = options;
+  const imageFor = (url: string) => signatureImages?.[url] || url;
+
+  // Branding swaps the primary accent for the creator's colour
+  const colors = branding?.accentColor ? { ...THEMES[theme], primary: branding.accentColor } : THEMES[theme];
+  const logoDataUrl = branding?.logoUrl ? await loadImageDataUrl(branding.logoUrl) : null;
 
   // Create new PDF document
   const doc = new jsPDF({
     orientation: "portrait",
     unit: "mm",
     format: "a4",
+    // PDF/A: only the embedded fonts may be written, not the standard 14
+    putOnlyUsedFonts: pdfa,
   });
 
+  if (pdfa) {
+    await embedPdfAFonts(doc);
+  }
+
   // Set background color
   doc.setFillColor(colors.background);
   doc.rect(0, 0, PAGE.width, PAGE.height, "F");
@@ -139,42 +212,119 @@ export async function generateDealPDF(options: GeneratePDFOptions): Promise<{
   let yPosition = PAGE.margin;
 
   // === HEADER SECTION ===
-  void drawHeader(doc, yPosition, isPro, colors);
+  void drawHeader(doc, yPosition, colors, branding, logoDataUrl);
   yPosition += 25;
 
   // === DEAL CARD ===
+  // Long descriptions continue on the following pages
   yPosition = drawDealCard(doc, yPosition, deal, colors);
 
   // === TERMS CARD ===
-  // Check if we need a new page for terms
-  if (yPosition > PAGE.height - 100) {
-    doc.addPage();
-    doc.setFillColor(colors.background);
-    doc.rect(0, 0, PAGE.width, PAGE.height, "F");
-    yPosition = PAGE.margin;
+  // Document deals are signed on the uploaded PDF instead of listed terms
+  if (deal.document) {
+    yPosition = drawDocumentCard(doc, yPosition, deal.document, colors);
+  }
+  if (!deal.document || deal.terms.length > 0) {
+    yPosition = drawTermsCard(doc, yPosition, deal, colors);
+  }
+
+  // === ATTACHMENTS ===
+  if (deal.attachments?.length) {
+    yPosition = drawAttachmentsCard(doc, yPosition, deal.attachments, colors);
   }
-  yPosition = drawTermsCard(doc, yPosition, deal, colors);
 
   // === SIGNATURE CARD ===
-  if (signatureDataUrl || deal.signatureUrl) {
-    // Check page break
-    if (yPosition > PAGE.height - 60) {
-      doc.addPage();
-      doc.setFillColor(colors.background);
-      doc.rect(0, 0, PAGE.width, PAGE.height, "F");
-      yPosition = PAGE.margin;
+  if (deal.signers?.length) {
+    // Multi-party deals: one card per signer that has signed
+    for (const signer of deal.signers) {
+      if (!signer.signatureUrl) continue;
+      yPosition = ensureSpace(doc, yPosition, SIGNATURE_CARD_HEIGHT, colors);
+
+      yPosition = await drawSignatureCard(
+        doc,
+        yPosition,
+        imageFor(signer.signatureUrl),
+        colors,
+        `SIGNATURE - ${signer.name.toUpperCase()}`,
+        signer.signatureMethod,
+        signer.signatureVector
+      );
     }
+  } else if (signatureDataUrl || deal.signatureUrl) {
+    yPosition = ensureSpace(doc, yPosition, SIGNATURE_CARD_HEIGHT, colors);
+
+    yPosition = await drawSignatureCard(
+      doc,
+      yPosition,
+      imageFor(signatureDataUrl || deal.signatureUrl || ""),
+      colors,
+      undefined,
+      deal.signatureMethod,
+      deal.signatureVector
+    );
+  }
+
+  // Creator counter-signature
+  if (deal.creatorSignatureUrl) {
+    yPosition = ensureSpace(doc, yPosition, SIGNATURE_CARD_HEIGHT, colors);
 
     yPosition = await drawSignatureCard(
       doc,
       yPosition,
-      signatureDataUrl || deal.signatureUrl || "",
-      colors
+      imageFor(deal.creatorSignatureUrl),
+      colors,
+      "CREATOR SIGNATURE",
+      deal.creatorSignatureMethod,
+      deal.creatorSignatureVector
     );
   }
 
+  // === VERIFICATION RECORDS ===
+  if (deal.verifications?.length) {
+    yPosition = drawVerificationsCard(doc, yPosition, deal.verifications, colors);
+  }
+
+  // === LEGAL BOILERPLATE ===
+  if (branding?.legalText) {
+    yPosition = drawLegalCard(doc, yPosition, branding.legalText, colors);
+  }
+
+  // === TRUSTED TIMESTAMP ===
+  if (deal.timestampToken) {
+    yPosition = drawTimestampCard(doc, yPosition, deal, colors);
+  }
+
   // === SEAL & FOOTER ===
-  drawSealAndFooter(doc, deal, verificationUrl, isPro, colors);
+  // The footer has a fixed spot on the last page, so content must end above it
+  if (yPosition > FOOTER.top) {
+    addThemedPage(doc, colors);
+  }
+  drawSealAndFooter(doc, deal, verificationUrl, isPro || !!branding, colors, branding?.footerText, !pdfa);
+
+  // === SIGNATURE CERTIFICATE ===
+  if (deal.document) {
+    drawSignatureCertificate(doc, deal, deal.document, verificationUrl, colors);
+  }
+
+  // === APPENDIX: AUDIT TRAIL ===
+  if (auditLog?.length) {
+    drawAuditAppendix(doc, auditLog, colors);
+  }
+
+  // === PAGE FOOTERS ===
+  drawPageFooters(doc, deal, colors);
+
+  // === EMBEDDED SEAL DATA ===
+  const sealData = deal.dealSeal ? encodePdfSealData({ ...deal, dealSeal: deal.dealSeal }) : null;
+  const properties = { title: deal.title, subject: "Sealed agreement", creator: "Proofo", keywords: deal.dealSeal || "" };
+  if (pdfa) {
+    addPdfAMetadata(doc, { ...properties, dealId: deal.publicId, dealSeal: deal.dealSeal, sealData });
+  } else {
+    doc.setProperties(properties);
+    if (sealData) {
+      doc.addMetadata(sealData, PDF_SEAL_NAMESPACE);
+    }
+  }
 
   // Generate outputs
   const pdfBlob = doc.output("blob");
@@ -186,12 +336,37 @@ export async function generateDealPDF(options: GeneratePDFOptions): Promise<{
 /**
  * Draw the minimal header
  */
-function drawHeader(doc: jsPDF, y: number, isPro: boolean, colors: ThemeColors): number {
+function drawHeader(
+  doc: jsPDF,
+  y: number,
+  colors: ThemeColors,
+  branding?: BrandingProfile | null,
+  logoDataUrl?: string | null
+): number {
   // Logo / Brand Name
+  let nameX = PAGE.margin;
+  if (logoDataUrl) {
+    try {
+      // Fit within 40 x 12mm, keeping the aspect ratio
+      const { width, height } = doc.getImageProperties(logoDataUrl);
+      const scale = Math.min(40 / width, 12 / height);
+      const format = logoDataUrl.startsWith("data:image/png") ? "PNG" : "JPEG";
+      doc.addImage(logoDataUrl, format, PAGE.margin, y, width * scale, height * scale, undefined, "FAST");
+      nameX += width * scale + 4;
+    } catch {
+      // Unreadable logo: fall back to the name alone
+    }
+  }
+
   doc.setTextColor(colors.primary);
-  doc.setFontSize(FONTS.header.size);
   doc.setFont("helvetica", "bold");
-  doc.text("Proofo.", PAGE.margin, y + 8);
+  if (branding?.companyName) {
+    doc.setFontSize(nameX > PAGE.margin ? FONTS.title.size : FONTS.header.size);
+    doc.text(branding.companyName, nameX, y + 8);
+  } else if (nameX === PAGE.margin) {
+    doc.setFontSize(FONTS.header.size);
+    doc.text("Proofo.", PAGE.margin, y + 8);
+  }
 
   // Document Label
   doc.setFontSize(10);
@@ -205,197 +380,248 @@ function drawHeader(doc: jsPDF, y: number, isPro: boolean, colors: ThemeColors):
 }
 
 /**
- * Draw the Deal Overview Card
+ * Start a new page with the theme background. Returns the y to continue from.
  */
-function drawDealCard(doc: jsPDF, y: number, deal: Deal, colors: ThemeColors): number {
-  // Title Label
-  doc.setFontSize(9);
-  doc.setFont("helvetica", "bold");
-  doc.setTextColor(colors.textMuted);
-  doc.text("DEAL OVERVIEW", PAGE.margin, y);
-  y += 5;
-
-  // Draw Card Background (placeholder height, will redraw)
-  // We'll calculate height after content
-  const contentStartY = y;
-  let currentY = contentStartY + 10;
-
-  // --- Content Calculation ---
-
-  // Deal Title
-  doc.setFontSize(18);
-  doc.setFont("helvetica", "bold");
-  doc.setTextColor(colors.text);
-  doc.text(deal.title, PAGE.margin + 6, currentY);
-  currentY += 8;
+function addThemedPage(doc: jsPDF, colors: ThemeColors): number {
+  doc.addPage();
+  doc.setFillColor(colors.background);
+  doc.rect(0, 0, PAGE.width, PAGE.height, "F");
+  return PAGE.margin;
+}
 
-  // Deal Description
-  if (deal.description) {
-    doc.setFontSize(10);
-    doc.setFont("helvetica", "normal");
-    doc.setTextColor(colors.textSecondary);
-    const descLines = doc.splitTextToSize(deal.description, PAGE.contentWidth - 12);
-    doc.text(descLines, PAGE.margin + 6, currentY);
-    currentY += descLines.length * 4 + 6;
-  } else {
-    currentY += 4;
-  }
+/**
+ * Move to a new page unless `height` mm still fit above the page footer
+ */
+function ensureSpace(doc: jsPDF, y: number, height: number, colors: ThemeColors): number {
+  return y + height > CONTENT_BOTTOM ? addThemedPage(doc, colors) : y;
+}
 
-  // Divider
-  doc.setDrawColor(colors.border);
-  doc.setLineWidth(0.2);
-  doc.line(PAGE.margin + 6, currentY, PAGE.width - PAGE.margin - 6, currentY);
-  currentY += 8;
+// One line (or other unbreakable piece) of a card's content
+interface CardRow {
+  height: number;
+  draw: (y: number) => void;
+}
 
-  // Parties Grid (Simple 2-column)
-  const colWidth = (PAGE.contentWidth - 12) / 2;
+/**
+ * Draw a labelled card row by row, continuing it on the next page (with the
+ * label repeated) wherever it doesn't fit. Rows themselves are never split.
+ */
+function drawFlowingCard(
+  doc: jsPDF,
+  y: number,
+  label: string,
+  rows: CardRow[],
+  colors: ThemeColors,
+  padding = { top: 8, bottom: 4 }
+): number {
+  let index = 0;
 
-  // Key: Creator
-  doc.setFontSize(8);
-  doc.setFont("helvetica", "bold");
-  doc.setTextColor(colors.textMuted);
-  doc.text("CREATOR", PAGE.margin + 6, currentY);
+  while (index < rows.length) {
+    // The label must stay with at least the first row
+    y = ensureSpace(doc, y, 5 + padding.top + rows[index].height + padding.bottom, colors);
 
-  doc.setFontSize(11);
-  doc.setFont("helvetica", "normal");
-  doc.setTextColor(colors.text);
-  doc.text(deal.creatorName, PAGE.margin + 6, currentY + 6);
-
-  // Key: Recipient
-  doc.text("RECIPIENT", PAGE.margin + 6 + colWidth, currentY);
+    doc.setFontSize(9);
+    doc.setFont("helvetica", "bold");
+    doc.setTextColor(colors.textMuted);
+    doc.text(index === 0 ? label : `${label} (CONTINUED)`, PAGE.margin, y);
+    y += 5;
+
+    // Take as many rows as fit on this page
+    let end = index;
+    let cardHeight = padding.top + padding.bottom;
+    while (end < rows.length && (end === index || y + cardHeight + rows[end].height <= CONTENT_BOTTOM)) {
+      cardHeight += rows[end].height;
+      end++;
+    }
 
-  doc.setFontSize(11);
-  doc.setFont("helvetica", "normal");
-  doc.setTextColor(colors.text);
-  doc.text(deal.recipientName || "—", PAGE.margin + 6 + colWidth, currentY + 6);
+    // jsPDF paints in order, so the background goes first
+    doc.setFillColor(colors.card);
+    doc.setDrawColor(colors.border);
+    doc.setLineWidth(0.3);
+    doc.roundedRect(PAGE.margin, y, PAGE.contentWidth, cardHeight, 3, 3, "FD");
 
-  currentY += 16;
+    let rowY = y + padding.top;
+    for (const row of rows.slice(index, end)) {
+      row.draw(rowY);
+      rowY += row.height;
+    }
 
-  // --- Draw Card Rect ---
-  const cardHeight = currentY - contentStartY;
-  doc.setFillColor(colors.card);
-  doc.setDrawColor(colors.border);
-  doc.setLineWidth(0.3); // Subtle border
+    y += cardHeight;
+    index = end;
+    if (index < rows.length) {
+      y = addThemedPage(doc, colors);
+    }
+  }
 
-  // We draw the rect BEHIND the text by moving up the logic or just redrawing (painful in jsPDF).
-  // Better approach: calculate height first then draw.
-  // Since we already calculated 'currentY', let's draw the rect now at z-index -1 logic...
-  // jsPDF paints painter's algorithm. So we must draw rect FIRST.
-  // Re-running the paint logic is safest.
+  return y + 12; // Return bottom + gap
+}
 
-  // Reset Y for drawing
-  const cardY = contentStartY;
-  doc.roundedRect(PAGE.margin, cardY, PAGE.contentWidth, cardHeight, 3, 3, "FD");
+/**
+ * Rows for wrapped text, one per line
+ */
+function textRows(
+  doc: jsPDF,
+  text: string,
+  width: number,
+  font: { size: number; style: string },
+  color: string,
+  lineHeight: number
+): CardRow[] {
+  doc.setFontSize(font.size);
+  doc.setFont("helvetica", font.style);
+  const lines: string[] = doc.splitTextToSize(text, width);
+
+  return lines.map((line) => ({
+    height: lineHeight,
+    draw: (y) => {
+      doc.setFontSize(font.size);
+      doc.setFont("helvetica", font.style);
+      doc.setTextColor(color);
+      doc.text(line, PAGE.margin + 6, y + lineHeight * 0.75);
+    },
+  }));
+}
 
-  // Re-draw Text (Yes, duplicate code, but cleaner than complex layout engines for raw jsPDF)
-  let drawY = cardY + 10;
+const spacerRow = (height: number): CardRow => ({ height, draw: () => {} });
 
-  // Title
-  doc.setFontSize(18);
-  doc.setFont("helvetica", "bold");
-  doc.setTextColor(colors.text);
-  doc.text(deal.title, PAGE.margin + 6, drawY);
-  drawY += 8;
+/**
+ * Draw the Deal Overview Card
+ */
+function drawDealCard(doc: jsPDF, y: number, deal: Deal, colors: ThemeColors): number {
+  const innerWidth = PAGE.contentWidth - 12;
+  const colWidth = innerWidth / 2;
+  // Multi-party deals list every signer instead of a single recipient
+  const recipientLabel = deal.signers?.length ? "SIGNERS" : "RECIPIENT";
+  const recipientValue = deal.signers?.length
+    ? deal.signers.map((s) => s.name).join(", ")
+    : deal.recipientName || "—";
+
+  const rows: CardRow[] = [
+    // Deal Title
+    ...textRows(doc, deal.title, innerWidth, { size: 18, style: "bold" }, colors.text, 7.5),
+    spacerRow(2),
+  ];
 
-  // Description
+  // Deal Description
   if (deal.description) {
-    doc.setFontSize(10);
-    doc.setFont("helvetica", "normal");
-    doc.setTextColor(colors.textSecondary);
-    const descLines = doc.splitTextToSize(deal.description, PAGE.contentWidth - 12);
-    doc.text(descLines, PAGE.margin + 6, drawY);
-    drawY += descLines.length * 4 + 6;
-  } else {
-    drawY += 4;
+    rows.push(...textRows(doc, deal.description, innerWidth, FONTS.body, colors.textSecondary, 4.5), spacerRow(2));
   }
 
   // Divider
-  doc.setDrawColor(colors.border);
-  doc.line(PAGE.margin + 6, drawY, PAGE.width - PAGE.margin - 6, drawY);
-  drawY += 8;
-
-  // Parties
-  doc.setFontSize(8);
-  doc.setFont("helvetica", "bold");
-  doc.setTextColor(colors.textMuted);
-  doc.text("CREATOR", PAGE.margin + 6, drawY);
-  doc.text("RECIPIENT", PAGE.margin + 6 + colWidth, drawY);
+  rows.push({
+    height: 8,
+    draw: (rowY) => {
+      doc.setDrawColor(colors.border);
+      doc.setLineWidth(0.2);
+      doc.line(PAGE.margin + 6, rowY + 3, PAGE.width - PAGE.margin - 6, rowY + 3);
+    },
+  });
 
+  // Parties (simple 2-column grid)
   doc.setFontSize(11);
   doc.setFont("helvetica", "normal");
-  doc.setTextColor(colors.text);
-  doc.text(deal.creatorName, PAGE.margin + 6, drawY + 6);
-  doc.text(deal.recipientName || "—", PAGE.margin + 6 + colWidth, drawY + 6);
+  const creatorLines: string[] = doc.splitTextToSize(deal.creatorName, colWidth - 4);
+  const recipientLines: string[] = doc.splitTextToSize(recipientValue, colWidth - 4);
+  rows.push({
+    height: 8 + Math.max(creatorLines.length, recipientLines.length) * 4.5,
+    draw: (rowY) => {
+      doc.setFontSize(8);
+      doc.setFont("helvetica", "bold");
+      doc.setTextColor(colors.textMuted);
+      doc.text("CREATOR", PAGE.margin + 6, rowY + 2);
+      doc.text(recipientLabel, PAGE.margin + 6 + colWidth, rowY + 2);
+
+      doc.setFontSize(11);
+      doc.setFont("helvetica", "normal");
+      doc.setTextColor(colors.text);
+      doc.text(creatorLines, PAGE.margin + 6, rowY + 8);
+      doc.text(recipientLines, PAGE.margin + 6 + colWidth, rowY + 8);
+    },
+  });
 
-  return cardY + cardHeight + 12; // Return bottom + gap
+  return drawFlowingCard(doc, y, "DEAL OVERVIEW", rows, colors, { top: 5, bottom: 4 });
 }
 
 /**
  * Draw Terms Card
  */
-function drawTermsCard(doc: jsPDF, y: number, deal: Deal, colors: ThemeColors): number {
-  // Label area
-  doc.setFontSize(9);
-  doc.setFont("helvetica", "bold");
-  doc.setTextColor(colors.textMuted);
-  doc.text("TERMS AND CONDITIONS", PAGE.margin, y);
-  y += 5;
-
-  if (deal.terms.length === 0) return y;
-
-  const cardStartY = y;
-  let currentY = cardStartY + 8;
-  const termLabelWidth = 60;
-  const termValueWidth = PAGE.contentWidth - 12 - termLabelWidth;
+// "Initialled JD by Jane Smith, <time>" for each response to a marked term
+function signOffLines(term: DealTerm, acknowledgements: TermAcknowledgement[] | undefined): string[] {
+  const responses = getAcknowledgementsForTerm(acknowledgements, term.id);
+  if (responses.length === 0) {
+    return [term.requirement === "initial" ? "Must be initialled" : "Must be acknowledged"];
+  }
 
-  // Pre-calculate height
-  let totalHeight = 16; // Padding top/bottom
-  const lineHeights: number[] = [];
+  return responses.map((response) =>
+    response.kind === "initial"
+      ? `Initialled "${response.initials}" by ${response.signerName}, ${formatDateTime(response.acknowledgedAt)}`
+      : `Acknowledged by ${response.signerName}, ${formatDateTime(response.acknowledgedAt)}`
+  );
+}
 
-  deal.terms.forEach((term) => {
-    doc.setFontSize(10);
+function drawTermsCard(doc: jsPDF, y: number, deal: Deal, colors: ThemeColors): number {
+  if (deal.terms.length === 0) {
+    // Label only
+    y = ensureSpace(doc, y, 5, colors);
+    doc.setFontSize(9);
     doc.setFont("helvetica", "bold");
-    const valueLines = doc.splitTextToSize(term.value, termValueWidth);
-    const h = Math.max(valueLines.length * 5, 6) + 6; // +6 for padding
-    lineHeights.push(h);
-    totalHeight += h;
-  });
-
-  // Draw Background
-  doc.setFillColor(colors.card);
-  doc.setDrawColor(colors.border);
-  doc.setLineWidth(0.3);
-  doc.roundedRect(PAGE.margin, cardStartY, PAGE.contentWidth, totalHeight - 8, 3, 3, "FD"); // -8 adjustment
+    doc.setTextColor(colors.textMuted);
+    doc.text("TERMS AND CONDITIONS", PAGE.margin, y);
+    return y + 5;
+  }
 
-  // Draw Content
-  currentY = cardStartY + 8;
-  deal.terms.forEach((term, idx) => {
-    const h = lineHeights[idx];
+  const termLabelWidth = 60;
+  const termValueWidth = PAGE.contentWidth - 12 - termLabelWidth;
 
-    // Label
+  // A row per line, so long (textarea) values can break across pages
+  const rows = deal.terms.flatMap((term): CardRow[] => {
     doc.setFontSize(9);
     doc.setFont("helvetica", "normal");
-    doc.setTextColor(colors.textMuted);
-    doc.text(term.label, PAGE.margin + 6, currentY + 4);
-
-    // Value
+    const labelLines: string[] = doc.splitTextToSize(term.label, termLabelWidth - 4);
     doc.setFontSize(10);
-    doc.setFont("helvetica", "bold"); // Bold for premium feel on values
-    doc.setTextColor(colors.text);
-    const valueLines = doc.splitTextToSize(term.value, termValueWidth);
-    doc.text(valueLines, PAGE.margin + 6 + termLabelWidth, currentY + 4);
-
-    // Divider line below (unless last)
-    if (idx < deal.terms.length - 1) {
-      doc.setDrawColor(colors.border);
-      doc.setLineWidth(0.1);
-      //  doc.line(PAGE.margin + 6, currentY + h - 3, PAGE.width - PAGE.margin - 6, currentY + h - 3);
-    }
+    doc.setFont("helvetica", "bold");
+    const valueLines: string[] = doc.splitTextToSize(term.value, termValueWidth);
+
+    // Marked terms list who initialled/acknowledged them, under the value
+    const signOffs = term.requirement ? signOffLines(term, deal.termAcknowledgements) : [];
+    const signOffRows = signOffs.map(
+      (line, i): CardRow => ({
+        height: i === signOffs.length - 1 ? 10 : 4,
+        draw: (rowY) => {
+          doc.setFontSize(7);
+          doc.setFont("helvetica", "normal");
+          doc.setTextColor(colors.textSecondary);
+          doc.text(line, PAGE.margin + 6 + termLabelWidth, rowY + 3);
+        },
+      })
+    );
 
-    currentY += h;
+    const lineCount = Math.max(labelLines.length, valueLines.length, 1);
+    const termRows = Array.from({ length: lineCount }, (_, i) => ({
+      height: i === lineCount - 1 && signOffRows.length === 0 ? 11 : 5, // Padding after the last line
+      draw: (rowY: number) => {
+        // Label
+        if (labelLines[i]) {
+          doc.setFontSize(9);
+          doc.setFont("helvetica", "normal");
+          doc.setTextColor(colors.textMuted);
+          doc.text(labelLines[i], PAGE.margin + 6, rowY + 4);
+        }
+
+        // Value
+        if (valueLines[i]) {
+          doc.setFontSize(10);
+          doc.setFont("helvetica", "bold"); // Bold for premium feel on values
+          doc.setTextColor(colors.text);
+          doc.text(valueLines[i], PAGE.margin + 6 + termLabelWidth, rowY + 4);
+        }
+      },
+    }));
+
+    return [...termRows, ...signOffRows];
   });
 
-  return currentY + 8;
+  return drawFlowingCard(doc, y, "TERMS AND CONDITIONS", rows, colors, { top: 8, bottom: 2 });
 }
 
 /**
@@ -405,13 +631,16 @@ async function drawSignatureCard(
   doc: jsPDF,
   y: number,
   signatureUrl: string,
-  colors: ThemeColors
+  colors: ThemeColors,
+  label = "SIGNATURE",
+  method?: SignatureMethod,
+  vector?: SignatureVector
 ): Promise<number> {
   // Label
   doc.setFontSize(9);
   doc.setFont("helvetica", "bold");
   doc.setTextColor(colors.textMuted);
-  doc.text("SIGNATURE", PAGE.margin, y);
+  doc.text(label, PAGE.margin, y);
   y += 5;
 
   const cardHeight = 50;
@@ -422,6 +651,16 @@ async function drawSignatureCard(
   doc.setLineWidth(0.3);
   doc.roundedRect(PAGE.margin, y, PAGE.contentWidth, cardHeight, 3, 3, "FD");
 
+  // How the signature was made (not recorded on older deals)
+  if (method) {
+    doc.setFontSize(7);
+    doc.setFont("helvetica", "bold");
+    doc.setTextColor(colors.textMuted);
+    doc.text(`${SIGNATURE_METHOD_LABELS[method].toUpperCase()} SIGNATURE`, PAGE.margin + PAGE.contentWidth - 6, y + 7, {
+      align: "right",
+    });
+  }
+
   // Signature Content
   const boxX = PAGE.margin + 6;
   const boxY = y + 6;
@@ -429,7 +668,9 @@ async function drawSignatureCard(
   const boxH = cardHeight - 12;
 
   try {
-    if (signatureUrl.startsWith("data:image")) {
+    if (vector && drawSignatureStrokes(doc, vector, boxX, boxY, boxW < 100 ? boxW : 100, boxH, colors)) {
+      // Drawn from the recorded strokes
+    } else if (signatureUrl.startsWith("data:image")) {
       // Embed image
       doc.addImage(
         signatureUrl,
@@ -457,6 +698,485 @@ async function drawSignatureCard(
   return y + cardHeight + 12;
 }
 
+/**
+ * Draw a signature's recorded strokes as vector lines, scaled to fit the box
+ * and left-aligned like the image. Returns false if there's nothing to draw.
+ */
+function drawSignatureStrokes(
+  doc: jsPDF,
+  vector: SignatureVector,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  colors: ThemeColors
+): boolean {
+  const bounds = getStrokeBounds(vector.strokes);
+  if (!bounds) return false;
+
+  const padding = 4; // pad pixels, so round caps at the edges aren't clipped
+  const inkWidth = bounds.maxX - bounds.minX + padding * 2;
+  const inkHeight = bounds.maxY - bounds.minY + padding * 2;
+  // Cropping to the ink enlarges it; cap that so a small scribble isn't blown up
+  const scale = Math.min(width / inkWidth, height / inkHeight, (width / vector.strokes.width) * 2);
+  const originX = x - (bounds.minX - padding) * scale;
+  const originY = y + (height - inkHeight * scale) / 2 - (bounds.minY - padding) * scale;
+
+  doc.setDrawColor(colors.text);
+  doc.setFillColor(colors.text);
+  doc.setLineCap("round");
+  doc.setLineJoin("round");
+
+  for (const segment of getStrokeSegments(vector.strokes)) {
+    const [first, ...rest] = segment.points;
+    const startX = originX + first.x * scale;
+    const startY = originY + first.y * scale;
+    const lineWidth = segment.width * scale;
+
+    if (rest.length === 0) {
+      doc.circle(startX, startY, lineWidth / 2, "F");
+      continue;
+    }
+
+    // jsPDF takes each point relative to the previous one
+    const deltas = rest.map((point, i) => {
+      const previous = segment.points[i];
+      return [(point.x - previous.x) * scale, (point.y - previous.y) * scale];
+    });
+    doc.setLineWidth(lineWidth);
+    doc.lines(deltas, startX, startY, [1, 1], "S", false);
+  }
+
+  doc.setLineCap("butt");
+  doc.setLineJoin("miter");
+  return true;
+}
+
+/**
+ * Draw the RFC 3161 timestamp token, so the PDF carries everything needed to
+ * check the timestamp offline (e.g. with `openssl ts -verify`)
+ */
+function drawTimestampCard(doc: jsPDF, y: number, deal: Deal, colors: ThemeColors): number {
+  doc.setFont("courier", "normal");
+  doc.setFontSize(5);
+  const tokenLines: string[] = doc.splitTextToSize(deal.timestampToken || "", PAGE.contentWidth - 12);
+  const cardHeight = 20 + tokenLines.length * 2.2;
+
+  // Keep clear of the footer
+  if (y + cardHeight > PAGE.height - PAGE.margin - 45) {
+    y = addThemedPage(doc, colors);
+  }
+
+  // Label
+  doc.setFontSize(9);
+  doc.setFont("helvetica", "bold");
+  doc.setTextColor(colors.textMuted);
+  doc.text("TRUSTED TIMESTAMP (RFC 3161)", PAGE.margin, y);
+  y += 5;
+
+  // Card BG
+  doc.setFillColor(colors.card);
+  doc.setDrawColor(colors.border);
+  doc.setLineWidth(0.3);
+  doc.roundedRect(PAGE.margin, y, PAGE.contentWidth, cardHeight, 3, 3, "FD");
+
+  const textX = PAGE.margin + 6;
+  let currentY = y + 8;
+
+  doc.setFontSize(FONTS.small.size);
+  doc.setFont("helvetica", "normal");
+  doc.setTextColor(colors.textSecondary);
+  doc.text(
+    `${deal.timestampAuthority || "Timestamp authority"} - ${deal.timestampedAt ? formatDateTime(deal.timestampedAt) : ""}`,
+    textX,
+    currentY
+  );
+  currentY += 6;
+
+  doc.setFont("courier", "normal");
+  doc.setFontSize(5);
+  doc.setTextColor(colors.textMuted);
+  doc.text(tokenLines, textX, currentY, { lineHeightFactor: 1.25 });
+
+  return y + cardHeight + 12;
+}
+
+/**
+ * Draw the creator's legal boilerplate (branded PDFs)
+ */
+function drawLegalCard(doc: jsPDF, y: number, legalText: string, colors: ThemeColors): number {
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(7);
+  const lines: string[] = doc.splitTextToSize(legalText, PAGE.contentWidth - 12);
+  const cardHeight = 12 + lines.length * 3;
+
+  if (y + cardHeight > PAGE.height - PAGE.margin - 45) {
+    y = addThemedPage(doc, colors);
+  }
+
+  // Label
+  doc.setFontSize(9);
+  doc.setFont("helvetica", "bold");
+  doc.setTextColor(colors.textMuted);
+  doc.text("LEGAL", PAGE.margin, y);
+  y += 5;
+
+  // Card BG
+  doc.setFillColor(colors.card);
+  doc.setDrawColor(colors.border);
+  doc.setLineWidth(0.3);
+  doc.roundedRect(PAGE.margin, y, PAGE.contentWidth, cardHeight, 3, 3, "FD");
+
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(7);
+  doc.setTextColor(colors.textSecondary);
+  doc.text(lines, PAGE.margin + 6, y + 8, { lineHeightFactor: 1.2 });
+
+  return y + cardHeight + 12;
+}
+
+/**
+ * Draw the attached files with the SHA-256 each one was sealed with, so a
+ * printed receipt can still be checked against the files
+ */
+function drawAttachmentsCard(doc: jsPDF, y: number, attachments: DealAttachment[], colors: ThemeColors): number {
+  const contentWidth = PAGE.width - PAGE.margin * 2;
+
+  const rows = attachments.flatMap((attachment, index): CardRow[] => [
+    {
+      height: 6,
+      draw: (rowY) => {
+        const size = formatFileSize(attachment.size);
+        doc.setFontSize(8);
+        doc.setFont("helvetica", "normal");
+        doc.setTextColor(colors.textMuted);
+        doc.text(size, PAGE.width - PAGE.margin - 6, rowY + 4, { align: "right" });
+
+        doc.setFontSize(9);
+        doc.setFont("helvetica", "bold");
+        doc.setTextColor(colors.text);
+        const name: string = doc.splitTextToSize(`${index + 1}. ${attachment.name}`, contentWidth - 40)[0];
+        doc.text(name, PAGE.margin + 6, rowY + 4);
+      },
+    },
+    {
+      height: 6,
+      draw: (rowY) => {
+        doc.setFontSize(7);
+        doc.setFont("courier", "normal");
+        doc.setTextColor(colors.textSecondary);
+        doc.text(`SHA-256 ${attachment.sha256}`, PAGE.margin + 6, rowY + 3);
+      },
+    },
+  ]);
+
+  return drawFlowingCard(doc, y, "ATTACHMENTS", rows, colors, { top: 5, bottom: 2 });
+}
+
+// Same masking as the Verified Identity Attributes card on the deal pages
+function drawDocumentCard(doc: jsPDF, y: number, document: DealDocument, colors: ThemeColors): number {
+  const pages = document.pageCount ? `${document.pageCount} ${document.pageCount === 1 ? "page" : "pages"} - ` : "";
+
+  const rows: CardRow[] = [
+    {
+      height: 6,
+      draw: (rowY) => {
+        doc.setFontSize(8);
+        doc.setFont("helvetica", "normal");
+        doc.setTextColor(colors.textMuted);
+        doc.text(`${pages}${formatFileSize(document.size)}`, PAGE.width - PAGE.margin - 6, rowY + 4, { align: "right" });
+
+        doc.setFontSize(9);
+        doc.setFont("helvetica", "bold");
+        doc.setTextColor(colors.text);
+        const name: string = doc.splitTextToSize(document.name, PAGE.contentWidth - 50)[0];
+        doc.text(name, PAGE.margin + 6, rowY + 4);
+      },
+    },
+    {
+      height: 6,
+      draw: (rowY) => {
+        doc.setFontSize(7);
+        doc.setFont("courier", "normal");
+        doc.setTextColor(colors.textSecondary);
+        doc.text(`SHA-256 ${document.sha256}`, PAGE.margin + 6, rowY + 3);
+      },
+    },
+  ];
+
+  return drawFlowingCard(doc, y, "DOCUMENT", rows, colors, { top: 5, bottom: 2 });
+}
+
+// Label/value line for the certificate cards
+function certificateRow(doc: jsPDF, label: string, value: string, colors: ThemeColors, mono = false): CardRow {
+  return {
+    height: 6,
+    draw: (rowY) => {
+      doc.setFontSize(8);
+      doc.setFont("helvetica", "normal");
+      doc.setTextColor(colors.textMuted);
+      doc.text(label, PAGE.margin + 6, rowY + 4);
+
+      doc.setFontSize(mono ? 7 : 9);
+      doc.setFont(mono ? "courier" : "helvetica", mono ? "normal" : "bold");
+      doc.setTextColor(colors.text);
+      const line: string = doc.splitTextToSize(value, PAGE.contentWidth - 42)[0];
+      doc.text(line, PAGE.margin + 36, rowY + 4);
+    },
+  };
+}
+
+/**
+ * Certificate page for document deals: what was signed (by hash, since the
+ * uploaded PDF itself can't be merged into the receipt), who signed it and
+ * when, and the seal that covers both.
+ */
+function drawSignatureCertificate(
+  doc: jsPDF,
+  deal: Deal,
+  document: DealDocument,
+  verificationUrl: string | undefined,
+  colors: ThemeColors
+): void {
+  let y = addThemedPage(doc, colors);
+
+  doc.setFontSize(FONTS.title.size);
+  doc.setFont("helvetica", "bold");
+  doc.setTextColor(colors.text);
+  doc.text("Signature Certificate", PAGE.margin, y + 6);
+
+  doc.setFontSize(FONTS.small.size);
+  doc.setFont("helvetica", "normal");
+  doc.setTextColor(colors.textSecondary);
+  const intro: string[] = doc.splitTextToSize(
+    `The parties below signed "${document.name}". The document's SHA-256 is part of the deal seal: hash your copy of the PDF and compare it with the value here to confirm it's the one that was signed.`,
+    PAGE.contentWidth
+  );
+  doc.text(intro, PAGE.margin, y + 13);
+  y += 18 + intro.length * 3.5;
+
+  y = drawFlowingCard(
+    doc,
+    y,
+    "SIGNED DOCUMENT",
+    [
+      certificateRow(doc, "File", document.name, colors),
+      certificateRow(doc, "Pages", document.pageCount ? String(document.pageCount) : "Unknown", colors),
+      certificateRow(doc, "Size", formatFileSize(document.size), colors),
+      certificateRow(doc, "Uploaded", formatDateTime(document.uploadedAt), colors),
+      certificateRow(doc, "SHA-256", document.sha256, colors, true),
+    ],
+    colors,
+    { top: 4, bottom: 3 }
+  );
+
+  const signers = deal.signers?.length
+    ? deal.signers.filter((signer) => signer.signedAt).map((signer) => ({ name: signer.name, signedAt: signer.signedAt }))
+    : [{ name: deal.recipientName || "Recipient", signedAt: deal.confirmedAt }];
+  if (deal.creatorSignedAt) {
+    signers.push({ name: `${deal.creatorName} (creator)`, signedAt: deal.creatorSignedAt });
+  }
+
+  y = drawFlowingCard(
+    doc,
+    y,
+    "SIGNING PARTIES",
+    signers.map(
+      (signer): CardRow => ({
+        height: 6,
+        draw: (rowY) => {
+          doc.setFontSize(8);
+          doc.setFont("helvetica", "normal");
+          doc.setTextColor(colors.textSecondary);
+          const signedAt = signer.signedAt ? formatDateTime(signer.signedAt) : "Not signed";
+          doc.text(signedAt, PAGE.width - PAGE.margin - 6, rowY + 4, { align: "right" });
+
+          doc.setFontSize(9);
+          doc.setFont("helvetica", "bold");
+          doc.setTextColor(colors.text);
+          const name: string = doc.splitTextToSize(signer.name, PAGE.contentWidth - 60)[0];
+          doc.text(name, PAGE.margin + 6, rowY + 4);
+        },
+      })
+    ),
+    colors,
+    { top: 4, bottom: 3 }
+  );
+
+  drawFlowingCard(
+    doc,
+    y,
+    "SEAL",
+    [
+      certificateRow(doc, "Deal ID", deal.publicId, colors),
+      certificateRow(doc, "Sealed", deal.confirmedAt ? formatDateTime(deal.confirmedAt) : "Not sealed", colors),
+      certificateRow(doc, "Seal hash", deal.dealSeal || "-", colors, true),
+      certificateRow(doc, "Verify", verificationUrl || `https://proofo.app/verify?id=${deal.publicId}`, colors),
+    ],
+    colors,
+    { top: 4, bottom: 3 }
+  );
+}
+
+function maskVerifiedValue(type: string, value?: string): string {
+  if (type === "id") return formatIdVerifiedValue(value);
+  if (!value) return "Confirmed";
+  return type === "phone" ? value.replace(/(\+\d{3})\d+(\d{4})/, "$1***$2") : value.replace(/(.{3}).+(@.+)/, "$1***$2");
+}
+
+const VERIFICATION_TYPE_LABELS: Record<VerificationType, string> = {
+  email: "Email",
+  phone: "Phone",
+  id: "ID document",
+};
+
+/**
+ * Draw the identity verifications recorded for the deal (`deal_verifications`)
+ */
+function drawVerificationsCard(
+  doc: jsPDF,
+  y: number,
+  verifications: NonNullable<Deal["verifications"]>,
+  colors: ThemeColors
+): number {
+  const columns = [PAGE.margin + 6, PAGE.margin + 46, PAGE.margin + 116];
+
+  const header: CardRow = {
+    height: 7,
+    draw: (rowY) => {
+      doc.setFontSize(7);
+      doc.setFont("helvetica", "bold");
+      doc.setTextColor(colors.textMuted);
+      ["TYPE", "VERIFIED VALUE", "VERIFIED AT"].forEach((title, i) => doc.text(title, columns[i], rowY + 3));
+    },
+  };
+
+  const rows = verifications.map(
+    (v): CardRow => ({
+      height: 7,
+      draw: (rowY) => {
+        doc.setFontSize(9);
+        doc.setFont("helvetica", "bold");
+        doc.setTextColor(colors.text);
+        doc.text(VERIFICATION_TYPE_LABELS[v.verification_type] || "Email", columns[0], rowY + 4);
+
+        doc.setFont("courier", "normal");
+        doc.setTextColor(colors.textSecondary);
+        doc.text(maskVerifiedValue(v.verification_type, v.verified_value), columns[1], rowY + 4);
+
+        doc.setFont("helvetica", "normal");
+        doc.text(formatDateTime(v.verified_at), columns[2], rowY + 4);
+      },
+    })
+  );
+
+  return drawFlowingCard(doc, y, "VERIFICATION RECORDS", [header, ...rows], colors, { top: 5, bottom: 2 });
+}
+
+// e.g. "deal_countersigned" -> "Deal countersigned"
+function formatEventType(eventType: string): string {
+  const words = eventType.replace(/_/g, " ");
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Draw the audit trail as an appendix, starting on a new page
+ */
+function drawAuditAppendix(doc: jsPDF, auditLog: AuditLogEntry[], colors: ThemeColors): void {
+  let y = addThemedPage(doc, colors);
+
+  doc.setFontSize(FONTS.title.size);
+  doc.setFont("helvetica", "bold");
+  doc.setTextColor(colors.text);
+  doc.text("Appendix: Audit Trail", PAGE.margin, y + 6);
+
+  doc.setFontSize(FONTS.small.size);
+  doc.setFont("helvetica", "normal");
+  doc.setTextColor(colors.textSecondary);
+  const intro: string[] = doc.splitTextToSize(
+    "Every event recorded for this deal when this PDF was generated. Each entry's hash covers the previous entry's, so the chain can be checked on the verification page.",
+    PAGE.contentWidth
+  );
+  doc.text(intro, PAGE.margin, y + 13);
+  y += 18 + intro.length * 3.5;
+
+  // #, time, event, actor, entry hash
+  const columns = [PAGE.margin + 6, PAGE.margin + 16, PAGE.margin + 56, PAGE.margin + 104, PAGE.margin + 126];
+
+  const header: CardRow = {
+    height: 7,
+    draw: (rowY) => {
+      doc.setFontSize(7);
+      doc.setFont("helvetica", "bold");
+      doc.setTextColor(colors.textMuted);
+      ["#", "TIME", "EVENT", "ACTOR", "ENTRY HASH"].forEach((title, i) => doc.text(title, columns[i], rowY + 3));
+    },
+  };
+
+  const rows = auditLog.map(
+    (log, index): CardRow => ({
+      height: 6,
+      draw: (rowY) => {
+        doc.setFontSize(8);
+        doc.setFont("helvetica", "normal");
+        doc.setTextColor(colors.textMuted);
+        doc.text(String(log.sequence ?? index + 1), columns[0], rowY + 4);
+
+        doc.setTextColor(colors.textSecondary);
+        doc.text(formatDateTime(log.createdAt), columns[1], rowY + 4);
+
+        doc.setFont("helvetica", "bold");
+        doc.setTextColor(colors.text);
+        doc.text(formatEventType(log.eventType), columns[2], rowY + 4);
+
+        doc.setFont("helvetica", "normal");
+        doc.setTextColor(colors.textSecondary);
+        doc.text(log.actorType, columns[3], rowY + 4);
+
+        doc.setFont("courier", "normal");
+        doc.setFontSize(7);
+        doc.setTextColor(colors.textMuted);
+        doc.text(log.entryHash ? `${log.entryHash.slice(0, 16)}...` : "-", columns[4], rowY + 4);
+      },
+    })
+  );
+
+  drawFlowingCard(doc, y, "AUDIT TRAIL", [header, ...rows], colors, { top: 5, bottom: 3 });
+}
+
+/**
+ * Number every page and repeat the Deal ID at its foot
+ */
+function drawPageFooters(doc: jsPDF, deal: Deal, colors: ThemeColors): void {
+  const pageCount = doc.getNumberOfPages();
+
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFontSize(7);
+    doc.setFont("helvetica", "normal");
+    doc.setTextColor(colors.textMuted);
+    doc.text(`Deal ${deal.publicId}`, PAGE.margin, PAGE.height - 10);
+    doc.text(`Page ${page} of ${pageCount}`, PAGE.width - PAGE.margin, PAGE.height - 10, { align: "right" });
+  }
+}
+
+/**
+ * Fetch an image (e.g. a branding logo) as a data URL for jsPDF.
+ * Returns null if it can't be loaded, so a missing logo never blocks the PDF.
+ */
+export async function loadImageDataUrl(url: string): Promise<string | null> {
+  if (url.startsWith("data:image")) return url;
+
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return null;
+    const type = response.headers.get("content-type") || "image/png";
+    return `data:${type};base64,${bytesToBase64(new Uint8Array(await response.arrayBuffer()))}`;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Draw Bottom Seal & Footer
  */
@@ -465,10 +1185,11 @@ function drawSealAndFooter(
   deal: Deal,
   verificationUrl: string | undefined,
   isPro: boolean,
-  colors: ThemeColors
+  colors: ThemeColors,
+  footerText?: string,
+  withLinks = true
 ): void {
-  const footerH = 35;
-  const footerY = PAGE.height - PAGE.margin - footerH;
+  const footerY = PAGE.height - PAGE.margin - FOOTER.height;
 
   // If we are overlapping content, add a page
   // (Caller logic handles basic flow, but footer is absolute)
@@ -485,7 +1206,7 @@ function drawSealAndFooter(
   doc.setFontSize(8);
   doc.setFont("courier", "normal");
   doc.setTextColor(colors.textMuted);
-  doc.text(`ID: ${deal.publicId}`, startX, footerY);
+  doc.text(`ID: ${deal.publicId}${(deal.version || 1) > 1 ? ` (v${deal.version})` : ""}`, startX, footerY);
 
   if (deal.dealSeal) {
     doc.text(`HASH: ${deal.dealSeal.substring(0, 32)}...`, startX, footerY + 4);
@@ -497,9 +1218,41 @@ function drawSealAndFooter(
 
   doc.text(`TIMESTAMP: ${dateStr}`, startX, footerY + 8);
 
+  let linkY = footerY + 14;
+  if (deal.timestampedAt) {
+    doc.text(`TSA: ${formatDateTime(deal.timestampedAt)} (${deal.timestampAuthority || "RFC 3161"})`, startX, footerY + 12);
+    linkY += 4;
+  }
+
   const verifyUrl = verificationUrl || `https://proofo.app/verify?id=${deal.publicId}`;
   doc.setTextColor(colors.primary);
-  doc.textWithLink("VERIFY DOCUMENT ->", startX, footerY + 14, { url: verifyUrl });
+  // jsPDF's link annotations lack the print flag PDF/A requires, so archival
+  // output spells the link out instead
+  if (withLinks) {
+    doc.textWithLink("VERIFY DOCUMENT ->", startX, linkY, { url: verifyUrl });
+  } else {
+    doc.text(`VERIFY: ${verifyUrl}`, startX, linkY);
+  }
+
+  // QR code for the same link, right aligned
+  const qrX = PAGE.width - PAGE.margin - FOOTER.qrSize;
+  drawQRCode(doc, verifyUrl, qrX, FOOTER.top, FOOTER.qrSize);
+  if (withLinks) {
+    doc.link(qrX, FOOTER.top, FOOTER.qrSize, FOOTER.qrSize, { url: verifyUrl });
+  }
+
+  doc.setFontSize(6);
+  doc.setFont("helvetica", "bold");
+  doc.setTextColor(colors.textMuted);
+  doc.text("SCAN TO VERIFY", qrX + FOOTER.qrSize / 2, FOOTER.top + FOOTER.qrSize + 4, { align: "center" });
+
+  // Creator's footer line (branded PDFs)
+  if (footerText) {
+    doc.setFontSize(7);
+    doc.setFont("helvetica", "normal");
+    const footerLines: string[] = doc.splitTextToSize(footerText, qrX - startX - 8);
+    doc.text(footerLines.slice(0, 2), startX, linkY + 7);
+  }
 
   // Big PROOFO watermark if not pro
   if (!isPro) {
@@ -514,6 +1267,66 @@ function drawSealAndFooter(
   }
 }
 
+/**
+ * Draw a QR code as vector modules on a white tile (dark-on-light in both
+ * themes, so it scans from screens and prints alike)
+ */
+function drawQRCode(doc: jsPDF, value: string, x: number, y: number, size: number): void {
+  const { modules } = QRCode.create(value, { errorCorrectionLevel: "M" });
+  const quietZone = 2;
+  const moduleSize = size / (modules.size + quietZone * 2);
+
+  doc.setFillColor("#ffffff");
+  doc.rect(x, y, size, size, "F");
+  doc.setFillColor("#000000");
+
+  // One rect per horizontal run of dark modules
+  for (let row = 0; row < modules.size; row++) {
+    let runStart = -1;
+    for (let col = 0; col <= modules.size; col++) {
+      const isDark = col < modules.size && modules.get(row, col) === 1;
+      if (isDark && runStart === -1) {
+        runStart = col;
+      } else if (!isDark && runStart !== -1) {
+        doc.rect(
+          x + (quietZone + runStart) * moduleSize,
+          y + (quietZone + row) * moduleSize,
+          (col - runStart) * moduleSize,
+          moduleSize,
+          "F"
+        );
+        runStart = -1;
+      }
+    }
+  }
+}
+
+/**
+ * Fetch the PDF archived on the server when the deal was sealed.
+ *
+ * Returns null if the deal has no archive, or if the file can't be fetched or
+ * no longer matches its recorded SHA-256 - callers then render a fresh PDF.
+ */
+export async function fetchArchivedPDF(deal: Deal): Promise<Blob | null> {
+  if (!deal.pdfUrl || !deal.pdfSha256) return null;
+
+  try {
+    const response = await fetch(deal.pdfUrl);
+    if (!response.ok) return null;
+
+    const pdf = new Uint8Array(await response.arrayBuffer());
+    if ((await sha256Hex(pdf)) !== deal.pdfSha256) {
+      const { logger } = await import("./logger");
+      logger.warn("Archived PDF does not match its recorded hash", { dealId: deal.id });
+      return null;
+    }
+
+    return new Blob([pdf], { type: "application/pdf" });
+  } catch {
+    return null;
+  }
+}
+
 export function downloadPDF(blob: Blob, filename: string): void {
   const url = URL.createObjectURL(blob);
   const link = document.createElement("a");
@@ -525,13 +1338,13 @@ export function downloadPDF(blob: Blob, filename: string): void {
   URL.revokeObjectURL(url);
 }
 
-export function generatePDFFilename(deal: Deal): string {
+export function generatePDFFilename(deal: Deal, format: PDFFormat = "standard"): string {
   const sanitizedTitle = deal.title
     .toLowerCase()
     .replace(/[^a-z0-9]+/g, "-")
     .slice(0, 30);
   const date = new Date().toISOString().split("T")[0];
-  return `proofo-${sanitizedTitle}-${date}.pdf`;
+  return `proofo-${sanitizedTitle}-${date}${format === "pdfa" ? "-pdfa" : ""}.pdf`;
 }
 
 export async function pdfBlobToBase64(blob: Blob): Promise<string> {
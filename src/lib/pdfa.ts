@@ -0,0 +1,288 @@
+/**
+ * PDF/A Output for Long-Term Archiving
+ *
+ * Turns a jsPDF receipt into a PDF/A-2b file that stays readable without
+ * anything outside the file:
+ * - DejaVu fonts (served from /fonts/pdfa) are embedded in place of the
+ *   standard Helvetica and Courier, which viewers would otherwise substitute
+ * - an sRGB output intent, with the ICC profile built here rather than shipped
+ * - XMP metadata declaring PDF/A conformance and carrying the deal ID and seal
+ *
+ * Fonts are fetched from the app, so PDF/A output is rendered in the browser.
+ */
+import { jsPDF } from "jspdf";
+import { bytesToBase64 } from "./asn1";
+import { PDF_SEAL_NAMESPACE } from "./pdf-seal-data";
+
+const FONT_PATH = "/fonts/pdfa";
+
+// Registered under the standard font names, so drawing code stays the same
+const FONTS = [
+  { file: "DejaVuSansCondensed.ttf", family: "helvetica", style: "normal" },
+  { file: "DejaVuSansCondensed-Bold.ttf", family: "helvetica", style: "bold" },
+  { file: "DejaVuSansCondensed-Oblique.ttf", family: "helvetica", style: "italic" },
+  { file: "DejaVuSansMono.ttf", family: "courier", style: "normal" },
+] as const;
+
+/** Namespace of the deal ID and seal properties in the XMP metadata */
+const PROOFO_NAMESPACE = "https://proofo.app/ns/deal/1/";
+
+const SRGB_IDENTIFIER = "sRGB IEC61966-2.1";
+
+export interface PdfAProperties {
+  title: string;
+  subject: string;
+  creator: string;
+  keywords?: string;
+  dealId: string;
+  dealSeal?: string;
+  /** Encoded seal data (see `encodePdfSealData`), kept readable by `extractPdfSealData` */
+  sealData?: string | null;
+}
+
+// The parts of jsPDF's internal API the metadata and output intent are written with
+interface JsPDFInternals {
+  events: { subscribe: (event: string, handler: () => void) => void };
+  newObject: () => number;
+  write: (...lines: string[]) => void;
+  putStream: (options: {
+    data: string;
+    objectId: number;
+    filters?: string[];
+    additionalKeyValues?: { key: string; value: string | number }[];
+  }) => void;
+}
+
+let fontCache: Promise<string[]> | null = null;
+
+function loadFonts(): Promise<string[]> {
+  fontCache ??= Promise.all(
+    FONTS.map(async ({ file }) => {
+      const response = await fetch(`${FONT_PATH}/${file}`);
+      if (!response.ok) {
+        throw new Error(`Failed to load PDF/A font ${file} (${response.status})`);
+      }
+      return bytesToBase64(new Uint8Array(await response.arrayBuffer()));
+    })
+  ).catch((error) => {
+    // Let the next download retry
+    fontCache = null;
+    throw error;
+  });
+
+  return fontCache;
+}
+
+/**
+ * Embed the PDF/A fonts. Call before anything is drawn, on a document
+ * created with `putOnlyUsedFonts` so the standard fonts aren't written.
+ */
+export async function embedPdfAFonts(doc: jsPDF): Promise<void> {
+  const fonts = await loadFonts();
+
+  FONTS.forEach(({ file, family, style }, index) => {
+    doc.addFileToVFS(file, fonts[index]);
+    doc.addFont(file, family, style, undefined, "Identity-H");
+  });
+  doc.setFont("helvetica", "normal");
+}
+
+/**
+ * Add the PDF/A metadata and sRGB output intent, and set the document
+ * properties they must match. Call once, after drawing.
+ */
+export function addPdfAMetadata(doc: jsPDF, properties: PdfAProperties): void {
+  const internal = doc.internal as unknown as JsPDFInternals;
+
+  // The XMP dates must equal the Info dictionary's, so both are written in UTC
+  const now = new Date();
+  const iso = now.toISOString().replace(/\.\d{3}Z$/, "+00:00");
+  doc.setCreationDate(`D:${iso.slice(0, 19).replace(/[-T:]/g, "")}+00'00'`);
+
+  const { title, subject, creator, keywords } = properties;
+  doc.setProperties({ title, subject, creator, keywords: keywords || "" });
+
+  const xmp = buildXmp(properties, `jsPDF ${jsPDF.version}`, iso);
+  const iccProfile = createSrgbProfile();
+  let metadataObject = 0;
+  let profileObject = 0;
+
+  internal.events.subscribe("postPutResources", () => {
+    profileObject = internal.newObject();
+    internal.putStream({
+      data: toBinaryString(iccProfile),
+      objectId: profileObject,
+      additionalKeyValues: [{ key: "N", value: 3 }],
+    });
+    internal.write("endobj");
+
+    // Left uncompressed, so the metadata (and seal data) can be read directly
+    metadataObject = internal.newObject();
+    internal.putStream({
+      data: toBinaryString(new TextEncoder().encode(xmp)),
+      objectId: metadataObject,
+      filters: [],
+      additionalKeyValues: [
+        { key: "Type", value: "/Metadata" },
+        { key: "Subtype", value: "/XML" },
+      ],
+    });
+    internal.write("endobj");
+  });
+
+  internal.events.subscribe("putCatalog", () => {
+    internal.write(`/Metadata ${metadataObject} 0 R`);
+    internal.write(
+      `/OutputIntents [<< /Type /OutputIntent /S /GTS_PDFA1 /OutputConditionIdentifier (${SRGB_IDENTIFIER}) /Info (${SRGB_IDENTIFIER}) /DestOutputProfile ${profileObject} 0 R >>]`
+    );
+  });
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// PDF/A only allows custom XMP properties that are described by an extension schema
+function extensionSchema(namespace: string, prefix: string, description: string, properties: string[]): string {
+  const propertyList = properties
+    .map(
+      (name) =>
+        `<rdf:li rdf:parseType="Resource"><pdfaProperty:name>${name}</pdfaProperty:name><pdfaProperty:valueType>Text</pdfaProperty:valueType><pdfaProperty:category>external</pdfaProperty:category><pdfaProperty:description>${name}</pdfaProperty:description></rdf:li>`
+    )
+    .join("");
+
+  return `<rdf:li rdf:parseType="Resource"><pdfaSchema:schema>${description}</pdfaSchema:schema><pdfaSchema:namespaceURI>${namespace}</pdfaSchema:namespaceURI><pdfaSchema:prefix>${prefix}</pdfaSchema:prefix><pdfaSchema:property><rdf:Seq>${propertyList}</rdf:Seq></pdfaSchema:property></rdf:li>`;
+}
+
+function buildXmp(properties: PdfAProperties, producer: string, createDate: string): string {
+  const { title, subject, creator, keywords, dealId, dealSeal, sealData } = properties;
+
+  const descriptions = [
+    `<rdf:Description rdf:about="" xmlns:pdfaid="http://www.aiim.org/pdfa/ns/id/"><pdfaid:part>2</pdfaid:part><pdfaid:conformance>B</pdfaid:conformance></rdf:Description>`,
+    `<rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/"><dc:format>application/pdf</dc:format><dc:title><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(title)}</rdf:li></rdf:Alt></dc:title><dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(subject)}</rdf:li></rdf:Alt></dc:description></rdf:Description>`,
+    `<rdf:Description rdf:about="" xmlns:xmp="http://ns.adobe.com/xap/1.0/"><xmp:CreatorTool>${escapeXml(creator)}</xmp:CreatorTool><xmp:CreateDate>${createDate}</xmp:CreateDate></rdf:Description>`,
+    `<rdf:Description rdf:about="" xmlns:pdf="http://ns.adobe.com/pdf/1.3/"><pdf:Producer>${escapeXml(producer)}</pdf:Producer>${keywords ? `<pdf:Keywords>${escapeXml(keywords)}</pdf:Keywords>` : ""}</rdf:Description>`,
+    `<rdf:Description rdf:about="" xmlns:proofo="${PROOFO_NAMESPACE}"><proofo:dealId>${escapeXml(dealId)}</proofo:dealId>${dealSeal ? `<proofo:dealSeal>${dealSeal}</proofo:dealSeal>` : ""}</rdf:Description>`,
+  ];
+
+  const schemas = [extensionSchema(PROOFO_NAMESPACE, "proofo", "Proofo deal", ["dealId", "dealSeal"])];
+
+  if (sealData) {
+    // Same element jsPDF's addMetadata writes, which extractPdfSealData looks for
+    descriptions.push(
+      `<rdf:Description rdf:about="" xmlns:jspdf="${PDF_SEAL_NAMESPACE}"><jspdf:metadata>${sealData}</jspdf:metadata></rdf:Description>`
+    );
+    schemas.push(extensionSchema(PDF_SEAL_NAMESPACE, "jspdf", "Proofo seal data", ["metadata"]));
+  }
+
+  descriptions.push(
+    `<rdf:Description rdf:about="" xmlns:pdfaExtension="http://www.aiim.org/pdfa/ns/extension/" xmlns:pdfaSchema="http://www.aiim.org/pdfa/ns/schema#" xmlns:pdfaProperty="http://www.aiim.org/pdfa/ns/property#"><pdfaExtension:schemas><rdf:Bag>${schemas.join("")}</rdf:Bag></pdfaExtension:schemas></rdf:Description>`
+  );
+
+  return [
+    `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>`,
+    `<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">`,
+    ...descriptions,
+    `</rdf:RDF></x:xmpmeta>`,
+    `<?xpacket end="w"?>`,
+  ].join("\n");
+}
+
+function toBinaryString(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return binary;
+}
+
+/**
+ * Minimal ICC v2 display profile for sRGB: the sRGB primaries (adapted to
+ * D50) and the sRGB tone curve, sampled at 1024 points.
+ */
+function createSrgbProfile(): Uint8Array {
+  const ascii = (text: string) => Array.from(text, (char) => char.charCodeAt(0));
+  const u16 = (value: number) => [(value >> 8) & 0xff, value & 0xff];
+  const u32 = (value: number) => [(value >>> 24) & 0xff, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+  const s15Fixed16 = (value: number) => u32(Math.round(value * 65536));
+  const xyz = (x: number, y: number, z: number) => [
+    ...ascii("XYZ "),
+    ...u32(0),
+    ...s15Fixed16(x),
+    ...s15Fixed16(y),
+    ...s15Fixed16(z),
+  ];
+
+  const curve: number[] = [];
+  for (let i = 0; i < 1024; i++) {
+    const v = i / 1023;
+    const linear = v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+    curve.push(...u16(Math.round(linear * 65535)));
+  }
+
+  const description = ascii(SRGB_IDENTIFIER);
+  const tags: [string, number[]][] = [
+    [
+      "desc",
+      [
+        ...ascii("desc"),
+        ...u32(0),
+        ...u32(description.length + 1),
+        ...description,
+        0,
+        ...u32(0),
+        ...u32(0),
+        ...u16(0),
+        0,
+        ...new Array(67).fill(0),
+      ],
+    ],
+    ["cprt", [...ascii("text"), ...u32(0), ...ascii("No copyright, use freely"), 0]],
+    ["wtpt", xyz(0.9505, 1, 1.089)],
+    ["rXYZ", xyz(0.4361, 0.2225, 0.0139)],
+    ["gXYZ", xyz(0.3851, 0.7169, 0.0971)],
+    ["bXYZ", xyz(0.1431, 0.0606, 0.7141)],
+    ["rTRC", [...ascii("curv"), ...u32(0), ...u32(1024), ...curve]],
+  ];
+
+  // Tag table, with gTRC and bTRC sharing the red curve's data
+  const tableSize = 4 + (tags.length + 2) * 12;
+  let offset = 128 + tableSize;
+  const table: number[] = [...u32(tags.length + 2)];
+  const data: number[] = [];
+  let curveEntry: number[] = [];
+
+  for (const [signature, content] of tags) {
+    const entry = [...u32(offset), ...u32(content.length)];
+    table.push(...ascii(signature), ...entry);
+    if (signature === "rTRC") curveEntry = entry;
+
+    const padded = [...content, ...new Array((4 - (content.length % 4)) % 4).fill(0)];
+    data.push(...padded);
+    offset += padded.length;
+  }
+  table.push(...ascii("gTRC"), ...curveEntry, ...ascii("bTRC"), ...curveEntry);
+
+  const header = [
+    ...u32(offset),
+    ...u32(0),
+    0x02, 0x10, 0x00, 0x00,
+    ...ascii("mntr"),
+    ...ascii("RGB "),
+    ...ascii("XYZ "),
+    ...u16(2026), ...u16(1), ...u16(1), ...u16(0), ...u16(0), ...u16(0),
+    ...ascii("acsp"),
+    ...new Array(24).fill(0),
+    ...u32(0),
+    ...s15Fixed16(0.9642),
+    ...s15Fixed16(1),
+    ...s15Fixed16(0.8249),
+    ...new Array(48).fill(0),
+  ];
+
+  return new Uint8Array([...header, ...table, ...data]);
+}
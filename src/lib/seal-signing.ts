@@ -0,0 +1,148 @@
+/**
+ * Seal Signing (server-only)
+ *
+ * Signs deal seals with the platform's Ed25519 key, so a seal can't be
+ * recomputed and passed off as genuine by anyone who can write to `deals`.
+ * Public keys are published at /.well-known/jwks.json for client-side checks.
+ *
+ * Configuration:
+ * - SEAL_SIGNING_KEY: base64 PKCS#8 (DER) Ed25519 private key
+ * - SEAL_SIGNING_KEY_ID: identifier stored with each signature (e.g. "2026-01")
+ * - SEAL_RETIRED_PUBLIC_KEYS: comma-separated `keyId:x` pairs for rotated-out
+ *   keys, where `x` is the key's base64url public key as shown in the JWK Set
+ * - SEAL_SIGNATURES_REQUIRED_FROM: ISO date signing was enabled; /verify fails
+ *   unsigned seals made from then on
+ *
+ * Rotating: publish the current key under SEAL_RETIRED_PUBLIC_KEYS, then
+ * replace SEAL_SIGNING_KEY and SEAL_SIGNING_KEY_ID with the new key.
+ */
+import { createPrivateKey, createPublicKey, sign, type KeyObject } from "crypto";
+import { getOptionalEnv } from "./env";
+import { logger } from "./logger";
+import type { SealKeySet, SealPublicKey } from "./crypto";
+
+interface ActiveSigningKey {
+  privateKey: KeyObject;
+  publicKey: SealPublicKey;
+}
+
+// Parsed once per server instance (undefined = not loaded yet, null = not configured)
+let activeKey: ActiveSigningKey | null | undefined;
+
+function getActiveSigningKey(): ActiveSigningKey | null {
+  if (activeKey !== undefined) return activeKey;
+
+  const encodedKey = getOptionalEnv("SEAL_SIGNING_KEY");
+  const keyId = getOptionalEnv("SEAL_SIGNING_KEY_ID");
+
+  if (!encodedKey || !keyId) {
+    if (encodedKey || keyId) {
+      logger.error("SEAL_SIGNING_KEY and SEAL_SIGNING_KEY_ID must be set together");
+    }
+    activeKey = null;
+    return activeKey;
+  }
+
+  try {
+    const privateKey = createPrivateKey({
+      key: Buffer.from(encodedKey, "base64"),
+      format: "der",
+      type: "pkcs8",
+    });
+
+    if (privateKey.asymmetricKeyType !== "ed25519") {
+      throw new Error(`Expected an Ed25519 key, got ${privateKey.asymmetricKeyType}`);
+    }
+
+    const { x } = createPublicKey(privateKey).export({ format: "jwk" });
+    activeKey = {
+      privateKey,
+      publicKey: { kid: keyId, kty: "OKP", crv: "Ed25519", x: x!, use: "sig", alg: "EdDSA", status: "active" },
+    };
+  } catch (error) {
+    logger.error("Invalid SEAL_SIGNING_KEY", error);
+    activeKey = null;
+  }
+
+  return activeKey;
+}
+
+function getRetiredPublicKeys(): SealPublicKey[] {
+  const value = getOptionalEnv("SEAL_RETIRED_PUBLIC_KEYS");
+  if (!value) return [];
+
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .flatMap((entry) => {
+      const [kid, x] = entry.split(":");
+      if (!kid || !x) {
+        logger.warn(`Ignoring malformed SEAL_RETIRED_PUBLIC_KEYS entry "${entry}"`);
+        return [];
+      }
+      return [{ kid, kty: "OKP", crv: "Ed25519", x, use: "sig", alg: "EdDSA", status: "retired" } as SealPublicKey];
+    });
+}
+
+/**
+ * Every public key a seal signature may have been made with: the active key
+ * first, then retired ones
+ */
+export function getSealPublicKeys(): SealPublicKey[] {
+  const active = getActiveSigningKey();
+  const retired = getRetiredPublicKeys().filter((key) => key.kid !== active?.publicKey.kid);
+  return active ? [active.publicKey, ...retired] : retired;
+}
+
+function getSignaturesRequiredFrom(): string | undefined {
+  const value = getOptionalEnv("SEAL_SIGNATURES_REQUIRED_FROM");
+  if (!value) return undefined;
+
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    logger.error(`Ignoring invalid SEAL_SIGNATURES_REQUIRED_FROM "${value}"`);
+    return undefined;
+  }
+  return new Date(time).toISOString();
+}
+
+/**
+ * The JWK Set published at /.well-known/jwks.json, with the date from which
+ * seals must be signed
+ */
+export function getSealKeySet(): SealKeySet {
+  const signaturesRequiredFrom = getSignaturesRequiredFrom();
+  return { keys: getSealPublicKeys(), ...(signaturesRequiredFrom && { signaturesRequiredFrom }) };
+}
+
+/**
+ * Whether deals can be sealed right now. Production refuses to seal without
+ * a signing key, since /verify fails unsigned seals made after
+ * SEAL_SIGNATURES_REQUIRED_FROM; development seals unsigned.
+ */
+export function isSealSigningAvailable(): boolean {
+  return !!getActiveSigningKey() || process.env.NODE_ENV !== "production";
+}
+
+/**
+ * Sign a deal seal with the active platform key.
+ * Outside production, returns null when no signing key is configured and the
+ * deal is sealed unsigned. In production that throws instead: check
+ * `isSealSigningAvailable()` before doing any work.
+ *
+ * @returns Base64url-encoded Ed25519 signature over the seal string, and the key ID
+ */
+export function signDealSeal(seal: string): { signature: string; keyId: string } | null {
+  const key = getActiveSigningKey();
+  if (!key) {
+    if (process.env.NODE_ENV === "production") {
+      throw new Error("SEAL_SIGNING_KEY is not configured: refusing to seal unsigned in production");
+    }
+    logger.warn("SEAL_SIGNING_KEY is not configured: sealing unsigned (development only)");
+    return null;
+  }
+
+  const signature = sign(null, Buffer.from(seal, "utf8"), key.privateKey).toString("base64url");
+  return { signature, keyId: key.publicKey.kid };
+}
@@ -0,0 +1,26 @@
+/**
+ * Script fonts for typed signatures
+ *
+ * Self-hosted through next/font and only fetched once the signer switches to
+ * typing (preload is off), so drawing signers don't pay for them.
+ */
+import { Caveat, Dancing_Script, Great_Vibes, Homemade_Apple } from "next/font/google";
+
+const dancingScript = Dancing_Script({ subsets: ["latin"], weight: "500", preload: false });
+const greatVibes = Great_Vibes({ subsets: ["latin"], weight: "400", preload: false });
+const homemadeApple = Homemade_Apple({ subsets: ["latin"], weight: "400", preload: false });
+const caveat = Caveat({ subsets: ["latin"], weight: "500", preload: false });
+
+export interface SignatureFont {
+  id: string;
+  name: string;
+  /** CSS font-family value, for both the preview and the canvas */
+  fontFamily: string;
+}
+
+export const SIGNATURE_FONTS: SignatureFont[] = [
+  { id: "dancing-script", name: "Dancing Script", fontFamily: dancingScript.style.fontFamily },
+  { id: "great-vibes", name: "Great Vibes", fontFamily: greatVibes.style.fontFamily },
+  { id: "homemade-apple", name: "Homemade Apple", fontFamily: homemadeApple.style.fontFamily },
+  { id: "caveat", name: "Caveat", fontFamily: caveat.style.fontFamily },
+];
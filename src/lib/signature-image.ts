@@ -0,0 +1,197 @@
+/**
+ * Signature Images
+ *
+ * Besides drawing on the pad, a signer can type their name in a script font or
+ * upload a photo of their handwritten signature. Every method ends up as the
+ * same kind of image the pad produces: a PNG with the signature in dark ink on
+ * a white background, so storage, sealing and the PDF receipt don't need to
+ * care how it was made. The method itself is recorded on the deal and in the
+ * audit trail.
+ *
+ * The rendering helpers run in the browser (they need a canvas).
+ */
+import { SignatureMethod } from "@/types";
+
+export const SIGNATURE_METHOD_LABELS: Record<SignatureMethod, string> = {
+  drawn: "Drawn",
+  typed: "Typed",
+  uploaded: "Uploaded",
+};
+
+/** Image types accepted for an uploaded signature */
+export const SIGNATURE_UPLOAD_TYPES = ["image/png", "image/jpeg", "image/webp"];
+
+export const MAX_SIGNATURE_UPLOAD_SIZE = 5 * 1024 * 1024;
+
+// Output size, matching the pad's proportions
+const OUTPUT_WIDTH = 900;
+const OUTPUT_HEIGHT = 300;
+const OUTPUT_PADDING = 24;
+
+// Uploads are scaled down to this before processing
+const MAX_PROCESSING_SIZE = 1200;
+
+/**
+ * Why an image can't be used as a signature, or null if it can
+ */
+export function validateSignatureUpload(file: { type: string; size: number }): string | null {
+  if (!SIGNATURE_UPLOAD_TYPES.includes(file.type)) {
+    return "Only PNG, JPEG and WebP images can be used";
+  }
+  if (file.size > MAX_SIGNATURE_UPLOAD_SIZE) {
+    return "Images must be 5MB or smaller";
+  }
+  return null;
+}
+
+function createCanvas(width: number, height: number): [HTMLCanvasElement, CanvasRenderingContext2D] {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not supported in this browser");
+  return [canvas, ctx];
+}
+
+// Draw a source onto a white output canvas, scaled to fit inside the padding and centred
+function toSignaturePng(source: CanvasImageSource, width: number, height: number): string {
+  const [canvas, ctx] = createCanvas(OUTPUT_WIDTH, OUTPUT_HEIGHT);
+  ctx.fillStyle = "#ffffff";
+  ctx.fillRect(0, 0, OUTPUT_WIDTH, OUTPUT_HEIGHT);
+
+  const scale = Math.min(
+    (OUTPUT_WIDTH - OUTPUT_PADDING * 2) / width,
+    (OUTPUT_HEIGHT - OUTPUT_PADDING * 2) / height
+  );
+  const drawWidth = width * scale;
+  const drawHeight = height * scale;
+  ctx.drawImage(source, (OUTPUT_WIDTH - drawWidth) / 2, (OUTPUT_HEIGHT - drawHeight) / 2, drawWidth, drawHeight);
+
+  return canvas.toDataURL("image/png");
+}
+
+/**
+ * Render a typed name as a signature image in the given font family
+ * (a CSS font-family value). Waits for the font so the first render isn't
+ * drawn in a fallback face.
+ */
+export async function renderTypedSignature(text: string, fontFamily: string): Promise<string> {
+  const name = text.trim();
+  if (!name) throw new Error("Type your name to sign");
+
+  const font = `96px ${fontFamily}`;
+  await document.fonts.load(font, name);
+
+  const [, measureCtx] = createCanvas(1, 1);
+  measureCtx.font = font;
+  const metrics = measureCtx.measureText(name);
+  // Script fonts overhang their advance width; leave room for swashes
+  const width = Math.ceil(metrics.width + 96);
+  const height = Math.ceil(
+    (metrics.actualBoundingBoxAscent || 96) + (metrics.actualBoundingBoxDescent || 32) + 48
+  );
+
+  const [canvas, ctx] = createCanvas(width, height);
+  ctx.font = font;
+  ctx.fillStyle = "#111111";
+  ctx.textBaseline = "alphabetic";
+  ctx.fillText(name, 48, (metrics.actualBoundingBoxAscent || 96) + 24);
+
+  return toSignaturePng(canvas, width, height);
+}
+
+// Luminance at the given fraction of the sorted values
+function percentile(values: Uint8Array, fraction: number): number {
+  const counts = new Array<number>(256).fill(0);
+  for (const value of values) counts[value]++;
+
+  const target = values.length * fraction;
+  let seen = 0;
+  for (let level = 0; level < 256; level++) {
+    seen += counts[level];
+    if (seen >= target) return level;
+  }
+  return 255;
+}
+
+/**
+ * Turn a photo or scan of a handwritten signature into a clean signature
+ * image: the paper (and any shadows or tint on it) becomes white, the ink is
+ * kept, and the result is cropped to the ink.
+ */
+export async function removeSignatureBackground(file: Blob): Promise<string> {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, MAX_PROCESSING_SIZE / Math.max(bitmap.width, bitmap.height));
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+
+  const [canvas, ctx] = createCanvas(width, height);
+  // Transparent areas of a PNG count as paper
+  ctx.fillStyle = "#ffffff";
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  const image = ctx.getImageData(0, 0, width, height);
+  const pixels = image.data;
+  const luminance = new Uint8Array(width * height);
+  for (let i = 0; i < luminance.length; i++) {
+    const offset = i * 4;
+    luminance[i] = Math.round(
+      0.299 * pixels[offset] + 0.587 * pixels[offset + 1] + 0.114 * pixels[offset + 2]
+    );
+  }
+
+  // Most of the picture is paper: take its brightness from the upper percentiles,
+  // and treat anything clearly darker as ink
+  const paper = percentile(luminance, 0.75);
+  const inkThreshold = paper * 0.72;
+  const fadeRange = Math.max(1, paper - inkThreshold);
+
+  let minX = width;
+  let minY = height;
+  let maxX = -1;
+  let maxY = -1;
+
+  for (let i = 0; i < luminance.length; i++) {
+    const offset = i * 4;
+    // 1 for solid ink, fading to 0 a little below the paper's brightness so its grain drops out
+    const ink = Math.min(1, Math.max(0, (paper - luminance[i]) / fadeRange - 0.35));
+
+    if (ink === 0) {
+      pixels[offset] = pixels[offset + 1] = pixels[offset + 2] = 255;
+    } else {
+      // Keep the pen's colour but darken it so faint strokes stay legible
+      for (let channel = 0; channel < 3; channel++) {
+        const value = pixels[offset + channel] * 0.6;
+        pixels[offset + channel] = Math.round(255 - (255 - value) * ink);
+      }
+      if (ink > 0.5) {
+        const x = i % width;
+        const y = Math.floor(i / width);
+        minX = Math.min(minX, x);
+        minY = Math.min(minY, y);
+        maxX = Math.max(maxX, x);
+        maxY = Math.max(maxY, y);
+      }
+    }
+    pixels[offset + 3] = 255;
+  }
+
+  if (maxX < 0) {
+    throw new Error("No signature found in this image. Try a clearer photo on plain paper.");
+  }
+
+  ctx.putImageData(image, 0, 0);
+
+  const cropPadding = 8;
+  const cropX = Math.max(0, minX - cropPadding);
+  const cropY = Math.max(0, minY - cropPadding);
+  const cropWidth = Math.min(width, maxX + cropPadding + 1) - cropX;
+  const cropHeight = Math.min(height, maxY + cropPadding + 1) - cropY;
+
+  const [cropped, croppedCtx] = createCanvas(cropWidth, cropHeight);
+  croppedCtx.drawImage(canvas, cropX, cropY, cropWidth, cropHeight, 0, 0, cropWidth, cropHeight);
+
+  return toSignaturePng(cropped, cropWidth, cropHeight);
+}
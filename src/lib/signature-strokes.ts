@@ -0,0 +1,155 @@
+/**
+ * Signature Strokes
+ *
+ * Drawn signatures are recorded twice: as the PNG the pad produces, and as
+ * the pen strokes themselves, with the timing and pressure of every point.
+ * The stroke record is stored on the deal (and as an SVG in storage), its
+ * SHA-256 is sealed with the signature it belongs to, and receipts draw it as
+ * vector lines so the signature stays sharp at any size.
+ */
+import { Deal, SignatureStrokes, SignatureVector } from "@/types";
+import { deterministicStringify, sha256Hex } from "./crypto";
+
+// Pen width in pad pixels at no pressure and at full pressure
+const MIN_PEN_WIDTH = 1.5;
+const MAX_PEN_WIDTH = 4.5;
+// Pointer Events report 0.5 while pressed on devices without pressure sensing
+const DEFAULT_PRESSURE = 0.5;
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Round a stroke record to the precision it's stored at (0.1px, whole
+ * milliseconds, pressure to 0.01), so it hashes the same after a round trip
+ * through the database.
+ */
+export function normalizeSignatureStrokes(record: SignatureStrokes): SignatureStrokes {
+  return {
+    width: Math.round(record.width),
+    height: Math.round(record.height),
+    strokes: record.strokes
+      .filter((stroke) => stroke.length > 0)
+      .map((stroke) =>
+        stroke.map((point) => ({
+          x: round(point.x, 1),
+          y: round(point.y, 1),
+          t: Math.max(0, Math.round(point.t)),
+          ...(point.p !== undefined && { p: round(Math.min(1, Math.max(0, point.p)), 2) }),
+        }))
+      ),
+  };
+}
+
+/**
+ * SHA-256 of a stroke record, as sealed with the signature
+ */
+export function hashSignatureStrokes(record: SignatureStrokes): Promise<string> {
+  return sha256Hex(deterministicStringify(record));
+}
+
+/** Part of a stroke drawn at a single pen width */
+export interface StrokeSegment {
+  points: { x: number; y: number }[];
+  /** Pen width in pad pixels */
+  width: number;
+}
+
+function penWidth(pressure: number | undefined): number {
+  const width = MIN_PEN_WIDTH + (MAX_PEN_WIDTH - MIN_PEN_WIDTH) * (pressure ?? DEFAULT_PRESSURE);
+  // Quarter-pixel steps, so runs of similar pressure share one path
+  return Math.round(width * 4) / 4;
+}
+
+/**
+ * Split strokes into runs of constant pen width, for drawing as paths. A
+ * single-point stroke (a dot) becomes a one-point segment.
+ */
+export function getStrokeSegments(record: SignatureStrokes): StrokeSegment[] {
+  const segments: StrokeSegment[] = [];
+
+  for (const stroke of record.strokes) {
+    if (stroke.length === 1) {
+      segments.push({ points: [stroke[0]], width: penWidth(stroke[0].p) });
+      continue;
+    }
+
+    let current: StrokeSegment | null = null;
+    for (let i = 1; i < stroke.length; i++) {
+      const from = stroke[i - 1];
+      const to = stroke[i];
+      const width = penWidth(
+        from.p === undefined && to.p === undefined ? undefined : ((from.p ?? DEFAULT_PRESSURE) + (to.p ?? DEFAULT_PRESSURE)) / 2
+      );
+
+      if (current && current.width === width) {
+        current.points.push(to);
+      } else {
+        current = { points: [from, to], width };
+        segments.push(current);
+      }
+    }
+  }
+
+  return segments;
+}
+
+/** Bounding box of every point, or null for an empty record */
+export function getStrokeBounds(
+  record: SignatureStrokes
+): { minX: number; minY: number; maxX: number; maxY: number } | null {
+  const points = record.strokes.flat();
+  if (points.length === 0) return null;
+
+  return {
+    minX: Math.min(...points.map((point) => point.x)),
+    minY: Math.min(...points.map((point) => point.y)),
+    maxX: Math.max(...points.map((point) => point.x)),
+    maxY: Math.max(...points.map((point) => point.y)),
+  };
+}
+
+/** SVG path data for a segment. A one-point segment draws as a dot with round caps. */
+export function getSegmentPath(segment: StrokeSegment): string {
+  const [first, ...rest] = segment.points;
+  const points = rest.length ? rest : [first];
+  return `M${first.x} ${first.y}` + points.map((point) => `L${point.x} ${point.y}`).join("");
+}
+
+/**
+ * The strokes as a standalone SVG document, at the pad's size
+ */
+export function signatureStrokesToSvg(record: SignatureStrokes): string {
+  const paths = getStrokeSegments(record)
+    .map((segment) => `<path d="${getSegmentPath(segment)}" stroke-width="${segment.width}"/>`)
+    .join("");
+
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${record.width}" height="${record.height}" viewBox="0 0 ${record.width} ${record.height}">` +
+    `<g fill="none" stroke="#111111" stroke-linecap="round" stroke-linejoin="round">${paths}</g></svg>`
+  );
+}
+
+/**
+ * Every stroke record stored on a deal: the recipient's (or each signer's)
+ * and the creator's
+ */
+export function getSignatureVectors(deal: Deal): SignatureVector[] {
+  return [
+    deal.signatureVector,
+    ...(deal.signers || []).map((signer) => signer.signatureVector),
+    deal.creatorSignatureVector,
+  ].filter((vector): vector is SignatureVector => !!vector);
+}
+
+/**
+ * True when any stroke record no longer matches the hash it was sealed with.
+ * The seal covers the hashes, so this catches strokes edited afterwards.
+ */
+export async function hasModifiedSignatureStrokes(deal: Deal): Promise<boolean> {
+  const vectors = getSignatureVectors(deal);
+  const hashes = await Promise.all(vectors.map((vector) => hashSignatureStrokes(vector.strokes)));
+  return hashes.some((hash, i) => hash !== vectors[i].sha256.toLowerCase());
+}
@@ -0,0 +1,250 @@
+/**
+ * SMS Providers (server-only)
+ *
+ * Phone verification codes are sent through the provider chosen with
+ * SMS_PROVIDER: "twilio", "vonage" or "console". Without SMS_PROVIDER, Twilio
+ * is used when its credentials are set; otherwise development falls back to
+ * the console stand-in and production has no SMS (sending fails with an error
+ * instead of quietly logging the code).
+ *
+ * When SMS_STATUS_CALLBACK_SECRET is set, providers are asked to report
+ * delivery to /api/sms/status/<provider>, and each report is recorded against
+ * the `phone_otp_sent` audit event of the message.
+ */
+import { appendFile } from "fs/promises";
+import { timingSafeEqual } from "crypto";
+import { getOptionalEnv } from "./env";
+import { logger } from "./logger";
+
+/** Delivery state of a message, as far as the provider knows */
+export type SmsDeliveryStatus = "queued" | "sent" | "delivered" | "failed";
+
+export interface SmsMessage {
+  /** E.164 phone number */
+  to: string;
+  body: string;
+  /** Where the provider should report delivery, when callbacks are enabled */
+  statusCallbackUrl?: string;
+}
+
+export interface SmsSendResult {
+  /** The provider's ID for the message, matched against status callbacks */
+  messageId: string;
+  status: SmsDeliveryStatus;
+}
+
+/** A delivery report received from a provider */
+export interface SmsStatusUpdate {
+  messageId: string;
+  status: SmsDeliveryStatus;
+  /** Provider error code for failed messages */
+  errorCode?: string;
+}
+
+export interface SmsProvider {
+  /** Used in the status callback URL and stored with each message */
+  id: string;
+  name: string;
+  send(message: SmsMessage): Promise<SmsSendResult>;
+  /** Read a delivery report posted to the status callback route, or null if it isn't one */
+  parseStatusCallback?(request: Request): Promise<SmsStatusUpdate | null>;
+}
+
+// Read a callback's parameters, whether sent as a query string, a form or JSON
+async function readCallbackParams(request: Request): Promise<Record<string, string>> {
+  const params: Record<string, string> = Object.fromEntries(new URL(request.url).searchParams);
+  if (request.method !== "POST") return params;
+
+  const contentType = request.headers.get("content-type") || "";
+  if (contentType.includes("application/json")) {
+    const body = (await request.json()) as Record<string, unknown>;
+    for (const [key, value] of Object.entries(body)) {
+      if (value !== null && value !== undefined) params[key] = String(value);
+    }
+  } else {
+    new URLSearchParams(await request.text()).forEach((value, key) => {
+      params[key] = value;
+    });
+  }
+  return params;
+}
+
+// ============================================
+// Twilio
+// ============================================
+
+let twilioClient: ReturnType<typeof import("twilio")> | null = null;
+
+async function getTwilioClient() {
+  if (!twilioClient) {
+    const twilio = (await import("twilio")).default;
+    twilioClient = twilio(getOptionalEnv("TWILIO_ACCOUNT_SID"), getOptionalEnv("TWILIO_AUTH_TOKEN"));
+  }
+  return twilioClient;
+}
+
+const TWILIO_STATUSES: Record<string, SmsDeliveryStatus> = {
+  accepted: "queued",
+  scheduled: "queued",
+  queued: "queued",
+  sending: "sent",
+  sent: "sent",
+  delivered: "delivered",
+  read: "delivered",
+  undelivered: "failed",
+  failed: "failed",
+  canceled: "failed",
+};
+
+const twilioProvider: SmsProvider = {
+  id: "twilio",
+  name: "Twilio",
+  async send({ to, body, statusCallbackUrl }) {
+    const client = await getTwilioClient();
+    const message = await client.messages.create({
+      body,
+      from: getOptionalEnv("TWILIO_PHONE_NUMBER"),
+      to,
+      ...(statusCallbackUrl && { statusCallback: statusCallbackUrl }),
+    });
+    return { messageId: message.sid, status: TWILIO_STATUSES[message.status] || "queued" };
+  },
+  async parseStatusCallback(request) {
+    const params = await readCallbackParams(request);
+    const status = TWILIO_STATUSES[params.MessageStatus];
+    if (!params.MessageSid || !status) return null;
+    return { messageId: params.MessageSid, status, ...(params.ErrorCode && { errorCode: params.ErrorCode }) };
+  },
+};
+
+// ============================================
+// Vonage (SMS API)
+// ============================================
+
+const VONAGE_SMS_URL = "https://rest.nexmo.com/sms/json";
+
+const VONAGE_STATUSES: Record<string, SmsDeliveryStatus> = {
+  buffered: "queued",
+  accepted: "sent",
+  delivered: "delivered",
+  expired: "failed",
+  failed: "failed",
+  rejected: "failed",
+};
+
+const vonageProvider: SmsProvider = {
+  id: "vonage",
+  name: "Vonage",
+  async send({ to, body, statusCallbackUrl }) {
+    const response = await fetch(VONAGE_SMS_URL, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        api_key: getOptionalEnv("VONAGE_API_KEY"),
+        api_secret: getOptionalEnv("VONAGE_API_SECRET"),
+        from: getOptionalEnv("VONAGE_FROM", "Proofo"),
+        // Vonage takes the number without the leading +
+        to: to.replace(/^\+/, ""),
+        text: body,
+        ...(statusCallbackUrl && { callback: statusCallbackUrl }),
+      }),
+      signal: AbortSignal.timeout(10_000),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Vonage responded with ${response.status}`);
+    }
+
+    const result = (await response.json()) as {
+      messages?: { status: string; "message-id"?: string; "error-text"?: string }[];
+    };
+    const message = result.messages?.[0];
+    if (!message || message.status !== "0" || !message["message-id"]) {
+      throw new Error(`Vonage rejected the message: ${message?.["error-text"] || "unknown error"}`);
+    }
+    return { messageId: message["message-id"], status: "sent" };
+  },
+  async parseStatusCallback(request) {
+    const params = await readCallbackParams(request);
+    const status = VONAGE_STATUSES[params.status];
+    if (!params.messageId || !status) return null;
+    const errorCode = params["err-code"];
+    return { messageId: params.messageId, status, ...(errorCode && errorCode !== "0" && { errorCode }) };
+  },
+};
+
+// ============================================
+// Console (local development)
+// ============================================
+
+/**
+ * Stand-in for local runs: logs each message, and appends it as a JSON line to
+ * SMS_OUTBOX_FILE when set. Messages count as delivered straight away.
+ */
+const consoleProvider: SmsProvider = {
+  id: "console",
+  name: "Console",
+  async send({ to, body }) {
+    const messageId = `console_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+    logger.info(`[DEV MODE] SMS to ${to}: ${body}`);
+
+    const outbox = getOptionalEnv("SMS_OUTBOX_FILE");
+    if (outbox) {
+      await appendFile(outbox, JSON.stringify({ messageId, to, body, sentAt: new Date().toISOString() }) + "\n");
+    }
+    return { messageId, status: "delivered" };
+  },
+};
+
+const PROVIDERS: Record<string, SmsProvider> = {
+  twilio: twilioProvider,
+  vonage: vonageProvider,
+  console: consoleProvider,
+};
+
+/**
+ * A provider by ID (for status callbacks), whether or not it's the one sending
+ */
+export function getSmsProviderById(id: string): SmsProvider | null {
+  return Object.hasOwn(PROVIDERS, id) ? PROVIDERS[id] : null;
+}
+
+/**
+ * The provider that sends verification codes, or null when SMS isn't configured
+ */
+export function getSmsProvider(): SmsProvider | null {
+  const id = getOptionalEnv("SMS_PROVIDER");
+  if (id) {
+    const provider = getSmsProviderById(id);
+    if (!provider) logger.error(`Unknown SMS_PROVIDER "${id}"`);
+    return provider;
+  }
+
+  if (getOptionalEnv("TWILIO_ACCOUNT_SID") && getOptionalEnv("TWILIO_AUTH_TOKEN")) {
+    return twilioProvider;
+  }
+  return process.env.NODE_ENV === "production" ? null : consoleProvider;
+}
+
+/**
+ * URL providers report delivery to, or undefined when callbacks aren't enabled
+ */
+export function getSmsStatusCallbackUrl(provider: SmsProvider): string | undefined {
+  const secret = getOptionalEnv("SMS_STATUS_CALLBACK_SECRET");
+  if (!secret || !provider.parseStatusCallback) return undefined;
+
+  const appUrl = getOptionalEnv("NEXT_PUBLIC_APP_URL", "http://localhost:3000");
+  return `${appUrl}/api/sms/status/${provider.id}?token=${encodeURIComponent(secret)}`;
+}
+
+/**
+ * Whether a status callback carries the secret from its callback URL
+ */
+export function isValidSmsCallbackToken(token: string | null): boolean {
+  const secret = getOptionalEnv("SMS_STATUS_CALLBACK_SECRET");
+  if (!secret || !token) return false;
+
+  const expected = Buffer.from(secret);
+  const actual = Buffer.from(token);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
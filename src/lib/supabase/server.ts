@@ -1,8 +1,9 @@
 import { createServerClient, type CookieOptions } from "@supabase/ssr";
+import { createClient } from "@supabase/supabase-js";
 import { cookies } from "next/headers";
 import { Database } from "./types";
 import { User } from "@/types";
-import { getRequiredEnv } from "@/lib/env";
+import { getOptionalEnv, getRequiredEnv } from "@/lib/env";
 
 type Profile = Database["public"]["Tables"]["profiles"]["Row"];
 
@@ -40,6 +41,21 @@ export async function createServerSupabaseClient() {
   );
 }
 
+/**
+ * Creates a Supabase client with the service role key, for the RPCs only the
+ * server may call (scheduled jobs, provider callbacks, recording results the
+ * server has checked). It bypasses RLS: only use it after doing those checks.
+ * Returns null when SUPABASE_SERVICE_ROLE_KEY isn't set.
+ */
+export function createServiceSupabaseClient() {
+  const serviceRoleKey = getOptionalEnv("SUPABASE_SERVICE_ROLE_KEY");
+  if (!serviceRoleKey) return null;
+
+  return createClient(getRequiredEnv("NEXT_PUBLIC_SUPABASE_URL"), serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
+
 /**
  * Get the authenticated user from the server.
  * Uses getUser() which validates the JWT with Supabase Auth server.
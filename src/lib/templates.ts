@@ -67,6 +67,19 @@ export const templateIconNames: Record<string, string> = {
   custom: "PenLine",
 };
 
+/**
+ * "Sign a document" deals: the creator uploads a PDF contract instead of
+ * filling in terms. Offered separately in deal/new rather than listed with
+ * the term templates.
+ */
+export const documentDealTemplate: DealTemplate = {
+  id: "sign-document",
+  name: "Sign a Document",
+  description: "Upload an existing PDF contract to be signed",
+  icon: "FileText",
+  fields: [],
+};
+
 export const dealTemplates: DealTemplate[] = [
   // 1. PAYMENT PROMISE (IOU) - Most common use case
   {
@@ -0,0 +1,57 @@
+/**
+ * Term Initials and Acknowledgements
+ *
+ * Creators can mark individual terms "must initial" or "must acknowledge".
+ * Before signing, every recipient initials or ticks each marked term; the
+ * responses are stored on the deal with who made them and when, and sealed
+ * along with the signatures.
+ */
+import { DealTerm, TermAcknowledgement, TermRequirement } from "@/types";
+
+export const TERM_REQUIREMENT_LABELS: Record<TermRequirement, string> = {
+  initial: "Must initial",
+  acknowledge: "Must acknowledge",
+};
+
+/** A recipient's response to a marked term, before it's recorded on the deal */
+export interface TermResponse {
+  initials?: string;
+  acknowledgedAt: string;
+}
+
+function isComplete(term: DealTerm, response: TermResponse | undefined): boolean {
+  if (!response) return false;
+  return term.requirement !== "initial" || !!response.initials?.trim();
+}
+
+/**
+ * Labels of the marked terms that still need initials or a tick
+ */
+export function getMissingTermResponses(
+  terms: DealTerm[],
+  responses: Record<string, TermResponse | undefined>
+): string[] {
+  return terms.filter((term) => term.requirement && !isComplete(term, responses[term.id])).map((term) => term.label);
+}
+
+/**
+ * Initials from a name ("Jane van Doe" -> "JVD"), to prefill the initials field
+ */
+export function suggestInitials(name: string | undefined): string {
+  return (name || "")
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((part) => part[0].toUpperCase())
+    .join("")
+    .slice(0, 3);
+}
+
+/**
+ * Everyone's responses to one term, in the order they were recorded
+ */
+export function getAcknowledgementsForTerm(
+  acknowledgements: TermAcknowledgement[] | undefined,
+  termId: string
+): TermAcknowledgement[] {
+  return (acknowledgements || []).filter((acknowledgement) => acknowledgement.termId === termId);
+}
@@ -0,0 +1,112 @@
+/**
+ * Timestamp Authority client (server-only)
+ *
+ * Obtains RFC 3161 timestamp tokens for deal seals from the TSA configured in
+ * TSA_URL (e.g. https://freetsa.org/tsr). Without TSA_URL, development builds
+ * use a local stand-in that issues unsigned tokens under a development policy
+ * (shown as such on /verify), and production skips timestamping.
+ */
+import { randomBytes } from "crypto";
+import { der, bytesToBase64, bytesToHex, hexToBytes } from "./asn1";
+import { getOptionalEnv } from "./env";
+import { logger } from "./logger";
+import {
+  DEV_TSA_POLICY_OID,
+  buildTimestampRequest,
+  parseTimestampResponse,
+  parseTimestampToken,
+} from "./timestamp";
+
+const TSA_TIMEOUT_MS = 10_000;
+
+export interface SealTimestamp {
+  /** Base64 DER timestamp token */
+  token: string;
+  /** Time the TSA vouches for */
+  timestampedAt: string;
+  authority: string;
+}
+
+// INTEGERs may gain or lose a leading zero byte when re-encoded
+function sameInteger(a: string, b: string): boolean {
+  return a.replace(/^(00)+/, "") === b.replace(/^(00)+/, "");
+}
+
+/**
+ * Local stand-in for a TSA: a CMS SignedData wrapping the TSTInfo, with no
+ * signer. Only for development - tokens carry DEV_TSA_POLICY_OID.
+ */
+function createDevelopmentToken(seal: string, nonce: Uint8Array): Uint8Array {
+  const tstInfo = der.sequence(
+    der.integer(1),
+    der.oid(DEV_TSA_POLICY_OID),
+    der.sequence(der.sequence(der.oid("2.16.840.1.101.3.4.2.1"), der.null()), der.octetString(hexToBytes(seal))),
+    der.integer(randomBytes(8)),
+    der.generalizedTime(new Date()),
+    der.integer(nonce),
+    // tsa: directoryName CN=Proofo Development TSA
+    der.explicit(0, der.explicit(4, der.sequence(der.set(der.sequence(der.oid("2.5.4.3"), der.utf8String("Proofo Development TSA"))))))
+  );
+
+  const signedData = der.sequence(
+    der.integer(3),
+    der.set(),
+    der.sequence(der.oid("1.2.840.113549.1.9.16.1.4"), der.explicit(0, der.octetString(tstInfo))),
+    der.set()
+  );
+
+  return der.sequence(der.oid("1.2.840.113549.1.7.2"), der.explicit(0, signedData));
+}
+
+async function requestFromTsa(url: string, request: Uint8Array): Promise<Uint8Array> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/timestamp-query",
+      Accept: "application/timestamp-reply",
+    },
+    body: Buffer.from(request),
+    signal: AbortSignal.timeout(TSA_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    throw new Error(`TSA responded with ${response.status}`);
+  }
+
+  return parseTimestampResponse(new Uint8Array(await response.arrayBuffer()));
+}
+
+/**
+ * Get a timestamp token for a deal seal.
+ * Returns null when timestamping isn't configured; throws if the TSA fails.
+ */
+export async function requestSealTimestamp(seal: string): Promise<SealTimestamp | null> {
+  const url = getOptionalEnv("TSA_URL");
+  if (!url && process.env.NODE_ENV === "production") {
+    return null;
+  }
+
+  const nonce = randomBytes(8);
+  const token = url
+    ? await requestFromTsa(url, buildTimestampRequest(seal, nonce))
+    : createDevelopmentToken(seal, nonce);
+
+  // Never store a token that doesn't answer our request
+  const info = parseTimestampToken(token);
+  if (info.hashedMessage !== seal.toLowerCase()) {
+    throw new Error("Timestamp token covers a different hash");
+  }
+  if (!info.nonce || !sameInteger(info.nonce, bytesToHex(nonce))) {
+    throw new Error("Timestamp token nonce mismatch");
+  }
+
+  if (!url) {
+    logger.debug("Issued development timestamp (TSA_URL not set)");
+  }
+
+  return {
+    token: bytesToBase64(token),
+    timestampedAt: info.genTime,
+    authority: info.authority || (url ? new URL(url).host : "Proofo Development TSA"),
+  };
+}
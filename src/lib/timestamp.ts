@@ -0,0 +1,174 @@
+/**
+ * RFC 3161 Trusted Timestamps
+ *
+ * Builds timestamp requests for a deal seal and reads the timestamp tokens a
+ * Time Stamping Authority (TSA) returns. The seal is already a SHA-256 hash,
+ * so it is sent as the message imprint as-is; a token can therefore also be
+ * checked with `openssl ts -verify -digest <seal> -in token.tsr -CAfile <tsa-ca>`.
+ *
+ * Safe to use in the browser (verification) and on the server (requests).
+ */
+import {
+  ASN1_TAG,
+  Asn1Node,
+  base64ToBytes,
+  bytesToHex,
+  decodeGeneralizedTime,
+  decodeOid,
+  decodeString,
+  der,
+  derEncode,
+  hexToBytes,
+  parseDer,
+  parseDerContent,
+} from "./asn1";
+
+const OID = {
+  SHA256: "2.16.840.1.101.3.4.2.1",
+  SIGNED_DATA: "1.2.840.113549.1.7.2",
+  TST_INFO: "1.2.840.113549.1.9.16.1.4",
+  COMMON_NAME: "2.5.4.3",
+  ORGANIZATION: "2.5.4.10",
+} as const;
+
+/** Policy used by the local development TSA, so its tokens are never mistaken for real ones */
+export const DEV_TSA_POLICY_OID = "2.25.270963014874367297667246243352432065952";
+
+export interface TimestampInfo {
+  /** Time the TSA vouches for (ISO string) */
+  genTime: string;
+  policy: string;
+  hashAlgorithm: string;
+  /** Hex-encoded hash the token covers */
+  hashedMessage: string;
+  serialNumber: string;
+  nonce?: string;
+  /** Name the TSA identifies itself with, if included */
+  authority?: string;
+  isDevelopment: boolean;
+}
+
+/**
+ * - `unverified`: the token covers this seal; the TSA's signature over it is
+ *   not checked here, so what it says is self-reported until checked with
+ *   `openssl ts -verify`
+ * - `invalid`: the token is malformed or covers a different hash
+ * - `development`: covers this seal, but was issued by the local development TSA
+ */
+export type TimestampStatus = "unverified" | "invalid" | "development";
+
+export interface TimestampVerification {
+  status: TimestampStatus;
+  info?: TimestampInfo;
+}
+
+/**
+ * Build a DER-encoded TimeStampReq for a deal seal
+ */
+export function buildTimestampRequest(seal: string, nonce: Uint8Array): Uint8Array {
+  return der.sequence(
+    der.integer(1),
+    der.sequence(der.sequence(der.oid(OID.SHA256), der.null()), der.octetString(hexToBytes(seal))),
+    der.integer(nonce),
+    // Ask for the TSA certificate so the token can be verified on its own
+    der.boolean(true)
+  );
+}
+
+/**
+ * Extract the timestamp token from a DER-encoded TimeStampResp.
+ * Throws if the TSA rejected the request.
+ */
+export function parseTimestampResponse(response: Uint8Array): Uint8Array {
+  const [statusInfo, token] = parseDer(response).children;
+  const status = statusInfo?.children[0]?.value[0];
+
+  // 0 = granted, 1 = grantedWithMods
+  if (status !== 0 && status !== 1) {
+    const reason = statusInfo?.children[1]?.children[0];
+    throw new Error(`TSA rejected the request${reason ? `: ${decodeString(reason)}` : ` (status ${status})`}`);
+  }
+  if (!token) {
+    throw new Error("TSA response has no timestamp token");
+  }
+
+  // DER is canonical, so re-encoding reproduces the TSA's bytes
+  return derEncode(token.tag, token.value);
+}
+
+// First CN (or O) in a GeneralName, e.g. the TSA's directoryName
+function findName(node: Asn1Node): string | undefined {
+  let organization: string | undefined;
+
+  const walk = (current: Asn1Node): string | undefined => {
+    if (current.tag === ASN1_TAG.SEQUENCE && current.children[0]?.tag === ASN1_TAG.OID && current.children[1]) {
+      const oid = decodeOid(current.children[0]);
+      if (oid === OID.COMMON_NAME) return decodeString(current.children[1]);
+      if (oid === OID.ORGANIZATION) organization ??= decodeString(current.children[1]);
+    }
+    for (const child of current.children) {
+      const found = walk(child);
+      if (found) return found;
+    }
+    return undefined;
+  };
+
+  return walk(node) || organization;
+}
+
+/**
+ * Read a DER-encoded timestamp token (CMS SignedData wrapping a TSTInfo)
+ */
+export function parseTimestampToken(token: Uint8Array): TimestampInfo {
+  const contentInfo = parseDer(token);
+  if (decodeOid(contentInfo.children[0]) !== OID.SIGNED_DATA) {
+    throw new Error("Timestamp token is not CMS SignedData");
+  }
+
+  const signedData = contentInfo.children[1].children[0];
+  const encapContentInfo = signedData.children[2];
+  if (decodeOid(encapContentInfo.children[0]) !== OID.TST_INFO) {
+    throw new Error("Timestamp token does not contain TSTInfo");
+  }
+
+  const tstInfo = parseDerContent(encapContentInfo.children[1].children[0]);
+  const [, policy, messageImprint, serialNumber, genTime, ...optional] = tstInfo.children;
+
+  const nonce = optional.find((node) => node.tag === ASN1_TAG.INTEGER);
+  const tsa = optional.find((node) => node.tag === 0xa0);
+  const policyOid = decodeOid(policy);
+
+  return {
+    genTime: decodeGeneralizedTime(genTime),
+    policy: policyOid,
+    hashAlgorithm: decodeOid(messageImprint.children[0].children[0]),
+    hashedMessage: bytesToHex(messageImprint.children[1].value),
+    serialNumber: bytesToHex(serialNumber.value),
+    nonce: nonce ? bytesToHex(nonce.value) : undefined,
+    authority: tsa ? findName(tsa) : undefined,
+    isDevelopment: policyOid === DEV_TSA_POLICY_OID,
+  };
+}
+
+/**
+ * Check that a stored timestamp token (base64 DER) covers a deal seal.
+ *
+ * This only reads what the token says (which hash, at what time, from which
+ * TSA), so a matching token is reported as `unverified`, never as trusted.
+ * The TSA's CMS signature and certificate chain are not checked here; use
+ * `openssl ts -verify` with the TSA's CA certificate for that.
+ */
+export function verifyTimestampToken(token: string, seal: string): TimestampVerification {
+  let info: TimestampInfo;
+  try {
+    info = parseTimestampToken(base64ToBytes(token));
+  } catch {
+    return { status: "invalid" };
+  }
+
+  if (info.hashAlgorithm !== OID.SHA256 || info.hashedMessage !== seal.toLowerCase()) {
+    return { status: "invalid", info };
+  }
+
+  return { status: info.isDevelopment ? "development" : "unverified", info };
+}
@@ -25,3 +25,14 @@ export function getUserInitials(name?: string | null, email?: string | null): st
   }
   return "U";
 }
+
+/**
+ * Pick black or white text for a background colour
+ * @param hex - Background colour as "#rrggbb"
+ * @returns "#000000" on light backgrounds, "#ffffff" on dark ones
+ */
+export function getContrastTextColor(hex: string): string {
+  const [r, g, b] = [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16));
+  // Perceived brightness (ITU-R BT.601)
+  return (r * 299 + g * 587 + b * 114) / 1000 > 150 ? "#000000" : "#ffffff";
+}
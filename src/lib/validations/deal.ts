@@ -21,9 +21,113 @@ export const dealTermSchema = z.object({
       LIMITS.MAX_TERM_VALUE_LENGTH,
       `Term value must be ${LIMITS.MAX_TERM_VALUE_LENGTH} characters or less`
     ),
-  type: z.enum(["text", "number", "date", "currency"]),
+  type: z.enum(["text", "number", "date", "currency", "checkbox"]),
+  requirement: z.enum(["initial", "acknowledge"]).optional(),
 });
 
+/**
+ * Validation schema for a recipient initialling or acknowledging a term
+ */
+export const termAcknowledgementSchema = z.object({
+  termId: z.string().min(1, "Term is required"),
+  initials: z
+    .string()
+    .trim()
+    .min(1, "Initials are required")
+    .max(LIMITS.MAX_INITIALS_LENGTH, `Initials must be ${LIMITS.MAX_INITIALS_LENGTH} characters or less`)
+    .optional(),
+  acknowledgedAt: z.iso.datetime({ offset: true }),
+});
+
+/**
+ * Validation schema for an additional signer on a multi-party deal
+ */
+export const dealSignerSchema = z.object({
+  name: z
+    .string()
+    .min(1, "Signer name is required")
+    .max(100, "Signer name must be 100 characters or less")
+    .trim(),
+  email: z.string().email("Invalid signer email address").optional().or(z.literal("")),
+});
+
+/**
+ * Validation schema for a signing deadline, in days from now
+ */
+const deadlineDaysSchema = z
+  .number()
+  .int("Deadline must be a whole number of days")
+  .min(1, "Deadline must be at least 1 day")
+  .max(LIMITS.MAX_DEADLINE_DAYS, `Deadline can be at most ${LIMITS.MAX_DEADLINE_DAYS} days`);
+
+/**
+ * How a signature was made: drawn on the pad, typed in a script font, or an uploaded image
+ */
+export const signatureMethodSchema = z.enum(["drawn", "typed", "uploaded"]);
+
+/**
+ * The pen strokes of a drawn signature: points in pad pixels, with the
+ * milliseconds since the first point and the pen pressure where reported
+ */
+export const signatureStrokesSchema = z
+  .object({
+    width: z.number().positive().max(4000),
+    height: z.number().positive().max(4000),
+    strokes: z
+      .array(
+        z
+          .array(
+            z.object({
+              x: z.number(),
+              y: z.number(),
+              t: z.number().int().min(0).max(3_600_000),
+              p: z.number().min(0).max(1).optional(),
+            })
+          )
+          .min(1)
+      )
+      .min(1, "Signature has no strokes")
+      .max(LIMITS.MAX_SIGNATURE_STROKES, "Signature has too many strokes"),
+  })
+  .refine(
+    (record) => record.strokes.reduce((total, stroke) => total + stroke.length, 0) <= LIMITS.MAX_SIGNATURE_POINTS,
+    "Signature has too many points"
+  );
+
+const verificationRequirementSchema = z.enum(["required", "optional", "off"]);
+
+/**
+ * A creator's recipient verification policy. Checks build on each other: ID
+ * needs email and phone, and limiting email domains needs a verified email.
+ */
+export const verificationPolicySchema = z
+  .object({
+    email: verificationRequirementSchema,
+    phone: verificationRequirementSchema,
+    id: verificationRequirementSchema,
+    emailDomains: z
+      .array(
+        z
+          .string()
+          .trim()
+          .toLowerCase()
+          .transform((domain) => domain.replace(/^@/, ""))
+          .pipe(z.string().regex(/^[a-z0-9-]+(\.[a-z0-9-]+)+$/, "Invalid email domain"))
+      )
+      .max(LIMITS.MAX_POLICY_EMAIL_DOMAINS, `Maximum ${LIMITS.MAX_POLICY_EMAIL_DOMAINS} email domains allowed`)
+      .optional(),
+    requireAccount: z.boolean().optional(),
+  })
+  .refine((policy) => policy.id === "off" || (policy.email !== "off" && policy.phone !== "off"), {
+    message: "ID verification needs email and phone verification",
+  })
+  .refine((policy) => policy.id !== "required" || (policy.email === "required" && policy.phone === "required"), {
+    message: "Email and phone must be required when ID is required",
+  })
+  .refine((policy) => !policy.emailDomains?.length || policy.email === "required", {
+    message: "Email verification must be required to limit email domains",
+  });
+
 /**
  * Validation schema for creating a new deal
  */
@@ -51,6 +155,26 @@ export const createDealSchema = z.object({
   terms: z.array(dealTermSchema).max(LIMITS.MAX_TERMS, `Maximum ${LIMITS.MAX_TERMS} terms allowed`),
   templateId: z.string().optional(),
   trustLevel: z.enum(["basic", "verified", "strong", "maximum"]).default("basic"),
+  // Replaces the trust level's preset when the creator composed their own policy
+  verificationPolicy: verificationPolicySchema.optional(),
+  additionalSigners: z
+    .array(dealSignerSchema)
+    .max(LIMITS.MAX_SIGNERS - 1, `Maximum ${LIMITS.MAX_SIGNERS} signers allowed`)
+    .optional()
+    .default([]),
+  signingMode: z.enum(["ordered", "unordered"]).default("unordered"),
+  creatorSignatureMode: z.enum(["none", "upfront", "after"]).default("none"),
+  // Required when signing up front - the creator's signature
+  creatorSignatureBase64: z
+    .string()
+    .regex(/^data:image\//, "Invalid signature format")
+    .optional(),
+  creatorSignatureMethod: signatureMethodSchema.optional(),
+  creatorSignatureStrokes: signatureStrokesSchema.optional(),
+  // Set when this deal amends an already sealed deal
+  amendsDealId: z.uuid("Invalid deal ID").optional(),
+  // Signing deadline: the deal expires if it isn't completed within this many days
+  deadlineDays: deadlineDaysSchema.default(LIMITS.TOKEN_EXPIRY_DAYS),
 });
 
 /**
@@ -64,9 +188,58 @@ export const confirmDealSchema = z.object({
     .string()
     .regex(/^data:image\//, "Invalid signature format")
     .min(100, "Signature is too small"),
+  signatureMethod: signatureMethodSchema.optional(),
+  signatureStrokes: signatureStrokesSchema.optional(),
   recipientEmail: z.string().email("Invalid email").optional().or(z.literal("")),
 });
 
+/**
+ * Validation schema for the creator counter-signing a deal
+ */
+export const countersignDealSchema = z.object({
+  dealId: z.uuid("Invalid deal ID"),
+  signatureBase64: z
+    .string()
+    .regex(/^data:image\//, "Invalid signature format")
+    .min(100, "Signature is too small"),
+  signatureMethod: signatureMethodSchema.optional(),
+  signatureStrokes: signatureStrokesSchema.optional(),
+});
+
+/**
+ * Validation schema for a recipient proposing a new value for a term
+ */
+export const proposeTermSchema = z.object({
+  dealId: z.uuid("Invalid deal ID"),
+  token: z.string().min(32, "Invalid access token"),
+  termId: z.string().min(1, "Term is required"),
+  proposedValue: z
+    .string()
+    .trim()
+    .min(1, "Proposed value is required")
+    .max(
+      LIMITS.MAX_TERM_VALUE_LENGTH,
+      `Term value must be ${LIMITS.MAX_TERM_VALUE_LENGTH} characters or less`
+    ),
+  note: z.string().max(500, "Note must be 500 characters or less").trim().optional(),
+});
+
+/**
+ * Validation schema for the creator accepting or rejecting a term proposal
+ */
+export const resolveTermProposalSchema = z.object({
+  proposalId: z.uuid("Invalid proposal ID"),
+  accept: z.boolean(),
+});
+
+/**
+ * Validation schema for the creator extending a deal's signing deadline
+ */
+export const extendDeadlineSchema = z.object({
+  dealId: z.uuid("Invalid deal ID"),
+  deadlineDays: deadlineDaysSchema,
+});
+
 /**
  * Validation schema for voiding a deal
  */
@@ -89,8 +262,14 @@ export const nudgeDealSchema = z.object({
 });
 
 // Type exports for use in server actions
+export type DealSignerInput = z.infer<typeof dealSignerSchema>;
+export type TermAcknowledgementInput = z.infer<typeof termAcknowledgementSchema>;
 export type CreateDealInput = z.infer<typeof createDealSchema>;
 export type ConfirmDealInput = z.infer<typeof confirmDealSchema>;
+export type CountersignDealInput = z.infer<typeof countersignDealSchema>;
+export type ProposeTermInput = z.infer<typeof proposeTermSchema>;
+export type ResolveTermProposalInput = z.infer<typeof resolveTermProposalSchema>;
+export type ExtendDeadlineInput = z.infer<typeof extendDeadlineSchema>;
 export type VoidDealInput = z.infer<typeof voidDealSchema>;
 export type DuplicateDealInput = z.infer<typeof duplicateDealSchema>;
 export type NudgeDealInput = z.infer<typeof nudgeDealSchema>;
@@ -2,12 +2,27 @@
 export {
   createDealSchema,
   confirmDealSchema,
+  countersignDealSchema,
+  proposeTermSchema,
+  resolveTermProposalSchema,
+  extendDeadlineSchema,
   voidDealSchema,
   duplicateDealSchema,
   nudgeDealSchema,
   dealTermSchema,
+  dealSignerSchema,
+  termAcknowledgementSchema,
+  signatureMethodSchema,
+  signatureStrokesSchema,
+  verificationPolicySchema,
+  type DealSignerInput,
+  type TermAcknowledgementInput,
   type CreateDealInput,
   type ConfirmDealInput,
+  type CountersignDealInput,
+  type ProposeTermInput,
+  type ResolveTermProposalInput,
+  type ExtendDeadlineInput,
   type VoidDealInput,
   type DuplicateDealInput,
   type NudgeDealInput,
@@ -16,9 +31,11 @@ export {
 // User validation schemas
 export {
   updateProfileSchema,
+  brandingProfileSchema,
   emailSchema,
   verifyOtpSchema,
   type UpdateProfileInput,
+  type BrandingProfileInput,
   type EmailInput,
   type VerifyOtpInput,
 } from "./user";
@@ -17,6 +17,21 @@ export const updateProfileSchema = z.object({
   signatureUrl: z.string().url("Invalid signature URL").optional().or(z.literal("")),
 });
 
+/**
+ * Validation schema for a PDF branding profile
+ */
+export const brandingProfileSchema = z.object({
+  companyName: z.string().max(100, "Company name must be 100 characters or less").trim().optional(),
+  logoUrl: z.string().url("Invalid logo URL").optional().or(z.literal("")),
+  accentColor: z
+    .string()
+    .regex(/^#[0-9a-fA-F]{6}$/, "Accent colour must be a hex colour like #2563eb")
+    .optional()
+    .or(z.literal("")),
+  footerText: z.string().max(200, "Footer text must be 200 characters or less").trim().optional(),
+  legalText: z.string().max(2000, "Legal text must be 2000 characters or less").trim().optional(),
+});
+
 /**
  * Validation schema for email (login)
  */
@@ -75,6 +90,7 @@ export const notificationPreferencesSchema = z.object({
 
 // Type exports
 export type UpdateProfileInput = z.infer<typeof updateProfileSchema>;
+export type BrandingProfileInput = z.infer<typeof brandingProfileSchema>;
 export type EmailInput = z.infer<typeof emailSchema>;
 export type VerifyOtpInput = z.infer<typeof verifyOtpSchema>;
 export type AppearancePreferencesInput = z.infer<typeof appearancePreferencesSchema>;
@@ -0,0 +1,161 @@
+/**
+ * Offline Verification Bundles
+ *
+ * A sealed deal exported as a single self-contained JSON file: the deal as it
+ * was sealed, its audit log, the signature images and the platform's seal
+ * signing keys. /verify can check a bundle entirely in the browser, so a deal
+ * can still be proven without reaching Proofo's database.
+ *
+ * The seal covers the signature image URLs, not the image bytes; the images
+ * are embedded so the bundle still shows (and prints) the signatures once
+ * those URLs stop resolving.
+ */
+import { z } from "zod";
+import { Deal, AuditLogEntry } from "@/types";
+import { SealPublicKey, fetchSealKeySet } from "./crypto";
+
+export const BUNDLE_FORMAT = "proofo-verification-bundle";
+export const BUNDLE_VERSION = 1;
+
+export interface VerificationBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: typeof BUNDLE_VERSION;
+  exportedAt: string;
+  /** Origin the bundle was exported from */
+  exportedFrom: string;
+  deal: Deal;
+  auditLog: AuditLogEntry[];
+  /**
+   * Seal signing keys published when the bundle was exported. Self-asserted:
+   * /verify falls back to them only when the published keys can't be loaded.
+   */
+  sealPublicKeys: SealPublicKey[];
+  /** When the platform started requiring seal signatures, if it does; self-asserted too */
+  sealSignaturesRequiredFrom?: string;
+  /** Signature images as data URLs, keyed by the URL sealed into the deal */
+  signatureImages: Record<string, string>;
+}
+
+const sealPublicKeySchema = z.object({
+  kid: z.string(),
+  kty: z.literal("OKP"),
+  crv: z.literal("Ed25519"),
+  x: z.string(),
+  use: z.literal("sig"),
+  alg: z.literal("EdDSA"),
+  status: z.enum(["active", "retired"]),
+});
+
+// Only what verification relies on is checked; the rest is carried as-is
+const bundleSchema = z.object({
+  format: z.literal(BUNDLE_FORMAT),
+  version: z.literal(BUNDLE_VERSION),
+  exportedAt: z.string(),
+  exportedFrom: z.string(),
+  deal: z.looseObject({
+    id: z.string(),
+    publicId: z.string(),
+    title: z.string(),
+    terms: z.array(z.looseObject({ label: z.string(), value: z.string() })),
+    status: z.string(),
+    createdAt: z.string(),
+    dealSeal: z.string(),
+  }),
+  auditLog: z.array(z.looseObject({ id: z.string(), eventType: z.string(), createdAt: z.string() })),
+  sealPublicKeys: z.array(sealPublicKeySchema),
+  sealSignaturesRequiredFrom: z.string().optional(),
+  signatureImages: z.record(z.string(), z.string()),
+});
+
+// Every signature image URL the seal covers
+function getSignatureUrls(deal: Deal): string[] {
+  const urls = [deal.signatureUrl, deal.creatorSignatureUrl, ...(deal.signers || []).map((signer) => signer.signatureUrl)];
+  return [...new Set(urls.filter((url): url is string => !!url))];
+}
+
+async function toDataUrl(url: string): Promise<string> {
+  if (url.startsWith("data:")) return url;
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch signature image (${response.status})`);
+  }
+  const blob = await response.blob();
+
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * Build a verification bundle for a sealed deal (client-side)
+ */
+export async function createVerificationBundle(deal: Deal, auditLogs: AuditLogEntry[]): Promise<VerificationBundle> {
+  if (!deal.dealSeal) {
+    throw new Error("Only sealed deals can be exported");
+  }
+
+  // The access token grants signing access; it has no place in a shareable file
+  const { accessToken: _accessToken, ...sealedDeal } = deal;
+
+  const signatureImages: Record<string, string> = {};
+  await Promise.all(
+    getSignatureUrls(deal).map(async (url) => {
+      signatureImages[url] = await toDataUrl(url);
+    })
+  );
+
+  const sealKeySet = await fetchSealKeySet();
+
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    exportedFrom: window.location.origin,
+    deal: sealedDeal,
+    auditLog: auditLogs,
+    sealPublicKeys: deal.sealSignature ? sealKeySet.keys : [],
+    sealSignaturesRequiredFrom: sealKeySet.signaturesRequiredFrom,
+    signatureImages,
+  };
+}
+
+/**
+ * Read a bundle file's contents.
+ * Throws with a user-facing message if it isn't a verification bundle.
+ */
+export function parseVerificationBundle(text: string): VerificationBundle {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("This file is not valid JSON");
+  }
+
+  const result = bundleSchema.safeParse(data);
+  if (!result.success) {
+    const format = (data as { format?: unknown } | null)?.format;
+    throw new Error(
+      format === BUNDLE_FORMAT
+        ? "This verification bundle is damaged or from an unsupported version"
+        : "This file is not a Proofo verification bundle"
+    );
+  }
+
+  return result.data as unknown as VerificationBundle;
+}
+
+export function downloadVerificationBundle(bundle: VerificationBundle): void {
+  const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `proofo-${bundle.deal.publicId}-verification.json`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,153 @@
+/**
+ * Recipient Verification Policies
+ *
+ * A deal's trust level is a preset policy: which of email, phone and ID the
+ * recipient has to verify before signing. Creators can instead compose their
+ * own policy per deal or template, making each check required, optional or
+ * off, limiting the verified email to certain domains, or requiring the
+ * recipient to be signed in to Proofo. The policy is stored on the deal. The
+ * signing action checks it for a readable error, and confirm_deal_with_token
+ * enforces it in the database (deal_policy_met), since signing links can call
+ * it directly.
+ */
+import { TrustLevel, VerificationPolicy, VerificationRequirement, VerificationType } from "@/types";
+
+export const TRUST_LEVEL_POLICIES: Record<TrustLevel, VerificationPolicy> = {
+  basic: { email: "off", phone: "off", id: "off" },
+  verified: { email: "required", phone: "off", id: "off" },
+  strong: { email: "required", phone: "required", id: "off" },
+  maximum: { email: "required", phone: "required", id: "required" },
+};
+
+export const VERIFICATION_REQUIREMENT_LABELS: Record<VerificationRequirement, string> = {
+  required: "Required",
+  optional: "Optional",
+  off: "Off",
+};
+
+export const VERIFICATION_TYPE_LABELS: Record<VerificationType, string> = {
+  email: "Email",
+  phone: "Phone",
+  id: "ID document",
+};
+
+/**
+ * The policy a deal enforces: its own, or the preset for its trust level
+ */
+export function resolveVerificationPolicy(
+  trustLevel: TrustLevel | undefined,
+  policy?: VerificationPolicy | null
+): VerificationPolicy {
+  return policy || TRUST_LEVEL_POLICIES[trustLevel || "basic"];
+}
+
+/**
+ * The highest trust level whose checks the policy all requires. Stored with
+ * custom policies so badges and filters keep working.
+ */
+export function getTrustLevelForPolicy(policy: VerificationPolicy): TrustLevel {
+  if (policy.email !== "required") return "basic";
+  if (policy.phone !== "required") return "verified";
+  if (policy.id !== "required") return "strong";
+  return "maximum";
+}
+
+/**
+ * The trust level preset a policy is identical to, if any
+ */
+export function getMatchingTrustLevel(policy: VerificationPolicy): TrustLevel | null {
+  if (policy.emailDomains?.length || policy.requireAccount) return null;
+  const levels = Object.keys(TRUST_LEVEL_POLICIES) as TrustLevel[];
+  return (
+    levels.find((level) => {
+      const preset = TRUST_LEVEL_POLICIES[level];
+      return preset.email === policy.email && preset.phone === policy.phone && preset.id === policy.id;
+    }) || null
+  );
+}
+
+/**
+ * Whether the recipient has a verification step before signing
+ */
+export function policyHasVerificationStep(policy: VerificationPolicy): boolean {
+  return policy.email !== "off" || policy.phone !== "off" || policy.id !== "off" || !!policy.requireAccount;
+}
+
+/**
+ * Normalize a domain as entered by a creator ("@Acme.com " -> "acme.com")
+ */
+export function normalizeEmailDomain(domain: string): string {
+  return domain.trim().toLowerCase().replace(/^@/, "");
+}
+
+/**
+ * Whether an email address belongs to one of the allowed domains (any domain
+ * when none are set). Subdomains don't count: "eu.acme.com" isn't "acme.com".
+ */
+export function isEmailDomainAllowed(email: string, domains: string[] | undefined): boolean {
+  if (!domains?.length) return true;
+  const domain = email.trim().toLowerCase().split("@").pop() || "";
+  return domains.some((allowed) => normalizeEmailDomain(allowed) === domain);
+}
+
+/**
+ * Describe the allowed domains for the recipient ("@acme.com or @acme.io")
+ */
+export function formatEmailDomains(domains: string[]): string {
+  const formatted = domains.map((domain) => `@${normalizeEmailDomain(domain)}`);
+  if (formatted.length <= 1) return formatted.join("");
+  return `${formatted.slice(0, -1).join(", ")} or ${formatted[formatted.length - 1]}`;
+}
+
+/**
+ * Whether a signed-in account is the party a signing link is for: the account
+ * the deal (or signer) names, or, while none is named, one with the party's
+ * email. A link sent without an email can be claimed by any account.
+ * Mirrors is_deal_party_account in the database.
+ */
+export function isDealPartyAccount(
+  account: { id: string; email?: string | null } | null | undefined,
+  party: { recipientId?: string | null; email?: string | null }
+): boolean {
+  if (!account) return false;
+  if (party.recipientId) return party.recipientId === account.id;
+  return !party.email || party.email.toLowerCase() === account.email?.toLowerCase();
+}
+
+/**
+ * What a recipient still has to do before signing under a policy, as
+ * sentences to show them (empty when they can sign)
+ */
+export function getUnmetVerificationRequirements(
+  policy: VerificationPolicy,
+  state: {
+    verifications: { verification_type: VerificationType; verified_value?: string }[];
+    signedIn: boolean;
+    /** Signed in as the party the deal is for (see isDealPartyAccount) */
+    isPartyAccount: boolean;
+  }
+): string[] {
+  const unmet: string[] = [];
+  const email = state.verifications.find((v) => v.verification_type === "email");
+  const isVerified = (type: VerificationType) => state.verifications.some((v) => v.verification_type === type);
+
+  if (policy.requireAccount && !state.signedIn) {
+    unmet.push("Sign in to your Proofo account");
+  } else if (policy.requireAccount && !state.isPartyAccount) {
+    unmet.push("Sign in with the Proofo account this deal was sent to");
+  }
+  if (policy.email === "required" && !email) {
+    unmet.push("Verify your email address");
+  }
+  if (email?.verified_value && !isEmailDomainAllowed(email.verified_value, policy.emailDomains)) {
+    unmet.push(`Verify an email address ending in ${formatEmailDomains(policy.emailDomains || [])}`);
+  }
+  if (policy.phone === "required" && !isVerified("phone")) {
+    unmet.push("Verify your phone number");
+  }
+  if (policy.id === "required" && !isVerified("id")) {
+    unmet.push("Verify your ID document");
+  }
+
+  return unmet;
+}
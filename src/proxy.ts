@@ -23,7 +23,7 @@ export default async function proxy(request: NextRequest) {
 
   // Public routes that don't require authentication
   const publicRoutes = ["/", "/login", "/deal/new", "/demo", "/privacy", "/terms", "/verify"];
-  const publicPrefixes = ["/d/public/", "/auth/", "/api/"];
+  const publicPrefixes = ["/d/public/", "/auth/", "/api/", "/.well-known/", "/dev/"];
 
   const isPublicRoute = publicRoutes.includes(pathname);
   const isPublicPrefix = publicPrefixes.some((prefix) => pathname.startsWith(prefix));
@@ -1,7 +1,21 @@
 import { create } from "zustand";
 import { persist } from "zustand/middleware";
-import { Deal, User, DealStatus, AuditLogEntry } from "@/types";
-import { generatePublicId, generateAccessToken, calculateDealSeal } from "@/lib/crypto";
+import {
+  Deal,
+  User,
+  DealStatus,
+  AuditLogEntry,
+  SignatureMethod,
+  SignatureStrokes,
+  TermAcknowledgement,
+} from "@/types";
+import {
+  generatePublicId,
+  generateAccessToken,
+  calculateDealSeal,
+  transformTermAcknowledgementsForHash,
+} from "@/lib/crypto";
+import { hashSignatureStrokes, normalizeSignatureStrokes } from "@/lib/signature-strokes";
 
 interface AppState {
   // User state
@@ -21,7 +35,14 @@ interface AppState {
   getDealById: (id: string) => Deal | undefined;
   getDealByPublicId: (publicId: string) => Deal | undefined;
   voidDeal: (id: string) => void;
-  confirmDeal: (id: string, signatureData: string, recipientEmail?: string) => Promise<Deal | null>;
+  confirmDeal: (
+    id: string,
+    signatureData: string,
+    recipientEmail?: string,
+    termAcknowledgements?: TermAcknowledgement[],
+    signatureMethod?: SignatureMethod,
+    signatureStrokes?: SignatureStrokes
+  ) => Promise<Deal | null>;
 
   // Audit log state
   auditLogs: AuditLogEntry[];
@@ -89,7 +110,14 @@ export const useAppStore = create<AppState>()(
           });
         }
       },
-      confirmDeal: async (id, signatureData, recipientEmail) => {
+      confirmDeal: async (
+        id,
+        signatureData,
+        recipientEmail,
+        termAcknowledgements,
+        signatureMethod = "drawn",
+        signatureStrokes
+      ) => {
         const state = get();
         const deal = state.deals.find((d) => d.id === id);
         if (!deal || deal.status !== "pending") return null;
@@ -101,6 +129,9 @@ export const useAppStore = create<AppState>()(
           ),
         });
 
+        const strokes = signatureStrokes && normalizeSignatureStrokes(signatureStrokes);
+        const signatureVector = strokes && { strokes, sha256: await hashSignatureStrokes(strokes) };
+
         // Calculate deal seal (SHA-256 hash)
         const timestamp = new Date().toISOString();
         const dealSeal = await calculateDealSeal({
@@ -108,6 +139,8 @@ export const useAppStore = create<AppState>()(
           terms: JSON.stringify(deal.terms),
           signatureUrl: signatureData,
           timestamp,
+          termAcknowledgements: transformTermAcknowledgementsForHash(termAcknowledgements),
+          signatureStrokesSha256: signatureVector?.sha256,
         });
 
         // Update deal with confirmed status
@@ -116,8 +149,11 @@ export const useAppStore = create<AppState>()(
           status: "confirmed" as DealStatus,
           confirmedAt: timestamp,
           signatureUrl: signatureData,
+          signatureMethod,
+          ...(signatureVector && { signatureVector }),
           dealSeal,
           recipientEmail: recipientEmail || deal.recipientEmail,
+          ...(termAcknowledgements?.length && { termAcknowledgements }),
         };
 
         set({
@@ -133,6 +169,7 @@ export const useAppStore = create<AppState>()(
           metadata: {
             dealSeal,
             hasEmail: !!recipientEmail,
+            signatureMethod,
           },
         });
 
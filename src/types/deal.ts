@@ -1,5 +1,131 @@
-export type DealStatus = "pending" | "sealing" | "confirmed" | "voided";
+export type DealStatus = "pending" | "sealing" | "confirmed" | "voided" | "expired";
 export type TrustLevel = "basic" | "verified" | "strong" | "maximum";
+export type SigningMode = "ordered" | "unordered";
+/** When the creator signs: not at all, up front at creation, or after the recipient(s) */
+export type CreatorSignatureMode = "none" | "upfront" | "after";
+/** What a deal verification record confirms: an email address, a phone number or an identity document */
+export type VerificationType = "email" | "phone" | "id";
+/** Identity documents accepted for ID verification (Maximum trust level) */
+export type IdDocumentType = "passport" | "id_card" | "driving_licence";
+/** Whether a recipient must complete a verification, may choose to, or isn't offered it */
+export type VerificationRequirement = "required" | "optional" | "off";
+/**
+ * What a recipient has to verify before signing. Deals without one use the
+ * preset for their trust level.
+ */
+export interface VerificationPolicy {
+  email: VerificationRequirement;
+  phone: VerificationRequirement;
+  id: VerificationRequirement;
+  /** The verified email must belong to one of these domains */
+  emailDomains?: string[];
+  /** The recipient must be signed in to a Proofo account */
+  requireAccount?: boolean;
+}
+/** How a signature was made: drawn on the pad, typed in a script font, or an uploaded image */
+export type SignatureMethod = "drawn" | "typed" | "uploaded";
+/** A point of a drawn signature, in pad pixels */
+export interface SignaturePoint {
+  x: number;
+  y: number;
+  /** Milliseconds since the signature's first point */
+  t: number;
+  /** Pen pressure from 0 to 1, when the device reports it */
+  p?: number;
+}
+
+/** The pen strokes of a drawn signature, captured alongside its image */
+export interface SignatureStrokes {
+  /** Size of the pad the strokes were drawn on */
+  width: number;
+  height: number;
+  strokes: SignaturePoint[][];
+}
+
+/** A drawn signature's stroke record as stored on the deal */
+export interface SignatureVector {
+  strokes: SignatureStrokes;
+  /** SHA-256 of the stroke record, sealed with the deal */
+  sha256: string;
+  /** The strokes rendered as SVG, in storage */
+  svgUrl?: string;
+}
+
+/** COSE algorithm of a passkey's key pair: ES256, EdDSA or RS256 */
+export type PasskeyAlgorithm = -7 | -8 | -257;
+
+/** A passkey (WebAuthn credential) bound to a user's profile */
+export interface Passkey {
+  id: string;
+  /** Base64url credential ID */
+  credentialId: string;
+  name: string;
+  createdAt: string;
+  lastUsedAt?: string;
+}
+
+/**
+ * A signing party's WebAuthn assertion over the deal seal, made with a passkey
+ * bound to their Proofo account after the deal was sealed
+ */
+export interface PasskeySignature {
+  userId: string;
+  /** Name of the party on the deal */
+  signerName: string;
+  /** Base64url credential ID */
+  credentialId: string;
+  /** Host the passkey is scoped to (the Proofo domain it was registered on) */
+  rpId: string;
+  /** Base64url SPKI public key of the passkey */
+  publicKey: string;
+  algorithm: PasskeyAlgorithm;
+  /** Base64url authenticator data, client data JSON and signature, as returned by the authenticator */
+  authenticatorData: string;
+  clientDataJSON: string;
+  signature: string;
+  signedAt: string;
+}
+
+/** Sign-off a creator can require on an individual term, before the deal is signed */
+export type TermRequirement = "initial" | "acknowledge";
+
+export interface DealSigner {
+  id: string;
+  name: string;
+  email?: string;
+  recipientId?: string;
+  position: number;
+  signatureUrl?: string;
+  signatureMethod?: SignatureMethod;
+  signatureVector?: SignatureVector;
+  signedAt?: string;
+}
+
+/** A file the creator attached to a deal (photos, invoices, ...) */
+export interface DealAttachment {
+  id: string;
+  name: string;
+  url: string;
+  contentType: string;
+  /** Size in bytes */
+  size: number;
+  /** Hex SHA-256 of the file, covered by the deal seal */
+  sha256: string;
+  uploadedAt: string;
+}
+
+/** The PDF contract being signed, on "sign a document" deals */
+export interface DealDocument {
+  name: string;
+  url: string;
+  /** Size in bytes */
+  size: number;
+  /** Hex SHA-256 of the PDF, covered by the deal seal */
+  sha256: string;
+  /** Best-effort page count read from the PDF when it was uploaded */
+  pageCount?: number;
+  uploadedAt: string;
+}
 
 export interface Deal {
   id: string;
@@ -15,16 +141,58 @@ export interface Deal {
   terms: DealTerm[];
   status: DealStatus;
   trustLevel?: TrustLevel;
+  /** Set when the creator composed their own verification policy instead of a trust level preset */
+  verificationPolicy?: VerificationPolicy;
   createdAt: string;
   confirmedAt?: string;
   voidedAt?: string;
   viewedAt?: string;
+  /** Signing deadline: a pending deal not completed by then becomes expired */
+  expiresAt?: string;
+  expiredAt?: string;
   signatureUrl?: string;
+  signatureMethod?: SignatureMethod;
+  signatureVector?: SignatureVector;
   dealSeal?: string;
   accessToken?: string;
   lastNudgedAt?: string;
+  signingMode?: SigningMode;
+  signers?: DealSigner[];
+  creatorSignatureMode?: CreatorSignatureMode;
+  creatorSignatureUrl?: string;
+  creatorSignatureMethod?: SignatureMethod;
+  creatorSignatureVector?: SignatureVector;
+  creatorSignedAt?: string;
+  /** Incremented each time the creator accepts a term proposal (starts at 1) */
+  termsRevision?: number;
+  /** Deal this version amends (amendments are re-signed and chain to the previous seal) */
+  parentDealId?: string;
+  version?: number;
+  previousSeal?: string;
+  /** Platform's Ed25519 signature over dealSeal (base64url) and the ID of the key that made it */
+  sealSignature?: string;
+  sealKeyId?: string;
+  /** RFC 3161 timestamp token over dealSeal (base64 DER), when the deal was timestamped */
+  timestampToken?: string;
+  timestampedAt?: string;
+  timestampAuthority?: string;
+  /** Receipt PDF rendered and archived on the server when the deal was sealed */
+  pdfUrl?: string;
+  /** Hex SHA-256 of the archived PDF, also recorded in the audit log */
+  pdfSha256?: string;
+  pdfArchivedAt?: string;
+  /** Files attached by the creator; their hashes are part of the seal */
+  attachments?: DealAttachment[];
+  /** Set on "sign a document" deals: the uploaded PDF is what gets signed */
+  document?: DealDocument;
+  /** Initials and acknowledgements of the terms that require them; part of the seal */
+  termAcknowledgements?: TermAcknowledgement[];
+  /** Passkey signatures over dealSeal by registered signing parties */
+  passkeySignatures?: PasskeySignature[];
   verifications?: {
-    verification_type: "email" | "phone";
+    /** Multi-party deals: the signer who verified (unset for the single recipient) */
+    signer_id?: string | null;
+    verification_type: VerificationType;
     verified_value?: string;
     verified_at: string;
   }[];
@@ -34,7 +202,55 @@ export interface DealTerm {
   id: string;
   label: string;
   value: string;
-  type: "text" | "number" | "date" | "currency";
+  type: "text" | "number" | "date" | "currency" | "checkbox";
+  /** Each recipient must initial or tick this term before signing */
+  requirement?: TermRequirement;
+}
+
+/** A recipient's initials on (or acknowledgement of) a term marked by the creator */
+export interface TermAcknowledgement {
+  termId: string;
+  kind: TermRequirement;
+  /** Set when kind is "initial" */
+  initials?: string;
+  /** Multi-party deals: the signer who responded (the primary recipient otherwise) */
+  signerId?: string;
+  signerName: string;
+  acknowledgedAt: string;
+}
+
+/** One version in a deal's amendment chain */
+export interface DealVersion {
+  id: string;
+  publicId: string;
+  version: number;
+  title: string;
+  status: DealStatus;
+  dealSeal?: string;
+  previousSeal?: string;
+  createdAt: string;
+  confirmedAt?: string;
+  voidedAt?: string;
+}
+
+export type TermProposalStatus = "pending" | "accepted" | "rejected";
+
+/** A recipient-suggested edit to a single term, answered by the creator */
+export interface TermProposal {
+  id: string;
+  dealId: string;
+  signerId?: string;
+  termId: string;
+  termLabel: string;
+  previousValue: string;
+  proposedValue: string;
+  note?: string;
+  proposedByName?: string;
+  status: TermProposalStatus;
+  /** Terms revision created by accepting this proposal */
+  revision?: number;
+  createdAt: string;
+  resolvedAt?: string;
 }
 
 export interface DealTemplate {
@@ -60,6 +276,8 @@ export interface UserTemplate extends DealTemplate {
   userId: string;
   isPublic: boolean;
   theme: TemplateTheme;
+  /** Verification policy applied to deals created from this template */
+  verificationPolicy?: VerificationPolicy;
   createdAt: string;
   updatedAt: string;
 }
@@ -74,6 +292,18 @@ export interface User {
   createdAt: string;
 }
 
+/** Custom branding for a creator's PDF receipts and receipt emails (paid plans) */
+export interface BrandingProfile {
+  companyName?: string;
+  /** Public URL of a PNG or JPEG logo */
+  logoUrl?: string;
+  /** Hex colour, e.g. "#2563eb" */
+  accentColor?: string;
+  footerText?: string;
+  /** Legal boilerplate printed after the signatures */
+  legalText?: string;
+}
+
 export interface CreateDealInput {
   templateId: string;
   title: string;
@@ -103,7 +333,21 @@ export type AuditEventType =
   | "email_otp_sent"
   | "email_verified"
   | "phone_otp_sent"
-  | "phone_verified";
+  | "phone_verified"
+  | "id_verified"
+  | "deal_countersigned"
+  | "term_proposed"
+  | "term_accepted"
+  | "term_rejected"
+  | "deal_amended"
+  | "deal_expired"
+  | "deal_extended"
+  | "deal_timestamped"
+  | "pdf_archived"
+  | "attachment_added"
+  | "document_uploaded"
+  | "terms_acknowledged"
+  | "passkey_signed";
 
 export interface AuditLogEntry {
   id: string;
@@ -115,4 +359,10 @@ export interface AuditLogEntry {
   userAgent?: string;
   metadata?: Record<string, unknown>;
   createdAt: string;
+  /** Position in the deal's audit chain, starting at 1 */
+  sequence?: number | null;
+  /** Hash of the previous entry for the same deal (null for the first entry) */
+  previousHash?: string | null;
+  /** Hash of this entry, covering previousHash */
+  entryHash?: string | null;
 }
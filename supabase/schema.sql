@@ -1,7 +1,7 @@
 -- Proofo Database Schema (Consolidated)
 -- Run this in Supabase SQL Editor for a fresh database setup
 -- Last updated: 2026-01-06
--- Includes: Core tables, Trust Levels, Verification system, RLS, Demo Data
+-- Includes: Core tables, Trust Levels, Verification system, Multi-party signers, Creator counter-signature, Term negotiation, Amendments, Deal expiry, Hash-chained audit log, Seal signatures, Trusted timestamps, PDF branding, Archived PDF receipts, Deal attachments, Document signing, Term initials, Signature methods, Signature strokes, ID verification, SMS delivery reports, Passkey signatures, Verification policies, RLS, Demo Data
 
 -- ============================================
 -- 1. EXTENSIONS
@@ -13,7 +13,7 @@ CREATE EXTENSION IF NOT EXISTS "pgcrypto";
 -- 2. CUSTOM TYPES
 -- ============================================
 DO $$ BEGIN
-    CREATE TYPE deal_status AS ENUM ('pending', 'sealing', 'confirmed', 'voided');
+    CREATE TYPE deal_status AS ENUM ('pending', 'sealing', 'confirmed', 'voided', 'expired');
 EXCEPTION
     WHEN duplicate_object THEN null;
 END $$;
@@ -40,7 +40,21 @@ DO $$ BEGIN
       'email_otp_sent',
       'email_verified',
       'phone_otp_sent',
-      'phone_verified'
+      'phone_verified',
+      'deal_countersigned',
+      'term_proposed',
+      'term_accepted',
+      'term_rejected',
+      'deal_amended',
+      'deal_expired',
+      'deal_extended',
+      'deal_timestamped',
+      'pdf_archived',
+      'attachment_added',
+      'document_uploaded',
+      'terms_acknowledged',
+      'id_verified',
+      'passkey_signed'
     );
 EXCEPTION
     WHEN duplicate_object THEN null;
@@ -51,6 +65,21 @@ DO $$ BEGIN ALTER TYPE audit_event_type ADD VALUE IF NOT EXISTS 'email_otp_sent'
 DO $$ BEGIN ALTER TYPE audit_event_type ADD VALUE IF NOT EXISTS 'email_verified'; EXCEPTION WHEN duplicate_object THEN null; END $$;
 DO $$ BEGIN ALTER TYPE audit_event_type ADD VALUE IF NOT EXISTS 'phone_otp_sent'; EXCEPTION WHEN duplicate_object THEN null; END $$;
 DO $$ BEGIN ALTER TYPE audit_event_type ADD VALUE IF NOT EXISTS 'phone_verified'; EXCEPTION WHEN duplicate_object THEN null; END $$;
+DO $$ BEGIN ALTER TYPE audit_event_type ADD VALUE IF NOT EXISTS 'deal_countersigned'; EXCEPTION WHEN duplicate_object THEN null; END $$;
+DO $$ BEGIN ALTER TYPE audit_event_type ADD VALUE IF NOT EXISTS 'term_proposed'; EXCEPTION WHEN duplicate_object THEN null; END $$;
+DO $$ BEGIN ALTER TYPE audit_event_type ADD VALUE IF NOT EXISTS 'term_accepted'; EXCEPTION WHEN duplicate_object THEN null; END $$;
+DO $$ BEGIN ALTER TYPE audit_event_type ADD VALUE IF NOT EXISTS 'term_rejected'; EXCEPTION WHEN duplicate_object THEN null; END $$;
+DO $$ BEGIN ALTER TYPE audit_event_type ADD VALUE IF NOT EXISTS 'deal_amended'; EXCEPTION WHEN duplicate_object THEN null; END $$;
+DO $$ BEGIN ALTER TYPE audit_event_type ADD VALUE IF NOT EXISTS 'deal_expired'; EXCEPTION WHEN duplicate_object THEN null; END $$;
+DO $$ BEGIN ALTER TYPE audit_event_type ADD VALUE IF NOT EXISTS 'deal_extended'; EXCEPTION WHEN duplicate_object THEN null; END $$;
+DO $$ BEGIN ALTER TYPE audit_event_type ADD VALUE IF NOT EXISTS 'deal_timestamped'; EXCEPTION WHEN duplicate_object THEN null; END $$;
+DO $$ BEGIN ALTER TYPE audit_event_type ADD VALUE IF NOT EXISTS 'pdf_archived'; EXCEPTION WHEN duplicate_object THEN null; END $$;
+DO $$ BEGIN ALTER TYPE audit_event_type ADD VALUE IF NOT EXISTS 'attachment_added'; EXCEPTION WHEN duplicate_object THEN null; END $$;
+DO $$ BEGIN ALTER TYPE audit_event_type ADD VALUE IF NOT EXISTS 'document_uploaded'; EXCEPTION WHEN duplicate_object THEN null; END $$;
+DO $$ BEGIN ALTER TYPE audit_event_type ADD VALUE IF NOT EXISTS 'terms_acknowledged'; EXCEPTION WHEN duplicate_object THEN null; END $$;
+DO $$ BEGIN ALTER TYPE audit_event_type ADD VALUE IF NOT EXISTS 'id_verified'; EXCEPTION WHEN duplicate_object THEN null; END $$;
+DO $$ BEGIN ALTER TYPE audit_event_type ADD VALUE IF NOT EXISTS 'passkey_signed'; EXCEPTION WHEN duplicate_object THEN null; END $$;
+DO $$ BEGIN ALTER TYPE deal_status ADD VALUE IF NOT EXISTS 'expired'; EXCEPTION WHEN duplicate_object THEN null; END $$;
 
 DO $$ BEGIN
     CREATE TYPE trust_level AS ENUM ('basic', 'verified', 'strong', 'maximum');
@@ -110,13 +139,39 @@ CREATE TABLE IF NOT EXISTS public.deals (
   terms JSONB NOT NULL DEFAULT '[]'::jsonb,
   status deal_status DEFAULT 'pending',
   trust_level trust_level DEFAULT 'basic',
+  verification_policy JSONB, -- Creator-composed {email, phone, id, emailDomains, requireAccount}; NULL uses the trust level's preset
+  signing_mode TEXT DEFAULT 'unordered',
+  creator_signature_mode TEXT DEFAULT 'none',
+  creator_signature_url TEXT,
+  creator_signature_method TEXT CHECK (creator_signature_method IN ('drawn', 'typed', 'uploaded')),
+  creator_signature_vector JSONB, -- Pen strokes of a drawn signature: {strokes, sha256, svgUrl}
+  creator_signed_at TIMESTAMPTZ,
+  terms_revision INT DEFAULT 1,
+  parent_deal_id UUID REFERENCES public.deals(id) ON DELETE SET NULL,
+  version INT DEFAULT 1,
+  previous_seal TEXT,
   deal_seal TEXT,
+  seal_signature TEXT,
+  seal_key_id TEXT,
+  timestamp_token TEXT,
+  timestamped_at TIMESTAMPTZ,
+  timestamp_authority TEXT,
+  pdf_url TEXT,
+  pdf_sha256 TEXT,
+  pdf_archived_at TIMESTAMPTZ,
+  attachments JSONB NOT NULL DEFAULT '[]'::jsonb,
+  document JSONB, -- The PDF being signed on "sign a document" deals
+  term_acknowledgements JSONB NOT NULL DEFAULT '[]'::jsonb, -- Initials/ticks on terms marked by the creator
   signature_url TEXT,
+  signature_method TEXT CHECK (signature_method IN ('drawn', 'typed', 'uploaded')),
+  signature_vector JSONB, -- Pen strokes of a drawn signature: {strokes, sha256, svgUrl}
   created_at TIMESTAMPTZ DEFAULT NOW(),
   confirmed_at TIMESTAMPTZ,
   voided_at TIMESTAMPTZ,
   viewed_at TIMESTAMPTZ,
-  last_nudged_at TIMESTAMPTZ
+  last_nudged_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ,
+  expired_at TIMESTAMPTZ
 );
 
 -- Access tokens table (for secure recipient access)
@@ -129,17 +184,56 @@ CREATE TABLE IF NOT EXISTS public.access_tokens (
   created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+-- Deal signers table (multi-party deals: one row per signing party)
+CREATE TABLE IF NOT EXISTS public.deal_signers (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  deal_id UUID NOT NULL REFERENCES public.deals(id) ON DELETE CASCADE,
+  recipient_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  name TEXT NOT NULL,
+  email TEXT,
+  position INT NOT NULL,
+  signature_url TEXT,
+  signature_method TEXT CHECK (signature_method IN ('drawn', 'typed', 'uploaded')),
+  signature_vector JSONB,
+  signed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(deal_id, position)
+);
+
+-- Term proposals table (recipient-suggested term edits; accepted proposals form the revision history)
+CREATE TABLE IF NOT EXISTS public.deal_term_proposals (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  deal_id UUID NOT NULL REFERENCES public.deals(id) ON DELETE CASCADE,
+  signer_id UUID REFERENCES public.deal_signers(id) ON DELETE SET NULL,
+  term_id TEXT NOT NULL,
+  term_label TEXT NOT NULL,
+  previous_value TEXT NOT NULL,
+  proposed_value TEXT NOT NULL,
+  note TEXT,
+  proposed_by_name TEXT,
+  status TEXT NOT NULL DEFAULT 'pending',
+  revision INT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  resolved_at TIMESTAMPTZ
+);
+
 -- Audit log table (append-only event log)
+-- Each entry carries the hash of the previous entry for the same deal, so any
+-- modified, removed or reordered entry breaks the chain. actor_id has no foreign
+-- key: entries keep the actor after their profile is deleted.
 CREATE TABLE IF NOT EXISTS public.audit_log (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   deal_id UUID NOT NULL REFERENCES public.deals(id) ON DELETE CASCADE,
   event_type audit_event_type NOT NULL,
-  actor_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  actor_id UUID,
   actor_type actor_type NOT NULL,
   ip_address INET,
   user_agent TEXT,
   metadata JSONB,
-  created_at TIMESTAMPTZ DEFAULT NOW()
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  sequence INT,
+  previous_hash TEXT,
+  entry_hash TEXT
 );
 
 -- User Preferences Table
@@ -170,29 +264,81 @@ CREATE TABLE IF NOT EXISTS public.user_preferences (
   UNIQUE(user_id)
 );
 
--- Deal verifications table for per-deal verification records
+-- Deal verifications table for per-signer verification records
+-- signer_id is NULL for the recipient of a single-recipient deal; on multi-party
+-- deals each signer verifies separately (one row per signer and type).
 CREATE TABLE IF NOT EXISTS public.deal_verifications (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   deal_id UUID NOT NULL REFERENCES public.deals(id) ON DELETE CASCADE,
+  signer_id UUID REFERENCES public.deal_signers(id) ON DELETE CASCADE,
   verification_type TEXT NOT NULL,
   verified_value TEXT NOT NULL,
   verified_at TIMESTAMPTZ DEFAULT NOW(),
-  metadata JSONB,
-  UNIQUE(deal_id, verification_type)
+  metadata JSONB
 );
 
--- OTP codes table for temporary verification codes
+-- OTP codes table for temporary verification codes (per signer, like deal_verifications)
 CREATE TABLE IF NOT EXISTS public.verification_codes (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   deal_id UUID NOT NULL REFERENCES public.deals(id) ON DELETE CASCADE,
+  signer_id UUID REFERENCES public.deal_signers(id) ON DELETE CASCADE,
   verification_type TEXT NOT NULL,
   target TEXT NOT NULL,
   code TEXT NOT NULL,
   expires_at TIMESTAMPTZ NOT NULL,
   attempts INT DEFAULT 0,
   verified_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- SMS delivery reports for phone verification codes, one row per message.
+-- The audit log is append-only, so reports are kept here, linked to the
+-- message's phone_otp_sent audit event.
+CREATE TABLE IF NOT EXISTS public.sms_deliveries (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  audit_log_id UUID NOT NULL REFERENCES public.audit_log(id) ON DELETE CASCADE,
+  deal_id UUID NOT NULL REFERENCES public.deals(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL,
+  message_id TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('queued', 'sent', 'delivered', 'failed')),
+  error_code TEXT,
+  status_history JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(provider, message_id)
+);
+
+-- Passkeys (WebAuthn credentials) bound to a profile, for signing sealed deals
+CREATE TABLE IF NOT EXISTS public.passkey_credentials (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  credential_id TEXT NOT NULL UNIQUE, -- base64url
+  public_key TEXT NOT NULL, -- base64url SPKI
+  algorithm INT NOT NULL CHECK (algorithm IN (-7, -8, -257)), -- COSE: ES256, EdDSA, RS256
+  rp_id TEXT NOT NULL, -- Host the passkey is scoped to
+  name TEXT NOT NULL,
+  transports TEXT[] NOT NULL DEFAULT '{}',
   created_at TIMESTAMPTZ DEFAULT NOW(),
-  UNIQUE(deal_id, verification_type)
+  last_used_at TIMESTAMPTZ
+);
+
+-- Passkey signatures: a party's WebAuthn assertion over a sealed deal's seal.
+-- Each row keeps a copy of the passkey's public key, so the signature stays
+-- verifiable after the passkey (or the account) is removed.
+CREATE TABLE IF NOT EXISTS public.deal_passkey_signatures (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  deal_id UUID NOT NULL REFERENCES public.deals(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  signer_name TEXT NOT NULL,
+  credential_id TEXT NOT NULL,
+  rp_id TEXT NOT NULL,
+  public_key TEXT NOT NULL,
+  algorithm INT NOT NULL,
+  authenticator_data TEXT NOT NULL,
+  client_data_json TEXT NOT NULL,
+  signature TEXT NOT NULL,
+  signed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(deal_id, user_id)
 );
 
 -- User Templates table (for custom templates)
@@ -205,6 +351,19 @@ CREATE TABLE IF NOT EXISTS public.user_templates (
   theme TEXT DEFAULT 'general',
   fields JSONB NOT NULL DEFAULT '[]'::jsonb,
   is_public BOOLEAN DEFAULT FALSE,
+  verification_policy JSONB, -- Applied to deals created from the template
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Branding Profiles table (custom PDF and receipt branding, paid plans)
+CREATE TABLE IF NOT EXISTS public.branding_profiles (
+  user_id UUID PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  company_name TEXT,
+  logo_url TEXT,
+  accent_color TEXT,
+  footer_text TEXT,
+  legal_text TEXT,
   created_at TIMESTAMPTZ DEFAULT NOW(),
   updated_at TIMESTAMPTZ DEFAULT NOW()
 );
@@ -229,6 +388,51 @@ ALTER TABLE public.deals ADD COLUMN IF NOT EXISTS trust_level trust_level DEFAUL
 ALTER TABLE public.deals ADD COLUMN IF NOT EXISTS last_nudged_at TIMESTAMPTZ;
 ALTER TABLE public.deals ADD COLUMN IF NOT EXISTS viewed_at TIMESTAMPTZ;
 ALTER TABLE public.deals ADD COLUMN IF NOT EXISTS voided_at TIMESTAMPTZ;
+ALTER TABLE public.deals ADD COLUMN IF NOT EXISTS signing_mode TEXT DEFAULT 'unordered';
+ALTER TABLE public.deals ADD COLUMN IF NOT EXISTS creator_signature_mode TEXT DEFAULT 'none';
+ALTER TABLE public.deals ADD COLUMN IF NOT EXISTS creator_signature_url TEXT;
+ALTER TABLE public.deals ADD COLUMN IF NOT EXISTS creator_signed_at TIMESTAMPTZ;
+ALTER TABLE public.deals ADD COLUMN IF NOT EXISTS terms_revision INT DEFAULT 1;
+ALTER TABLE public.deals ADD COLUMN IF NOT EXISTS parent_deal_id UUID REFERENCES public.deals(id) ON DELETE SET NULL;
+ALTER TABLE public.deals ADD COLUMN IF NOT EXISTS version INT DEFAULT 1;
+ALTER TABLE public.deals ADD COLUMN IF NOT EXISTS previous_seal TEXT;
+ALTER TABLE public.deals ADD COLUMN IF NOT EXISTS expires_at TIMESTAMPTZ;
+ALTER TABLE public.deals ADD COLUMN IF NOT EXISTS expired_at TIMESTAMPTZ;
+ALTER TABLE public.deals ADD COLUMN IF NOT EXISTS seal_signature TEXT;
+ALTER TABLE public.deals ADD COLUMN IF NOT EXISTS seal_key_id TEXT;
+ALTER TABLE public.deals ADD COLUMN IF NOT EXISTS timestamp_token TEXT;
+ALTER TABLE public.deals ADD COLUMN IF NOT EXISTS timestamped_at TIMESTAMPTZ;
+ALTER TABLE public.deals ADD COLUMN IF NOT EXISTS timestamp_authority TEXT;
+ALTER TABLE public.deals ADD COLUMN IF NOT EXISTS pdf_url TEXT;
+ALTER TABLE public.deals ADD COLUMN IF NOT EXISTS pdf_sha256 TEXT;
+ALTER TABLE public.deals ADD COLUMN IF NOT EXISTS pdf_archived_at TIMESTAMPTZ;
+ALTER TABLE public.deals ADD COLUMN IF NOT EXISTS attachments JSONB NOT NULL DEFAULT '[]'::jsonb;
+ALTER TABLE public.deals ADD COLUMN IF NOT EXISTS document JSONB;
+ALTER TABLE public.deals ADD COLUMN IF NOT EXISTS term_acknowledgements JSONB NOT NULL DEFAULT '[]'::jsonb;
+ALTER TABLE public.deals ADD COLUMN IF NOT EXISTS signature_method TEXT CHECK (signature_method IN ('drawn', 'typed', 'uploaded'));
+ALTER TABLE public.deals ADD COLUMN IF NOT EXISTS creator_signature_method TEXT CHECK (creator_signature_method IN ('drawn', 'typed', 'uploaded'));
+ALTER TABLE public.deals ADD COLUMN IF NOT EXISTS signature_vector JSONB;
+ALTER TABLE public.deals ADD COLUMN IF NOT EXISTS creator_signature_vector JSONB;
+ALTER TABLE public.deals ADD COLUMN IF NOT EXISTS verification_policy JSONB;
+
+-- Deal signers columns (for older databases)
+ALTER TABLE public.deal_signers ADD COLUMN IF NOT EXISTS signature_method TEXT CHECK (signature_method IN ('drawn', 'typed', 'uploaded'));
+ALTER TABLE public.deal_signers ADD COLUMN IF NOT EXISTS signature_vector JSONB;
+
+-- Verifications are kept per signer (for older databases)
+ALTER TABLE public.deal_verifications ADD COLUMN IF NOT EXISTS signer_id UUID REFERENCES public.deal_signers(id) ON DELETE CASCADE;
+ALTER TABLE public.deal_verifications DROP CONSTRAINT IF EXISTS deal_verifications_deal_id_verification_type_key;
+ALTER TABLE public.verification_codes ADD COLUMN IF NOT EXISTS signer_id UUID REFERENCES public.deal_signers(id) ON DELETE CASCADE;
+ALTER TABLE public.verification_codes DROP CONSTRAINT IF EXISTS verification_codes_deal_id_verification_type_key;
+
+-- Audit log hash chain columns
+ALTER TABLE public.audit_log ADD COLUMN IF NOT EXISTS sequence INT;
+ALTER TABLE public.audit_log ADD COLUMN IF NOT EXISTS previous_hash TEXT;
+ALTER TABLE public.audit_log ADD COLUMN IF NOT EXISTS entry_hash TEXT;
+ALTER TABLE public.audit_log DROP CONSTRAINT IF EXISTS audit_log_actor_id_fkey;
+
+-- Access tokens new columns (one token per signer for multi-party deals)
+ALTER TABLE public.access_tokens ADD COLUMN IF NOT EXISTS signer_id UUID REFERENCES public.deal_signers(id) ON DELETE CASCADE;
 
 -- User preferences new columns
 ALTER TABLE public.user_preferences ADD COLUMN IF NOT EXISTS do_not_disturb BOOLEAN DEFAULT FALSE;
@@ -239,6 +443,7 @@ ALTER TABLE public.user_preferences ADD COLUMN IF NOT EXISTS reduced_motion BOOL
 
 -- User templates new columns
 ALTER TABLE public.user_templates ADD COLUMN IF NOT EXISTS theme TEXT DEFAULT 'general';
+ALTER TABLE public.user_templates ADD COLUMN IF NOT EXISTS verification_policy JSONB;
 
 -- ============================================
 -- 4. INDEXES
@@ -251,14 +456,33 @@ CREATE INDEX IF NOT EXISTS idx_deals_recipient_id ON public.deals(recipient_id);
 CREATE INDEX IF NOT EXISTS idx_deals_recipient_email ON public.deals(recipient_email);
 CREATE INDEX IF NOT EXISTS idx_deals_status ON public.deals(status);
 CREATE INDEX IF NOT EXISTS idx_deals_created_at ON public.deals(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_deals_parent_deal_id ON public.deals(parent_deal_id);
+-- Lets the expiry job find overdue pending deals without scanning sealed ones
+CREATE INDEX IF NOT EXISTS idx_deals_pending_expires_at ON public.deals(expires_at) WHERE status = 'pending';
+-- A sealed deal can only have one live (non-voided) amendment, keeping the version chain linear
+CREATE UNIQUE INDEX IF NOT EXISTS idx_deals_active_amendment ON public.deals(parent_deal_id) WHERE status <> 'voided';
 CREATE INDEX IF NOT EXISTS idx_access_tokens_token ON public.access_tokens(token);
 CREATE INDEX IF NOT EXISTS idx_access_tokens_deal_id ON public.access_tokens(deal_id);
 CREATE INDEX IF NOT EXISTS idx_access_tokens_deal_id_created ON public.access_tokens(deal_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_access_tokens_signer_id ON public.access_tokens(signer_id);
+CREATE INDEX IF NOT EXISTS idx_deal_signers_deal_id ON public.deal_signers(deal_id);
+CREATE INDEX IF NOT EXISTS idx_deal_signers_recipient_id ON public.deal_signers(recipient_id);
+CREATE INDEX IF NOT EXISTS idx_deal_signers_email ON public.deal_signers(email);
+CREATE INDEX IF NOT EXISTS idx_deal_term_proposals_deal_id ON public.deal_term_proposals(deal_id);
+-- At most one open proposal per term
+CREATE UNIQUE INDEX IF NOT EXISTS idx_deal_term_proposals_pending ON public.deal_term_proposals(deal_id, term_id) WHERE status = 'pending';
 CREATE INDEX IF NOT EXISTS idx_audit_log_deal_id ON public.audit_log(deal_id);
 CREATE INDEX IF NOT EXISTS idx_audit_log_created_at ON public.audit_log(created_at DESC);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_audit_log_deal_sequence ON public.audit_log(deal_id, sequence);
 CREATE INDEX IF NOT EXISTS idx_deal_verifications_deal_id ON public.deal_verifications(deal_id);
+-- One record per signer and type (signer_id is NULL for single-recipient deals)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_deal_verifications_signer_type ON public.deal_verifications(deal_id, signer_id, verification_type) NULLS NOT DISTINCT;
 CREATE INDEX IF NOT EXISTS idx_verification_codes_deal_id ON public.verification_codes(deal_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_verification_codes_signer_type ON public.verification_codes(deal_id, signer_id, verification_type) NULLS NOT DISTINCT;
 CREATE INDEX IF NOT EXISTS idx_verification_codes_expires ON public.verification_codes(expires_at);
+CREATE INDEX IF NOT EXISTS idx_sms_deliveries_audit_log_id ON public.sms_deliveries(audit_log_id);
+CREATE INDEX IF NOT EXISTS idx_passkey_credentials_user_id ON public.passkey_credentials(user_id);
+CREATE INDEX IF NOT EXISTS idx_deal_passkey_signatures_deal_id ON public.deal_passkey_signatures(deal_id);
 CREATE INDEX IF NOT EXISTS idx_profiles_phone ON public.profiles(phone);
 CREATE INDEX IF NOT EXISTS idx_user_templates_user_id ON public.user_templates(user_id);
 
@@ -273,12 +497,29 @@ ALTER TABLE public.contacts ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.user_preferences ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.deal_verifications ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.verification_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sms_deliveries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.passkey_credentials ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.deal_passkey_signatures ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.user_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.deal_signers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.deal_term_proposals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.branding_profiles ENABLE ROW LEVEL SECURITY;
 
 -- ============================================
 -- 6. RLS POLICIES
 -- ============================================
 
+-- Signer membership check (SECURITY DEFINER avoids recursion between deals and deal_signers policies)
+CREATE OR REPLACE FUNCTION public.is_deal_signer(p_deal_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN EXISTS(
+    SELECT 1 FROM public.deal_signers
+    WHERE deal_id = p_deal_id AND recipient_id = auth.uid()
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE SET search_path = public;
+
 -- Profiles
 DROP POLICY IF EXISTS "Users can view their own profile" ON public.profiles;
 DROP POLICY IF EXISTS "Users can update their own profile" ON public.profiles;
@@ -309,9 +550,11 @@ DROP POLICY IF EXISTS "Creators can view their own deals" ON public.deals;
 DROP POLICY IF EXISTS "Recipients can view deals assigned to them" ON public.deals;
 DROP POLICY IF EXISTS "Authenticated users can create deals" ON public.deals;
 DROP POLICY IF EXISTS "Creators can update their own deals" ON public.deals;
+DROP POLICY IF EXISTS "Signers can view deals they sign" ON public.deals;
 
 CREATE POLICY "Creators can view their own deals" ON public.deals FOR SELECT USING (auth.uid() = creator_id);
 CREATE POLICY "Recipients can view deals assigned to them" ON public.deals FOR SELECT USING (auth.uid() = recipient_id);
+CREATE POLICY "Signers can view deals they sign" ON public.deals FOR SELECT USING (public.is_deal_signer(id));
 CREATE POLICY "Authenticated users can create deals" ON public.deals FOR INSERT WITH CHECK (auth.uid() = creator_id);
 CREATE POLICY "Creators can update their own deals" ON public.deals FOR UPDATE USING (auth.uid() = creator_id);
 
@@ -326,13 +569,36 @@ CREATE POLICY "Creators can create tokens for their deals" ON public.access_toke
   EXISTS (SELECT 1 FROM public.deals WHERE deals.id = access_tokens.deal_id AND deals.creator_id = auth.uid())
 );
 
+-- Deal Signers
+DROP POLICY IF EXISTS "Creators can view their deal signers" ON public.deal_signers;
+DROP POLICY IF EXISTS "Creators can add signers to their deals" ON public.deal_signers;
+DROP POLICY IF EXISTS "Signers can view co-signers" ON public.deal_signers;
+
+CREATE POLICY "Creators can view their deal signers" ON public.deal_signers FOR SELECT USING (
+  EXISTS (SELECT 1 FROM public.deals WHERE deals.id = deal_signers.deal_id AND deals.creator_id = auth.uid())
+);
+CREATE POLICY "Creators can add signers to their deals" ON public.deal_signers FOR INSERT WITH CHECK (
+  EXISTS (SELECT 1 FROM public.deals WHERE deals.id = deal_signers.deal_id AND deals.creator_id = auth.uid())
+);
+CREATE POLICY "Signers can view co-signers" ON public.deal_signers FOR SELECT USING (public.is_deal_signer(deal_id));
+
+-- Term Proposals (writes go through propose_deal_term / resolve_term_proposal)
+DROP POLICY IF EXISTS "Deal parties can view term proposals" ON public.deal_term_proposals;
+CREATE POLICY "Deal parties can view term proposals" ON public.deal_term_proposals FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM public.deals
+    WHERE deals.id = deal_term_proposals.deal_id
+    AND (deals.creator_id = auth.uid() OR deals.recipient_id = auth.uid() OR public.is_deal_signer(deals.id))
+  )
+);
+
 -- Audit Log
 DROP POLICY IF EXISTS "Users can view audit logs for their deals" ON public.audit_log;
 CREATE POLICY "Users can view audit logs for their deals" ON public.audit_log FOR SELECT USING (
   EXISTS (
     SELECT 1 FROM public.deals
     WHERE deals.id = audit_log.deal_id
-    AND (deals.creator_id = auth.uid() OR deals.recipient_id = auth.uid())
+    AND (deals.creator_id = auth.uid() OR deals.recipient_id = auth.uid() OR public.is_deal_signer(deals.id))
   )
 );
 
@@ -372,6 +638,28 @@ CREATE POLICY "Users can view deal verifications" ON public.deal_verifications F
 DROP POLICY IF EXISTS "No direct access to verification codes" ON public.verification_codes;
 CREATE POLICY "No direct access to verification codes" ON public.verification_codes FOR ALL USING (false);
 
+-- SMS Deliveries (written through RPC functions; creators can see their deals' reports)
+DROP POLICY IF EXISTS "Creators can view SMS deliveries" ON public.sms_deliveries;
+CREATE POLICY "Creators can view SMS deliveries" ON public.sms_deliveries FOR SELECT USING (
+  EXISTS (SELECT 1 FROM public.deals WHERE deals.id = sms_deliveries.deal_id AND deals.creator_id = auth.uid())
+);
+
+-- Passkey credentials (added by the server with the service role, once it has read the key
+-- from the attestation; last use is recorded by record_passkey_signature)
+DROP POLICY IF EXISTS "Users can view their own passkeys" ON public.passkey_credentials;
+DROP POLICY IF EXISTS "Users can add their own passkeys" ON public.passkey_credentials;
+DROP POLICY IF EXISTS "Users can delete their own passkeys" ON public.passkey_credentials;
+
+CREATE POLICY "Users can view their own passkeys" ON public.passkey_credentials FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own passkeys" ON public.passkey_credentials FOR DELETE USING (auth.uid() = user_id);
+
+-- Passkey signatures (written through record_passkey_signature, published with the deal by get_deal_by_public_id)
+DROP POLICY IF EXISTS "Parties can view passkey signatures" ON public.deal_passkey_signatures;
+CREATE POLICY "Parties can view passkey signatures" ON public.deal_passkey_signatures FOR SELECT USING (
+  auth.uid() = user_id
+  OR EXISTS (SELECT 1 FROM public.deals WHERE deals.id = deal_passkey_signatures.deal_id AND deals.creator_id = auth.uid())
+);
+
 -- User Templates
 DROP POLICY IF EXISTS "Users can view their own templates" ON public.user_templates;
 DROP POLICY IF EXISTS "Users can create their own templates" ON public.user_templates;
@@ -383,6 +671,20 @@ CREATE POLICY "Users can create their own templates" ON public.user_templates FO
 CREATE POLICY "Users can update their own templates" ON public.user_templates FOR UPDATE USING (auth.uid() = user_id);
 CREATE POLICY "Users can delete their own templates" ON public.user_templates FOR DELETE USING (auth.uid() = user_id);
 
+-- Branding profiles policies (others read branding through get_deal_branding)
+DROP POLICY IF EXISTS "Users can view their own branding" ON public.branding_profiles;
+DROP POLICY IF EXISTS "Users can create their own branding" ON public.branding_profiles;
+DROP POLICY IF EXISTS "Users can update their own branding" ON public.branding_profiles;
+
+CREATE POLICY "Users can view their own branding" ON public.branding_profiles FOR SELECT USING (auth.uid() = user_id);
+-- Custom branding is a paid-plan feature, so only paid profiles can write it
+CREATE POLICY "Users can create their own branding" ON public.branding_profiles FOR INSERT WITH CHECK (
+  auth.uid() = user_id AND EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND is_pro = TRUE)
+);
+CREATE POLICY "Users can update their own branding" ON public.branding_profiles FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (
+  auth.uid() = user_id AND EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND is_pro = TRUE)
+);
+
 -- ============================================
 -- 7. FUNCTIONS & TRIGGERS
 -- ============================================
@@ -414,6 +716,11 @@ BEGIN
   SET recipient_id = NEW.id
   WHERE recipient_email = NEW.email
     AND recipient_id IS NULL;
+
+  UPDATE public.deal_signers
+  SET recipient_id = NEW.id
+  WHERE LOWER(email) = LOWER(NEW.email)
+    AND recipient_id IS NULL;
   RETURN NEW;
 END;
 $$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -437,11 +744,172 @@ CREATE TRIGGER update_profiles_updated_at
   BEFORE UPDATE ON public.profiles
   FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
 
+-- The plan is set by billing with the service role; users can't upgrade themselves
+CREATE OR REPLACE FUNCTION public.guard_profile_plan()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated')
+    AND NEW.is_pro IS DISTINCT FROM (CASE WHEN TG_OP = 'UPDATE' THEN OLD.is_pro ELSE FALSE END) THEN
+    RAISE EXCEPTION 'The plan can only be changed by the server';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_profile_plan_changes ON public.profiles;
+CREATE TRIGGER guard_profile_plan_changes
+  BEFORE INSERT OR UPDATE ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.guard_profile_plan();
+
+DROP TRIGGER IF EXISTS update_branding_profiles_updated_at ON public.branding_profiles;
+CREATE TRIGGER update_branding_profiles_updated_at
+  BEFORE UPDATE ON public.branding_profiles
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Canonical JSON text, matching deterministicStringify() in src/lib/crypto.ts
+-- (object keys sorted, no whitespace) so the app can recompute audit hashes
+CREATE OR REPLACE FUNCTION public.canonical_json(p_value JSONB)
+RETURNS TEXT AS $$
+BEGIN
+  CASE jsonb_typeof(p_value)
+    WHEN 'object' THEN
+      RETURN '{' || COALESCE((
+        SELECT string_agg(to_json(key)::text || ':' || public.canonical_json(value), ',' ORDER BY key COLLATE "C")
+        FROM jsonb_each(p_value)
+      ), '') || '}';
+    WHEN 'array' THEN
+      RETURN '[' || COALESCE((
+        SELECT string_agg(public.canonical_json(value), ',' ORDER BY ordinality)
+        FROM jsonb_array_elements(p_value) WITH ORDINALITY
+      ), '') || ']';
+    ELSE
+      RETURN COALESCE(p_value::text, 'null');
+  END CASE;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Hash of an audit entry, chained to the previous entry's hash
+-- Mirrors calculateAuditEntryHash() in src/lib/crypto.ts
+CREATE OR REPLACE FUNCTION public.audit_entry_hash(p_entry public.audit_log)
+RETURNS TEXT AS $$
+BEGIN
+  RETURN encode(sha256(convert_to(public.canonical_json(jsonb_build_object(
+    'id', p_entry.id,
+    'dealId', p_entry.deal_id,
+    'sequence', p_entry.sequence,
+    'eventType', p_entry.event_type,
+    'actorType', p_entry.actor_type,
+    'actorId', p_entry.actor_id,
+    'metadata', p_entry.metadata,
+    'createdAt', to_char(p_entry.created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'),
+    'previousHash', p_entry.previous_hash
+  )), 'UTF8')), 'hex');
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Chain entries written before hashing was introduced, oldest first
+-- (runs before the guard below, which only lets unhashed entries be updated once)
+DO $$
+DECLARE
+  v_entry public.audit_log;
+  v_deal_id UUID;
+  v_sequence INT;
+  v_previous_hash TEXT;
+BEGIN
+  FOR v_entry IN
+    SELECT * FROM public.audit_log WHERE entry_hash IS NULL ORDER BY deal_id, created_at, id
+  LOOP
+    IF v_deal_id IS DISTINCT FROM v_entry.deal_id THEN
+      v_deal_id := v_entry.deal_id;
+      SELECT sequence, entry_hash INTO v_sequence, v_previous_hash
+      FROM public.audit_log
+      WHERE deal_id = v_deal_id AND entry_hash IS NOT NULL
+      ORDER BY sequence DESC LIMIT 1;
+      v_sequence := COALESCE(v_sequence, 0);
+    END IF;
+
+    v_sequence := v_sequence + 1;
+    v_entry.sequence := v_sequence;
+    v_entry.previous_hash := v_previous_hash;
+    v_entry.created_at := date_trunc('milliseconds', v_entry.created_at);
+    v_entry.entry_hash := public.audit_entry_hash(v_entry);
+
+    UPDATE public.audit_log
+    SET sequence = v_entry.sequence,
+        previous_hash = v_entry.previous_hash,
+        created_at = v_entry.created_at,
+        entry_hash = v_entry.entry_hash
+    WHERE id = v_entry.id;
+
+    v_previous_hash := v_entry.entry_hash;
+  END LOOP;
+END $$;
+
+-- Link each new audit entry to the previous entry for the same deal
+CREATE OR REPLACE FUNCTION public.chain_audit_entry()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_last public.audit_log;
+BEGIN
+  -- Serialize writers per deal so two entries can't claim the same predecessor
+  PERFORM pg_advisory_xact_lock(hashtextextended(NEW.deal_id::text, 0));
+
+  SELECT * INTO v_last
+  FROM public.audit_log
+  WHERE deal_id = NEW.deal_id
+  ORDER BY sequence DESC NULLS LAST
+  LIMIT 1;
+
+  NEW.sequence := COALESCE(v_last.sequence, 0) + 1;
+  NEW.previous_hash := v_last.entry_hash;
+  -- JavaScript dates carry milliseconds, so that is the precision that gets hashed
+  NEW.created_at := date_trunc('milliseconds', COALESCE(NEW.created_at, NOW()));
+  NEW.entry_hash := public.audit_entry_hash(NEW);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS chain_audit_log_entry ON public.audit_log;
+CREATE TRIGGER chain_audit_log_entry
+  BEFORE INSERT ON public.audit_log
+  FOR EACH ROW EXECUTE FUNCTION public.chain_audit_entry();
+
+-- Keep the audit log append-only. Entries only go away together with their deal
+-- (ON DELETE CASCADE), and only entries from before hashing can be updated (to chain them).
+CREATE OR REPLACE FUNCTION public.guard_audit_log()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.entry_hash IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'DELETE' AND NOT EXISTS (SELECT 1 FROM public.deals WHERE id = OLD.deal_id) THEN
+    RETURN OLD;
+  END IF;
+
+  RAISE EXCEPTION 'Audit log entries cannot be modified or deleted';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_audit_log_changes ON public.audit_log;
+CREATE TRIGGER guard_audit_log_changes
+  BEFORE UPDATE OR DELETE ON public.audit_log
+  FOR EACH ROW EXECUTE FUNCTION public.guard_audit_log();
+
 -- ============================================
 -- 8. RPC FUNCTIONS
 -- ============================================
 
 -- Confirm deal with token validation
+-- For multi-party deals the token belongs to a single signer: the signer is marked as
+-- signed, and the deal itself is only sealed once every signer has signed.
+-- The seal signature is the platform's Ed25519 signature over the seal (see src/lib/seal-signing.ts).
+-- The deal's verification policy is enforced here for the signer, and their term
+-- acknowledgements are stored in the same transaction as their signature.
+DROP FUNCTION IF EXISTS public.confirm_deal_with_token(UUID, TEXT, TEXT, TEXT, TEXT, UUID, TIMESTAMPTZ);
+DROP FUNCTION IF EXISTS public.confirm_deal_with_token(UUID, TEXT, TEXT, TEXT, TEXT, UUID, TIMESTAMPTZ, TEXT, TEXT);
+DROP FUNCTION IF EXISTS public.confirm_deal_with_token(UUID, TEXT, TEXT, TEXT, TEXT, UUID, TIMESTAMPTZ, TEXT, TEXT, TEXT);
+DROP FUNCTION IF EXISTS public.confirm_deal_with_token(UUID, TEXT, TEXT, TEXT, TEXT, UUID, TIMESTAMPTZ, TEXT, TEXT, TEXT, JSONB);
 CREATE OR REPLACE FUNCTION public.confirm_deal_with_token(
   p_deal_id UUID,
   p_token TEXT,
@@ -449,12 +917,21 @@ CREATE OR REPLACE FUNCTION public.confirm_deal_with_token(
   p_deal_seal TEXT,
   p_recipient_email TEXT DEFAULT NULL,
   p_recipient_id UUID DEFAULT NULL,
-  p_confirmed_at TIMESTAMPTZ DEFAULT NOW()
+  p_confirmed_at TIMESTAMPTZ DEFAULT NOW(),
+  p_seal_signature TEXT DEFAULT NULL,
+  p_seal_key_id TEXT DEFAULT NULL,
+  p_signature_method TEXT DEFAULT NULL,
+  p_signature_vector JSONB DEFAULT NULL,
+  p_term_acknowledgements JSONB DEFAULT NULL
 )
 RETURNS public.deals AS $$
 DECLARE
   v_deal public.deals;
   v_token_valid BOOLEAN;
+  v_signer_id UUID;
+  v_signer public.deal_signers;
+  v_signer_name TEXT;
+  v_remaining INT;
 BEGIN
   SELECT EXISTS(
     SELECT 1 FROM public.access_tokens
@@ -468,30 +945,205 @@ BEGIN
     RAISE EXCEPTION 'Invalid or expired token';
   END IF;
 
+  -- The signing deadline applies even if the expiry job hasn't run yet
+  IF EXISTS(SELECT 1 FROM public.deals WHERE id = p_deal_id AND expires_at < NOW()) THEN
+    RAISE EXCEPTION 'This deal has expired';
+  END IF;
+
+  -- Terms must be agreed before anyone signs
+  IF EXISTS(SELECT 1 FROM public.deal_term_proposals WHERE deal_id = p_deal_id AND status = 'pending') THEN
+    RAISE EXCEPTION 'Proposed term changes are awaiting the creator''s response';
+  END IF;
+
+  SELECT signer_id INTO v_signer_id
+  FROM public.access_tokens
+  WHERE deal_id = p_deal_id AND token = p_token;
+
+  SELECT * INTO v_deal FROM public.deals WHERE id = p_deal_id AND status = 'pending' FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Deal not found or not in pending status';
+  END IF;
+
+  -- Anyone with the link can call this, so the policy can't be left to the app
+  IF NOT public.deal_policy_met(p_deal_id, v_signer_id, auth.uid()) THEN
+    RAISE EXCEPTION 'This deal''s verification requirements have not been met';
+  END IF;
+
+  -- This signer's initials/acknowledgements of the marked terms. A retried signing
+  -- replaces their earlier responses; the seal covers them as stored here.
+  IF p_term_acknowledgements IS NOT NULL THEN
+    -- Only marked terms, each with the response its mark asks for
+    IF EXISTS(
+      SELECT 1 FROM jsonb_array_elements(p_term_acknowledgements) AS ack
+      WHERE NOT EXISTS(
+        SELECT 1 FROM jsonb_array_elements(v_deal.terms) AS term
+        WHERE term->>'id' = ack->>'termId'
+          AND term->>'requirement' = ack->>'kind'
+          AND (ack->>'kind' <> 'initial' OR COALESCE(ack->>'initials', '') <> '')
+      )
+    ) THEN
+      RAISE EXCEPTION 'Invalid term acknowledgement';
+    END IF;
+
+    IF v_signer_id IS NOT NULL THEN
+      SELECT name INTO v_signer_name FROM public.deal_signers WHERE id = v_signer_id;
+    ELSE
+      v_signer_name := v_deal.recipient_name;
+    END IF;
+
+    UPDATE public.deals
+    SET term_acknowledgements = (
+      SELECT COALESCE(jsonb_agg(ack ORDER BY idx), '[]'::jsonb)
+      FROM jsonb_array_elements(v_deal.term_acknowledgements) WITH ORDINALITY AS t(ack, idx)
+      WHERE ack->>'signerId' IS DISTINCT FROM v_signer_id::TEXT
+    ) || (
+      SELECT COALESCE(
+        jsonb_agg(ack || jsonb_build_object('signerId', v_signer_id, 'signerName', v_signer_name) ORDER BY idx),
+        '[]'::jsonb
+      )
+      FROM jsonb_array_elements(p_term_acknowledgements) WITH ORDINALITY AS t(ack, idx)
+    )
+    WHERE id = p_deal_id;
+
+    INSERT INTO public.audit_log (deal_id, event_type, actor_id, actor_type, metadata)
+    VALUES (p_deal_id, 'terms_acknowledged', auth.uid(), 'recipient', jsonb_build_object(
+      'signer_name', v_signer_name,
+      'term_ids', (SELECT jsonb_agg(ack->'termId') FROM jsonb_array_elements(p_term_acknowledgements) AS ack)
+    ));
+  END IF;
+
+  -- Every term marked "must initial"/"must acknowledge" needs this signer's response
+  IF EXISTS(
+    SELECT 1
+    FROM public.deals d, jsonb_array_elements(d.terms) AS term
+    WHERE d.id = p_deal_id
+      AND term ? 'requirement'
+      AND NOT EXISTS(
+        SELECT 1 FROM jsonb_array_elements(d.term_acknowledgements) AS ack
+        WHERE ack->>'termId' = term->>'id'
+          AND ack->>'signerId' IS NOT DISTINCT FROM v_signer_id::TEXT
+      )
+  ) THEN
+    RAISE EXCEPTION 'Every marked term must be initialled or acknowledged before signing';
+  END IF;
+
   UPDATE public.access_tokens
   SET used_at = NOW()
   WHERE deal_id = p_deal_id AND token = p_token;
 
-  UPDATE public.deals
+  -- Single-recipient deal: the first signature seals the deal
+  IF v_signer_id IS NULL THEN
+    SELECT * INTO v_deal FROM public.deals WHERE id = p_deal_id AND status = 'pending' FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Deal not found or not in pending status';
+    END IF;
+
+    -- Creator counter-signs after the recipient: record the signature, seal later
+    IF v_deal.creator_signature_mode = 'after' AND v_deal.creator_signed_at IS NULL THEN
+      UPDATE public.deals
+      SET
+        signature_url = p_signature_data,
+        signature_method = p_signature_method,
+        signature_vector = p_signature_vector,
+        recipient_email = COALESCE(p_recipient_email, recipient_email),
+        recipient_id = COALESCE(p_recipient_id, recipient_id)
+      WHERE id = p_deal_id
+      RETURNING * INTO v_deal;
+
+      RETURN v_deal;
+    END IF;
+
+    UPDATE public.deals
+    SET
+      status = 'confirmed',
+      signature_url = p_signature_data,
+      signature_method = p_signature_method,
+      signature_vector = p_signature_vector,
+      deal_seal = p_deal_seal,
+      seal_signature = p_seal_signature,
+      seal_key_id = p_seal_key_id,
+      confirmed_at = p_confirmed_at,
+      recipient_email = COALESCE(p_recipient_email, recipient_email),
+      recipient_id = COALESCE(p_recipient_id, recipient_id)
+    WHERE id = p_deal_id
+    RETURNING * INTO v_deal;
+
+    INSERT INTO public.audit_log (deal_id, event_type, actor_id, actor_type, metadata)
+    VALUES (p_deal_id, 'deal_confirmed', p_recipient_id, 'recipient', jsonb_build_object(
+      'has_seal', p_deal_seal IS NOT NULL,
+      'has_email', p_recipient_email IS NOT NULL,
+      'seal_key_id', p_seal_key_id,
+      'signature_method', p_signature_method
+    ));
+
+    RETURN v_deal;
+  END IF;
+
+  -- Multi-party deal: record this signer's signature
+  SELECT * INTO v_deal FROM public.deals WHERE id = p_deal_id AND status = 'pending' FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Deal not found or not in pending status';
+  END IF;
+
+  IF v_deal.signing_mode = 'ordered' AND EXISTS(
+    SELECT 1 FROM public.deal_signers s
+    WHERE s.deal_id = p_deal_id
+      AND s.signed_at IS NULL
+      AND s.position < (SELECT position FROM public.deal_signers WHERE id = v_signer_id)
+  ) THEN
+    RAISE EXCEPTION 'Waiting for earlier signers';
+  END IF;
+
+  UPDATE public.deal_signers
   SET
-    status = 'confirmed',
     signature_url = p_signature_data,
-    deal_seal = p_deal_seal,
-    confirmed_at = p_confirmed_at,
-    recipient_email = COALESCE(p_recipient_email, recipient_email),
+    signature_method = p_signature_method,
+    signature_vector = p_signature_vector,
+    signed_at = p_confirmed_at,
+    email = COALESCE(p_recipient_email, email),
     recipient_id = COALESCE(p_recipient_id, recipient_id)
-  WHERE id = p_deal_id
-    AND status = 'pending'
-  RETURNING * INTO v_deal;
+  WHERE id = v_signer_id
+    AND signed_at IS NULL
+  RETURNING * INTO v_signer;
 
   IF NOT FOUND THEN
-    RAISE EXCEPTION 'Deal not found or not in pending status';
+    RAISE EXCEPTION 'Signer has already signed';
+  END IF;
+
+  SELECT COUNT(*) INTO v_remaining
+  FROM public.deal_signers
+  WHERE deal_id = p_deal_id AND signed_at IS NULL;
+
+  -- Still waiting on other signers, or on the creator's counter-signature
+  IF v_remaining > 0 OR (v_deal.creator_signature_mode = 'after' AND v_deal.creator_signed_at IS NULL) THEN
+    RETURN v_deal;
+  END IF;
+
+  -- Last signer: seal the deal (the seal covers every signer's signature)
+  IF p_deal_seal IS NULL THEN
+    RAISE EXCEPTION 'Deal seal required to finalise deal';
   END IF;
 
+  UPDATE public.deals
+  SET
+    status = 'confirmed',
+    deal_seal = p_deal_seal,
+    seal_signature = p_seal_signature,
+    seal_key_id = p_seal_key_id,
+    confirmed_at = p_confirmed_at
+  WHERE id = p_deal_id
+  RETURNING * INTO v_deal;
+
   INSERT INTO public.audit_log (deal_id, event_type, actor_id, actor_type, metadata)
   VALUES (p_deal_id, 'deal_confirmed', p_recipient_id, 'recipient', jsonb_build_object(
-    'has_seal', p_deal_seal IS NOT NULL,
-    'has_email', p_recipient_email IS NOT NULL
+    'has_seal', TRUE,
+    'has_email', p_recipient_email IS NOT NULL,
+    'seal_key_id', p_seal_key_id,
+    'signature_method', p_signature_method,
+    'signer_count', (SELECT COUNT(*) FROM public.deal_signers WHERE deal_id = p_deal_id)
   ));
 
   RETURN v_deal;
@@ -519,15 +1171,73 @@ BEGIN
     'terms', d.terms,
     'status', d.status,
     'trust_level', COALESCE(d.trust_level, 'basic'),
+    'verification_policy', d.verification_policy,
     'deal_seal', d.deal_seal,
     'signature_url', d.signature_url,
+    'signature_method', d.signature_method,
+    'signature_vector', d.signature_vector,
     'created_at', d.created_at,
     'confirmed_at', d.confirmed_at,
     'voided_at', d.voided_at,
     'viewed_at', d.viewed_at,
     'last_nudged_at', d.last_nudged_at,
+    'expires_at', d.expires_at,
+    'expired_at', d.expired_at,
+    'signing_mode', COALESCE(d.signing_mode, 'unordered'),
+    'creator_signature_mode', COALESCE(d.creator_signature_mode, 'none'),
+    'creator_signature_url', d.creator_signature_url,
+    'creator_signature_method', d.creator_signature_method,
+    'creator_signature_vector', d.creator_signature_vector,
+    'creator_signed_at', d.creator_signed_at,
+    'terms_revision', COALESCE(d.terms_revision, 1),
+    'parent_deal_id', d.parent_deal_id,
+    'version', COALESCE(d.version, 1),
+    'previous_seal', d.previous_seal,
+    'seal_signature', d.seal_signature,
+    'seal_key_id', d.seal_key_id,
+    'timestamp_token', d.timestamp_token,
+    'timestamped_at', d.timestamped_at,
+    'timestamp_authority', d.timestamp_authority,
+    'pdf_url', d.pdf_url,
+    'pdf_sha256', d.pdf_sha256,
+    'pdf_archived_at', d.pdf_archived_at,
+    'attachments', COALESCE(d.attachments, '[]'::jsonb),
+    'document', d.document,
+    'term_acknowledgements', COALESCE(d.term_acknowledgements, '[]'::jsonb),
+    'signers', (
+      SELECT json_agg(json_build_object(
+        'id', ds.id,
+        'recipient_id', ds.recipient_id,
+        'name', ds.name,
+        'email', ds.email,
+        'position', ds.position,
+        'signature_url', ds.signature_url,
+        'signature_method', ds.signature_method,
+        'signature_vector', ds.signature_vector,
+        'signed_at', ds.signed_at
+      ) ORDER BY ds.position)
+      FROM public.deal_signers ds
+      WHERE ds.deal_id = d.id
+    ),
+    'passkey_signatures', (
+      SELECT json_agg(json_build_object(
+        'user_id', dps.user_id,
+        'signer_name', dps.signer_name,
+        'credential_id', dps.credential_id,
+        'rp_id', dps.rp_id,
+        'public_key', dps.public_key,
+        'algorithm', dps.algorithm,
+        'authenticator_data', dps.authenticator_data,
+        'client_data_json', dps.client_data_json,
+        'signature', dps.signature,
+        'signed_at', dps.signed_at
+      ) ORDER BY dps.signed_at)
+      FROM public.deal_passkey_signatures dps
+      WHERE dps.deal_id = d.id
+    ),
     'verifications', (
       SELECT json_agg(json_build_object(
+        'signer_id', dv.signer_id,
         'verification_type', dv.verification_type,
         'verified_value', dv.verified_value,
         'verified_at', dv.verified_at
@@ -555,6 +1265,7 @@ BEGIN
   END IF;
 
   SELECT json_agg(json_build_object(
+    'signer_id', dv.signer_id,
     'verification_type', dv.verification_type,
     'verified_value', dv.verified_value,
     'verified_at', dv.verified_at
@@ -591,9 +1302,11 @@ BEGIN
     RETURN NULL;
   END IF;
 
+  -- Signer tokens are personal and only ever delivered through the signer's own link
   SELECT token INTO v_token
   FROM public.access_tokens
   WHERE deal_id = p_deal_id
+    AND signer_id IS NULL
     AND expires_at > NOW()
     AND used_at IS NULL
   LIMIT 1;
@@ -635,86 +1348,690 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql SECURITY DEFINER;
 
--- Log audit event
-CREATE OR REPLACE FUNCTION public.log_audit_event(
-  p_deal_id UUID,
-  p_event_type audit_event_type,
-  p_actor_type actor_type,
-  p_metadata JSONB DEFAULT NULL,
-  p_actor_id UUID DEFAULT NULL,
-  p_ip_address INET DEFAULT NULL,
-  p_user_agent TEXT DEFAULT NULL
-)
-RETURNS UUID AS $$
+-- Get signer for a personal signing token (multi-party deals)
+CREATE OR REPLACE FUNCTION public.get_signer_by_token(p_deal_id UUID, p_token TEXT)
+RETURNS JSON AS $$
 DECLARE
-  v_id UUID;
-  v_deal_exists BOOLEAN;
+  v_signer public.deal_signers;
+  v_expires_at TIMESTAMPTZ;
+  v_used_at TIMESTAMPTZ;
+  v_signing_mode TEXT;
+  v_waiting_on TEXT;
 BEGIN
-  SELECT EXISTS(SELECT 1 FROM public.deals WHERE id = p_deal_id) INTO v_deal_exists;
+  SELECT s.* INTO v_signer
+  FROM public.access_tokens t
+  JOIN public.deal_signers s ON s.id = t.signer_id
+  WHERE t.deal_id = p_deal_id AND t.token = p_token;
 
-  IF NOT v_deal_exists THEN
-    RAISE EXCEPTION 'Deal not found';
+  IF NOT FOUND THEN
+    RETURN NULL;
   END IF;
 
-  INSERT INTO public.audit_log (
-    deal_id, event_type, actor_id, actor_type, metadata, ip_address, user_agent
-  )
-  VALUES (
-    p_deal_id, p_event_type, p_actor_id, p_actor_type, p_metadata, p_ip_address, p_user_agent
-  )
-  RETURNING id INTO v_id;
+  SELECT expires_at, used_at INTO v_expires_at, v_used_at
+  FROM public.access_tokens
+  WHERE deal_id = p_deal_id AND token = p_token;
 
-  RETURN v_id;
+  SELECT COALESCE(signing_mode, 'unordered') INTO v_signing_mode FROM public.deals WHERE id = p_deal_id;
+
+  IF v_signing_mode = 'ordered' THEN
+    SELECT name INTO v_waiting_on
+    FROM public.deal_signers
+    WHERE deal_id = p_deal_id
+      AND signed_at IS NULL
+      AND position < v_signer.position
+    ORDER BY position
+    LIMIT 1;
+  END IF;
+
+  RETURN json_build_object(
+    'id', v_signer.id,
+    'name', v_signer.name,
+    'email', v_signer.email,
+    'position', v_signer.position,
+    'signed_at', v_signer.signed_at,
+    'token_status', CASE
+      WHEN v_used_at IS NOT NULL THEN 'used'
+      WHEN v_expires_at < NOW() THEN 'expired'
+      ELSE 'valid'
+    END,
+    'expires_at', v_expires_at,
+    'waiting_on', v_waiting_on
+  );
 END;
 $$ LANGUAGE plpgsql SECURITY DEFINER;
 
--- Get deal audit logs
-CREATE OR REPLACE FUNCTION public.get_deal_audit_logs(p_deal_id UUID, p_token TEXT DEFAULT NULL)
-RETURNS SETOF audit_log AS $$
+-- Creator counter-signs a deal once every recipient has signed, sealing it
+DROP FUNCTION IF EXISTS public.countersign_deal(UUID, TEXT, TEXT, TIMESTAMPTZ);
+DROP FUNCTION IF EXISTS public.countersign_deal(UUID, TEXT, TEXT, TIMESTAMPTZ, TEXT, TEXT);
+DROP FUNCTION IF EXISTS public.countersign_deal(UUID, TEXT, TEXT, TIMESTAMPTZ, TEXT, TEXT, TEXT);
+CREATE OR REPLACE FUNCTION public.countersign_deal(
+  p_deal_id UUID,
+  p_signature_url TEXT,
+  p_deal_seal TEXT,
+  p_signed_at TIMESTAMPTZ DEFAULT NOW(),
+  p_seal_signature TEXT DEFAULT NULL,
+  p_seal_key_id TEXT DEFAULT NULL,
+  p_signature_method TEXT DEFAULT NULL,
+  p_signature_vector JSONB DEFAULT NULL
+)
+RETURNS public.deals AS $$
+DECLARE
+  v_deal public.deals;
 BEGIN
-  IF EXISTS (SELECT 1 FROM deals WHERE id = p_deal_id AND status = 'confirmed') THEN
-    RETURN QUERY SELECT * FROM audit_log WHERE deal_id = p_deal_id ORDER BY created_at ASC;
-    RETURN;
-  END IF;
+  SELECT * INTO v_deal FROM public.deals WHERE id = p_deal_id AND status = 'pending' FOR UPDATE;
 
-  IF EXISTS (
-    SELECT 1 FROM deals WHERE id = p_deal_id
-    AND (creator_id = auth.uid() OR recipient_id = auth.uid())
-  ) THEN
-    RETURN QUERY SELECT * FROM audit_log WHERE deal_id = p_deal_id ORDER BY created_at ASC;
-    RETURN;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Deal not found or not in pending status';
   END IF;
 
-  IF p_token IS NOT NULL AND EXISTS (
-    SELECT 1 FROM access_tokens WHERE deal_id = p_deal_id AND token = p_token
-  ) THEN
-    RETURN QUERY SELECT * FROM audit_log WHERE deal_id = p_deal_id ORDER BY created_at ASC;
-    RETURN;
+  IF v_deal.creator_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the deal creator can counter-sign';
   END IF;
 
-  RETURN;
-END;
-$$ LANGUAGE plpgsql SECURITY DEFINER;
+  IF v_deal.creator_signature_mode <> 'after' OR v_deal.creator_signed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Deal does not await a counter-signature';
+  END IF;
 
--- Lookup profile by email
-CREATE OR REPLACE FUNCTION public.lookup_profile_by_email(p_email TEXT)
-RETURNS TABLE(id UUID, name TEXT, avatar_url TEXT) AS $$
-BEGIN
-  IF auth.uid() IS NULL THEN
-    RETURN;
+  IF EXISTS(SELECT 1 FROM public.deal_signers WHERE deal_id = p_deal_id AND signed_at IS NULL)
+    OR (v_deal.signature_url IS NULL AND NOT EXISTS(SELECT 1 FROM public.deal_signers WHERE deal_id = p_deal_id))
+  THEN
+    RAISE EXCEPTION 'Waiting for recipient signatures';
   END IF;
 
-  RETURN QUERY
-  SELECT profiles.id, profiles.name, profiles.avatar_url
-  FROM public.profiles
-  WHERE profiles.email = LOWER(TRIM(p_email));
+  UPDATE public.deals
+  SET
+    status = 'confirmed',
+    creator_signature_url = p_signature_url,
+    creator_signature_method = p_signature_method,
+    creator_signature_vector = p_signature_vector,
+    creator_signed_at = p_signed_at,
+    deal_seal = p_deal_seal,
+    seal_signature = p_seal_signature,
+    seal_key_id = p_seal_key_id,
+    confirmed_at = p_signed_at
+  WHERE id = p_deal_id
+  RETURNING * INTO v_deal;
+
+  INSERT INTO public.audit_log (deal_id, event_type, actor_id, actor_type, metadata)
+  VALUES (p_deal_id, 'deal_countersigned', auth.uid(), 'creator', jsonb_build_object(
+    'has_seal', p_deal_seal IS NOT NULL,
+    'signature_method', p_signature_method
+  ));
+
+  INSERT INTO public.audit_log (deal_id, event_type, actor_id, actor_type, metadata)
+  VALUES (p_deal_id, 'deal_confirmed', auth.uid(), 'creator', jsonb_build_object(
+    'has_seal', p_deal_seal IS NOT NULL,
+    'countersigned', TRUE,
+    'seal_key_id', p_seal_key_id
+  ));
+
+  RETURN v_deal;
 END;
 $$ LANGUAGE plpgsql SECURITY DEFINER;
 
--- Check email for deal
-CREATE OR REPLACE FUNCTION public.check_email_for_deal(p_public_id TEXT, p_email TEXT)
-RETURNS TABLE(is_proofo_user BOOLEAN, is_creator BOOLEAN, user_name TEXT, user_avatar_url TEXT) AS $$
-DECLARE
+-- Recipient proposes a new value for one term (only while nobody has signed yet)
+CREATE OR REPLACE FUNCTION public.propose_deal_term(
+  p_deal_id UUID,
+  p_token TEXT,
+  p_term_id TEXT,
+  p_proposed_value TEXT,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS public.deal_term_proposals AS $$
+DECLARE
+  v_deal public.deals;
+  v_signer_id UUID;
+  v_term JSONB;
+  v_proposer_name TEXT;
+  v_proposal public.deal_term_proposals;
+BEGIN
+  SELECT signer_id INTO v_signer_id
+  FROM public.access_tokens
+  WHERE deal_id = p_deal_id
+    AND token = p_token
+    AND expires_at > NOW()
+    AND used_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invalid or expired token';
+  END IF;
+
+  SELECT * INTO v_deal FROM public.deals WHERE id = p_deal_id AND status = 'pending' FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Deal not found or not in pending status';
+  END IF;
+
+  IF v_deal.signature_url IS NOT NULL
+    OR v_deal.creator_signed_at IS NOT NULL
+    OR EXISTS(SELECT 1 FROM public.deal_signers WHERE deal_id = p_deal_id AND signed_at IS NOT NULL)
+  THEN
+    RAISE EXCEPTION 'Terms can no longer be changed once signing has started';
+  END IF;
+
+  SELECT elem INTO v_term
+  FROM jsonb_array_elements(v_deal.terms) AS elem
+  WHERE elem->>'id' = p_term_id;
+
+  IF v_term IS NULL THEN
+    RAISE EXCEPTION 'Term not found';
+  END IF;
+
+  IF v_term->>'value' = p_proposed_value THEN
+    RAISE EXCEPTION 'Proposed value is unchanged';
+  END IF;
+
+  IF EXISTS(
+    SELECT 1 FROM public.deal_term_proposals
+    WHERE deal_id = p_deal_id AND term_id = p_term_id AND status = 'pending'
+  ) THEN
+    RAISE EXCEPTION 'A change to this term is already awaiting a response';
+  END IF;
+
+  IF v_signer_id IS NOT NULL THEN
+    SELECT name INTO v_proposer_name FROM public.deal_signers WHERE id = v_signer_id;
+  ELSE
+    v_proposer_name := v_deal.recipient_name;
+  END IF;
+
+  INSERT INTO public.deal_term_proposals (
+    deal_id, signer_id, term_id, term_label, previous_value, proposed_value, note, proposed_by_name
+  )
+  VALUES (
+    p_deal_id, v_signer_id, p_term_id, v_term->>'label', v_term->>'value', p_proposed_value, p_note, v_proposer_name
+  )
+  RETURNING * INTO v_proposal;
+
+  INSERT INTO public.audit_log (deal_id, event_type, actor_id, actor_type, metadata)
+  VALUES (p_deal_id, 'term_proposed', auth.uid(), 'recipient', jsonb_build_object(
+    'proposal_id', v_proposal.id,
+    'term_label', v_proposal.term_label,
+    'previous_value', v_proposal.previous_value,
+    'proposed_value', v_proposal.proposed_value,
+    'proposed_by', v_proposer_name
+  ));
+
+  RETURN v_proposal;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Creator accepts or rejects a term proposal; accepting applies the edit as a new terms revision
+CREATE OR REPLACE FUNCTION public.resolve_term_proposal(p_proposal_id UUID, p_accept BOOLEAN)
+RETURNS public.deal_term_proposals AS $$
+DECLARE
+  v_proposal public.deal_term_proposals;
+  v_deal public.deals;
+BEGIN
+  SELECT * INTO v_proposal FROM public.deal_term_proposals WHERE id = p_proposal_id AND status = 'pending' FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Proposal not found or already resolved';
+  END IF;
+
+  SELECT * INTO v_deal FROM public.deals WHERE id = v_proposal.deal_id AND status = 'pending' FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Deal not found or not in pending status';
+  END IF;
+
+  IF v_deal.creator_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the deal creator can respond to proposals';
+  END IF;
+
+  IF p_accept THEN
+    UPDATE public.deals
+    SET
+      terms = (
+        SELECT jsonb_agg(
+          CASE WHEN elem->>'id' = v_proposal.term_id
+            THEN jsonb_set(elem, '{value}', to_jsonb(v_proposal.proposed_value))
+            ELSE elem
+          END ORDER BY ord
+        )
+        FROM jsonb_array_elements(v_deal.terms) WITH ORDINALITY AS t(elem, ord)
+      ),
+      terms_revision = COALESCE(terms_revision, 1) + 1
+    WHERE id = v_deal.id
+    RETURNING * INTO v_deal;
+  END IF;
+
+  UPDATE public.deal_term_proposals
+  SET
+    status = CASE WHEN p_accept THEN 'accepted' ELSE 'rejected' END,
+    revision = CASE WHEN p_accept THEN v_deal.terms_revision ELSE NULL END,
+    resolved_at = NOW()
+  WHERE id = p_proposal_id
+  RETURNING * INTO v_proposal;
+
+  INSERT INTO public.audit_log (deal_id, event_type, actor_id, actor_type, metadata)
+  VALUES (
+    v_deal.id,
+    CASE WHEN p_accept THEN 'term_accepted'::audit_event_type ELSE 'term_rejected'::audit_event_type END,
+    auth.uid(),
+    'creator',
+    jsonb_build_object(
+      'proposal_id', v_proposal.id,
+      'term_label', v_proposal.term_label,
+      'previous_value', v_proposal.previous_value,
+      'proposed_value', v_proposal.proposed_value,
+      'revision', v_proposal.revision
+    )
+  );
+
+  RETURN v_proposal;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Get term proposals (same access rules as the audit log)
+CREATE OR REPLACE FUNCTION public.get_term_proposals(p_deal_id UUID, p_token TEXT DEFAULT NULL)
+RETURNS SETOF deal_term_proposals AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM deals WHERE id = p_deal_id
+    AND (status = 'confirmed' OR creator_id = auth.uid() OR recipient_id = auth.uid() OR public.is_deal_signer(id))
+  ) OR (p_token IS NOT NULL AND EXISTS (
+    SELECT 1 FROM access_tokens WHERE deal_id = p_deal_id AND token = p_token
+  )) THEN
+    RETURN QUERY SELECT * FROM deal_term_proposals WHERE deal_id = p_deal_id ORDER BY created_at ASC;
+  END IF;
+
+  RETURN;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Get the branding a deal's documents are issued under: the creator's branding
+-- profile, only while the creator is on a paid plan
+CREATE OR REPLACE FUNCTION public.get_deal_branding(p_public_id TEXT)
+RETURNS JSON AS $$
+DECLARE
+  v_result JSON;
+BEGIN
+  SELECT json_build_object(
+    'company_name', b.company_name,
+    'logo_url', b.logo_url,
+    'accent_color', b.accent_color,
+    'footer_text', b.footer_text,
+    'legal_text', b.legal_text
+  ) INTO v_result
+  FROM public.deals d
+  JOIN public.profiles p ON p.id = d.creator_id
+  JOIN public.branding_profiles b ON b.user_id = d.creator_id
+  WHERE d.public_id = p_public_id AND p.is_pro = TRUE;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Get every version of a deal (the original plus its amendments), oldest first
+CREATE OR REPLACE FUNCTION public.get_deal_versions(p_public_id TEXT)
+RETURNS JSON AS $$
+DECLARE
+  v_root_id UUID;
+  v_result JSON;
+BEGIN
+  -- Walk up to the original deal
+  WITH RECURSIVE ancestors AS (
+    SELECT id, parent_deal_id FROM public.deals WHERE public_id = p_public_id
+    UNION ALL
+    SELECT d.id, d.parent_deal_id FROM public.deals d JOIN ancestors a ON d.id = a.parent_deal_id
+  )
+  SELECT id INTO v_root_id FROM ancestors WHERE parent_deal_id IS NULL;
+
+  IF v_root_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- Walk down through every amendment of the original
+  WITH RECURSIVE versions AS (
+    SELECT * FROM public.deals WHERE id = v_root_id
+    UNION ALL
+    SELECT d.* FROM public.deals d JOIN versions v ON d.parent_deal_id = v.id
+  )
+  SELECT json_agg(json_build_object(
+    'id', versions.id,
+    'public_id', versions.public_id,
+    'version', COALESCE(versions.version, 1),
+    'title', versions.title,
+    'status', versions.status,
+    'deal_seal', versions.deal_seal,
+    'previous_seal', versions.previous_seal,
+    'created_at', versions.created_at,
+    'confirmed_at', versions.confirmed_at,
+    'voided_at', versions.voided_at
+  ) ORDER BY COALESCE(versions.version, 1), versions.created_at) INTO v_result
+  FROM versions;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Expire pending deals whose signing deadline has passed (run by the scheduled expiry job)
+-- Only the service role (the job) and pg_cron can call it; see the permissions section.
+CREATE OR REPLACE FUNCTION public.expire_overdue_deals()
+RETURNS INT AS $$
+DECLARE
+  v_count INT;
+BEGIN
+  WITH expired AS (
+    UPDATE public.deals
+    SET status = 'expired', expired_at = NOW()
+    WHERE status = 'pending'
+      AND expires_at IS NOT NULL
+      AND expires_at < NOW()
+    RETURNING id, expires_at
+  )
+  INSERT INTO public.audit_log (deal_id, event_type, actor_type, metadata)
+  SELECT id, 'deal_expired', 'system', jsonb_build_object('expires_at', expires_at)
+  FROM expired;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Extend a deal's signing deadline (creator only). Reopens expired deals and
+-- retires every unused token, so the caller must issue fresh signing links.
+CREATE OR REPLACE FUNCTION public.extend_deal_deadline(p_deal_id UUID, p_expires_at TIMESTAMPTZ)
+RETURNS public.deals AS $$
+DECLARE
+  v_deal public.deals;
+  v_previous_expires_at TIMESTAMPTZ;
+  v_was_expired BOOLEAN;
+BEGIN
+  SELECT * INTO v_deal FROM public.deals WHERE id = p_deal_id FOR UPDATE;
+
+  IF NOT FOUND OR v_deal.creator_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Deal not found';
+  END IF;
+
+  IF v_deal.status NOT IN ('pending', 'expired') THEN
+    RAISE EXCEPTION 'Only pending or expired deals can be extended';
+  END IF;
+
+  IF p_expires_at <= NOW() THEN
+    RAISE EXCEPTION 'New deadline must be in the future';
+  END IF;
+
+  v_previous_expires_at := v_deal.expires_at;
+  v_was_expired := v_deal.status = 'expired';
+
+  UPDATE public.deals
+  SET status = 'pending', expires_at = p_expires_at, expired_at = NULL
+  WHERE id = p_deal_id
+  RETURNING * INTO v_deal;
+
+  UPDATE public.access_tokens
+  SET expires_at = NOW()
+  WHERE deal_id = p_deal_id
+    AND used_at IS NULL
+    AND expires_at > NOW();
+
+  INSERT INTO public.audit_log (deal_id, event_type, actor_id, actor_type, metadata)
+  VALUES (p_deal_id, 'deal_extended', auth.uid(), 'creator', jsonb_build_object(
+    'previous_expires_at', v_previous_expires_at,
+    'expires_at', p_expires_at,
+    'was_expired', v_was_expired
+  ));
+
+  RETURN v_deal;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Attach an RFC 3161 timestamp token to a sealed deal (write-once)
+-- Service role only: the server requests the token from the TSA itself.
+-- The token must contain the seal digest as its message imprint; /verify parses it fully.
+CREATE OR REPLACE FUNCTION public.set_deal_timestamp(
+  p_deal_id UUID,
+  p_token TEXT,
+  p_timestamped_at TIMESTAMPTZ,
+  p_authority TEXT
+)
+RETURNS VOID AS $$
+DECLARE
+  v_deal public.deals;
+BEGIN
+  SELECT * INTO v_deal FROM public.deals WHERE id = p_deal_id FOR UPDATE;
+
+  IF NOT FOUND OR v_deal.status <> 'confirmed' OR v_deal.deal_seal IS NULL THEN
+    RAISE EXCEPTION 'Deal is not sealed';
+  END IF;
+
+  IF v_deal.timestamp_token IS NOT NULL THEN
+    RAISE EXCEPTION 'Deal is already timestamped';
+  END IF;
+
+  IF position(decode(v_deal.deal_seal, 'hex') IN decode(p_token, 'base64')) = 0 THEN
+    RAISE EXCEPTION 'Timestamp token does not cover the deal seal';
+  END IF;
+
+  UPDATE public.deals
+  SET
+    timestamp_token = p_token,
+    timestamped_at = p_timestamped_at,
+    timestamp_authority = p_authority
+  WHERE id = p_deal_id;
+
+  INSERT INTO public.audit_log (deal_id, event_type, actor_type, metadata)
+  VALUES (p_deal_id, 'deal_timestamped', 'system', jsonb_build_object(
+    'authority', p_authority,
+    'timestamped_at', p_timestamped_at
+  ));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Record the server-rendered PDF receipt of a sealed deal (write-once)
+-- Service role only: the server renders and uploads the receipt itself.
+-- Every later download serves this exact file, so its SHA-256 goes into the audit log.
+CREATE OR REPLACE FUNCTION public.set_deal_pdf_archive(
+  p_deal_id UUID,
+  p_pdf_url TEXT,
+  p_sha256 TEXT
+)
+RETURNS VOID AS $$
+DECLARE
+  v_deal public.deals;
+BEGIN
+  SELECT * INTO v_deal FROM public.deals WHERE id = p_deal_id FOR UPDATE;
+
+  IF NOT FOUND OR v_deal.status <> 'confirmed' OR v_deal.deal_seal IS NULL THEN
+    RAISE EXCEPTION 'Deal is not sealed';
+  END IF;
+
+  IF v_deal.pdf_url IS NOT NULL THEN
+    RAISE EXCEPTION 'Deal PDF is already archived';
+  END IF;
+
+  IF p_sha256 !~ '^[0-9a-f]{64}$' THEN
+    RAISE EXCEPTION 'Invalid SHA-256 digest';
+  END IF;
+
+  -- Receipts live in the signatures bucket under the deal's own folder
+  IF p_pdf_url !~ ('^https?://[^/?#]+/storage/v1/object/public/signatures/' || p_deal_id::text || '/receipt-[A-Za-z0-9_-]+\.pdf$') THEN
+    RAISE EXCEPTION 'Invalid PDF archive URL';
+  END IF;
+
+  UPDATE public.deals
+  SET
+    pdf_url = p_pdf_url,
+    pdf_sha256 = p_sha256,
+    pdf_archived_at = NOW()
+  WHERE id = p_deal_id;
+
+  INSERT INTO public.audit_log (deal_id, event_type, actor_type, metadata)
+  VALUES (p_deal_id, 'pdf_archived', 'system', jsonb_build_object(
+    'sha256', p_sha256
+  ));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Attach a file to a pending deal. The file's hash becomes part of the seal, so
+-- attachments can only be added by the creator before anyone has signed.
+CREATE OR REPLACE FUNCTION public.add_deal_attachment(
+  p_deal_id UUID,
+  p_attachment JSONB
+)
+RETURNS VOID AS $$
+DECLARE
+  v_deal public.deals;
+BEGIN
+  SELECT * INTO v_deal FROM public.deals WHERE id = p_deal_id FOR UPDATE;
+
+  IF NOT FOUND OR v_deal.creator_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Deal not found';
+  END IF;
+
+  IF v_deal.status <> 'pending'
+    OR v_deal.signature_url IS NOT NULL
+    OR EXISTS (SELECT 1 FROM public.deal_signers WHERE deal_id = p_deal_id AND signed_at IS NOT NULL) THEN
+    RAISE EXCEPTION 'Files can only be attached before anyone signs';
+  END IF;
+
+  IF jsonb_array_length(v_deal.attachments) >= 5 THEN
+    RAISE EXCEPTION 'A deal can have at most 5 attachments';
+  END IF;
+
+  IF COALESCE(p_attachment->>'sha256', '') !~ '^[0-9a-f]{64}$' THEN
+    RAISE EXCEPTION 'Invalid SHA-256 digest';
+  END IF;
+
+  UPDATE public.deals
+  SET attachments = attachments || jsonb_build_array(p_attachment)
+  WHERE id = p_deal_id;
+
+  INSERT INTO public.audit_log (deal_id, event_type, actor_id, actor_type, metadata)
+  VALUES (p_deal_id, 'attachment_added', auth.uid(), 'creator', jsonb_build_object(
+    'name', p_attachment->>'name',
+    'sha256', p_attachment->>'sha256'
+  ));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Set the PDF a "sign a document" deal is about. Like attachments, its hash is
+-- sealed, so only the creator can set it, once, before anyone has signed.
+CREATE OR REPLACE FUNCTION public.set_deal_document(
+  p_deal_id UUID,
+  p_document JSONB
+)
+RETURNS VOID AS $$
+DECLARE
+  v_deal public.deals;
+BEGIN
+  SELECT * INTO v_deal FROM public.deals WHERE id = p_deal_id FOR UPDATE;
+
+  IF NOT FOUND OR v_deal.creator_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Deal not found';
+  END IF;
+
+  IF v_deal.status <> 'pending'
+    OR v_deal.signature_url IS NOT NULL
+    OR EXISTS (SELECT 1 FROM public.deal_signers WHERE deal_id = p_deal_id AND signed_at IS NOT NULL) THEN
+    RAISE EXCEPTION 'The document can only be set before anyone signs';
+  END IF;
+
+  IF v_deal.document IS NOT NULL THEN
+    RAISE EXCEPTION 'This deal already has a document';
+  END IF;
+
+  IF COALESCE(p_document->>'sha256', '') !~ '^[0-9a-f]{64}$' THEN
+    RAISE EXCEPTION 'Invalid SHA-256 digest';
+  END IF;
+
+  UPDATE public.deals
+  SET document = p_document
+  WHERE id = p_deal_id;
+
+  INSERT INTO public.audit_log (deal_id, event_type, actor_id, actor_type, metadata)
+  VALUES (p_deal_id, 'document_uploaded', auth.uid(), 'creator', jsonb_build_object(
+    'name', p_document->>'name',
+    'sha256', p_document->>'sha256',
+    'pageCount', p_document->'pageCount'
+  ));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Term acknowledgements are now stored by confirm_deal_with_token, with the signature
+DROP FUNCTION IF EXISTS public.record_term_acknowledgements(UUID, TEXT, JSONB);
+
+-- Log audit event
+CREATE OR REPLACE FUNCTION public.log_audit_event(
+  p_deal_id UUID,
+  p_event_type audit_event_type,
+  p_actor_type actor_type,
+  p_metadata JSONB DEFAULT NULL,
+  p_actor_id UUID DEFAULT NULL,
+  p_ip_address INET DEFAULT NULL,
+  p_user_agent TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_id UUID;
+  v_deal_exists BOOLEAN;
+BEGIN
+  SELECT EXISTS(SELECT 1 FROM public.deals WHERE id = p_deal_id) INTO v_deal_exists;
+
+  IF NOT v_deal_exists THEN
+    RAISE EXCEPTION 'Deal not found';
+  END IF;
+
+  INSERT INTO public.audit_log (
+    deal_id, event_type, actor_id, actor_type, metadata, ip_address, user_agent
+  )
+  VALUES (
+    p_deal_id, p_event_type, p_actor_id, p_actor_type, p_metadata, p_ip_address, p_user_agent
+  )
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Get deal audit logs
+CREATE OR REPLACE FUNCTION public.get_deal_audit_logs(p_deal_id UUID, p_token TEXT DEFAULT NULL)
+RETURNS SETOF audit_log AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM deals WHERE id = p_deal_id AND status = 'confirmed') THEN
+    RETURN QUERY SELECT * FROM audit_log WHERE deal_id = p_deal_id ORDER BY sequence ASC;
+    RETURN;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM deals WHERE id = p_deal_id
+    AND (creator_id = auth.uid() OR recipient_id = auth.uid() OR public.is_deal_signer(id))
+  ) THEN
+    RETURN QUERY SELECT * FROM audit_log WHERE deal_id = p_deal_id ORDER BY sequence ASC;
+    RETURN;
+  END IF;
+
+  IF p_token IS NOT NULL AND EXISTS (
+    SELECT 1 FROM access_tokens WHERE deal_id = p_deal_id AND token = p_token
+  ) THEN
+    RETURN QUERY SELECT * FROM audit_log WHERE deal_id = p_deal_id ORDER BY sequence ASC;
+    RETURN;
+  END IF;
+
+  RETURN;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Lookup profile by email
+CREATE OR REPLACE FUNCTION public.lookup_profile_by_email(p_email TEXT)
+RETURNS TABLE(id UUID, name TEXT, avatar_url TEXT) AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT profiles.id, profiles.name, profiles.avatar_url
+  FROM public.profiles
+  WHERE profiles.email = LOWER(TRIM(p_email));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Check email for deal
+CREATE OR REPLACE FUNCTION public.check_email_for_deal(p_public_id TEXT, p_email TEXT)
+RETURNS TABLE(is_proofo_user BOOLEAN, is_creator BOOLEAN, user_name TEXT, user_avatar_url TEXT) AS $$
+DECLARE
   v_deal_creator_id UUID;
   v_profile_id UUID;
   v_profile_name TEXT;
@@ -748,8 +2065,12 @@ END;
 $$ LANGUAGE plpgsql SECURITY DEFINER;
 
 -- Create verification code
+-- The signing token says who is verifying: each signer of a multi-party deal
+-- verifies separately, and the recipient of a single-recipient deal has no signer.
+DROP FUNCTION IF EXISTS public.create_verification_code(UUID, TEXT, TEXT, TEXT, INT);
 CREATE OR REPLACE FUNCTION public.create_verification_code(
   p_deal_id UUID,
+  p_token TEXT,
   p_verification_type TEXT,
   p_target TEXT,
   p_code_hash TEXT,
@@ -758,21 +2079,29 @@ CREATE OR REPLACE FUNCTION public.create_verification_code(
 RETURNS UUID AS $$
 DECLARE
   v_id UUID;
-  v_deal_exists BOOLEAN;
+  v_signer_id UUID;
 BEGIN
-  SELECT EXISTS(SELECT 1 FROM public.deals WHERE id = p_deal_id) INTO v_deal_exists;
-  IF NOT v_deal_exists THEN
-    RAISE EXCEPTION 'Deal not found';
+  SELECT signer_id INTO v_signer_id
+  FROM public.access_tokens
+  WHERE deal_id = p_deal_id
+    AND token = p_token
+    AND expires_at > NOW()
+    AND used_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invalid or expired token';
   END IF;
 
   DELETE FROM public.verification_codes
-  WHERE deal_id = p_deal_id AND verification_type = p_verification_type;
+  WHERE deal_id = p_deal_id
+    AND signer_id IS NOT DISTINCT FROM v_signer_id
+    AND verification_type = p_verification_type;
 
   INSERT INTO public.verification_codes (
-    deal_id, verification_type, target, code, expires_at
+    deal_id, signer_id, verification_type, target, code, expires_at
   )
   VALUES (
-    p_deal_id, p_verification_type, LOWER(TRIM(p_target)), p_code_hash,
+    p_deal_id, v_signer_id, p_verification_type, LOWER(TRIM(p_target)), p_code_hash,
     NOW() + (p_expires_minutes || ' minutes')::INTERVAL
   )
   RETURNING id INTO v_id;
@@ -781,21 +2110,35 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql SECURITY DEFINER;
 
--- Verify code
+-- Verify code, recording the verification for the signer the token belongs to
+DROP FUNCTION IF EXISTS public.verify_code(UUID, TEXT, TEXT, TEXT);
 CREATE OR REPLACE FUNCTION public.verify_code(
   p_deal_id UUID,
+  p_token TEXT,
   p_verification_type TEXT,
   p_target TEXT,
   p_code_hash TEXT
 )
 RETURNS BOOLEAN AS $$
 DECLARE
+  v_signer_id UUID;
   v_code_id UUID;
-  v_attempts INT;
 BEGIN
-  SELECT id, attempts INTO v_code_id, v_attempts
+  SELECT signer_id INTO v_signer_id
+  FROM public.access_tokens
+  WHERE deal_id = p_deal_id
+    AND token = p_token
+    AND expires_at > NOW()
+    AND used_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invalid or expired token';
+  END IF;
+
+  SELECT id INTO v_code_id
   FROM public.verification_codes
   WHERE deal_id = p_deal_id
+    AND signer_id IS NOT DISTINCT FROM v_signer_id
     AND verification_type = p_verification_type
     AND target = LOWER(TRIM(p_target))
     AND code = p_code_hash
@@ -805,7 +2148,9 @@ BEGIN
   IF v_code_id IS NULL THEN
     UPDATE public.verification_codes
     SET attempts = attempts + 1
-    WHERE deal_id = p_deal_id AND verification_type = p_verification_type;
+    WHERE deal_id = p_deal_id
+      AND signer_id IS NOT DISTINCT FROM v_signer_id
+      AND verification_type = p_verification_type;
     RETURN FALSE;
   END IF;
 
@@ -813,54 +2158,377 @@ BEGIN
   SET verified_at = NOW()
   WHERE id = v_code_id;
 
-  INSERT INTO public.deal_verifications (deal_id, verification_type, verified_value)
-  VALUES (p_deal_id, p_verification_type, LOWER(TRIM(p_target)))
-  ON CONFLICT (deal_id, verification_type)
+  INSERT INTO public.deal_verifications (deal_id, signer_id, verification_type, verified_value)
+  VALUES (p_deal_id, v_signer_id, p_verification_type, LOWER(TRIM(p_target)))
+  ON CONFLICT (deal_id, signer_id, verification_type)
   DO UPDATE SET verified_value = EXCLUDED.verified_value, verified_at = NOW();
 
   RETURN TRUE;
 END;
 $$ LANGUAGE plpgsql SECURITY DEFINER;
 
--- Get deal verification status
-CREATE OR REPLACE FUNCTION public.get_deal_verification_status(p_deal_id UUID)
+-- Track an SMS sent for a phone verification code, against its phone_otp_sent audit event
+CREATE OR REPLACE FUNCTION public.track_sms_delivery(
+  p_audit_log_id UUID,
+  p_provider TEXT,
+  p_message_id TEXT,
+  p_status TEXT
+)
+RETURNS VOID AS $$
+DECLARE
+  v_deal_id UUID;
+BEGIN
+  SELECT deal_id INTO v_deal_id
+  FROM public.audit_log
+  WHERE id = p_audit_log_id AND event_type = 'phone_otp_sent';
+
+  IF v_deal_id IS NULL THEN
+    RAISE EXCEPTION 'Audit event not found';
+  END IF;
+
+  INSERT INTO public.sms_deliveries (audit_log_id, deal_id, provider, message_id, status, status_history)
+  VALUES (
+    p_audit_log_id, v_deal_id, p_provider, p_message_id, p_status,
+    jsonb_build_array(jsonb_build_object('status', p_status, 'at', NOW()))
+  )
+  ON CONFLICT (provider, message_id) DO NOTHING;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Record a delivery report from an SMS provider. Reports can arrive out of
+-- order, so a message never moves back to an earlier status. Returns FALSE for
+-- unknown messages.
+CREATE OR REPLACE FUNCTION public.record_sms_delivery_status(
+  p_provider TEXT,
+  p_message_id TEXT,
+  p_status TEXT,
+  p_error_code TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_delivery public.sms_deliveries;
+  v_ranks CONSTANT JSONB := '{"queued": 1, "sent": 2, "delivered": 3, "failed": 3}';
+BEGIN
+  SELECT * INTO v_delivery
+  FROM public.sms_deliveries
+  WHERE provider = p_provider AND message_id = p_message_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  UPDATE public.sms_deliveries
+  SET
+    status = CASE
+      WHEN (v_ranks->>p_status)::INT >= (v_ranks->>v_delivery.status)::INT THEN p_status
+      ELSE status
+    END,
+    error_code = COALESCE(p_error_code, error_code),
+    status_history = status_history || jsonb_build_array(jsonb_strip_nulls(jsonb_build_object(
+      'status', p_status, 'at', NOW(), 'error_code', p_error_code
+    ))),
+    updated_at = NOW()
+  WHERE id = v_delivery.id;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- The verification policy a deal enforces: the creator's own, or the preset
+-- for its trust level (mirrors TRUST_LEVEL_POLICIES in the app)
+CREATE OR REPLACE FUNCTION public.deal_verification_policy(p_trust_level trust_level, p_policy JSONB)
+RETURNS JSONB AS $$
+  SELECT COALESCE(p_policy, CASE COALESCE(p_trust_level, 'basic')
+    WHEN 'verified' THEN '{"email": "required", "phone": "off", "id": "off"}'::jsonb
+    WHEN 'strong' THEN '{"email": "required", "phone": "required", "id": "off"}'::jsonb
+    WHEN 'maximum' THEN '{"email": "required", "phone": "required", "id": "required"}'::jsonb
+    ELSE '{"email": "off", "phone": "off", "id": "off"}'::jsonb
+  END);
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Whether a signed-in user is the party a signing token is for: the account the
+-- deal (or the signer) names, or, while none is named, an account with its email.
+-- A link sent without an email can be claimed by any account.
+CREATE OR REPLACE FUNCTION public.is_deal_party_account(p_deal_id UUID, p_signer_id UUID, p_user_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_party_id UUID;
+  v_party_email TEXT;
+BEGIN
+  IF p_user_id IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  IF p_signer_id IS NULL THEN
+    SELECT recipient_id, recipient_email INTO v_party_id, v_party_email FROM public.deals WHERE id = p_deal_id;
+  ELSE
+    SELECT recipient_id, email INTO v_party_id, v_party_email FROM public.deal_signers WHERE id = p_signer_id;
+  END IF;
+
+  IF v_party_id IS NOT NULL THEN
+    RETURN v_party_id = p_user_id;
+  END IF;
+
+  RETURN v_party_email IS NULL OR EXISTS(
+    SELECT 1 FROM auth.users WHERE id = p_user_id AND LOWER(email) = LOWER(v_party_email)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Whether a signer meets a deal's verification policy: every required check
+-- verified, the verified email within the allowed domains, and, when an account
+-- is required, signed in as the party the deal is for
+CREATE OR REPLACE FUNCTION public.deal_policy_met(p_deal_id UUID, p_signer_id UUID, p_user_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_policy JSONB;
+  v_verified_email TEXT;
+BEGIN
+  SELECT public.deal_verification_policy(trust_level, verification_policy) INTO v_policy
+  FROM public.deals WHERE id = p_deal_id;
+
+  IF EXISTS(
+    SELECT 1 FROM unnest(ARRAY['email', 'phone', 'id']) AS required_type
+    WHERE v_policy->>required_type = 'required'
+      AND NOT EXISTS(
+        SELECT 1 FROM public.deal_verifications
+        WHERE deal_id = p_deal_id
+          AND signer_id IS NOT DISTINCT FROM p_signer_id
+          AND verification_type::TEXT = required_type
+      )
+  ) THEN
+    RETURN FALSE;
+  END IF;
+
+  SELECT verified_value INTO v_verified_email FROM public.deal_verifications
+  WHERE deal_id = p_deal_id AND signer_id IS NOT DISTINCT FROM p_signer_id AND verification_type = 'email';
+
+  -- Subdomains don't count: only the listed domains are allowed
+  IF jsonb_array_length(COALESCE(v_policy->'emailDomains', '[]'::jsonb)) > 0
+    AND NOT (v_verified_email IS NOT NULL AND v_policy->'emailDomains' ? split_part(LOWER(v_verified_email), '@', 2))
+  THEN
+    RETURN FALSE;
+  END IF;
+
+  RETURN NOT COALESCE((v_policy->>'requireAccount')::BOOLEAN, FALSE)
+    OR public.is_deal_party_account(p_deal_id, p_signer_id, p_user_id);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Record a passed ID check (Maximum trust level, or a policy that offers ID)
+-- for the signer the token belongs to. Service role only: the server calls it
+-- once the provider has approved the photos. The photos stay with the provider;
+-- p_metadata carries its reference and the photos' SHA-256 hashes.
+-- p_actor_id is the signed-in recipient, if any, for the audit log.
+DROP FUNCTION IF EXISTS public.record_id_verification(UUID, TEXT, JSONB);
+DROP FUNCTION IF EXISTS public.record_id_verification(UUID, TEXT, TEXT, JSONB);
+CREATE OR REPLACE FUNCTION public.record_id_verification(
+  p_deal_id UUID,
+  p_token TEXT,
+  p_document_type TEXT,
+  p_metadata JSONB,
+  p_actor_id UUID
+)
+RETURNS TIMESTAMPTZ AS $$
+DECLARE
+  v_deal public.deals;
+  v_signer_id UUID;
+  v_verified_at TIMESTAMPTZ := NOW();
+BEGIN
+  SELECT signer_id INTO v_signer_id
+  FROM public.access_tokens
+  WHERE deal_id = p_deal_id
+    AND token = p_token
+    AND expires_at > NOW()
+    AND used_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invalid or expired token';
+  END IF;
+
+  SELECT * INTO v_deal FROM public.deals WHERE id = p_deal_id AND status = 'pending' FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Deal not found or not in pending status';
+  END IF;
+
+  IF public.deal_verification_policy(v_deal.trust_level, v_deal.verification_policy)->>'id' = 'off' THEN
+    RAISE EXCEPTION 'This deal does not use ID verification';
+  END IF;
+
+  IF p_document_type NOT IN ('passport', 'id_card', 'driving_licence') THEN
+    RAISE EXCEPTION 'Invalid document type';
+  END IF;
+
+  -- ID comes after email and phone
+  IF (
+    SELECT COUNT(*) FROM public.deal_verifications
+    WHERE deal_id = p_deal_id
+      AND signer_id IS NOT DISTINCT FROM v_signer_id
+      AND verification_type IN ('email', 'phone')
+  ) < 2 THEN
+    RAISE EXCEPTION 'Email and phone must be verified first';
+  END IF;
+
+  INSERT INTO public.deal_verifications (deal_id, signer_id, verification_type, verified_value, verified_at, metadata)
+  VALUES (p_deal_id, v_signer_id, 'id', p_document_type, v_verified_at, p_metadata)
+  ON CONFLICT (deal_id, signer_id, verification_type)
+  DO UPDATE SET verified_value = EXCLUDED.verified_value, verified_at = EXCLUDED.verified_at, metadata = EXCLUDED.metadata;
+
+  INSERT INTO public.audit_log (deal_id, event_type, actor_id, actor_type, metadata)
+  VALUES (p_deal_id, 'id_verified', p_actor_id, 'recipient', jsonb_build_object(
+    'document_type', p_document_type,
+    'provider', p_metadata->>'provider',
+    'signer_id', v_signer_id
+  ));
+
+  RETURN v_verified_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Record a party's passkey signature over a sealed deal's seal. Service role
+-- only: the app checks the assertion against the seal and the signed-in user's
+-- passkey, then calls this for that user; /verify checks it again.
+DROP FUNCTION IF EXISTS public.record_passkey_signature(UUID, TEXT, TEXT, TEXT, TEXT);
+CREATE OR REPLACE FUNCTION public.record_passkey_signature(
+  p_deal_id UUID,
+  p_user_id UUID,
+  p_credential_id TEXT,
+  p_authenticator_data TEXT,
+  p_client_data_json TEXT,
+  p_signature TEXT
+)
+RETURNS JSON AS $$
+DECLARE
+  v_user_id UUID := p_user_id;
+  v_deal public.deals;
+  v_credential public.passkey_credentials;
+  v_signer_name TEXT;
+  v_signed_at TIMESTAMPTZ := NOW();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_deal FROM public.deals WHERE id = p_deal_id AND status = 'confirmed' AND deal_seal IS NOT NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Deal not found or not sealed';
+  END IF;
+
+  -- Only the parties who signed can add a passkey signature
+  IF v_deal.recipient_id = v_user_id THEN
+    v_signer_name := COALESCE(v_deal.recipient_name, 'Recipient');
+  ELSE
+    SELECT name INTO v_signer_name FROM public.deal_signers
+    WHERE deal_id = p_deal_id AND recipient_id = v_user_id AND signed_at IS NOT NULL;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Only a party to this deal can sign it with a passkey';
+    END IF;
+  END IF;
+
+  SELECT * INTO v_credential FROM public.passkey_credentials
+  WHERE credential_id = p_credential_id AND user_id = v_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Passkey not found';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.deal_passkey_signatures WHERE deal_id = p_deal_id AND user_id = v_user_id) THEN
+    RAISE EXCEPTION 'You have already signed this deal with a passkey';
+  END IF;
+
+  INSERT INTO public.deal_passkey_signatures (
+    deal_id, user_id, signer_name, credential_id, rp_id, public_key, algorithm,
+    authenticator_data, client_data_json, signature, signed_at
+  )
+  VALUES (
+    p_deal_id, v_user_id, v_signer_name, v_credential.credential_id, v_credential.rp_id,
+    v_credential.public_key, v_credential.algorithm, p_authenticator_data, p_client_data_json,
+    p_signature, v_signed_at
+  );
+
+  UPDATE public.passkey_credentials SET last_used_at = v_signed_at WHERE id = v_credential.id;
+
+  INSERT INTO public.audit_log (deal_id, event_type, actor_id, actor_type, metadata)
+  VALUES (p_deal_id, 'passkey_signed', v_user_id, 'recipient', jsonb_build_object(
+    'signer_name', v_signer_name,
+    'credential_id', v_credential.credential_id,
+    'algorithm', v_credential.algorithm
+  ));
+
+  RETURN json_build_object('signer_name', v_signer_name, 'signed_at', v_signed_at);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Get deal verification status for the signer the token belongs to
+DROP FUNCTION IF EXISTS public.get_deal_verification_status(UUID);
+CREATE OR REPLACE FUNCTION public.get_deal_verification_status(p_deal_id UUID, p_token TEXT)
 RETURNS JSON AS $$
 DECLARE
   v_trust_level trust_level;
+  v_policy JSONB;
+  v_signer_id UUID;
+  v_verified_email TEXT;
   v_email_verified BOOLEAN;
+  v_email_domain_allowed BOOLEAN;
   v_phone_verified BOOLEAN;
+  v_id_verified BOOLEAN;
+  v_account_ok BOOLEAN;
 BEGIN
-  SELECT trust_level INTO v_trust_level FROM public.deals WHERE id = p_deal_id;
+  SELECT trust_level, public.deal_verification_policy(trust_level, verification_policy)
+  INTO v_trust_level, v_policy
+  FROM public.deals WHERE id = p_deal_id;
 
   IF v_trust_level IS NULL THEN
     RETURN json_build_object('error', 'Deal not found');
   END IF;
 
+  SELECT signer_id INTO v_signer_id
+  FROM public.access_tokens
+  WHERE deal_id = p_deal_id AND token = p_token;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('error', 'Invalid token');
+  END IF;
+
+  SELECT verified_value INTO v_verified_email FROM public.deal_verifications
+  WHERE deal_id = p_deal_id AND signer_id IS NOT DISTINCT FROM v_signer_id AND verification_type = 'email';
+  v_email_verified := v_verified_email IS NOT NULL;
+
+  -- Subdomains don't count: only the listed domains are allowed
+  v_email_domain_allowed := jsonb_array_length(COALESCE(v_policy->'emailDomains', '[]'::jsonb)) = 0
+    OR (v_email_verified AND COALESCE(v_policy->'emailDomains', '[]'::jsonb) ? split_part(LOWER(v_verified_email), '@', 2));
+
+  v_account_ok := NOT COALESCE((v_policy->>'requireAccount')::BOOLEAN, FALSE)
+    OR public.is_deal_party_account(p_deal_id, v_signer_id, auth.uid());
+
   SELECT EXISTS(
     SELECT 1 FROM public.deal_verifications
-    WHERE deal_id = p_deal_id AND verification_type = 'email'
-  ) INTO v_email_verified;
+    WHERE deal_id = p_deal_id AND signer_id IS NOT DISTINCT FROM v_signer_id AND verification_type = 'phone'
+  ) INTO v_phone_verified;
 
   SELECT EXISTS(
     SELECT 1 FROM public.deal_verifications
-    WHERE deal_id = p_deal_id AND verification_type = 'phone'
-  ) INTO v_phone_verified;
+    WHERE deal_id = p_deal_id AND signer_id IS NOT DISTINCT FROM v_signer_id AND verification_type = 'id'
+  ) INTO v_id_verified;
 
   RETURN json_build_object(
     'trust_level', v_trust_level::TEXT,
-    'email_required', v_trust_level IN ('verified', 'strong', 'maximum'),
+    'policy', v_policy,
+    'email_required', v_policy->>'email' = 'required',
     'email_verified', v_email_verified,
-    'phone_required', v_trust_level IN ('strong', 'maximum'),
+    'phone_required', v_policy->>'phone' = 'required',
     'phone_verified', v_phone_verified,
-    'id_required', v_trust_level = 'maximum',
-    'id_verified', FALSE,
-    'can_sign', CASE
-      WHEN v_trust_level = 'basic' THEN TRUE
-      WHEN v_trust_level = 'verified' THEN v_email_verified
-      WHEN v_trust_level = 'strong' THEN v_email_verified AND v_phone_verified
-      WHEN v_trust_level = 'maximum' THEN FALSE
-      ELSE FALSE
-    END
+    'id_required', v_policy->>'id' = 'required',
+    'id_verified', v_id_verified,
+    'can_sign', (v_policy->>'email' IS DISTINCT FROM 'required' OR v_email_verified)
+      AND (v_policy->>'phone' IS DISTINCT FROM 'required' OR v_phone_verified)
+      AND (v_policy->>'id' IS DISTINCT FROM 'required' OR v_id_verified)
+      AND v_email_domain_allowed
+      AND v_account_ok
   );
 END;
 $$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -876,16 +2544,64 @@ GRANT ALL ON ALL SEQUENCES IN SCHEMA public TO postgres, anon, authenticated, se
 GRANT EXECUTE ON FUNCTION public.get_deal_by_public_id(TEXT) TO authenticated, anon;
 GRANT EXECUTE ON FUNCTION public.get_deal_verifications(UUID) TO authenticated, anon, service_role;
 GRANT EXECUTE ON FUNCTION public.validate_access_token(UUID, TEXT) TO authenticated, anon;
-GRANT EXECUTE ON FUNCTION public.confirm_deal_with_token(UUID, TEXT, TEXT, TEXT, TEXT, UUID, TIMESTAMPTZ) TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION public.confirm_deal_with_token(UUID, TEXT, TEXT, TEXT, TEXT, UUID, TIMESTAMPTZ, TEXT, TEXT, TEXT, JSONB, JSONB) TO authenticated, anon;
 GRANT EXECUTE ON FUNCTION public.get_access_token_for_deal(UUID) TO authenticated, anon;
 GRANT EXECUTE ON FUNCTION public.get_token_status_for_deal(UUID) TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION public.get_signer_by_token(UUID, TEXT) TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION public.is_deal_signer(UUID) TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION public.countersign_deal(UUID, TEXT, TEXT, TIMESTAMPTZ, TEXT, TEXT, TEXT, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.propose_deal_term(UUID, TEXT, TEXT, TEXT, TEXT) TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION public.resolve_term_proposal(UUID, BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_term_proposals(UUID, TEXT) TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION public.get_deal_versions(TEXT) TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION public.get_deal_branding(TEXT) TO authenticated, anon, service_role;
+GRANT EXECUTE ON FUNCTION public.extend_deal_deadline(UUID, TIMESTAMPTZ) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.add_deal_attachment(UUID, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_deal_document(UUID, JSONB) TO authenticated;
 GRANT EXECUTE ON FUNCTION public.log_audit_event(UUID, audit_event_type, actor_type, JSONB, UUID, INET, TEXT) TO authenticated, anon, service_role;
 GRANT EXECUTE ON FUNCTION public.get_deal_audit_logs(UUID, TEXT) TO authenticated, anon, service_role;
 GRANT EXECUTE ON FUNCTION public.lookup_profile_by_email(TEXT) TO authenticated;
 GRANT EXECUTE ON FUNCTION public.check_email_for_deal(TEXT, TEXT) TO authenticated, anon;
-GRANT EXECUTE ON FUNCTION public.create_verification_code(UUID, TEXT, TEXT, TEXT, INT) TO authenticated, anon, service_role;
-GRANT EXECUTE ON FUNCTION public.verify_code(UUID, TEXT, TEXT, TEXT) TO authenticated, anon, service_role;
-GRANT EXECUTE ON FUNCTION public.get_deal_verification_status(UUID) TO authenticated, anon, service_role;
+GRANT EXECUTE ON FUNCTION public.create_verification_code(UUID, TEXT, TEXT, TEXT, TEXT, INT) TO authenticated, anon, service_role;
+GRANT EXECUTE ON FUNCTION public.verify_code(UUID, TEXT, TEXT, TEXT, TEXT) TO authenticated, anon, service_role;
+GRANT EXECUTE ON FUNCTION public.get_deal_verification_status(UUID, TEXT) TO authenticated, anon, service_role;
+GRANT EXECUTE ON FUNCTION public.deal_verification_policy(trust_level, JSONB) TO authenticated, anon, service_role;
+
+-- Server-only RPCs: called with the service role key once the server has done its
+-- own checks. The blanket grant above includes them, so take them back explicitly.
+REVOKE EXECUTE ON FUNCTION public.expire_overdue_deals() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.expire_overdue_deals() TO service_role;
+REVOKE EXECUTE ON FUNCTION public.set_deal_timestamp(UUID, TEXT, TIMESTAMPTZ, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.set_deal_timestamp(UUID, TEXT, TIMESTAMPTZ, TEXT) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.set_deal_pdf_archive(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.set_deal_pdf_archive(UUID, TEXT, TEXT) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.record_id_verification(UUID, TEXT, TEXT, JSONB, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_id_verification(UUID, TEXT, TEXT, JSONB, UUID) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.track_sms_delivery(UUID, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.track_sms_delivery(UUID, TEXT, TEXT, TEXT) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.record_sms_delivery_status(TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_sms_delivery_status(TEXT, TEXT, TEXT, TEXT) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.record_passkey_signature(UUID, UUID, TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_passkey_signature(UUID, UUID, TEXT, TEXT, TEXT, TEXT) TO service_role;
+
+-- Internal helpers, only called from the functions above
+REVOKE EXECUTE ON FUNCTION public.is_deal_party_account(UUID, UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.deal_policy_met(UUID, UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Creators only write the deal columns the app sets directly (creating, voiding,
+-- first view, nudges and an up-front creator signature). Seals, timestamps, the
+-- PDF archive, attachments, the signed document and term acknowledgements only
+-- change through the SECURITY DEFINER functions above.
+REVOKE INSERT, UPDATE ON public.deals FROM anon, authenticated;
+GRANT INSERT (
+  public_id, creator_id, recipient_id, recipient_name, recipient_email, title, description,
+  template_id, terms, status, trust_level, verification_policy, signing_mode,
+  creator_signature_mode, parent_deal_id, version, previous_seal, expires_at
+) ON public.deals TO authenticated;
+GRANT UPDATE (
+  status, voided_at, viewed_at, last_nudged_at, creator_signature_url,
+  creator_signature_method, creator_signature_vector, creator_signed_at
+) ON public.deals TO authenticated;
 
 -- ============================================
 -- 10. DEMO DATA SEED
@@ -946,7 +2662,7 @@ BEGIN
   -- Create email verification record
   INSERT INTO public.deal_verifications (deal_id, verification_type, verified_value, verified_at)
   VALUES (v_deal_id, 'email', 'jane@proofo.app', '2025-12-15 14:25:00+00')
-  ON CONFLICT (deal_id, verification_type) DO NOTHING;
+  ON CONFLICT (deal_id, signer_id, verification_type) DO NOTHING;
 
   -- Create audit log entries
   INSERT INTO public.audit_log (deal_id, event_type, actor_id, actor_type, metadata, created_at)
@@ -975,6 +2691,27 @@ END $$;
 -- ============================================
 -- Create a bucket named "signatures" with:
 -- - Public bucket: YES
--- - Allowed MIME types: image/png, image/jpeg
--- - Max file size: 1MB
+-- - Allowed MIME types: image/png, image/jpeg, application/pdf
+-- - Max file size: 5MB (signatures are capped at 1MB by the app)
 -- Add policies for public read and authenticated/anon uploads.
+--
+-- Archived PDF receipts are stored next to the signatures as <deal id>/receipt-<id>.pdf.
+--
+-- Branding logos are stored in the "avatars" bucket under <user id>/branding/.
+--
+-- Create a bucket named "attachments" for files creators attach to deals:
+-- - Public bucket: YES
+-- - Allowed MIME types: image/png, image/jpeg, image/webp, application/pdf
+-- - Max file size: 5MB
+-- Files are stored as <deal id>/<attachment id>.<ext>. Add policies for public read
+-- and authenticated uploads; files are never updated in place.
+--
+-- The PDF of a "sign a document" deal is stored in the same bucket as
+-- <deal id>/document-<id>.pdf.
+
+-- ============================================
+-- SCHEDULED JOBS (Optional)
+-- ============================================
+-- Deal expiry runs through GET /api/cron/expire-deals (see README).
+-- Alternatively, with the pg_cron extension enabled, schedule it in the database:
+-- SELECT cron.schedule('expire-overdue-deals', '*/15 * * * *', 'SELECT public.expire_overdue_deals()');